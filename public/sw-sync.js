@@ -0,0 +1,36 @@
+/*
+ * Background sync for the outbox, loaded into the generated service worker.
+ *
+ * The outbox is sent by the page, which holds the Google access token, so a
+ * sync event asks an open page to flush and waits for it. The browser retries
+ * the sync later if no page answered or changes are still pending.
+ */
+const OUTBOX_SYNC_TAG = 'recettier-outbox';
+const FLUSH_TIMEOUT_MS = 60 * 1000;
+
+function askClientToFlush(client) {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error('Sync timed out')), FLUSH_TIMEOUT_MS);
+    channel.port1.onmessage = event => {
+      clearTimeout(timer);
+      if (event.data && event.data.done) {
+        resolve();
+      } else {
+        reject(new Error('Changes are still pending'));
+      }
+    };
+    client.postMessage({ type: OUTBOX_SYNC_TAG }, [channel.port2]);
+  });
+}
+
+self.addEventListener('sync', event => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then(clients => {
+      if (clients.length === 0) throw new Error('No open page to sync from');
+      return askClientToFlush(clients[0]);
+    })
+  );
+});
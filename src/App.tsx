@@ -1,45 +1,60 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { CssBaseline, CircularProgress, Typography, Box } from '@mui/material';
+import { BrowserRouter, Navigate, Outlet, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeProvider';
 import { useAuth } from './hooks/useAuth';
 import { initializeSecurity } from './utils/security';
+import { getStorageBackend } from './services/storage';
+import { useAppStore } from './stores/appStore';
+import { usePreferencesStore } from './stores/preferencesStore';
 import Layout from './components/layout/Layout';
+import RequireAuth, { type LoginLocationState } from './components/layout/RequireAuth';
 import PWAInstallPrompt from './components/common/PWAInstallPrompt';
 import LoginPage from './pages/LoginPage';
 import DashboardPage from './pages/DashboardPage';
 import RecipesPage from './pages/RecipesPage';
 import ShoppingPage from './pages/ShoppingPage';
 import IngredientsPage from './pages/IngredientsPage';
+import MealPlannerPage from './pages/MealPlannerPage';
+import PantryPage from './pages/PantryPage';
 import SettingsPage from './pages/SettingsPage';
+import NotFoundPage from './pages/NotFoundPage';
 
 const AppContent: React.FC = () => {
-  const { isAuthenticated, isLoading } = useAuth();
-  const [currentPage, setCurrentPage] = useState('/');
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Local storage backends (IndexedDB, in-memory) can be used without a Google account
+  const hasAccess = isAuthenticated || !getStorageBackend().requiresAuth;
+  const { setUser, loadAll, reset, applySyncedChange, purgeExpiredTrash } = useAppStore.getState();
 
-  const handleNavigate = (path: string) => {
-    setCurrentPage(path);
-  };
+  useEffect(() => {
+    setUser(user);
+  }, [user, setUser]);
 
-  const renderPage = () => {
-    // Allow access to settings even when not authenticated
-    if (currentPage === '/settings') {
-      return <SettingsPage onNavigateBack={!isAuthenticated ? () => setCurrentPage('/') : undefined} />;
-    }
-    
-    switch (currentPage) {
-      case '/':
-        return <DashboardPage />;
-      case '/recipes':
-        return <RecipesPage />;
-      case '/shopping':
-        return <ShoppingPage />;
-      case '/ingredients':
-        return <IngredientsPage />;
-      default:
-        return <DashboardPage />;
+  // Load data once storage is usable, and drop it when the user signs out.
+  // The trash is cleared of anything kept past its retention period on load.
+  useEffect(() => {
+    if (isLoading) return;
+    if (hasAccess) {
+      loadAll().then(() => purgeExpiredTrash(usePreferencesStore.getState().trashRetentionDays));
+    } else {
+      reset();
     }
-  };
+  }, [hasAccess, isLoading, loadAll, reset, purgeExpiredTrash]);
+
+  // Send changes made offline, now and whenever the connection comes back
+  useEffect(() => {
+    const sync = getStorageBackend().sync;
+    if (!hasAccess || !sync) return;
+    const unsubscribe = sync.subscribeToChanges(applySyncedChange);
+    const stop = sync.start();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [hasAccess, applySyncedChange]);
 
   if (isLoading) {
     return (
@@ -59,20 +74,44 @@ const AppContent: React.FC = () => {
     );
   }
 
-  if (!isAuthenticated && currentPage !== '/settings') {
-    return <LoginPage onNavigateToSettings={() => setCurrentPage('/settings')} />;
-  }
-
-  // If not authenticated but on settings page, show settings without layout
-  if (!isAuthenticated && currentPage === '/settings') {
-    return <SettingsPage onNavigateBack={() => setCurrentPage('/')} />;
-  }
+  // Back to the page a guarded route was opened at, once signed in
+  const returnTo = (location.state as LoginLocationState | null)?.from ?? '/';
 
   return (
-    <Layout onNavigate={handleNavigate}>
-      {renderPage()}
-      <PWAInstallPrompt />
-    </Layout>
+    <Routes>
+      <Route
+        path="/login"
+        element={hasAccess
+          ? <Navigate to={returnTo} replace />
+          : <LoginPage onNavigateToSettings={() => navigate('/settings', { state: location.state })} />}
+      />
+      <Route
+        element={hasAccess ? (
+          <Layout>
+            <Outlet />
+            <PWAInstallPrompt />
+          </Layout>
+        ) : <Outlet />}
+      >
+        {/* Settings are reachable before signing in, to enter an API key */}
+        <Route
+          path="/settings"
+          element={<SettingsPage onNavigateBack={!hasAccess ? () => navigate('/login', { state: location.state }) : undefined} />}
+        />
+        <Route element={<RequireAuth hasAccess={hasAccess} />}>
+          <Route index element={<DashboardPage />} />
+          <Route path="/recipes" element={<RecipesPage />} />
+          <Route path="/recipes/:recipeId" element={<RecipesPage />} />
+          <Route path="/recipes/:recipeId/edit" element={<RecipesPage />} />
+          <Route path="/shopping" element={<ShoppingPage />} />
+          <Route path="/shopping/:listId" element={<ShoppingPage />} />
+          <Route path="/ingredients" element={<IngredientsPage />} />
+          <Route path="/planner" element={<MealPlannerPage />} />
+          <Route path="/pantry" element={<PantryPage />} />
+          <Route path="*" element={<NotFoundPage />} />
+        </Route>
+      </Route>
+    </Routes>
   );
 };
 
@@ -85,9 +124,12 @@ function App() {
   return (
     <ThemeProvider>
       <CssBaseline />
-      <AuthProvider>
-        <AppContent />
-      </AuthProvider>
+      {/* Served from a sub-path on GitHub Pages, see `base` in vite.config.ts */}
+      <BrowserRouter basename={import.meta.env.BASE_URL}>
+        <AuthProvider>
+          <AppContent />
+        </AuthProvider>
+      </BrowserRouter>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+} from '@mui/material';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { getStorageBackend } from '../../services/storage';
+
+interface SignOutDialogProps {
+  onClose: () => void;
+  onSignOut: () => void;
+}
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Asked before signing out while changes have not reached Drive, since
+ * signing out drops the local copy and the outbox with them
+ */
+const SignOutDialog: React.FC<SignOutDialogProps> = ({ onClose, onSignOut }) => {
+  const isOnline = useOnlineStatus();
+  const { pending, conflicts, isSyncing } = useSyncStatus();
+  const [isFlushing, setIsFlushing] = useState(false);
+
+  const handleSync = async () => {
+    setIsFlushing(true);
+    // Errors show up in the sync status
+    await getStorageBackend().sync?.flush().catch(() => undefined);
+    setIsFlushing(false);
+  };
+
+  const unsynced = [
+    pending.length > 0 && `${pluralize(pending.length, 'change')} not synced yet`,
+    conflicts.length > 0 && `${pluralize(conflicts.length, 'conflict')} not resolved`,
+  ].filter(Boolean).join(' and ');
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{unsynced ? 'Sign out and lose changes?' : 'Sign out?'}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          {unsynced
+            ? `This device has ${unsynced}. Signing out now deletes them for good.`
+            : 'Everything has been synced.'}
+          {unsynced && !isOnline && ' Reconnect to the internet to send them to Google Drive first.'}
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        {pending.length > 0 && (
+          <Button onClick={handleSync} disabled={!isOnline || isSyncing || isFlushing}>
+            Sync now
+          </Button>
+        )}
+        <Button color={unsynced ? 'error' : 'primary'} onClick={onSignOut}>
+          {unsynced ? 'Sign out anyway' : 'Sign out'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SignOutDialog;
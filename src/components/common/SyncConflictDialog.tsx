@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Paper,
+  Alert,
+} from '@mui/material';
+import type { FieldConflict, SyncConflict } from '../../types';
+import { useAppStore, selectIngredients } from '../../stores/appStore';
+import { getStorageBackend } from '../../services/storage';
+import { resolveConflicts, type ConflictChoice } from '../../utils/merge';
+
+interface SyncConflictDialogProps {
+  conflict: SyncConflict;
+  /** How many conflicts are waiting, this one included */
+  count: number;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  items: 'Item',
+  ingredients: 'Ingredient',
+  instructions: 'Steps',
+  prepTime: 'Prep time',
+  cookTime: 'Cook time',
+  addedToPantry: 'Added to pantry',
+};
+
+// Shown in the label or up front rather than among the details
+const ELEMENT_IDENTITY_FIELDS = new Set(['ingredientId', 'name', 'quantity', 'unit']);
+
+const humanize = (field: string) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined || value === null) return 'Removed';
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(describeValue).join('\n') : 'None';
+  if (typeof value === 'object') {
+    const { quantity, unit } = value as Record<string, unknown>;
+    const details = Object.entries(value)
+      .filter(([key, detail]) => !ELEMENT_IDENTITY_FIELDS.has(key) && detail !== undefined && detail !== '')
+      .map(([key, detail]) => `${humanize(key)}: ${describeValue(detail)}`);
+    return [quantity !== undefined ? `${quantity} ${unit ?? ''}`.trim() : '', ...details].filter(Boolean).join(' · ');
+  }
+  return String(value);
+};
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflict, count, onClose }) => {
+  const ingredients = useAppStore(selectIngredients);
+  const [choices, setChoices] = useState<ConflictChoice[]>(() => conflict.fields.map(() => 'local'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const entity = conflict.local as { title?: string; name?: string };
+  const entityName = entity.title ?? entity.name ?? 'an item';
+
+  const getFieldLabel = (field: FieldConflict) => {
+    const label = FIELD_LABELS[field.field] ?? humanize(field.field);
+    if (field.key === undefined) return label;
+    const element = (field.local ?? field.remote) as { ingredientId?: string; name?: string };
+    const elementName = ingredients.find(ingredient => ingredient.id === element.ingredientId)?.name ?? element.name;
+    return elementName ? `${label}: ${elementName}` : label;
+  };
+
+  const save = async (picked: ConflictChoice[]) => {
+    try {
+      setIsSaving(true);
+      setSaveError('');
+      await getStorageBackend().sync?.resolveConflict(conflict.key, resolveConflicts(conflict.merged, conflict.fields, picked));
+      // Otherwise the next conflict takes this one's place
+      if (count === 1) onClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderVersion = (index: number, choice: ConflictChoice, value: unknown) => (
+    <Paper
+      variant="outlined"
+      role="radio"
+      aria-checked={choices[index] === choice}
+      tabIndex={0}
+      onClick={() => setChoices(prev => prev.map((existing, i) => (i === index ? choice : existing)))}
+      sx={{
+        flex: 1,
+        p: 1.5,
+        cursor: 'pointer',
+        borderColor: choices[index] === choice ? 'primary.main' : 'divider',
+        borderWidth: choices[index] === choice ? 2 : 1,
+      }}
+    >
+      <Typography variant="caption" color="text.secondary">
+        {choice === 'local' ? 'This device' : 'Other device'}
+      </Typography>
+      <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+        {describeValue(value)}
+      </Typography>
+    </Paper>
+  );
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>
+        {count > 1 ? `Changed on two devices (1 of ${count})` : 'Changed on two devices'}
+      </DialogTitle>
+      <DialogContent>
+        {saveError && <Alert severity="error" sx={{ mb: 2 }}>{saveError}</Alert>}
+        <DialogContentText sx={{ mb: 2 }}>
+          "{entityName}" was edited here and on another device. Other changes were combined;
+          pick which version to keep for each of these.
+        </DialogContentText>
+        {conflict.fields.map((field, index) => (
+          <Box key={`${field.field}/${field.key ?? ''}`} sx={{ mb: 2 }} role="radiogroup" aria-label={getFieldLabel(field)}>
+            <Typography variant="subtitle2" gutterBottom>
+              {getFieldLabel(field)}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {renderVersion(index, 'local', field.local)}
+              {renderVersion(index, 'remote', field.remote)}
+            </Box>
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Later
+        </Button>
+        <Button onClick={() => save(conflict.fields.map(() => 'remote'))} disabled={isSaving}>
+          Keep theirs
+        </Button>
+        <Button variant="contained" onClick={() => save(choices)} disabled={isSaving}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SyncConflictDialog;
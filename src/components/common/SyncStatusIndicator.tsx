@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Badge, IconButton, Tooltip } from '@mui/material';
+import { CloudDone, CloudOff, CloudSync, SyncProblem } from '@mui/icons-material';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { getStorageBackend } from '../../services/storage';
+import SyncConflictDialog from './SyncConflictDialog';
+
+const pluralize = (count: number) => `${count} change${count === 1 ? '' : 's'}`;
+
+/**
+ * Connection and sync state for the app bar; clicking opens pending
+ * conflicts, or retries the sync when there are none
+ */
+const SyncStatusIndicator: React.FC = () => {
+  const isOnline = useOnlineStatus();
+  const { pending, conflicts, isSyncing, error } = useSyncStatus();
+  const sync = getStorageBackend().sync;
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  let title: string;
+  let icon: React.ReactElement;
+  if (conflicts.length > 0) {
+    title = `${pluralize(conflicts.length)} made on two devices need your attention`;
+    icon = <SyncProblem />;
+  } else if (!isOnline) {
+    title = pending.length > 0
+      ? `Offline: ${pluralize(pending.length)} will sync when you're back online`
+      : 'Offline: changes are kept on this device';
+    icon = <CloudOff />;
+  } else if (error) {
+    title = error;
+    icon = <SyncProblem />;
+  } else if (isSyncing || pending.length > 0) {
+    title = `Syncing ${pluralize(pending.length)}...`;
+    icon = <CloudSync />;
+  } else {
+    title = 'All changes synced';
+    icon = <CloudDone />;
+  }
+
+  const handleClick = () => {
+    if (conflicts.length > 0) {
+      setShowConflicts(true);
+    } else {
+      void sync?.flush();
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title={title}>
+        <span>
+          <IconButton
+            color="inherit"
+            aria-label={title}
+            disabled={!sync || (!isOnline && conflicts.length === 0)}
+            onClick={handleClick}
+            sx={{ '&.Mui-disabled': { color: 'inherit', opacity: 0.7 } }}
+          >
+            <Badge badgeContent={conflicts.length || pending.length} color={conflicts.length > 0 ? 'error' : 'secondary'}>
+              {icon}
+            </Badge>
+          </IconButton>
+        </span>
+      </Tooltip>
+
+      {showConflicts && conflicts.length > 0 && (
+        <SyncConflictDialog
+          key={conflicts[0].key}
+          conflict={conflicts[0]}
+          count={conflicts.length}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
+    </>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { RestoreFromTrash, DeleteForever } from '@mui/icons-material';
+import type { EntityCollection } from '../../types';
+import { useAppStore, selectTrash } from '../../stores/appStore';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import {
+  TRASH_RETENTION_OPTIONS,
+  describeTrashedEntity,
+  getDaysUntilPurge,
+  listTrash,
+} from '../../utils/trash';
+
+const COLLECTION_NAMES: Record<EntityCollection, string> = {
+  recipes: 'Recipe',
+  ingredients: 'Ingredient',
+  shoppingLists: 'Shopping list',
+  mealPlans: 'Planned meal',
+  pantryItems: 'Pantry item',
+};
+
+/**
+ * Deleted items, to restore or delete for good, and how long they are kept
+ */
+const TrashManager: React.FC = () => {
+  const trash = useAppStore(selectTrash);
+  const recipes = useAppStore(state => state.recipes);
+  const ingredients = useAppStore(state => state.ingredients);
+  const restoreFromTrash = useAppStore(state => state.restoreFromTrash);
+  const purgeFromTrash = useAppStore(state => state.purgeFromTrash);
+  const emptyTrash = useAppStore(state => state.emptyTrash);
+  const retentionDays = usePreferencesStore(state => state.trashRetentionDays);
+  const setRetentionDays = usePreferencesStore(state => state.setTrashRetentionDays);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const items = listTrash(trash);
+  const lookups = {
+    recipes: [...recipes, ...trash.recipes],
+    ingredients: [...ingredients, ...trash.ingredients],
+  };
+
+  // Failures are reported through the store error
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    await action().catch(() => undefined);
+    setBusyId(null);
+  };
+
+  const describeDaysLeft = (days: number) => {
+    if (days === 0) return 'Deleted for good on next start';
+    return `Deleted for good in ${days} day${days === 1 ? '' : 's'}`;
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" alignItems="center" gap={2} flexWrap="wrap">
+        <TextField
+          select
+          size="small"
+          label="Keep deleted items for"
+          value={retentionDays}
+          onChange={event => setRetentionDays(Number(event.target.value))}
+          sx={{ minWidth: 200 }}
+        >
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <MenuItem key={days} value={days}>{days} days</MenuItem>
+          ))}
+        </TextField>
+        <Button
+          color="error"
+          variant="outlined"
+          onClick={() => setConfirmEmpty(true)}
+          disabled={items.length === 0 || busyId !== null}
+          sx={{ ml: 'auto' }}
+        >
+          Empty trash
+        </Button>
+      </Box>
+
+      {items.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          The trash is empty.
+        </Typography>
+      ) : (
+        <List dense disablePadding aria-label="Deleted items">
+          {items.map(({ collection, entity }) => (
+            <ListItem
+              key={`${collection}/${entity.id}`}
+              disableGutters
+              secondaryAction={
+                <>
+                  <Tooltip title="Restore">
+                    <span>
+                      <IconButton
+                        aria-label="Restore"
+                        disabled={busyId !== null}
+                        onClick={() => run(entity.id, () => restoreFromTrash(collection, entity.id))}
+                      >
+                        <RestoreFromTrash />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Delete forever">
+                    <span>
+                      <IconButton
+                        edge="end"
+                        aria-label="Delete forever"
+                        disabled={busyId !== null}
+                        onClick={() => run(entity.id, () => purgeFromTrash(collection, entity.id))}
+                      >
+                        <DeleteForever />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </>
+              }
+            >
+              <ListItemText
+                primary={describeTrashedEntity(collection, entity, lookups)}
+                secondary={`${COLLECTION_NAMES[collection]} · ${describeDaysLeft(getDaysUntilPurge(entity, retentionDays))}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Dialog open={confirmEmpty} onClose={() => setConfirmEmpty(false)}>
+        <DialogTitle>Empty trash?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {items.length} item{items.length === 1 ? '' : 's'} will be deleted for good. This cannot be undone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmEmpty(false)}>Cancel</Button>
+          <Button
+            color="error"
+            onClick={() => {
+              setConfirmEmpty(false);
+              void run('all', emptyTrash);
+            }}
+          >
+            Empty trash
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TrashManager;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Snackbar, Button } from '@mui/material';
+import { useAppStore, selectTrash } from '../../stores/appStore';
+import { describeTrashedEntity } from '../../utils/trash';
+
+/**
+ * Confirms the last delete with a way to take it back
+ */
+const UndoTrashSnackbar: React.FC = () => {
+  const lastTrashed = useAppStore(state => state.lastTrashed);
+  const trash = useAppStore(selectTrash);
+  const recipes = useAppStore(state => state.recipes);
+  const ingredients = useAppStore(state => state.ingredients);
+  const restoreFromTrash = useAppStore(state => state.restoreFromTrash);
+  const dismissLastTrashed = useAppStore(state => state.dismissLastTrashed);
+
+  const entity = lastTrashed && trash[lastTrashed.collection].find(item => item.id === lastTrashed.id);
+  const name = lastTrashed && entity
+    ? describeTrashedEntity(lastTrashed.collection, entity, {
+        recipes: [...recipes, ...trash.recipes],
+        ingredients: [...ingredients, ...trash.ingredients],
+      })
+    : '';
+
+  const handleUndo = () => {
+    if (!lastTrashed) return;
+    // Failures are reported through the store error
+    restoreFromTrash(lastTrashed.collection, lastTrashed.id).catch(() => undefined);
+  };
+
+  return (
+    <Snackbar
+      key={lastTrashed?.id}
+      open={!!entity}
+      autoHideDuration={6000}
+      onClose={(_event, reason) => reason !== 'clickaway' && dismissLastTrashed()}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      sx={{ bottom: { xs: 90, sm: 24 } }}
+      message={`"${name}" moved to the trash`}
+      action={
+        <Button color="secondary" size="small" onClick={handleUndo}>
+          Undo
+        </Button>
+      }
+    />
+  );
+};
+
+export default UndoTrashSnackbar;
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Autocomplete,
+  TextField,
+  Alert,
+} from '@mui/material';
+import type { Ingredient } from '../../types';
+import { useAppStore, selectIngredients, selectRecipes, selectShoppingLists } from '../../stores/appStore';
+import { findIngredientUsage } from '../../utils/ingredientRegistry';
+
+interface DeleteIngredientDialogProps {
+  ingredient: Ingredient;
+  onClose: () => void;
+}
+
+const DeleteIngredientDialog: React.FC<DeleteIngredientDialogProps> = ({ ingredient, onClose }) => {
+  const ingredients = useAppStore(selectIngredients);
+  const recipes = useAppStore(selectRecipes);
+  const shoppingLists = useAppStore(selectShoppingLists);
+  const deleteIngredient = useAppStore(state => state.deleteIngredient);
+
+  const [replacement, setReplacement] = useState<Ingredient | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState('');
+
+  const usage = useMemo(
+    () => findIngredientUsage(ingredient.id, recipes, shoppingLists),
+    [ingredient.id, recipes, shoppingLists]
+  );
+  const isUsed = usage.recipes.length > 0 || usage.shoppingLists.length > 0;
+  const candidates = ingredients.filter(other => other.id !== ingredient.id);
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+      setDeleteError('');
+      await deleteIngredient(ingredient.id, replacement?.id);
+      onClose();
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete ingredient');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Delete "{ingredient.name}"?</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {deleteError && <Alert severity="error">{deleteError}</Alert>}
+        {isUsed ? (
+          <>
+            <DialogContentText>
+              This ingredient is used by {usage.recipes.length} recipe(s) and{' '}
+              {usage.shoppingLists.length} shopping list(s). Choose a replacement to
+              keep those rows, or leave it empty to remove them once the ingredient is
+              purged from the trash.
+            </DialogContentText>
+            <Autocomplete
+              options={candidates}
+              value={replacement}
+              onChange={(_event, value) => setReplacement(value)}
+              getOptionLabel={option => option.name}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              renderInput={params => <TextField {...params} label="Replace with" />}
+            />
+          </>
+        ) : (
+          <DialogContentText>
+            No recipe or shopping list uses this ingredient.
+          </DialogContentText>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isDeleting}>
+          Cancel
+        </Button>
+        <Button color="error" onClick={handleDelete} disabled={isDeleting}>
+          {replacement ? 'Replace and delete' : 'Delete'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeleteIngredientDialog;
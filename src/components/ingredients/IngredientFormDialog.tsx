@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  Chip,
+  Alert,
+  Box,
+  Typography,
+} from '@mui/material';
+import type { Ingredient, NutritionProfile } from '../../types';
+import { useAppStore, selectIngredients } from '../../stores/appStore';
+import {
+  INGREDIENT_CATEGORIES,
+  DEFAULT_CATEGORY,
+  validateIngredient,
+  isIngredientValid,
+  normalizeIngredientDraft,
+  type IngredientDraft,
+} from '../../utils/ingredientRegistry';
+import { NUTRIENTS, findNutritionReference, type Nutrient } from '../../utils/nutrition';
+
+interface IngredientFormDialogProps {
+  open: boolean;
+  /** Ingredient being edited; omit to create a new one */
+  ingredient?: Ingredient;
+  onClose: () => void;
+}
+
+const emptyDraft: IngredientDraft = {
+  name: '',
+  category: DEFAULT_CATEGORY,
+  defaultUnit: '',
+  alternativeNames: [],
+};
+
+type NutritionFields = Record<Nutrient, string>;
+
+function toNutritionFields(nutrition?: NutritionProfile): NutritionFields {
+  return Object.fromEntries(
+    NUTRIENTS.map(({ key }) => [key, nutrition ? String(nutrition[key]) : ''])
+  ) as NutritionFields;
+}
+
+// Blank fields count as 0 once any value is given
+function parseNutritionFields(fields: NutritionFields): NutritionProfile | undefined {
+  if (NUTRIENTS.every(({ key }) => !fields[key].trim())) return undefined;
+  return Object.fromEntries(
+    NUTRIENTS.map(({ key }) => [key, Number(fields[key].trim().replace(',', '.') || 0)])
+  ) as unknown as NutritionProfile;
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() ? Number(value.trim().replace(',', '.')) : undefined;
+}
+
+const IngredientFormDialog: React.FC<IngredientFormDialogProps> = ({ open, ingredient, onClose }) => {
+  const ingredients = useAppStore(selectIngredients);
+  const createIngredient = useAppStore(state => state.createIngredient);
+  const updateIngredient = useAppStore(state => state.updateIngredient);
+
+  const [draft, setDraft] = useState<IngredientDraft>(() => ingredient ?? emptyDraft);
+  const [density, setDensity] = useState(ingredient?.density?.toString() ?? '');
+  const [pieceWeight, setPieceWeight] = useState(ingredient?.pieceWeight?.toString() ?? '');
+  const [nutrition, setNutrition] = useState(() => toNutritionFields(ingredient?.nutrition));
+  const [submitted, setSubmitted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const categories = useMemo(
+    () => [...new Set([...INGREDIENT_CATEGORIES, ...ingredients.map(existing => existing.category)])]
+      .filter(Boolean)
+      .sort(),
+    [ingredients]
+  );
+
+  // Empty means unknown; anything else must parse to a positive number
+  const withDensity: IngredientDraft = {
+    ...draft,
+    density: parseOptionalNumber(density),
+    pieceWeight: parseOptionalNumber(pieceWeight),
+    nutrition: parseNutritionFields(nutrition),
+  };
+  const errors = submitted ? validateIngredient(withDensity, ingredients, ingredient?.id) : {};
+  const reference = findNutritionReference(draft);
+
+  const applyReference = () => {
+    if (!reference) return;
+    setNutrition(toNutritionFields(reference.nutrition));
+    if (!density.trim() && reference.density) setDensity(String(reference.density));
+    if (!pieceWeight.trim() && reference.pieceWeight) setPieceWeight(String(reference.pieceWeight));
+  };
+
+  const update = <K extends keyof IngredientDraft>(field: K, value: IngredientDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    setSubmitted(true);
+    if (!isIngredientValid(validateIngredient(withDensity, ingredients, ingredient?.id))) return;
+
+    const normalized = normalizeIngredientDraft(withDensity);
+    try {
+      setIsSaving(true);
+      setSaveError('');
+      if (ingredient) {
+        await updateIngredient({ ...normalized, id: ingredient.id });
+      } else {
+        await createIngredient({ ...normalized, id: crypto.randomUUID() });
+      }
+      onClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save ingredient');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{ingredient ? 'Edit Ingredient' : 'New Ingredient'}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {saveError && <Alert severity="error">{saveError}</Alert>}
+        <TextField
+          label="Name"
+          value={draft.name}
+          onChange={e => update('name', e.target.value)}
+          error={!!errors.name}
+          helperText={errors.name}
+          required
+          autoFocus
+          fullWidth
+        />
+        <Autocomplete
+          freeSolo
+          options={categories}
+          value={draft.category}
+          onInputChange={(_event, value) => update('category', value)}
+          renderInput={params => <TextField {...params} label="Category" />}
+        />
+        <TextField
+          label="Default unit"
+          value={draft.defaultUnit}
+          onChange={e => update('defaultUnit', e.target.value)}
+          placeholder="g, ml, piece..."
+          fullWidth
+        />
+        <TextField
+          label="Density (g/ml)"
+          value={density}
+          onChange={e => setDensity(e.target.value)}
+          error={!!errors.density}
+          helperText={errors.density ?? 'Optional. Lets cups and spoons be converted to grams (flour is about 0.53)'}
+          slotProps={{ htmlInput: { inputMode: 'decimal' } }}
+          fullWidth
+        />
+        <TextField
+          label="Piece weight (g)"
+          value={pieceWeight}
+          onChange={e => setPieceWeight(e.target.value)}
+          error={!!errors.pieceWeight}
+          helperText={errors.pieceWeight ?? 'Optional. Lets pieces and cloves be converted to grams (an egg is about 50)'}
+          slotProps={{ htmlInput: { inputMode: 'decimal' } }}
+          fullWidth
+        />
+        <Autocomplete
+          multiple
+          freeSolo
+          options={[] as string[]}
+          value={draft.alternativeNames}
+          onChange={(_event, names) => update('alternativeNames', names)}
+          renderValue={(names, getItemProps) =>
+            names.map((name, index) => {
+              const { key, ...itemProps } = getItemProps({ index });
+              return <Chip key={key} label={name} size="small" {...itemProps} />;
+            })
+          }
+          renderInput={params => (
+            <TextField
+              {...params}
+              label="Alternative names"
+              placeholder="Type and press Enter"
+              helperText="Other names or translations, used by search and recipe import"
+            />
+          )}
+        />
+        <Box display="flex" alignItems="center" justifyContent="space-between" gap={2}>
+          <Typography variant="subtitle1" component="h3">
+            Nutrition per 100 g
+          </Typography>
+          {reference && (
+            <Button size="small" onClick={applyReference}>
+              Use values for {reference.name}
+            </Button>
+          )}
+        </Box>
+        {errors.nutrition && <Alert severity="error">{errors.nutrition}</Alert>}
+        <Box display="grid" gridTemplateColumns="repeat(3, 1fr)" gap={2}>
+          {NUTRIENTS.map(({ key, label, unit }) => (
+            <TextField
+              key={key}
+              label={`${label} (${unit})`}
+              value={nutrition[key]}
+              onChange={e => setNutrition(prev => ({ ...prev, [key]: e.target.value }))}
+              size="small"
+              slotProps={{ htmlInput: { inputMode: 'decimal' } }}
+            />
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default IngredientFormDialog;
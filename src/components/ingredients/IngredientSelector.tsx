@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Autocomplete, TextField, createFilterOptions } from '@mui/material';
+import type { Ingredient } from '../../types';
+import { useAppStore, selectIngredients } from '../../stores/appStore';
+import { useReferencedIngredients } from '../../hooks/useReferencedIngredients';
+import { DEFAULT_CATEGORY } from '../../utils/ingredientRegistry';
+
+interface NewIngredientOption {
+  inputValue: string;
+  isNew: true;
+}
+
+type IngredientOption = Ingredient | NewIngredientOption;
+
+interface IngredientSelectorProps {
+  value: string;
+  onChange: (ingredient: Ingredient | null) => void;
+  label?: string;
+  error?: string;
+  size?: 'small' | 'medium';
+  /** Allow adding a typed name to the ingredient registry */
+  allowCreate?: boolean;
+}
+
+const isNewOption = (option: IngredientOption): option is NewIngredientOption =>
+  'isNew' in option;
+
+// Match on the main name and on every alternative name
+const baseFilter = createFilterOptions<Ingredient>({
+  stringify: ingredient => [ingredient.name, ...ingredient.alternativeNames].join(' '),
+});
+
+const IngredientSelector: React.FC<IngredientSelectorProps> = ({
+  value,
+  onChange,
+  label = 'Ingredient',
+  error,
+  size = 'small',
+  allowCreate = true,
+}) => {
+  const ingredients = useAppStore(selectIngredients);
+  const createIngredient = useAppStore(state => state.createIngredient);
+  const referenced = useReferencedIngredients();
+  const [isCreating, setIsCreating] = useState(false);
+
+  // A row may point at an ingredient in the trash, which is kept as an
+  // option so it stays selected but is not offered otherwise
+  const selected = referenced.find(ingredient => ingredient.id === value) ?? null;
+  const options = selected?.deletedAt ? [...ingredients, selected] : ingredients;
+
+  const handleChange = async (_event: React.SyntheticEvent, option: IngredientOption | string | null) => {
+    if (option === null) {
+      onChange(null);
+      return;
+    }
+
+    const name = typeof option === 'string' ? option.trim() : isNewOption(option) ? option.inputValue : null;
+    if (name === null) {
+      onChange(option as Ingredient);
+      return;
+    }
+    if (!name) return;
+
+    const existing = ingredients.find(ingredient => ingredient.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      onChange(existing);
+      return;
+    }
+    if (!allowCreate) return;
+
+    try {
+      setIsCreating(true);
+      const created = await createIngredient({
+        id: crypto.randomUUID(),
+        name,
+        category: DEFAULT_CATEGORY,
+        defaultUnit: '',
+        alternativeNames: [],
+      });
+      onChange(created);
+    } catch {
+      // The store reports the error and rolls back
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Autocomplete<IngredientOption, false, false, boolean>
+      value={selected}
+      options={options}
+      freeSolo={allowCreate}
+      loading={isCreating}
+      size={size}
+      onChange={handleChange}
+      getOptionLabel={option =>
+        typeof option === 'string' ? option : isNewOption(option) ? option.inputValue : option.name
+      }
+      isOptionEqualToValue={(option, current) =>
+        !isNewOption(option) && !isNewOption(current) && option.id === current.id
+      }
+      filterOptions={(options, state) => {
+        const filtered: IngredientOption[] = baseFilter(options as Ingredient[], state);
+        const input = state.inputValue.trim();
+        const exactMatch = ingredients.some(ingredient => ingredient.name.toLowerCase() === input.toLowerCase());
+        if (allowCreate && input && !exactMatch) {
+          filtered.push({ inputValue: input, isNew: true });
+        }
+        return filtered;
+      }}
+      renderOption={(props, option) => {
+        const { key, ...optionProps } = props;
+        return (
+          <li key={key} {...optionProps}>
+            {isNewOption(option) ? `Add "${option.inputValue}" to registry` : option.name}
+          </li>
+        );
+      }}
+      renderInput={params => (
+        <TextField
+          {...params}
+          label={label}
+          error={!!error}
+          helperText={error}
+        />
+      )}
+    />
+  );
+};
+
+export default IngredientSelector;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Alert,
+} from '@mui/material';
+import type { Ingredient } from '../../types';
+import { useAppStore } from '../../stores/appStore';
+import type { IngredientUsage } from '../../utils/ingredientRegistry';
+
+interface MergeIngredientsDialogProps {
+  ingredients: Ingredient[];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const MergeIngredientsDialog: React.FC<MergeIngredientsDialogProps> = ({ ingredients, onClose, onMerged }) => {
+  const mergeIngredients = useAppStore(state => state.mergeIngredients);
+  const [targetId, setTargetId] = useState(ingredients[0]?.id ?? '');
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergeError, setMergeError] = useState('');
+  const [conflicts, setConflicts] = useState<IngredientUsage | null>(null);
+
+  const handleMerge = async () => {
+    try {
+      setIsMerging(true);
+      setMergeError('');
+      const { conflicts } = await mergeIngredients(targetId, ingredients.map(ingredient => ingredient.id));
+      // Stay open to point at the rows the merge could not add up
+      if (conflicts.recipes.length > 0 || conflicts.shoppingLists.length > 0) setConflicts(conflicts);
+      else onMerged();
+    } catch (error) {
+      setMergeError(error instanceof Error ? error.message : 'Failed to merge ingredients');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (conflicts) {
+    const names = [
+      ...conflicts.recipes.map(recipe => recipe.title),
+      ...conflicts.shoppingLists.map(list => list.name),
+    ];
+    return (
+      <Dialog open onClose={onMerged} fullWidth maxWidth="xs">
+        <DialogTitle>Ingredients merged</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning">
+            Some amounts are in units that do not convert and are now listed twice in:{' '}
+            {names.join(', ')}. Check them and combine them by hand.
+          </Alert>
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={onMerged}>
+            Done
+          </Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Merge {ingredients.length} ingredients</DialogTitle>
+      <DialogContent>
+        {mergeError && <Alert severity="error" sx={{ mb: 2 }}>{mergeError}</Alert>}
+        <DialogContentText sx={{ mb: 1 }}>
+          Keep one ingredient. The others become its alternative names and every
+          recipe and shopping list using them is updated.
+        </DialogContentText>
+        <RadioGroup value={targetId} onChange={e => setTargetId(e.target.value)}>
+          {ingredients.map(ingredient => (
+            <FormControlLabel
+              key={ingredient.id}
+              value={ingredient.id}
+              control={<Radio />}
+              label={ingredient.name}
+            />
+          ))}
+        </RadioGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isMerging}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleMerge} disabled={isMerging || !targetId}>
+          Merge
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MergeIngredientsDialog;
@@ -1,22 +1,40 @@
 import React from 'react';
 import type { ReactNode } from 'react';
-import { Box } from '@mui/material';
+import { Box, Snackbar, Alert } from '@mui/material';
 import Navigation from './Navigation';
+import UndoTrashSnackbar from '../common/UndoTrashSnackbar';
+import { useAppStore } from '../../stores/appStore';
 
 interface LayoutProps {
   children: ReactNode;
-  onNavigate?: (path: string) => void;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, onNavigate }) => {
+const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const error = useAppStore(state => state.error);
+  const clearError = useAppStore(state => state.clearError);
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
-      <Navigation onMenuItemClick={onNavigate} />
+      <Navigation />
       <Box component="main" sx={{ flexGrow: 1, backgroundColor: 'background.default' }}>
         {children}
       </Box>
+
+      <UndoTrashSnackbar />
+
+      {/* Storage errors from the app store */}
+      <Snackbar
+        open={!!error}
+        onClose={clearError}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        sx={{ bottom: { xs: 90, sm: 24 } }}
+      >
+        <Alert severity="error" variant="filled" onClose={clearError} sx={{ width: '100%' }}>
+          {error}
+        </Alert>
+      </Snackbar>
     </Box>
   );
 };
 
-export default Layout;
\ No newline at end of file
+export default Layout;
@@ -24,18 +24,24 @@ import {
   Restaurant,
   ShoppingCart,
   Inventory,
+  CalendarMonth,
+  Kitchen,
   Settings,
   Logout,
 } from '@mui/icons-material';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
 import ThemeToggle from '../common/ThemeToggle';
+import SyncStatusIndicator from '../common/SyncStatusIndicator';
+import SignOutDialog from '../common/SignOutDialog';
 
-interface NavigationProps {
-  onMenuItemClick?: (path: string) => void;
-}
-
-const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
+const Navigation: React.FC = () => {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { pending, conflicts } = useSyncStatus();
+  const [confirmSignOut, setConfirmSignOut] = useState(false);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   
@@ -47,6 +53,8 @@ const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
     { text: 'Recipes', icon: <Restaurant />, path: '/recipes' },
     { text: 'Shopping Lists', icon: <ShoppingCart />, path: '/shopping' },
     { text: 'Ingredients', icon: <Inventory />, path: '/ingredients' },
+    { text: 'Meal Planner', icon: <CalendarMonth />, path: '/planner' },
+    { text: 'Pantry', icon: <Kitchen />, path: '/pantry' },
     { text: 'Settings', icon: <Settings />, path: '/settings' },
   ];
 
@@ -63,14 +71,22 @@ const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
   };
 
   const handleSignOut = async () => {
-    await signOut();
     handleProfileMenuClose();
+    // Unsynced changes are dropped with the local copy, so ask first
+    if (pending.length > 0 || conflicts.length > 0) {
+      setConfirmSignOut(true);
+      return;
+    }
+    await signOut();
   };
 
+  // Sections own everything below them, e.g. /recipes/:id
+  const isCurrent = (path: string) =>
+    path === '/' ? pathname === '/' : pathname === path || pathname.startsWith(`${path}/`);
+
   const handleMenuItemClick = (path: string) => {
-    if (onMenuItemClick) {
-      onMenuItemClick(path);
-    }
+    navigate(path);
+    handleProfileMenuClose();
     if (isMobile) {
       setMobileOpen(false);
     }
@@ -95,8 +111,10 @@ const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
           <ListItem
             key={item.text}
             onClick={() => handleMenuItemClick(item.path)}
+            aria-current={isCurrent(item.path) ? 'page' : undefined}
             sx={{
               cursor: 'pointer',
+              backgroundColor: isCurrent(item.path) ? 'action.selected' : undefined,
               '&:hover': {
                 backgroundColor: 'action.hover',
               },
@@ -114,7 +132,7 @@ const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
 
   return (
     <>
-      <AppBar position="static" elevation={1}>
+      <AppBar position="static" elevation={1} sx={{ displayPrint: 'none' }}>
         <Toolbar>
           {isMobile && (
             <IconButton
@@ -144,8 +162,10 @@ const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
                   color="inherit"
                   startIcon={item.icon}
                   onClick={() => handleMenuItemClick(item.path)}
+                  aria-current={isCurrent(item.path) ? 'page' : undefined}
                   sx={{
                     textTransform: 'none',
+                    backgroundColor: isCurrent(item.path) ? 'rgba(255, 255, 255, 0.15)' : undefined,
                     '&:hover': {
                       backgroundColor: 'rgba(255, 255, 255, 0.1)',
                     },
@@ -157,6 +177,8 @@ const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
             </Box>
           )}
 
+          <SyncStatusIndicator />
+
           <IconButton
             size="large"
             edge="end"
@@ -225,6 +247,16 @@ const Navigation: React.FC<NavigationProps> = ({ onMenuItemClick }) => {
         </MenuItem>
       </Menu>
 
+      {confirmSignOut && (
+        <SignOutDialog
+          onClose={() => setConfirmSignOut(false)}
+          onSignOut={() => {
+            setConfirmSignOut(false);
+            void signOut();
+          }}
+        />
+      )}
+
       {isMobile && (
         <Drawer
           variant="temporary"
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+
+interface RequireAuthProps {
+  /** Whether the storage backend can be used, see App */
+  hasAccess: boolean;
+}
+
+/** Where a guarded route sends the user back to after signing in */
+export interface LoginLocationState {
+  from?: { pathname: string; search: string; hash: string };
+}
+
+/**
+ * Renders the nested routes once storage is usable, and otherwise sends
+ * the user to the login page, remembering where they were headed
+ */
+const RequireAuth: React.FC<RequireAuthProps> = ({ hasAccess }) => {
+  const location = useLocation();
+
+  if (!hasAccess) {
+    const { pathname, search, hash } = location;
+    const state: LoginLocationState = { from: { pathname, search, hash } };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
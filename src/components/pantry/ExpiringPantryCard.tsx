@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, List, ListItem, ListItemText, Typography } from '@mui/material';
+import { WarningAmber } from '@mui/icons-material';
+import { useAppStore, selectPantryItems } from '../../stores/appStore';
+import { useReferencedIngredients } from '../../hooks/useReferencedIngredients';
+import { getExpiringItems } from '../../utils/pantry';
+import { formatQuantity } from '../../utils/units';
+import ExpiryChip from './ExpiryChip';
+
+interface ExpiringPantryCardProps {
+  today: string;
+}
+
+/**
+ * Pantry stock that is past or close to its expiry date; renders nothing
+ * when there is none
+ */
+const ExpiringPantryCard: React.FC<ExpiringPantryCardProps> = ({ today }) => {
+  const pantryItems = useAppStore(selectPantryItems);
+  const ingredients = useReferencedIngredients();
+
+  const expiring = useMemo(() => getExpiringItems(pantryItems, today), [pantryItems, today]);
+  if (expiring.length === 0) return null;
+
+  const names = new Map(ingredients.map(ingredient => [ingredient.id, ingredient.name]));
+
+  return (
+    <Card sx={{ borderRadius: 3, mb: 4 }}>
+      <CardContent>
+        <Typography variant="h6" component="h2" display="flex" alignItems="center" gap={1}>
+          <WarningAmber color="warning" />
+          Use Soon
+        </Typography>
+        <List dense>
+          {expiring.map(item => (
+            <ListItem key={item.id} divider secondaryAction={<ExpiryChip item={item} today={today} />}>
+              <ListItemText
+                primary={names.get(item.ingredientId) ?? 'Unknown ingredient'}
+                secondary={formatQuantity(item.quantity, item.unit)}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExpiringPantryCard;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Chip } from '@mui/material';
+import type { PantryItem } from '../../types';
+import { getExpiryStatus } from '../../utils/pantry';
+import { parseDateKey } from '../../utils/mealPlanning';
+
+interface ExpiryChipProps {
+  item: PantryItem;
+  today: string;
+}
+
+const ExpiryChip: React.FC<ExpiryChipProps> = ({ item, today }) => {
+  if (!item.expiresOn) return null;
+
+  const status = getExpiryStatus(item, today);
+  const day = parseDateKey(item.expiresOn).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+  return (
+    <Chip
+      size="small"
+      label={status === 'expired' ? `Expired ${day}` : `Use by ${day}`}
+      color={status === 'expired' ? 'error' : status === 'expiring' ? 'warning' : 'default'}
+      variant={status === 'fresh' ? 'outlined' : 'filled'}
+    />
+  );
+};
+
+export default ExpiryChip;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  Box,
+} from '@mui/material';
+import type { PantryItem } from '../../types';
+import { useAppStore } from '../../stores/appStore';
+import { createPantryItem } from '../../utils/pantry';
+import IngredientSelector from '../ingredients/IngredientSelector';
+
+interface PantryItemDialogProps {
+  /** Entry to edit; new stock is added when omitted */
+  item?: PantryItem;
+  onClose: () => void;
+}
+
+const PantryItemDialog: React.FC<PantryItemDialogProps> = ({ item, onClose }) => {
+  const createItem = useAppStore(state => state.createPantryItem);
+  const updateItem = useAppStore(state => state.updatePantryItem);
+  const deleteItem = useAppStore(state => state.deletePantryItem);
+
+  const [ingredientId, setIngredientId] = useState(item?.ingredientId ?? '');
+  const [quantity, setQuantity] = useState(item ? String(item.quantity) : '');
+  const [unit, setUnit] = useState(item?.unit ?? '');
+  const [expiresOn, setExpiresOn] = useState(item?.expiresOn ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const parsedQuantity = Number(quantity.trim().replace(',', '.'));
+  const quantityError = quantity.trim() !== '' && !(parsedQuantity > 0);
+  const canSave = !!ingredientId && parsedQuantity > 0;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setSaveError('');
+      await action();
+      onClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save pantry item');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => run(() => {
+    const fields = { ingredientId, quantity: parsedQuantity, unit: unit.trim(), expiresOn: expiresOn || undefined };
+    return item ? updateItem({ ...item, ...fields }) : createItem(createPantryItem(fields));
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{item ? 'Edit Stock' : 'Add to Pantry'}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {saveError && <Alert severity="error">{saveError}</Alert>}
+        <IngredientSelector
+          value={ingredientId}
+          size="medium"
+          onChange={ingredient => {
+            setIngredientId(ingredient?.id ?? '');
+            if (ingredient && !unit) setUnit(ingredient.defaultUnit);
+          }}
+        />
+        <Box display="flex" gap={2}>
+          <TextField
+            label="Quantity"
+            value={quantity}
+            onChange={e => setQuantity(e.target.value)}
+            error={quantityError}
+            helperText={quantityError ? 'Enter a quantity greater than 0' : undefined}
+            slotProps={{ htmlInput: { inputMode: 'decimal' } }}
+          />
+          <TextField label="Unit" value={unit} onChange={e => setUnit(e.target.value)} />
+        </Box>
+        <TextField
+          label="Expires on"
+          type="date"
+          value={expiresOn}
+          onChange={e => setExpiresOn(e.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+          fullWidth
+        />
+      </DialogContent>
+      <DialogActions>
+        {item && (
+          <Button color="error" onClick={() => run(() => deleteItem(item.id))} disabled={isSaving} sx={{ mr: 'auto' }}>
+            Remove
+          </Button>
+        )}
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isSaving || !canSave}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PantryItemDialog;
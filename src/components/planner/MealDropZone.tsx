@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Box } from '@mui/material';
+import type { SxProps, Theme } from '@mui/material';
+import { isPlannerDrag, readDrop, type PlannerDragItem } from './dragData';
+
+interface MealDropZoneProps {
+  onDrop: (item: PlannerDragItem) => void;
+  children: React.ReactNode;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * Calendar cell that accepts dragged recipes and planned meals
+ */
+const MealDropZone: React.FC<MealDropZoneProps> = ({ onDrop, children, sx }) => {
+  const [isOver, setIsOver] = useState(false);
+
+  return (
+    <Box
+      onDragOver={event => {
+        if (!isPlannerDrag(event)) return;
+        event.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={event => {
+        event.preventDefault();
+        setIsOver(false);
+        const item = readDrop(event);
+        if (item) onDrop(item);
+      }}
+      sx={[
+        {
+          border: 1,
+          borderColor: isOver ? 'primary.main' : 'divider',
+          bgcolor: isOver ? 'action.hover' : 'transparent',
+          borderRadius: 2,
+          p: 0.5,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 0.5,
+        },
+        ...(Array.isArray(sx) ? sx : [sx]),
+      ]}
+    >
+      {children}
+    </Box>
+  );
+};
+
+export default MealDropZone;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Alert,
+  Box,
+} from '@mui/material';
+import type { MealPlan, MealSlot } from '../../types';
+import { useAppStore, selectRecipes } from '../../stores/appStore';
+import { createMealPlan, MEAL_SLOTS, MEAL_SLOT_LABELS } from '../../utils/mealPlanning';
+
+interface MealPlanDialogProps {
+  /** Meal to edit; a new one is planned when omitted */
+  plan?: MealPlan;
+  /** Day and slot for a new meal */
+  date: string;
+  slot: MealSlot;
+  onClose: () => void;
+}
+
+const MealPlanDialog: React.FC<MealPlanDialogProps> = ({ plan, date, slot, onClose }) => {
+  const recipes = useAppStore(selectRecipes);
+  const createPlan = useAppStore(state => state.createMealPlan);
+  const updatePlan = useAppStore(state => state.updateMealPlan);
+  const deletePlan = useAppStore(state => state.deleteMealPlan);
+
+  const [recipeId, setRecipeId] = useState(plan?.recipeId ?? '');
+  const [day, setDay] = useState(plan?.date ?? date);
+  const [mealSlot, setMealSlot] = useState<MealSlot>(plan?.slot ?? slot);
+  const [servings, setServings] = useState(plan ? String(plan.servings) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const sortedRecipes = [...recipes].sort((a, b) => a.title.localeCompare(b.title));
+  const recipe = recipes.find(existing => existing.id === recipeId);
+  const servingCount = Number(servings) > 0 ? Number(servings) : recipe?.servings ?? 0;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setSaveError('');
+      await action();
+      onClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save meal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => run(() => {
+    const fields = { recipeId, date: day, slot: mealSlot, servings: servingCount };
+    return plan ? updatePlan({ ...plan, ...fields }) : createPlan(createMealPlan(fields));
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{plan ? 'Edit Meal' : 'Plan a Meal'}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {saveError && <Alert severity="error">{saveError}</Alert>}
+        <TextField select label="Recipe" value={recipeId} onChange={e => setRecipeId(e.target.value)} fullWidth>
+          {sortedRecipes.map(option => (
+            <MenuItem key={option.id} value={option.id}>
+              {option.title}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Box display="flex" gap={2}>
+          <TextField
+            label="Day"
+            type="date"
+            value={day}
+            onChange={e => setDay(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+            fullWidth
+          />
+          <TextField
+            select
+            label="Meal"
+            value={mealSlot}
+            onChange={e => setMealSlot(e.target.value as MealSlot)}
+            fullWidth
+          >
+            {MEAL_SLOTS.map(option => (
+              <MenuItem key={option} value={option}>
+                {MEAL_SLOT_LABELS[option]}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+        <TextField
+          label="Servings"
+          value={servings}
+          onChange={e => setServings(e.target.value)}
+          placeholder={recipe ? String(recipe.servings) : ''}
+          slotProps={{ inputLabel: { shrink: true }, htmlInput: { inputMode: 'numeric' } }}
+          fullWidth
+        />
+      </DialogContent>
+      <DialogActions>
+        {plan && (
+          <Button color="error" onClick={() => run(() => deletePlan(plan.id))} disabled={isSaving} sx={{ mr: 'auto' }}>
+            Remove
+          </Button>
+        )}
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isSaving || !recipe || !day || servingCount <= 0}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MealPlanDialog;
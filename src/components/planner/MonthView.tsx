@@ -0,0 +1,67 @@
+import React from 'react';
+import { Box, ButtonBase, Typography } from '@mui/material';
+import type { MealPlan, Recipe } from '../../types';
+import { getMealsInRange, parseDateKey } from '../../utils/mealPlanning';
+import type { PlannerDragItem } from './dragData';
+import MealDropZone from './MealDropZone';
+import PlannedMealCard from './PlannedMealCard';
+
+interface MonthViewProps {
+  weeks: string[][];
+  /** Any day of the month shown; days outside it are dimmed */
+  month: string;
+  today: string;
+  plans: MealPlan[];
+  recipesById: Map<string, Recipe>;
+  onDrop: (item: PlannerDragItem, date: string) => void;
+  onOpenDay: (date: string) => void;
+  onOpen: (plan: MealPlan) => void;
+}
+
+/**
+ * Calendar month, one cell per day with its meals in slot order
+ */
+const MonthView: React.FC<MonthViewProps> = ({ weeks, month, today, plans, recipesById, onDrop, onOpenDay, onOpen }) => (
+  <Box sx={{ overflowX: 'auto' }}>
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(110px, 1fr))', gap: 0.5, minWidth: 800 }}>
+      {weeks[0].map(day => (
+        <Typography key={day} variant="caption" color="text.secondary" textAlign="center">
+          {parseDateKey(day).toLocaleDateString(undefined, { weekday: 'short' })}
+        </Typography>
+      ))}
+
+      {weeks.flat().map(day => (
+        <MealDropZone
+          key={day}
+          onDrop={item => onDrop(item, day)}
+          sx={{ minHeight: 110, opacity: day.slice(0, 7) === month.slice(0, 7) ? 1 : 0.5 }}
+        >
+          <ButtonBase
+            onClick={() => onOpenDay(day)}
+            aria-label={`Show the week of ${day}`}
+            sx={{ alignSelf: 'flex-start', borderRadius: 1, px: 0.5 }}
+          >
+            <Typography
+              variant="body2"
+              fontWeight={day === today ? 'bold' : 'normal'}
+              color={day === today ? 'primary' : 'text.primary'}
+            >
+              {parseDateKey(day).getDate()}
+            </Typography>
+          </ButtonBase>
+          {getMealsInRange(plans, day, day).map(plan => (
+            <PlannedMealCard
+              key={plan.id}
+              plan={plan}
+              recipe={recipesById.get(plan.recipeId)}
+              showSlot
+              onClick={() => onOpen(plan)}
+            />
+          ))}
+        </MealDropZone>
+      ))}
+    </Box>
+  </Box>
+);
+
+export default MonthView;
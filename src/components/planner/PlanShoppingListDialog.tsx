@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  Box,
+} from '@mui/material';
+import type { ShoppingList } from '../../types';
+import { useAppStore, selectRecipes, selectIngredients, selectMealPlans } from '../../stores/appStore';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import { useUsableStock } from '../../hooks/useUsableStock';
+import { formatDateRange, generatePlanShoppingList, getMealsInRange } from '../../utils/mealPlanning';
+
+interface PlanShoppingListDialogProps {
+  from: string;
+  to: string;
+  onClose: () => void;
+  onCreated: (list: ShoppingList) => void;
+}
+
+/**
+ * Turns the meals planned over a range of days into a shopping list
+ */
+const PlanShoppingListDialog: React.FC<PlanShoppingListDialogProps> = ({ from, to, onClose, onCreated }) => {
+  const recipes = useAppStore(selectRecipes);
+  const ingredients = useAppStore(selectIngredients);
+  const mealPlans = useAppStore(selectMealPlans);
+  const unitPreference = usePreferencesStore(state => state.unitPreference);
+  const pantry = useUsableStock();
+  const createShoppingList = useAppStore(state => state.createShoppingList);
+
+  const [start, setStart] = useState(from);
+  const [end, setEnd] = useState(to);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const isRangeValid = !!start && !!end && start <= end;
+  const mealCount = isRangeValid ? getMealsInRange(mealPlans, start, end).length : 0;
+
+  const list = useMemo(
+    () => isRangeValid
+      ? generatePlanShoppingList(mealPlans, recipes, start, end, {
+        ingredients,
+        unitSystem: unitPreference === 'original' ? undefined : unitPreference,
+        pantry,
+        name,
+      })
+      : null,
+    [isRangeValid, mealPlans, recipes, start, end, ingredients, unitPreference, pantry, name]
+  );
+
+  const handleCreate = async () => {
+    if (!list) return;
+    try {
+      setIsSaving(true);
+      setSaveError('');
+      onCreated(await createShoppingList(list));
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to create shopping list');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Shopping List from Plan</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {saveError && <Alert severity="error">{saveError}</Alert>}
+        <Box display="flex" gap={2}>
+          <TextField
+            label="From"
+            type="date"
+            value={start}
+            onChange={e => setStart(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+            fullWidth
+          />
+          <TextField
+            label="To"
+            type="date"
+            value={end}
+            onChange={e => setEnd(e.target.value)}
+            error={!!start && !!end && start > end}
+            slotProps={{ inputLabel: { shrink: true } }}
+            fullWidth
+          />
+        </Box>
+        <TextField
+          label="List name"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={isRangeValid ? `Meals ${formatDateRange(start, end)}` : ''}
+          slotProps={{ inputLabel: { shrink: true } }}
+          fullWidth
+        />
+        <Typography variant="body2" color="text.secondary">
+          {mealCount} meal(s) planned, {list?.items.length ?? 0} item(s)
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleCreate} disabled={isSaving || !list || list.items.length === 0}>
+          Create Draft
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PlanShoppingListDialog;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Paper, Typography } from '@mui/material';
+import type { MealPlan, Recipe } from '../../types';
+import { MEAL_SLOT_LABELS } from '../../utils/mealPlanning';
+import { startDrag } from './dragData';
+
+interface PlannedMealCardProps {
+  plan: MealPlan;
+  recipe?: Recipe;
+  /** Show the meal slot, for views that don't lay out slots */
+  showSlot?: boolean;
+  onClick: () => void;
+}
+
+const PlannedMealCard: React.FC<PlannedMealCardProps> = ({ plan, recipe, showSlot = false, onClick }) => (
+  <Paper
+    variant="outlined"
+    draggable
+    onDragStart={event => startDrag(event, { kind: 'meal', id: plan.id })}
+    onClick={onClick}
+    sx={{ px: 1, py: 0.5, cursor: 'grab', borderRadius: 1.5, '&:hover': { bgcolor: 'action.hover' } }}
+  >
+    <Typography variant="body2" noWrap fontWeight="medium" color={recipe ? 'text.primary' : 'text.disabled'}>
+      {recipe?.title ?? 'Deleted recipe'}
+    </Typography>
+    <Typography variant="caption" color="text.secondary" noWrap component="div">
+      {showSlot ? `${MEAL_SLOT_LABELS[plan.slot]} · ` : ''}{plan.servings} servings
+    </Typography>
+  </Paper>
+);
+
+export default PlannedMealCard;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Card, CardContent, List, ListItem, ListItemText, TextField, Typography } from '@mui/material';
+import { DragIndicator } from '@mui/icons-material';
+import { useAppStore, selectRecipes } from '../../stores/appStore';
+import { startDrag } from './dragData';
+
+/**
+ * Recipes to drag onto the calendar
+ */
+const RecipePalette: React.FC = () => {
+  const recipes = useAppStore(selectRecipes);
+  const [filter, setFilter] = useState('');
+
+  const visible = recipes
+    .filter(recipe => recipe.title.toLowerCase().includes(filter.trim().toLowerCase()))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="subtitle1" component="h2" gutterBottom>
+          Recipes
+        </Typography>
+        <TextField
+          label="Filter"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          size="small"
+          fullWidth
+        />
+        <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 1 }}>
+          Drag a recipe onto a day to plan it.
+        </Typography>
+        <List dense sx={{ maxHeight: 480, overflow: 'auto' }}>
+          {visible.map(recipe => (
+            <ListItem
+              key={recipe.id}
+              draggable
+              onDragStart={event => startDrag(event, { kind: 'recipe', id: recipe.id })}
+              divider
+              disableGutters
+              sx={{ cursor: 'grab' }}
+            >
+              <DragIndicator fontSize="small" color="disabled" sx={{ mr: 1 }} />
+              <ListItemText primary={recipe.title} secondary={`${recipe.servings} servings`} />
+            </ListItem>
+          ))}
+        </List>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecipePalette;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Box, IconButton, Typography } from '@mui/material';
+import { Add } from '@mui/icons-material';
+import type { MealPlan, MealSlot, Recipe } from '../../types';
+import { MEAL_SLOTS, MEAL_SLOT_LABELS, parseDateKey } from '../../utils/mealPlanning';
+import type { PlannerDragItem } from './dragData';
+import MealDropZone from './MealDropZone';
+import PlannedMealCard from './PlannedMealCard';
+
+interface WeekViewProps {
+  days: string[];
+  today: string;
+  plans: MealPlan[];
+  recipesById: Map<string, Recipe>;
+  onDrop: (item: PlannerDragItem, date: string, slot?: MealSlot) => void;
+  onAdd: (date: string, slot: MealSlot) => void;
+  onOpen: (plan: MealPlan) => void;
+}
+
+/**
+ * Seven days side by side, one row per meal slot
+ */
+const WeekView: React.FC<WeekViewProps> = ({ days, today, plans, recipesById, onDrop, onAdd, onOpen }) => (
+  <Box sx={{ overflowX: 'auto' }}>
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: '88px repeat(7, minmax(120px, 1fr))',
+        gap: 0.5,
+        minWidth: 960,
+      }}
+    >
+      <Box />
+      {days.map(day => (
+        <Box key={day} textAlign="center" py={0.5}>
+          <Typography variant="caption" color="text.secondary" component="div">
+            {parseDateKey(day).toLocaleDateString(undefined, { weekday: 'short' })}
+          </Typography>
+          <Typography
+            variant="body2"
+            fontWeight={day === today ? 'bold' : 'normal'}
+            color={day === today ? 'primary' : 'text.primary'}
+          >
+            {parseDateKey(day).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+          </Typography>
+        </Box>
+      ))}
+
+      {MEAL_SLOTS.map(slot => (
+        <React.Fragment key={slot}>
+          <Typography variant="body2" color="text.secondary" sx={{ pt: 1 }}>
+            {MEAL_SLOT_LABELS[slot]}
+          </Typography>
+          {days.map(day => (
+            <MealDropZone key={day} onDrop={item => onDrop(item, day, slot)} sx={{ minHeight: 72 }}>
+              {plans
+                .filter(plan => plan.date === day && plan.slot === slot)
+                .map(plan => (
+                  <PlannedMealCard
+                    key={plan.id}
+                    plan={plan}
+                    recipe={recipesById.get(plan.recipeId)}
+                    onClick={() => onOpen(plan)}
+                  />
+                ))}
+              <IconButton
+                size="small"
+                onClick={() => onAdd(day, slot)}
+                aria-label={`Plan ${MEAL_SLOT_LABELS[slot].toLowerCase()} on ${day}`}
+                sx={{ alignSelf: 'center', opacity: 0.5, '&:hover': { opacity: 1 } }}
+              >
+                <Add fontSize="small" />
+              </IconButton>
+            </MealDropZone>
+          ))}
+        </React.Fragment>
+      ))}
+    </Box>
+  </Box>
+);
+
+export default WeekView;
@@ -0,0 +1,29 @@
+import type React from 'react';
+
+// Drag data types; a recipe dropped on the calendar is planned, a planned
+// meal dropped elsewhere is moved
+const MEAL_TYPE = 'application/x-recettier-meal';
+const RECIPE_TYPE = 'application/x-recettier-recipe';
+
+export type PlannerDragItem = { kind: 'meal' | 'recipe'; id: string };
+
+export function startDrag(event: React.DragEvent, item: PlannerDragItem): void {
+  event.dataTransfer.setData(item.kind === 'meal' ? MEAL_TYPE : RECIPE_TYPE, item.id);
+  event.dataTransfer.effectAllowed = item.kind === 'meal' ? 'move' : 'copy';
+}
+
+/**
+ * Whether a drag carries something the planner accepts. Only the types are
+ * readable while dragging over a target.
+ */
+export function isPlannerDrag(event: React.DragEvent): boolean {
+  const types = [...event.dataTransfer.types];
+  return types.includes(MEAL_TYPE) || types.includes(RECIPE_TYPE);
+}
+
+export function readDrop(event: React.DragEvent): PlannerDragItem | null {
+  const mealId = event.dataTransfer.getData(MEAL_TYPE);
+  if (mealId) return { kind: 'meal', id: mealId };
+  const recipeId = event.dataTransfer.getData(RECIPE_TYPE);
+  return recipeId ? { kind: 'recipe', id: recipeId } : null;
+}
@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  AppBar,
+  Toolbar,
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Chip,
+  Drawer,
+  List,
+  ListItem,
+  ListItemText,
+  LinearProgress,
+} from '@mui/material';
+import {
+  ArrowBack,
+  ArrowForward,
+  Close,
+  FormatListBulleted,
+  Pause,
+  PlayArrow,
+  Timer,
+} from '@mui/icons-material';
+import type { Recipe } from '../../types';
+import type { DisplayIngredient } from '../../utils/recipeDisplay';
+import { findStepDurations, formatTimer, getRemainingMs, isTimerDone, isTimerRunning } from '../../utils/stepTimers';
+import { useWakeLock } from '../../hooks/useWakeLock';
+import { useCookTimers } from '../../hooks/useCookTimers';
+
+interface CookModeProps {
+  recipe: Recipe;
+  /** Ingredient rows as shown in the recipe view, already scaled */
+  ingredients: DisplayIngredient[];
+  onClose: () => void;
+}
+
+/** Horizontal distance in pixels a swipe needs to change step */
+const SWIPE_THRESHOLD = 60;
+
+/**
+ * Full-screen, one step at a time view to follow a recipe while cooking
+ */
+const CookMode: React.FC<CookModeProps> = ({ recipe, ingredients, onClose }) => {
+  const [step, setStep] = useState(0);
+  const [showIngredients, setShowIngredients] = useState(false);
+  const { timers, now, start, toggle, dismiss } = useCookTimers();
+  const touchStartX = useRef<number | null>(null);
+
+  useWakeLock(true);
+
+  const stepCount = recipe.instructions.length;
+  const text = recipe.instructions[step] ?? '';
+  const durations = findStepDurations(text);
+
+  const goTo = (index: number) => setStep(Math.min(Math.max(index, 0), stepCount - 1));
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      if (target?.closest('input, textarea')) return;
+      // Space still presses a focused button
+      if (event.key === ' ' && target?.closest('button')) return;
+      if (['ArrowRight', 'PageDown', ' '].includes(event.key)) {
+        event.preventDefault();
+        setStep(current => Math.min(current + 1, stepCount - 1));
+      } else if (['ArrowLeft', 'PageUp'].includes(event.key)) {
+        event.preventDefault();
+        setStep(current => Math.max(current - 1, 0));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stepCount]);
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const distance = event.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (Math.abs(distance) < SWIPE_THRESHOLD) return;
+    goTo(distance < 0 ? step + 1 : step - 1);
+  };
+
+  return (
+    <Dialog open fullScreen onClose={onClose} aria-label={`Cook ${recipe.title}`}>
+      <AppBar position="static" color="default" elevation={0}>
+        <Toolbar sx={{ gap: 1 }}>
+          <IconButton edge="start" onClick={onClose} aria-label="Exit cook mode">
+            <Close />
+          </IconButton>
+          <Typography variant="h6" component="h1" noWrap sx={{ flex: 1 }}>
+            {recipe.title}
+          </Typography>
+          <Button startIcon={<FormatListBulleted />} onClick={() => setShowIngredients(true)}>
+            Ingredients
+          </Button>
+        </Toolbar>
+        <LinearProgress variant="determinate" value={stepCount ? ((step + 1) / stepCount) * 100 : 0} />
+      </AppBar>
+
+      <Box
+        flex={1}
+        display="flex"
+        flexDirection="column"
+        justifyContent="center"
+        px={{ xs: 3, md: 8 }}
+        py={4}
+        overflow="auto"
+        onTouchStart={event => { touchStartX.current = event.touches[0].clientX; }}
+        onTouchEnd={handleTouchEnd}
+      >
+        <Typography variant="overline" color="text.secondary">
+          Step {step + 1} of {stepCount}
+        </Typography>
+        <Typography
+          component="p"
+          aria-live="polite"
+          sx={{ fontSize: { xs: '1.75rem', md: '2.5rem' }, lineHeight: 1.4, mb: 3 }}
+        >
+          {text}
+        </Typography>
+        {durations.length > 0 && (
+          <Box display="flex" flexWrap="wrap" gap={1}>
+            {durations.map((duration, index) => (
+              <Button
+                key={index}
+                variant="outlined"
+                size="large"
+                startIcon={<Timer />}
+                onClick={() => start(duration, step)}
+              >
+                Start {duration.label} timer
+              </Button>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      {timers.length > 0 && (
+        <Box display="flex" flexWrap="wrap" gap={1} px={{ xs: 2, md: 8 }} pb={2}>
+          {timers.map(timer => {
+            const done = isTimerDone(timer, now);
+            return (
+              <Chip
+                key={timer.id}
+                color={done ? 'error' : isTimerRunning(timer) ? 'primary' : 'default'}
+                icon={done ? <Timer /> : isTimerRunning(timer) ? <Pause /> : <PlayArrow />}
+                label={`Step ${timer.step + 1} · ${timer.label} · ${done ? 'Done!' : formatTimer(getRemainingMs(timer, now))}`}
+                onClick={done ? undefined : () => toggle(timer.id)}
+                onDelete={() => dismiss(timer.id)}
+                sx={{ fontSize: '1rem', py: 2.5 }}
+              />
+            );
+          })}
+        </Box>
+      )}
+
+      <Box display="flex" justifyContent="space-between" gap={2} p={2} borderTop={1} borderColor="divider">
+        <Button size="large" startIcon={<ArrowBack />} onClick={() => goTo(step - 1)} disabled={step === 0}>
+          Previous
+        </Button>
+        {step < stepCount - 1 ? (
+          <Button size="large" variant="contained" endIcon={<ArrowForward />} onClick={() => goTo(step + 1)}>
+            Next
+          </Button>
+        ) : (
+          <Button size="large" variant="contained" onClick={onClose}>
+            Done
+          </Button>
+        )}
+      </Box>
+
+      <Drawer anchor="right" open={showIngredients} onClose={() => setShowIngredients(false)}>
+        <Box width={{ xs: 300, sm: 360 }} p={2}>
+          <Typography variant="h6" component="h2">
+            Ingredients
+          </Typography>
+          <List>
+            {ingredients.map(row => (
+              <ListItem key={row.key} disableGutters divider>
+                <ListItemText
+                  primary={(
+                    <>
+                      <Box component="span" fontWeight="medium">{row.amount}</Box> {row.name}
+                    </>
+                  )}
+                  secondary={row.notes}
+                  slotProps={{ primary: { fontSize: '1.25rem' } }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      </Drawer>
+    </Dialog>
+  );
+};
+
+export default CookMode;
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { useAppStore, selectRecipes } from '../../stores/appStore';
+import { useReferencedIngredients } from '../../hooks/useReferencedIngredients';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import { buildCookbookPdf, getPdfFileName } from '../../utils/recipePdf';
+
+interface ExportCookbookDialogProps {
+  onClose: () => void;
+}
+
+const ALL_RECIPES = '';
+
+const ExportCookbookDialog: React.FC<ExportCookbookDialogProps> = ({ onClose }) => {
+  const recipes = useAppStore(selectRecipes);
+  const ingredients = useReferencedIngredients();
+  const unitPreference = usePreferencesStore(state => state.unitPreference);
+
+  const [tag, setTag] = useState(ALL_RECIPES);
+  const [title, setTitle] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+
+  const tags = useMemo(() => [...new Set(recipes.flatMap(recipe => recipe.tags))].sort(), [recipes]);
+  const selected = tag === ALL_RECIPES ? recipes : recipes.filter(recipe => recipe.tags.includes(tag));
+  const defaultTitle = tag === ALL_RECIPES ? 'My Cookbook' : `${tag.charAt(0).toUpperCase()}${tag.slice(1)} Recipes`;
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      setExportError('');
+      const cookbookTitle = title.trim() || defaultTitle;
+      const doc = await buildCookbookPdf(selected, { title: cookbookTitle, ingredients, unitPreference });
+      doc.save(getPdfFileName(cookbookTitle));
+      onClose();
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to create PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Export Cookbook</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {exportError && <Alert severity="error">{exportError}</Alert>}
+        <TextField select label="Recipes" value={tag} onChange={e => setTag(e.target.value)} fullWidth>
+          <MenuItem value={ALL_RECIPES}>All recipes</MenuItem>
+          {tags.map(option => (
+            <MenuItem key={option} value={option}>
+              Tagged “{option}”
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          label="Cookbook title"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          placeholder={defaultTitle}
+          slotProps={{ inputLabel: { shrink: true } }}
+          fullWidth
+        />
+        <Typography variant="body2" color="text.secondary">
+          {selected.length} recipe(s), with a table of contents. The PDF is created on this device.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isExporting}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleExport} disabled={isExporting || selected.length === 0}>
+          Download PDF
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportCookbookDialog;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Box, Button, IconButton, TextField, Tooltip, Typography } from '@mui/material';
+import { Add, ArrowUpward, ArrowDownward, Delete } from '@mui/icons-material';
+import { createStep, type InstructionStep } from './recipeForm';
+
+interface InstructionsEditorProps {
+  steps: InstructionStep[];
+  onChange: (steps: InstructionStep[]) => void;
+  error?: string;
+}
+
+const InstructionsEditor: React.FC<InstructionsEditorProps> = ({ steps, onChange, error }) => {
+  const updateStep = (index: number, text: string) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, text } : step)));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      {steps.map((step, index) => (
+        <Box key={step.key} display="flex" alignItems="flex-start" gap={1}>
+          <Typography variant="h6" color="primary" sx={{ minWidth: 28, pt: 1 }}>
+            {index + 1}.
+          </Typography>
+          <TextField
+            value={step.text}
+            onChange={e => updateStep(index, e.target.value)}
+            placeholder="Describe this step..."
+            multiline
+            minRows={2}
+            fullWidth
+            size="small"
+            inputProps={{ 'aria-label': `Step ${index + 1}` }}
+          />
+          <Box display="flex" flexDirection="column">
+            <Tooltip title="Move up">
+              <span>
+                <IconButton
+                  size="small"
+                  aria-label={`Move step ${index + 1} up`}
+                  disabled={index === 0}
+                  onClick={() => moveStep(index, -1)}
+                >
+                  <ArrowUpward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Move down">
+              <span>
+                <IconButton
+                  size="small"
+                  aria-label={`Move step ${index + 1} down`}
+                  disabled={index === steps.length - 1}
+                  onClick={() => moveStep(index, 1)}
+                >
+                  <ArrowDownward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+          <IconButton aria-label={`Remove step ${index + 1}`} onClick={() => removeStep(index)}>
+            <Delete />
+          </IconButton>
+        </Box>
+      ))}
+
+      {error && (
+        <Typography variant="body2" color="error">
+          {error}
+        </Typography>
+      )}
+
+      <Box>
+        <Button startIcon={<Add />} onClick={() => onChange([...steps, createStep()])}>
+          Add Step
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default InstructionsEditor;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Alert, List, ListItem, ListItemText, Typography } from '@mui/material';
+import type { InterchangeReport } from '../../types';
+
+interface InterchangeReportListProps {
+  report: InterchangeReport;
+}
+
+/**
+ * The fields an import or export could not carry over
+ */
+const InterchangeReportList: React.FC<InterchangeReportListProps> = ({ report }) => {
+  if (report.issues.length === 0) {
+    return <Alert severity="success">Every field was carried over.</Alert>;
+  }
+
+  return (
+    <>
+      <Alert severity="warning">
+        {report.issues.length} field(s) could not be carried over as they were.
+      </Alert>
+      <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+        {report.issues.map((issue, index) => (
+          <ListItem key={index} disableGutters divider>
+            <ListItemText
+              primary={issue.message}
+              secondary={`${issue.recipe || 'All recipes'} · ${issue.field}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+      <Typography variant="caption" color="text.secondary">
+        Everything else was mapped field by field.
+      </Typography>
+    </>
+  );
+};
+
+export default InterchangeReportList;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Typography,
+  Alert,
+} from '@mui/material';
+import type { InterchangeFormat, InterchangeReport } from '../../types';
+import { useAppStore, selectRecipes, selectIngredients, selectTrash } from '../../stores/appStore';
+import { exportLibrary, INTERCHANGE_FORMATS } from '../../services/interchange';
+import { downloadFile } from '../../utils/download';
+import { withTrashedIngredientsUsedBy } from '../../utils/trash';
+import InterchangeReportList from './InterchangeReportList';
+
+interface LibraryExportDialogProps {
+  onClose: () => void;
+}
+
+const FORMATS = Object.keys(INTERCHANGE_FORMATS) as InterchangeFormat[];
+
+const LibraryExportDialog: React.FC<LibraryExportDialogProps> = ({ onClose }) => {
+  const recipes = useAppStore(selectRecipes);
+  const ingredients = useAppStore(selectIngredients);
+  const trashed = useAppStore(selectTrash).ingredients;
+
+  const [format, setFormat] = useState<InterchangeFormat>('recettier');
+  const [report, setReport] = useState<InterchangeReport | null>(null);
+  const [exportError, setExportError] = useState('');
+
+  const handleExport = () => {
+    try {
+      setExportError('');
+      const result = exportLibrary(format, {
+        recipes,
+        ingredients: withTrashedIngredientsUsedBy(ingredients, trashed, recipes),
+      });
+      downloadFile(result.content, result.fileName, result.mimeType);
+      setReport(result.report);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to export recipes');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Export Library</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {exportError && <Alert severity="error">{exportError}</Alert>}
+        {report ? (
+          <>
+            <Typography variant="body2">
+              Exported {report.recipeCount} recipe(s) and {report.ingredientCount} ingredient(s).
+            </Typography>
+            <InterchangeReportList report={report} />
+          </>
+        ) : (
+          <>
+            <TextField
+              select
+              label="Format"
+              value={format}
+              onChange={e => setFormat(e.target.value as InterchangeFormat)}
+              fullWidth
+            >
+              {FORMATS.map(option => (
+                <MenuItem key={option} value={option}>
+                  {INTERCHANGE_FORMATS[option].label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Typography variant="body2" color="text.secondary">
+              {format === 'recettier'
+                ? 'Keeps every field, so the file can restore this library later.'
+                : 'Fields the format has no place for are listed after the export.'}
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {report ? (
+          <Button variant="contained" onClick={onClose}>
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button variant="contained" onClick={handleExport} disabled={recipes.length === 0}>
+              Download
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LibraryExportDialog;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import type { ImportResult } from '../../types';
+import { useAppStore, selectRecipes, selectIngredients, selectTrash } from '../../stores/appStore';
+import { importLibrary, INTERCHANGE_FORMATS } from '../../services/interchange';
+import InterchangeReportList from './InterchangeReportList';
+
+interface LibraryImportDialogProps {
+  onClose: () => void;
+  onImported: (recipeCount: number) => void;
+}
+
+const LibraryImportDialog: React.FC<LibraryImportDialogProps> = ({ onClose, onImported }) => {
+  const recipes = useAppStore(selectRecipes);
+  const ingredients = useAppStore(selectIngredients);
+  const trashed = useAppStore(selectTrash).ingredients;
+  const saveLibrary = useAppStore(state => state.importLibrary);
+
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const replaced = result?.data.recipes.filter(recipe => recipes.some(existing => existing.id === recipe.id)).length ?? 0;
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setError('');
+      // Trashed ingredients are matched too, and come back if the file uses them
+      const existing = [...ingredients, ...trashed];
+      setResult(importLibrary(file.name, new Uint8Array(await file.arrayBuffer()), existing));
+    } catch (importError) {
+      setResult(null);
+      setError(importError instanceof Error ? importError.message : 'Could not read this file');
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    void readFile(event.dataTransfer.files[0]);
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    try {
+      setIsSaving(true);
+      setError('');
+      await saveLibrary(result.data);
+      onImported(result.data.recipes.length);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to import recipes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Import Library</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <Box
+          onDragOver={event => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          sx={{
+            border: 2,
+            borderStyle: 'dashed',
+            borderColor: isDragging ? 'primary.main' : 'divider',
+            borderRadius: 3,
+            p: 2,
+            textAlign: 'center',
+          }}
+        >
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {fileName || 'Drop a Recettier bundle, Paprika, Mealie, Tandoor or Markdown file here.'}
+          </Typography>
+          <Button component="label" startIcon={<UploadFile />}>
+            Choose file
+            <input
+              type="file"
+              hidden
+              accept=".json,.paprikarecipes,.paprikarecipe,.md,.markdown"
+              onChange={e => void readFile(e.target.files?.[0])}
+            />
+          </Button>
+        </Box>
+
+        {result && (
+          <>
+            <Typography variant="body2">
+              {INTERCHANGE_FORMATS[result.report.format].label}: {result.report.recipeCount} recipe(s)
+              {replaced > 0 && `, ${replaced} replacing existing ones`}, {result.report.ingredientCount} new ingredient(s).
+            </Typography>
+            <InterchangeReportList report={result.report} />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={isSaving || !result || result.data.recipes.length === 0}
+        >
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LibraryImportDialog;
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+} from '@mui/material';
+import type { Ingredient, Recipe } from '../../types';
+import { formatNumber } from '../../utils/units';
+import { NUTRIENTS, NUTRITION_GAP_LABELS, calculateNutrition, formatNutrient } from '../../utils/nutrition';
+
+interface NutritionCardProps {
+  /** Recipe as shown, already scaled */
+  recipe: Recipe;
+  ingredientsById: Map<string, Ingredient>;
+}
+
+const NutritionCard: React.FC<NutritionCardProps> = ({ recipe, ingredientsById }) => {
+  const nutrition = useMemo(() => calculateNutrition(recipe, ingredientsById), [recipe, ingredientsById]);
+  const hasData = nutrition.gaps.length < recipe.ingredients.length;
+
+  if (recipe.ingredients.length === 0) return null;
+
+  return (
+    <Card sx={{ borderRadius: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" component="h2" gutterBottom>
+          Nutrition
+        </Typography>
+        {hasData ? (
+          <Table size="small" aria-label="Nutrition">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                <TableCell align="right">Per serving</TableCell>
+                <TableCell align="right">Total ({formatNumber(recipe.servings, true)} servings)</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {NUTRIENTS.map(({ key, label }) => (
+                <TableRow key={key}>
+                  <TableCell component="th" scope="row">{label}</TableCell>
+                  <TableCell align="right">{formatNutrient(nutrition.perServing[key], key)}</TableCell>
+                  <TableCell align="right">{formatNutrient(nutrition.total[key], key)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Add nutrition values to these ingredients in the registry to see totals.
+          </Typography>
+        )}
+        {hasData && nutrition.gaps.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            Not counted:{' '}
+            {nutrition.gaps.map(gap => `${gap.name} (${NUTRITION_GAP_LABELS[gap.reason]})`).join(', ')}
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NutritionCard;
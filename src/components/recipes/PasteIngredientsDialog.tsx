@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  Typography,
+} from '@mui/material';
+import type { RecipeIngredient } from '../../types';
+import { useAppStore, selectIngredients } from '../../stores/appStore';
+import { parseRecipeIngredient } from '../../utils/ingredientParser';
+import { formatQuantity } from '../../utils/units';
+
+interface PasteIngredientsDialogProps {
+  onClose: () => void;
+  onAdd: (rows: RecipeIngredient[]) => void;
+}
+
+const PasteIngredientsDialog: React.FC<PasteIngredientsDialogProps> = ({ onClose, onAdd }) => {
+  const ingredients = useAppStore(selectIngredients);
+  const [text, setText] = useState('');
+
+  const parsedLines = useMemo(
+    () => text
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => parseRecipeIngredient(line, ingredients)),
+    [text, ingredients]
+  );
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Paste Ingredients</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        <TextField
+          label="One ingredient per line"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={'1 ½ cups (200 g) flour, sifted\n3 gousses d\'ail'}
+          multiline
+          minRows={4}
+          maxRows={10}
+          fullWidth
+          autoFocus
+        />
+
+        {parsedLines.length > 0 && (
+          <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+            {parsedLines.map(({ parsed, match, ingredient }, index) => (
+              <ListItem key={index} divider disableGutters>
+                <ListItemText
+                  primary={match
+                    ? `${formatQuantity(ingredient.quantity, ingredient.unit)} ${match.name}`
+                    : parsed.line}
+                  secondary={match ? ingredient.notes : 'Choose the ingredient after adding'}
+                />
+                <Chip
+                  size="small"
+                  label={match ? 'Matched' : 'Unknown'}
+                  color={match ? 'success' : 'default'}
+                  variant="outlined"
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {parsedLines.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Lines are matched against the ingredient registry, in English or French.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => onAdd(parsedLines.map(line => line.ingredient))}
+          disabled={parsedLines.length === 0}
+        >
+          Add {parsedLines.length || ''} Ingredient(s)
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PasteIngredientsDialog;
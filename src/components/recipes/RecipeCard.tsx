@@ -0,0 +1,89 @@
+import React from 'react';
+import {
+  Card,
+  CardActionArea,
+  CardContent,
+  CardMedia,
+  Typography,
+  Box,
+  Chip,
+} from '@mui/material';
+import { AccessTime, Restaurant } from '@mui/icons-material';
+import type { Recipe } from '../../types';
+import { getTotalTime } from '../../utils/recipeSearch';
+import { useRecipeImage } from '../../hooks/useRecipeImage';
+
+interface RecipeCardProps {
+  recipe: Recipe;
+  onClick: (recipe: Recipe) => void;
+}
+
+const difficultyColors: Record<Recipe['difficulty'], 'success' | 'warning' | 'error'> = {
+  easy: 'success',
+  medium: 'warning',
+  hard: 'error',
+};
+
+const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, onClick }) => {
+  const totalTime = getTotalTime(recipe);
+  const imageSrc = useRecipeImage(recipe, 'thumbnail');
+
+  return (
+    <Card sx={{ borderRadius: 3, height: '100%' }}>
+      <CardActionArea
+        onClick={() => onClick(recipe)}
+        sx={{ height: '100%', display: 'flex', flexDirection: 'column', alignItems: 'stretch' }}
+      >
+        {imageSrc ? (
+          <CardMedia component="img" height="140" image={imageSrc} alt="" loading="lazy" />
+        ) : recipe.image && (
+          // Keep the card height steady while the thumbnail loads
+          <Box height={140} bgcolor="action.hover" />
+        )}
+        <CardContent sx={{ flexGrow: 1 }}>
+          <Typography variant="h6" component="h2" gutterBottom noWrap>
+            {recipe.title}
+          </Typography>
+          {recipe.description && (
+            <Typography
+              variant="body2"
+              color="text.secondary"
+              sx={{
+                mb: 1.5,
+                display: '-webkit-box',
+                WebkitLineClamp: 2,
+                WebkitBoxOrient: 'vertical',
+                overflow: 'hidden',
+              }}
+            >
+              {recipe.description}
+            </Typography>
+          )}
+          <Box display="flex" alignItems="center" gap={2} mb={1} color="text.secondary">
+            <Box display="flex" alignItems="center" gap={0.5}>
+              <AccessTime fontSize="small" />
+              <Typography variant="body2">{totalTime} min</Typography>
+            </Box>
+            <Box display="flex" alignItems="center" gap={0.5}>
+              <Restaurant fontSize="small" />
+              <Typography variant="body2">{recipe.servings}</Typography>
+            </Box>
+          </Box>
+          <Box display="flex" flexWrap="wrap" gap={0.5}>
+            <Chip
+              label={recipe.difficulty}
+              size="small"
+              color={difficultyColors[recipe.difficulty]}
+              variant="outlined"
+            />
+            {recipe.tags.map(tag => (
+              <Chip key={tag} label={tag} size="small" />
+            ))}
+          </Box>
+        </CardContent>
+      </CardActionArea>
+    </Card>
+  );
+};
+
+export default RecipeCard;
@@ -0,0 +1,346 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  MenuItem,
+  Autocomplete,
+  Chip,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { Save, Delete, AddPhotoAlternate } from '@mui/icons-material';
+import type { Recipe, RecipeImage } from '../../types';
+import { useAppStore, selectRecipes } from '../../stores/appStore';
+import { useReferencedIngredients } from '../../hooks/useReferencedIngredients';
+import {
+  validateRecipe,
+  isRecipeValid,
+  normalizeRecipeDraft,
+  type RecipeDraft,
+} from '../../utils/recipeValidation';
+import { toDraft, toFormState, type RecipeFormState } from './recipeForm';
+import RecipeIngredientsEditor from './RecipeIngredientsEditor';
+import InstructionsEditor from './InstructionsEditor';
+import { deleteRecipeImage, uploadRecipeImage } from '../../services/recipeImages';
+import { useRecipeImage } from '../../hooks/useRecipeImage';
+
+interface RecipeEditorProps {
+  /** Recipe being edited; omit to create a new one */
+  recipe?: Recipe;
+  /** Values to pre-fill a new recipe with */
+  initialDraft?: Partial<RecipeDraft>;
+  onSaved: (recipe: Recipe) => void;
+  onCancel: () => void;
+  onDeleted?: () => void;
+}
+
+const RecipeEditor: React.FC<RecipeEditorProps> = ({ recipe, initialDraft, onSaved, onCancel, onDeleted }) => {
+  const recipes = useAppStore(selectRecipes);
+  const ingredients = useReferencedIngredients();
+  const createRecipe = useAppStore(state => state.createRecipe);
+  const updateRecipe = useAppStore(state => state.updateRecipe);
+  const deleteRecipe = useAppStore(state => state.deleteRecipe);
+
+  const [form, setForm] = useState<RecipeFormState>(() => toFormState(recipe ?? initialDraft));
+  const [submitted, setSubmitted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+
+  // Photos uploaded while editing; any that don't end up saved are deleted
+  // when the editor closes
+  const uploads = useRef<RecipeImage[]>([]);
+  const savedImageId = useRef<string | undefined>(undefined);
+
+  useEffect(() => () => {
+    uploads.current
+      .filter(image => image.id !== savedImageId.current)
+      .forEach(image => void deleteRecipeImage(image));
+  }, []);
+
+  const knownTags = useMemo(
+    () => [...new Set(recipes.flatMap(existing => existing.tags))].sort(),
+    [recipes]
+  );
+
+  const draft = toDraft(form);
+  const knownIngredientIds = useMemo(() => new Set(ingredients.map(ingredient => ingredient.id)), [ingredients]);
+  const errors = submitted ? validateRecipe(draft, knownIngredientIds) : {};
+  const imageSrc = useRecipeImage(form, 'full');
+
+  const update = <K extends keyof RecipeFormState>(field: K, value: RecipeFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleUpload = async (file: File) => {
+    try {
+      setIsUploading(true);
+      setUploadError('');
+      const image = await uploadRecipeImage(file);
+      uploads.current.push(image);
+      setForm(prev => ({ ...prev, image, imageUrl: '' }));
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload photo');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSubmitted(true);
+    if (!isRecipeValid(validateRecipe(draft, knownIngredientIds))) return;
+
+    const normalized = normalizeRecipeDraft(draft);
+    try {
+      setIsSaving(true);
+      setSaveError('');
+
+      const saved = recipe
+        ? await updateRecipe({ ...recipe, ...normalized })
+        : await createRecipe({
+            ...normalized,
+            id: crypto.randomUUID(),
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          });
+      savedImageId.current = saved.image?.id;
+      onSaved(saved);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save recipe');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!recipe) return;
+    setConfirmDelete(false);
+    try {
+      await deleteRecipe(recipe.id);
+      onDeleted?.();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to delete recipe');
+    }
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={3}>
+      <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2}>
+        <Typography variant="h4" component="h1">
+          {recipe ? 'Edit Recipe' : 'New Recipe'}
+        </Typography>
+        <Box display="flex" gap={1}>
+          {recipe && (
+            <Button color="error" startIcon={<Delete />} onClick={() => setConfirmDelete(true)} disabled={isSaving}>
+              Delete
+            </Button>
+          )}
+          <Button variant="outlined" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="contained" startIcon={<Save />} onClick={handleSave} disabled={isSaving || isUploading}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </Box>
+      </Box>
+
+      {saveError && <Alert severity="error">{saveError}</Alert>}
+      {submitted && !isRecipeValid(errors) && (
+        <Alert severity="warning">Please fix the highlighted fields before saving.</Alert>
+      )}
+
+      {/* Basics */}
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent sx={{ p: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Title"
+            value={form.title}
+            onChange={e => update('title', e.target.value)}
+            error={!!errors.title}
+            helperText={errors.title}
+            required
+            fullWidth
+          />
+          <TextField
+            label="Description"
+            value={form.description}
+            onChange={e => update('description', e.target.value)}
+            error={!!errors.description}
+            helperText={errors.description}
+            multiline
+            minRows={2}
+            fullWidth
+          />
+          {!form.image && (
+            <TextField
+              label="Image URL"
+              value={form.imageUrl}
+              onChange={e => update('imageUrl', e.target.value)}
+              error={!!errors.imageUrl}
+              helperText={errors.imageUrl ?? 'Or upload a photo below'}
+              placeholder="https://..."
+              fullWidth
+            />
+          )}
+          {uploadError && <Alert severity="error" onClose={() => setUploadError('')}>{uploadError}</Alert>}
+          {imageSrc && !errors.imageUrl && (
+            <Box
+              component="img"
+              src={imageSrc}
+              alt=""
+              sx={{ maxHeight: 200, maxWidth: '100%', objectFit: 'cover', borderRadius: 2, alignSelf: 'flex-start' }}
+            />
+          )}
+          <Box display="flex" gap={1}>
+            <Button component="label" variant="outlined" startIcon={<AddPhotoAlternate />} disabled={isUploading}>
+              {isUploading ? 'Uploading...' : form.image ? 'Replace photo' : 'Upload photo'}
+              <input
+                type="file"
+                accept="image/*"
+                hidden
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleUpload(file);
+                }}
+              />
+            </Button>
+            {form.image && (
+              <Button color="inherit" onClick={() => update('image', undefined)} disabled={isUploading}>
+                Remove photo
+              </Button>
+            )}
+          </Box>
+        </CardContent>
+      </Card>
+
+      {/* Details */}
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent sx={{ p: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Details
+          </Typography>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr 1fr', md: 'repeat(4, 1fr)' },
+              gap: 2,
+            }}
+          >
+            <TextField
+              label="Prep time (min)"
+              value={form.prepTime}
+              onChange={e => update('prepTime', e.target.value)}
+              error={!!errors.prepTime}
+              helperText={errors.prepTime}
+              inputProps={{ inputMode: 'numeric' }}
+            />
+            <TextField
+              label="Cook time (min)"
+              value={form.cookTime}
+              onChange={e => update('cookTime', e.target.value)}
+              error={!!errors.cookTime}
+              helperText={errors.cookTime}
+              inputProps={{ inputMode: 'numeric' }}
+            />
+            <TextField
+              label="Servings"
+              value={form.servings}
+              onChange={e => update('servings', e.target.value)}
+              error={!!errors.servings}
+              helperText={errors.servings}
+              inputProps={{ inputMode: 'numeric' }}
+              required
+            />
+            <TextField
+              select
+              label="Difficulty"
+              value={form.difficulty}
+              onChange={e => update('difficulty', e.target.value as Recipe['difficulty'])}
+              error={!!errors.difficulty}
+              helperText={errors.difficulty}
+            >
+              <MenuItem value="easy">Easy</MenuItem>
+              <MenuItem value="medium">Medium</MenuItem>
+              <MenuItem value="hard">Hard</MenuItem>
+            </TextField>
+          </Box>
+
+          <Autocomplete
+            multiple
+            freeSolo
+            options={knownTags}
+            value={form.tags}
+            onChange={(_event, tags) => update('tags', tags)}
+            renderValue={(tags, getItemProps) =>
+              tags.map((tag, index) => {
+                const { key, ...itemProps } = getItemProps({ index });
+                return <Chip key={key} label={tag} size="small" {...itemProps} />;
+              })
+            }
+            renderInput={params => (
+              <TextField {...params} label="Tags" placeholder="Type and press Enter" />
+            )}
+            sx={{ mt: 2 }}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Ingredients */}
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent sx={{ p: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Ingredients
+          </Typography>
+          <RecipeIngredientsEditor
+            rows={form.ingredients}
+            onChange={rows => update('ingredients', rows)}
+            error={errors.ingredients}
+            rowErrors={errors.ingredientRows}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Instructions */}
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent sx={{ p: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Instructions
+          </Typography>
+          <InstructionsEditor
+            steps={form.instructions}
+            onChange={steps => update('instructions', steps)}
+            error={errors.instructions}
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={confirmDelete} onClose={() => setConfirmDelete(false)}>
+        <DialogTitle>Delete recipe?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            "{recipe?.title}" will be moved to the trash.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmDelete(false)}>Cancel</Button>
+          <Button color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RecipeEditor;
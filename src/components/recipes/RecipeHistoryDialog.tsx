@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  MenuItem,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import type { EntityVersion, Recipe, RecipeIngredient, VersionHistory } from '../../types';
+import { useAppStore } from '../../stores/appStore';
+import { useReferencedIngredients } from '../../hooks/useReferencedIngredients';
+import { formatNumber } from '../../utils/units';
+import {
+  diffRecipes,
+  isEmptyDiff,
+  restoreRecipeVersion,
+  type DiffedField,
+  type ListChange,
+} from '../../utils/recipeHistory';
+
+interface RecipeHistoryDialogProps {
+  recipe: Recipe;
+  history: VersionHistory<Recipe>;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const FIELD_LABELS: Record<DiffedField, string> = {
+  title: 'Title',
+  description: 'Description',
+  prepTime: 'Prep time',
+  cookTime: 'Cook time',
+  servings: 'Servings',
+  difficulty: 'Difficulty',
+  tags: 'Tags',
+  imageUrl: 'Image URL',
+};
+
+const describeField = (value: unknown): string => {
+  if (value === undefined || value === '') return 'None';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'None';
+  return String(value);
+};
+
+const CHANGE_STYLES = {
+  added: { sign: '+', color: 'success.main' },
+  removed: { sign: '−', color: 'error.main' },
+  changed: { sign: '~', color: 'warning.main' },
+} as const;
+
+const RecipeHistoryDialog: React.FC<RecipeHistoryDialogProps> = ({ recipe, history, onClose }) => {
+  const ingredients = useReferencedIngredients();
+  const updateRecipe = useAppStore(state => state.updateRecipe);
+
+  const [versions, setVersions] = useState<EntityVersion[] | null>(null);
+  // Downloaded versions by ID; null when Drive no longer has one
+  const [loaded, setLoaded] = useState<Record<string, Recipe | null>>({});
+  const [selectedId, setSelectedId] = useState('');
+  const [compareId, setCompareId] = useState(CURRENT);
+  const [error, setError] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    history.list(recipe.id)
+      .then(found => {
+        if (!active) return;
+        const newestFirst = [...found].reverse();
+        setVersions(newestFirst);
+        // The newest revision is usually what is shown already
+        setSelectedId(newestFirst[1]?.id ?? newestFirst[0]?.id ?? '');
+      })
+      .catch(listError => {
+        console.warn('Failed to list recipe versions:', listError);
+        if (active) setError('Version history could not be loaded. Check your connection and try again.');
+      });
+    return () => {
+      active = false;
+    };
+  }, [history, recipe.id]);
+
+  useEffect(() => {
+    const missing = [selectedId, compareId].filter(id => id && id !== CURRENT && !(id in loaded));
+    if (missing.length === 0) return;
+
+    let active = true;
+    Promise.all(missing.map(async id => [id, await history.get(recipe.id, id)] as const))
+      .then(results => {
+        if (!active) return;
+        setLoaded(prev => ({ ...prev, ...Object.fromEntries(results) }));
+      })
+      .catch(getError => {
+        console.warn('Failed to load recipe version:', getError);
+        if (active) setError('This version could not be loaded.');
+      });
+    return () => {
+      active = false;
+    };
+  }, [history, recipe.id, selectedId, compareId, loaded]);
+
+  const getVersion = (id: string) => (id === CURRENT ? recipe : loaded[id] ?? undefined);
+  const isUnavailable = [selectedId, compareId].some(id => loaded[id] === null);
+  const selected = getVersion(selectedId);
+  const compared = getVersion(compareId);
+  const diff = useMemo(() => (selected && compared ? diffRecipes(selected, compared) : null), [selected, compared]);
+
+  const getLabel = (id: string) => {
+    if (id === CURRENT) return 'Current version';
+    const version = versions?.find(existing => existing.id === id);
+    return version ? version.savedAt.toLocaleString() : '';
+  };
+
+  const describeIngredient = (ingredient: RecipeIngredient) => {
+    const name = ingredients.find(existing => existing.id === ingredient.ingredientId)?.name ?? 'Unknown ingredient';
+    const notes = ingredient.notes ? ` (${ingredient.notes})` : '';
+    return `${formatNumber(ingredient.quantity, true)} ${ingredient.unit} ${name}${notes}`;
+  };
+
+  const renderChange = <T,>(change: ListChange<T>, describe: (value: T) => string, prefix = '') => (
+    <Box display="flex" gap={1}>
+      <Typography component="span" fontWeight="bold" color={CHANGE_STYLES[change.type].color}>
+        {CHANGE_STYLES[change.type].sign}
+      </Typography>
+      <Typography component="span" variant="body2">
+        {prefix}
+        {change.type === 'changed' && (
+          <>
+            <Box component="span" sx={{ textDecoration: 'line-through', color: 'text.secondary' }}>
+              {describe(change.before)}
+            </Box>
+            {' → '}
+          </>
+        )}
+        {change.type === 'removed' ? describe(change.before) : describe(change.after)}
+      </Typography>
+    </Box>
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      setIsRestoring(true);
+      setError('');
+      await updateRecipe(restoreRecipeVersion(recipe, selected));
+      onClose();
+    } catch (restoreError) {
+      setError(restoreError instanceof Error ? restoreError.message : 'Failed to restore this version');
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Version history</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {!versions && !error && (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {versions && versions.length === 0 && (
+          <Typography color="text.secondary">No earlier versions have been saved yet.</Typography>
+        )}
+
+        {versions && versions.length > 0 && (
+          <Box display="flex" gap={2} flexDirection={{ xs: 'column', sm: 'row' }}>
+            <List dense sx={{ width: { sm: 220 }, flexShrink: 0, maxHeight: 400, overflow: 'auto' }} aria-label="Versions">
+              {versions.map((version, index) => (
+                <ListItemButton
+                  key={version.id}
+                  selected={version.id === selectedId}
+                  onClick={() => {
+                    setSelectedId(version.id);
+                    if (version.id === compareId) setCompareId(CURRENT);
+                  }}
+                >
+                  <ListItemText
+                    primary={version.savedAt.toLocaleString()}
+                    secondary={index === 0 ? 'Latest saved' : undefined}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+
+            <Box flex={1} minWidth={0}>
+              <TextField
+                select
+                size="small"
+                label="Compare with"
+                value={compareId}
+                onChange={event => setCompareId(event.target.value)}
+                sx={{ mb: 2, minWidth: 240 }}
+              >
+                <MenuItem value={CURRENT}>{getLabel(CURRENT)}</MenuItem>
+                {versions.filter(version => version.id !== selectedId).map(version => (
+                  <MenuItem key={version.id} value={version.id}>{getLabel(version.id)}</MenuItem>
+                ))}
+              </TextField>
+
+              {isUnavailable && <Alert severity="warning">This version is no longer available.</Alert>}
+              {!diff && !error && !isUnavailable && <CircularProgress size={24} />}
+
+              {diff && (
+                <>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Changes from {getLabel(selectedId)} to {compareId === CURRENT ? 'the current version' : getLabel(compareId)}
+                  </Typography>
+
+                  {isEmptyDiff(diff) && <Typography>No differences.</Typography>}
+
+                  {diff.fields.map(change => (
+                    <Box key={change.field} mb={1}>
+                      <Typography variant="subtitle2">{FIELD_LABELS[change.field]}</Typography>
+                      {renderChange({ type: 'changed', before: change.before, after: change.after }, describeField)}
+                    </Box>
+                  ))}
+
+                  {diff.ingredients.length > 0 && (
+                    <Box mb={1}>
+                      <Typography variant="subtitle2">Ingredients</Typography>
+                      {diff.ingredients.map((change, index) => (
+                        <React.Fragment key={index}>{renderChange(change, describeIngredient)}</React.Fragment>
+                      ))}
+                    </Box>
+                  )}
+
+                  {diff.instructions.length > 0 && (
+                    <Box mb={1}>
+                      <Typography variant="subtitle2">Steps</Typography>
+                      {diff.instructions.map((change, index) => (
+                        <React.Fragment key={index}>
+                          {renderChange(change, (step: string) => step, `${change.step}. `)}
+                        </React.Fragment>
+                      ))}
+                    </Box>
+                  )}
+                </>
+              )}
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isRestoring}>
+          Close
+        </Button>
+        <Button variant="contained" onClick={handleRestore} disabled={!selected || isRestoring}>
+          Restore this version
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecipeHistoryDialog;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import type { Ingredient } from '../../types';
+import { useAppStore, selectIngredients } from '../../stores/appStore';
+import { importRecipeFromHtml, toRecipeDraft, type ImportedRecipe } from '../../utils/recipeImport';
+import { DEFAULT_CATEGORY, findIngredientByName, normalizeIngredientDraft } from '../../utils/ingredientRegistry';
+import type { RecipeDraft } from '../../utils/recipeValidation';
+
+interface RecipeImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (draft: Partial<RecipeDraft>) => void;
+}
+
+const RecipeImportDialog: React.FC<RecipeImportDialogProps> = ({ open, onClose, onImported }) => {
+  const ingredients = useAppStore(selectIngredients);
+  const createIngredient = useAppStore(state => state.createIngredient);
+
+  const [html, setHtml] = useState('');
+  const [imported, setImported] = useState<ImportedRecipe | null>(null);
+  const [createMissing, setCreateMissing] = useState(true);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const unmatched = imported?.ingredients.filter(row => !row.ingredientId && row.name) ?? [];
+
+  const readPage = (page: string) => {
+    setHtml(page);
+    try {
+      setError('');
+      setImported(importRecipeFromHtml(page, ingredients));
+    } catch (importError) {
+      setImported(null);
+      setError(importError instanceof Error ? importError.message : 'Could not read this page');
+    }
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (file) readPage(await file.text());
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    void readFile(event.dataTransfer.files[0]);
+  };
+
+  const handleContinue = async () => {
+    if (!imported) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+
+      // Lines naming the same new ingredient ("egg", "eggs") share one entry
+      const ingredientIds = new Map<string, string>();
+      if (createMissing) {
+        const created: Ingredient[] = [];
+        for (const row of unmatched) {
+          const existing = findIngredientByName(row.name, created);
+          const ingredient = existing ?? await createIngredient({
+            id: crypto.randomUUID(),
+            ...normalizeIngredientDraft({
+              name: row.name,
+              category: DEFAULT_CATEGORY,
+              defaultUnit: row.unit,
+              alternativeNames: [],
+            }),
+          });
+          if (!existing) created.push(ingredient);
+          ingredientIds.set(row.line, ingredient.id);
+        }
+      }
+
+      onImported(toRecipeDraft(imported, ingredientIds));
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to add ingredients');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Import Recipe</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {!imported ? (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Paste the HTML source of a recipe page, or drop a saved page here.
+            </Typography>
+            <Box
+              onDragOver={event => {
+                event.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              sx={{
+                border: 2,
+                borderStyle: 'dashed',
+                borderColor: isDragging ? 'primary.main' : 'divider',
+                borderRadius: 3,
+                p: 1,
+              }}
+            >
+              <TextField
+                label="Page HTML"
+                value={html}
+                onChange={e => setHtml(e.target.value)}
+                multiline
+                minRows={6}
+                maxRows={12}
+                fullWidth
+              />
+            </Box>
+            <Box>
+              <Button component="label" startIcon={<UploadFile />}>
+                Open saved page
+                <input
+                  type="file"
+                  accept=".html,.htm,text/html"
+                  hidden
+                  onChange={e => void readFile(e.target.files?.[0])}
+                />
+              </Button>
+            </Box>
+          </>
+        ) : (
+          <>
+            <Box>
+              <Typography variant="h6">{imported.title || 'Untitled recipe'}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {imported.ingredients.length} ingredient(s), {imported.instructions.length} step(s)
+                {imported.servings ? `, ${imported.servings} servings` : ''}
+              </Typography>
+            </Box>
+            <List dense sx={{ maxHeight: 280, overflow: 'auto' }}>
+              {imported.ingredients.map((row, index) => {
+                const match = ingredients.find(ingredient => ingredient.id === row.ingredientId);
+                return (
+                  <ListItem key={index} divider disableGutters>
+                    <ListItemText primary={row.line} />
+                    <Chip
+                      size="small"
+                      label={match ? match.name : 'New'}
+                      color={match ? 'success' : 'default'}
+                      variant="outlined"
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+            {unmatched.length > 0 && (
+              <FormControlLabel
+                control={<Checkbox checked={createMissing} onChange={e => setCreateMissing(e.target.checked)} />}
+                label={`Add ${unmatched.length} new ingredient(s) to the registry`}
+              />
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        {imported ? (
+          <>
+            <Button onClick={() => setImported(null)} disabled={isSaving}>
+              Back
+            </Button>
+            <Button variant="contained" onClick={handleContinue} disabled={isSaving}>
+              Review &amp; Save
+            </Button>
+          </>
+        ) : (
+          <Button variant="contained" onClick={() => readPage(html)} disabled={!html.trim()}>
+            Read Recipe
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecipeImportDialog;
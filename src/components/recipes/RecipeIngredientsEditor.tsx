@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Box, Button, IconButton, TextField, Typography } from '@mui/material';
+import { Add, ContentPaste, Delete } from '@mui/icons-material';
+import IngredientSelector from '../ingredients/IngredientSelector';
+import type { RecipeIngredientErrors } from '../../utils/recipeValidation';
+import { createIngredientRow, type IngredientRow } from './recipeForm';
+import PasteIngredientsDialog from './PasteIngredientsDialog';
+
+interface RecipeIngredientsEditorProps {
+  rows: IngredientRow[];
+  onChange: (rows: IngredientRow[]) => void;
+  error?: string;
+  rowErrors?: Record<number, RecipeIngredientErrors>;
+}
+
+const RecipeIngredientsEditor: React.FC<RecipeIngredientsEditorProps> = ({
+  rows,
+  onChange,
+  error,
+  rowErrors = {},
+}) => {
+  const [isPasting, setIsPasting] = useState(false);
+
+  const updateRow = (index: number, changes: Partial<IngredientRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      {rows.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No ingredients yet.
+        </Typography>
+      )}
+
+      {rows.map((row, index) => (
+        <Box
+          key={row.key}
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr 1fr', md: '3fr 1fr 1fr 2fr auto' },
+            gap: 1,
+            alignItems: 'flex-start',
+          }}
+        >
+          <Box sx={{ gridColumn: { xs: '1 / -1', md: 'auto' } }}>
+            <IngredientSelector
+              value={row.ingredientId}
+              error={rowErrors[index]?.ingredientId}
+              onChange={ingredient => updateRow(index, {
+                ingredientId: ingredient?.id ?? '',
+                // Pre-fill the unit from the registry when none was chosen yet
+                unit: row.unit || ingredient?.defaultUnit || '',
+              })}
+            />
+          </Box>
+          <TextField
+            label="Quantity"
+            value={row.quantity}
+            onChange={e => updateRow(index, { quantity: e.target.value })}
+            error={!!rowErrors[index]?.quantity}
+            helperText={rowErrors[index]?.quantity}
+            size="small"
+            inputProps={{ inputMode: 'decimal' }}
+          />
+          <TextField
+            label="Unit"
+            value={row.unit}
+            onChange={e => updateRow(index, { unit: e.target.value })}
+            error={!!rowErrors[index]?.unit}
+            helperText={rowErrors[index]?.unit}
+            size="small"
+          />
+          <TextField
+            label="Notes"
+            value={row.notes}
+            onChange={e => updateRow(index, { notes: e.target.value })}
+            placeholder="e.g. finely chopped"
+            size="small"
+            sx={{ gridColumn: { xs: '1 / 2', md: 'auto' } }}
+          />
+          <IconButton
+            aria-label={`Remove ingredient ${index + 1}`}
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <Delete />
+          </IconButton>
+        </Box>
+      ))}
+
+      {error && (
+        <Typography variant="body2" color="error">
+          {error}
+        </Typography>
+      )}
+
+      <Box display="flex" gap={1}>
+        <Button startIcon={<Add />} onClick={() => onChange([...rows, createIngredientRow()])}>
+          Add Ingredient
+        </Button>
+        <Button startIcon={<ContentPaste />} onClick={() => setIsPasting(true)}>
+          Paste List
+        </Button>
+      </Box>
+
+      {isPasting && (
+        <PasteIngredientsDialog
+          onClose={() => setIsPasting(false)}
+          onAdd={pasted => {
+            setIsPasting(false);
+            onChange([
+              ...rows,
+              ...pasted.map(row => createIngredientRow({
+                ingredientId: row.ingredientId,
+                quantity: String(row.quantity),
+                unit: row.unit,
+                notes: row.notes ?? '',
+              })),
+            ]);
+          }}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default RecipeIngredientsEditor;
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  InputAdornment,
+  MenuItem,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  Button,
+} from '@mui/material';
+import { Search } from '@mui/icons-material';
+import type { Recipe, Ingredient } from '../../types';
+import { useAppStore, selectRecipes, selectIngredients } from '../../stores/appStore';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { RecipeSearchIndex, type RecipeSortKey } from '../../utils/recipeSearch';
+import RecipeCard from './RecipeCard';
+
+interface RecipeLibraryProps {
+  onSelect: (recipe: Recipe) => void;
+}
+
+const TIME_OPTIONS = [15, 30, 45, 60, 120];
+
+const SORT_LABELS: Record<RecipeSortKey, string> = {
+  updatedAt: 'Recently updated',
+  title: 'Title (A-Z)',
+  totalTime: 'Total time',
+};
+
+const RecipeLibrary: React.FC<RecipeLibraryProps> = ({ onSelect }) => {
+  const recipes = useAppStore(selectRecipes);
+  const ingredients = useAppStore(selectIngredients);
+
+  const [text, setText] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [difficulties, setDifficulties] = useState<Recipe['difficulty'][]>([]);
+  const [maxTotalTime, setMaxTotalTime] = useState<number | ''>('');
+  const [withIngredients, setWithIngredients] = useState<Ingredient[]>([]);
+  const [sort, setSort] = useState<RecipeSortKey>('updatedAt');
+
+  const debouncedText = useDebouncedValue(text);
+
+  // Rebuilt only when the collection changes, not on every keystroke
+  const index = useMemo(() => new RecipeSearchIndex(recipes, ingredients), [recipes, ingredients]);
+
+  const knownTags = useMemo(
+    () => [...new Set(recipes.flatMap(recipe => recipe.tags))].sort(),
+    [recipes]
+  );
+
+  // Only offer ingredients that at least one recipe uses
+  const usedIngredients = useMemo(() => {
+    const used = new Set(recipes.flatMap(recipe => recipe.ingredients.map(row => row.ingredientId)));
+    return ingredients
+      .filter(ingredient => used.has(ingredient.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [recipes, ingredients]);
+
+  const results = useMemo(
+    () => index.query({
+      text: debouncedText,
+      tags,
+      difficulties,
+      maxTotalTime: maxTotalTime === '' ? undefined : maxTotalTime,
+      ingredientIds: withIngredients.map(ingredient => ingredient.id),
+      sort,
+    }),
+    [index, debouncedText, tags, difficulties, maxTotalTime, withIngredients, sort]
+  );
+
+  const hasFilters = text !== '' || tags.length > 0 || difficulties.length > 0
+    || maxTotalTime !== '' || withIngredients.length > 0;
+
+  const clearFilters = () => {
+    setText('');
+    setTags([]);
+    setDifficulties([]);
+    setMaxTotalTime('');
+    setWithIngredients([]);
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={3}>
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent sx={{ p: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            placeholder="Search recipes, ingredients, instructions..."
+            value={text}
+            onChange={e => setText(e.target.value)}
+            fullWidth
+            slotProps={{
+              input: {
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <Search />
+                  </InputAdornment>
+                ),
+              },
+              htmlInput: { 'aria-label': 'Search recipes' },
+            }}
+          />
+
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr', md: 'repeat(4, 1fr)' },
+              gap: 2,
+            }}
+          >
+            <Autocomplete
+              multiple
+              size="small"
+              options={knownTags}
+              value={tags}
+              onChange={(_event, value) => setTags(value)}
+              renderInput={params => <TextField {...params} label="Tags" />}
+            />
+            <Autocomplete
+              multiple
+              size="small"
+              options={usedIngredients}
+              value={withIngredients}
+              onChange={(_event, value) => setWithIngredients(value)}
+              getOptionLabel={ingredient => ingredient.name}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              renderInput={params => <TextField {...params} label="Contains ingredient" />}
+            />
+            <TextField
+              select
+              size="small"
+              label="Total time"
+              value={maxTotalTime}
+              onChange={e => setMaxTotalTime(e.target.value === '' ? '' : Number(e.target.value))}
+            >
+              <MenuItem value="">Any</MenuItem>
+              {TIME_OPTIONS.map(minutes => (
+                <MenuItem key={minutes} value={minutes}>
+                  {minutes} min or less
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Sort by"
+              value={sort}
+              onChange={e => setSort(e.target.value as RecipeSortKey)}
+            >
+              {(Object.keys(SORT_LABELS) as RecipeSortKey[]).map(key => (
+                <MenuItem key={key} value={key}>
+                  {SORT_LABELS[key]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+
+          <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={1}>
+            <ToggleButtonGroup
+              size="small"
+              value={difficulties}
+              onChange={(_event, value: Recipe['difficulty'][]) => setDifficulties(value)}
+              aria-label="Difficulty"
+            >
+              <ToggleButton value="easy">Easy</ToggleButton>
+              <ToggleButton value="medium">Medium</ToggleButton>
+              <ToggleButton value="hard">Hard</ToggleButton>
+            </ToggleButtonGroup>
+            {hasFilters && (
+              <Button size="small" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </Box>
+        </CardContent>
+      </Card>
+
+      <Typography variant="body2" color="text.secondary">
+        {results.length === recipes.length
+          ? `${recipes.length} recipes`
+          : `${results.length} of ${recipes.length} recipes`}
+      </Typography>
+
+      {results.length === 0 ? (
+        <Typography variant="body1" color="text.secondary">
+          No recipes match your search.
+        </Typography>
+      ) : (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(3, 1fr)' },
+            gap: 3,
+          }}
+        >
+          {results.map(recipe => (
+            <RecipeCard key={recipe.id} recipe={recipe} onClick={onSelect} />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RecipeLibrary;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import type { Recipe } from '../../types';
+import { getRecipeSummary, type DisplayIngredient } from '../../utils/recipeDisplay';
+
+interface RecipePrintCardProps {
+  recipe: Recipe;
+  ingredients: DisplayIngredient[];
+}
+
+/**
+ * Single-page cook card, only shown when printing
+ */
+const RecipePrintCard: React.FC<RecipePrintCardProps> = ({ recipe, ingredients }) => (
+  <Box
+    sx={{
+      display: 'none',
+      displayPrint: 'block',
+      color: 'black',
+      bgcolor: 'white',
+      fontSize: '10.5pt',
+    }}
+  >
+    <Typography variant="h4" component="h1" sx={{ fontSize: '20pt', fontWeight: 'bold', mb: 0.5 }}>
+      {recipe.title}
+    </Typography>
+    <Typography variant="body2" sx={{ mb: 1 }}>
+      {getRecipeSummary(recipe)}
+    </Typography>
+    {recipe.description && (
+      <Typography variant="body2" sx={{ mb: 1, fontStyle: 'italic' }}>
+        {recipe.description}
+      </Typography>
+    )}
+
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 2fr',
+        gap: '8mm',
+        borderTop: '1px solid #999',
+        pt: 2,
+        breakInside: 'avoid',
+      }}
+    >
+      <Box>
+        <Typography variant="h6" component="h2" sx={{ fontSize: '13pt', mb: 1 }}>
+          Ingredients
+        </Typography>
+        <Box component="ul" sx={{ listStyle: 'none', p: 0, m: 0 }}>
+          {ingredients.map(row => (
+            <Box component="li" key={row.key} sx={{ mb: 0.5 }}>
+              <strong>{row.amount}</strong> {row.name}
+              {row.notes && `, ${row.notes}`}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+      <Box>
+        <Typography variant="h6" component="h2" sx={{ fontSize: '13pt', mb: 1 }}>
+          Method
+        </Typography>
+        <Box component="ol" sx={{ pl: 3, m: 0 }}>
+          {recipe.instructions.map((step, index) => (
+            <Box component="li" key={index} sx={{ mb: 1 }}>
+              {step}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    </Box>
+  </Box>
+);
+
+export default RecipePrintCard;
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  IconButton,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Alert,
+  Snackbar,
+} from '@mui/material';
+import {
+  AccessTime,
+  Add,
+  AddShoppingCart,
+  ArrowBack,
+  Edit,
+  History,
+  PictureAsPdf,
+  Print,
+  Remove,
+  SoupKitchen,
+} from '@mui/icons-material';
+import type { Recipe } from '../../types';
+import { useReferencedIngredients } from '../../hooks/useReferencedIngredients';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import { scaleRecipe } from '../../utils/recipeScaling';
+import { formatNumber } from '../../utils/units';
+import { getTotalTime } from '../../utils/recipeSearch';
+import { getDisplayIngredients } from '../../utils/recipeDisplay';
+import { buildRecipePdf, getPdfFileName } from '../../utils/recipePdf';
+import AddToShoppingListDialog from '../shopping/AddToShoppingListDialog';
+import RecipePrintCard from './RecipePrintCard';
+import CookMode from './CookMode';
+import NutritionCard from './NutritionCard';
+import RecipeHistoryDialog from './RecipeHistoryDialog';
+import { getStorageBackend } from '../../services/storage';
+import { useRecipeImage } from '../../hooks/useRecipeImage';
+
+interface RecipeViewProps {
+  recipe: Recipe;
+  onBack: () => void;
+  onEdit: () => void;
+}
+
+const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onBack, onEdit }) => {
+  const ingredients = useReferencedIngredients();
+  const unitPreference = usePreferencesStore(state => state.unitPreference);
+
+  // Scaling only changes what is shown; the stored recipe is never updated
+  const [servings, setServings] = useState(recipe.servings);
+  const [addingToList, setAddingToList] = useState(false);
+  const [isCooking, setIsCooking] = useState(false);
+  const [addedTo, setAddedTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const recipeHistory = getStorageBackend().recipeHistory;
+
+  const ingredientsById = useMemo(
+    () => new Map(ingredients.map(ingredient => [ingredient.id, ingredient])),
+    [ingredients]
+  );
+
+  const scaled = useMemo(() => scaleRecipe(recipe, { servings }, { round: false }), [recipe, servings]);
+
+  const rows = getDisplayIngredients(scaled, ingredientsById, unitPreference);
+
+  const isScaled = servings !== recipe.servings;
+  const imageSrc = useRecipeImage(recipe, 'full');
+
+  const handleExportPdf = async () => {
+    try {
+      setIsExporting(true);
+      setExportError('');
+      const doc = await buildRecipePdf(scaled, { ingredients, unitPreference });
+      doc.save(getPdfFileName(recipe.title));
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to create PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <RecipePrintCard recipe={scaled} ingredients={rows} />
+      <Box sx={{ displayPrint: 'none' }}>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={2} gap={2}>
+          <Box display="flex" alignItems="center" gap={1} minWidth={0}>
+            <IconButton onClick={onBack} aria-label="Back to recipes">
+              <ArrowBack />
+            </IconButton>
+            <Typography variant="h4" component="h1" noWrap>
+              {recipe.title}
+            </Typography>
+          </Box>
+          <Box display="flex" gap={1} flexShrink={0}>
+            <IconButton onClick={() => window.print()} aria-label="Print recipe">
+              <Print />
+            </IconButton>
+            <IconButton onClick={handleExportPdf} disabled={isExporting} aria-label="Download PDF">
+              <PictureAsPdf />
+            </IconButton>
+            {recipeHistory && (
+              <IconButton onClick={() => setShowHistory(true)} aria-label="Version history">
+                <History />
+              </IconButton>
+            )}
+            <Button variant="outlined" startIcon={<Edit />} onClick={onEdit}>
+              Edit
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<SoupKitchen />}
+              onClick={() => setIsCooking(true)}
+              disabled={recipe.instructions.length === 0}
+            >
+              Cook
+            </Button>
+          </Box>
+        </Box>
+
+        {exportError && (
+          <Alert severity="error" onClose={() => setExportError('')} sx={{ mb: 2 }}>
+            {exportError}
+          </Alert>
+        )}
+
+        {imageSrc && (
+          <Box
+            component="img"
+            src={imageSrc}
+            alt=""
+            sx={{ display: 'block', width: '100%', maxHeight: 360, objectFit: 'cover', borderRadius: 3, mb: 2 }}
+          />
+        )}
+
+        {recipe.description && (
+          <Typography variant="body1" color="text.secondary" mb={2}>
+            {recipe.description}
+          </Typography>
+        )}
+
+        <Box display="flex" flexWrap="wrap" alignItems="center" gap={1} mb={3}>
+          <Chip icon={<AccessTime />} label={`${getTotalTime(recipe)} min`} size="small" />
+          <Chip label={recipe.difficulty} size="small" variant="outlined" />
+          {recipe.tags.map(tag => (
+            <Chip key={tag} label={tag} size="small" />
+          ))}
+        </Box>
+
+        <Card sx={{ borderRadius: 3, mb: 3 }}>
+          <CardContent>
+            <Box display="flex" flexWrap="wrap" alignItems="center" justifyContent="space-between" gap={2} mb={1}>
+              <Typography variant="h6" component="h2">
+                Ingredients
+              </Typography>
+              <Box display="flex" alignItems="center" gap={1}>
+                <IconButton
+                  size="small"
+                  onClick={() => setServings(current => Math.max(1, current - 1))}
+                  disabled={servings <= 1}
+                  aria-label="Fewer servings"
+                >
+                  <Remove />
+                </IconButton>
+                <Typography variant="body1" sx={{ minWidth: 96, textAlign: 'center' }}>
+                  {formatNumber(servings, true)} servings
+                </Typography>
+                <IconButton size="small" onClick={() => setServings(current => current + 1)} aria-label="More servings">
+                  <Add />
+                </IconButton>
+                <Button size="small" onClick={() => setServings(current => current / 2)}>
+                  ×½
+                </Button>
+                <Button size="small" onClick={() => setServings(current => current * 2)}>
+                  ×2
+                </Button>
+                {isScaled && (
+                  <Button size="small" onClick={() => setServings(recipe.servings)}>
+                    Reset
+                  </Button>
+                )}
+              </Box>
+            </Box>
+
+            {isScaled && (
+              <Typography variant="body2" color="text.secondary">
+                Scaled from {recipe.servings} servings
+              </Typography>
+            )}
+
+            <List dense>
+              {rows.map(row => (
+                <ListItem key={row.key} disableGutters divider>
+                  <ListItemText
+                    primary={(
+                      <>
+                        <Box component="span" fontWeight="medium">{row.amount}</Box> {row.name}
+                      </>
+                    )}
+                    secondary={row.notes}
+                  />
+                </ListItem>
+              ))}
+            </List>
+
+            <Button
+              variant="contained"
+              startIcon={<AddShoppingCart />}
+              onClick={() => setAddingToList(true)}
+              disabled={recipe.ingredients.length === 0}
+              sx={{ mt: 2 }}
+            >
+              Add to Shopping List
+            </Button>
+          </CardContent>
+        </Card>
+
+        <NutritionCard recipe={scaled} ingredientsById={ingredientsById} />
+
+        <Card sx={{ borderRadius: 3 }}>
+          <CardContent>
+            <Typography variant="h6" component="h2" gutterBottom>
+              Instructions
+            </Typography>
+            <Box component="ol" sx={{ pl: 3, m: 0 }}>
+              {recipe.instructions.map((step, index) => (
+                <Typography key={index} component="li" variant="body1" sx={{ mb: 1 }}>
+                  {step}
+                </Typography>
+              ))}
+            </Box>
+          </CardContent>
+        </Card>
+      </Box>
+
+      {showHistory && recipeHistory && (
+        <RecipeHistoryDialog recipe={recipe} history={recipeHistory} onClose={() => setShowHistory(false)} />
+      )}
+
+      {isCooking && <CookMode recipe={scaled} ingredients={rows} onClose={() => setIsCooking(false)} />}
+
+      {addingToList && (
+        <AddToShoppingListDialog
+          recipe={scaleRecipe(recipe, { servings })}
+          onClose={() => setAddingToList(false)}
+          onAdded={list => {
+            setAddingToList(false);
+            setAddedTo(list.name);
+          }}
+        />
+      )}
+
+      <Snackbar open={!!addedTo} autoHideDuration={4000} onClose={() => setAddedTo('')}>
+        <Alert severity="success" onClose={() => setAddedTo('')}>
+          Added to {addedTo}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default RecipeView;
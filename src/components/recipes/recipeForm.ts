@@ -0,0 +1,99 @@
+/**
+ * Form state for the recipe editor
+ *
+ * Inputs are kept as strings while editing so that partially typed values
+ * ("1.", "") don't get coerced; they are converted to a RecipeDraft on save.
+ */
+
+import type { Recipe, RecipeImage } from '../../types';
+import type { RecipeDraft } from '../../utils/recipeValidation';
+
+export interface IngredientRow {
+  key: string;
+  ingredientId: string;
+  quantity: string;
+  unit: string;
+  notes: string;
+}
+
+export interface InstructionStep {
+  key: string;
+  text: string;
+}
+
+export interface RecipeFormState {
+  title: string;
+  description: string;
+  imageUrl: string;
+  image?: RecipeImage;
+  prepTime: string;
+  cookTime: string;
+  servings: string;
+  difficulty: Recipe['difficulty'];
+  tags: string[];
+  ingredients: IngredientRow[];
+  instructions: InstructionStep[];
+}
+
+export const createIngredientRow = (overrides: Partial<IngredientRow> = {}): IngredientRow => ({
+  key: crypto.randomUUID(),
+  ingredientId: '',
+  quantity: '',
+  unit: '',
+  notes: '',
+  ...overrides,
+});
+
+export const createStep = (text = ''): InstructionStep => ({ key: crypto.randomUUID(), text });
+
+export function toFormState(draft?: Partial<RecipeDraft>): RecipeFormState {
+  return {
+    title: draft?.title ?? '',
+    description: draft?.description ?? '',
+    imageUrl: draft?.imageUrl ?? '',
+    image: draft?.image,
+    prepTime: draft?.prepTime !== undefined ? String(draft.prepTime) : '',
+    cookTime: draft?.cookTime !== undefined ? String(draft.cookTime) : '',
+    servings: draft?.servings !== undefined ? String(draft.servings) : '4',
+    difficulty: draft?.difficulty ?? 'easy',
+    tags: draft?.tags ?? [],
+    ingredients: (draft?.ingredients ?? []).map(row => createIngredientRow({
+      ingredientId: row.ingredientId,
+      quantity: String(row.quantity),
+      unit: row.unit,
+      notes: row.notes ?? '',
+    })),
+    instructions: draft?.instructions?.length
+      ? draft.instructions.map(text => createStep(text))
+      : [createStep()],
+  };
+}
+
+/**
+ * Parse a numeric input, accepting a comma as decimal separator
+ */
+function parseNumber(value: string, fallback: number): number {
+  const trimmed = value.trim().replace(',', '.');
+  return trimmed === '' ? fallback : Number(trimmed);
+}
+
+export function toDraft(form: RecipeFormState): RecipeDraft {
+  return {
+    title: form.title,
+    description: form.description,
+    imageUrl: form.imageUrl || undefined,
+    image: form.image,
+    prepTime: parseNumber(form.prepTime, 0),
+    cookTime: parseNumber(form.cookTime, 0),
+    servings: parseNumber(form.servings, NaN),
+    difficulty: form.difficulty,
+    tags: form.tags,
+    ingredients: form.ingredients.map(row => ({
+      ingredientId: row.ingredientId,
+      quantity: parseNumber(row.quantity, NaN),
+      unit: row.unit,
+      notes: row.notes || undefined,
+    })),
+    instructions: form.instructions.map(step => step.text),
+  };
+}
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Typography,
+  Alert,
+} from '@mui/material';
+import type { Recipe, ShoppingList } from '../../types';
+import { useAppStore, selectIngredients, selectShoppingLists } from '../../stores/appStore';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import { useUsableStock } from '../../hooks/useUsableStock';
+import {
+  generateShoppingList,
+  generateShoppingListItems,
+  mergeShoppingListItems,
+} from '../../utils/shoppingListGenerator';
+import { STATUS_LABELS } from '../../utils/shoppingList';
+
+interface AddToShoppingListDialogProps {
+  /** Recipe as it should be bought for, already scaled */
+  recipe: Recipe;
+  onClose: () => void;
+  onAdded: (list: ShoppingList) => void;
+}
+
+const NEW_LIST = 'new';
+
+const AddToShoppingListDialog: React.FC<AddToShoppingListDialogProps> = ({ recipe, onClose, onAdded }) => {
+  const ingredients = useAppStore(selectIngredients);
+  const shoppingLists = useAppStore(selectShoppingLists);
+  const unitPreference = usePreferencesStore(state => state.unitPreference);
+  const pantry = useUsableStock();
+  const createShoppingList = useAppStore(state => state.createShoppingList);
+  const updateShoppingList = useAppStore(state => state.updateShoppingList);
+
+  // Completed lists are done with; only open ones can take more items
+  const openLists = useMemo(
+    () => shoppingLists.filter(list => list.status !== 'completed'),
+    [shoppingLists]
+  );
+
+  const [target, setTarget] = useState(NEW_LIST);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  // Stock was already taken off an open list when it was generated, so it
+  // only applies to a new one
+  const aggregation = useMemo(
+    () => ({
+      ingredients,
+      unitSystem: unitPreference === 'original' ? undefined : unitPreference,
+      pantry: target === NEW_LIST ? pantry : undefined,
+    }),
+    [ingredients, unitPreference, pantry, target]
+  );
+
+  const items = useMemo(() => generateShoppingListItems([{ recipe }], aggregation), [recipe, aggregation]);
+
+  const handleAdd = async () => {
+    try {
+      setIsSaving(true);
+      setSaveError('');
+
+      const existing = openLists.find(list => list.id === target);
+      const saved = existing
+        ? await updateShoppingList({
+            ...existing,
+            items: mergeShoppingListItems(existing.items, items, ingredients),
+          })
+        : await createShoppingList(generateShoppingList([{ recipe }], { ...aggregation, name }));
+      onAdded(saved);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to update shopping list');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Add to Shopping List</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {saveError && <Alert severity="error">{saveError}</Alert>}
+        <Typography variant="body2" color="text.secondary">
+          {recipe.title}, {recipe.servings} servings: {items.length} item(s)
+        </Typography>
+        <TextField
+          select
+          label="Shopping list"
+          value={target}
+          onChange={e => setTarget(e.target.value)}
+          fullWidth
+        >
+          <MenuItem value={NEW_LIST}>New list</MenuItem>
+          {openLists.map(list => (
+            <MenuItem key={list.id} value={list.id}>
+              {list.name} ({STATUS_LABELS[list.status]})
+            </MenuItem>
+          ))}
+        </TextField>
+        {target === NEW_LIST && (
+          <TextField
+            label="List name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={`Shopping list ${new Date().toLocaleDateString()}`}
+            fullWidth
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleAdd} disabled={isSaving || items.length === 0}>
+          Add
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AddToShoppingListDialog;
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  Typography,
+  Alert,
+} from '@mui/material';
+import type { ShoppingList } from '../../types';
+import { useAppStore, selectRecipes, selectIngredients } from '../../stores/appStore';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import { useUsableStock } from '../../hooks/useUsableStock';
+import {
+  generateShoppingList,
+  generateShoppingListItems,
+  type RecipeSelection,
+} from '../../utils/shoppingListGenerator';
+
+interface GenerateShoppingListDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onCreated: (list: ShoppingList) => void;
+  /** Recipes to pre-select */
+  initialRecipeIds?: string[];
+}
+
+const GenerateShoppingListDialog: React.FC<GenerateShoppingListDialogProps> = ({
+  open,
+  onClose,
+  onCreated,
+  initialRecipeIds = [],
+}) => {
+  const recipes = useAppStore(selectRecipes);
+  const ingredients = useAppStore(selectIngredients);
+  const unitPreference = usePreferencesStore(state => state.unitPreference);
+  const pantry = useUsableStock();
+  const createShoppingList = useAppStore(state => state.createShoppingList);
+
+  const [name, setName] = useState('');
+  const [filter, setFilter] = useState('');
+  // Selected recipe id -> servings as typed
+  const [servings, setServings] = useState<Record<string, string>>(() =>
+    Object.fromEntries(initialRecipeIds.map(id => [id, '']))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const selections = useMemo<RecipeSelection[]>(
+    () => recipes
+      .filter(recipe => recipe.id in servings)
+      .map(recipe => {
+        const value = Number(servings[recipe.id]);
+        return { recipe, servings: value > 0 ? value : undefined };
+      }),
+    [recipes, servings]
+  );
+
+  const aggregation = useMemo(
+    () => ({ ingredients, unitSystem: unitPreference === 'original' ? undefined : unitPreference, pantry }),
+    [ingredients, unitPreference, pantry]
+  );
+
+  const itemCount = useMemo(
+    () => generateShoppingListItems(selections, aggregation).length,
+    [selections, aggregation]
+  );
+
+  const visibleRecipes = recipes
+    .filter(recipe => recipe.title.toLowerCase().includes(filter.trim().toLowerCase()))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const toggle = (id: string) => {
+    setServings(prev => {
+      const next = { ...prev };
+      if (id in next) delete next[id];
+      else next[id] = '';
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsSaving(true);
+      setSaveError('');
+      const list = await createShoppingList(generateShoppingList(selections, { ...aggregation, name }));
+      onCreated(list);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to create shopping list');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Generate Shopping List</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {saveError && <Alert severity="error">{saveError}</Alert>}
+        <TextField
+          label="List name"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={`Shopping list ${new Date().toLocaleDateString()}`}
+          fullWidth
+        />
+        <TextField
+          label="Filter recipes"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          size="small"
+          fullWidth
+        />
+
+        {recipes.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Add some recipes first.
+          </Typography>
+        ) : (
+          <List dense sx={{ maxHeight: 360, overflow: 'auto' }}>
+            {visibleRecipes.map(recipe => {
+              const selected = recipe.id in servings;
+              return (
+                <ListItem
+                  key={recipe.id}
+                  divider
+                  secondaryAction={selected && (
+                    <TextField
+                      size="small"
+                      label="Servings"
+                      value={servings[recipe.id]}
+                      placeholder={String(recipe.servings)}
+                      onChange={e => setServings(prev => ({ ...prev, [recipe.id]: e.target.value }))}
+                      slotProps={{
+                        inputLabel: { shrink: true },
+                        htmlInput: { inputMode: 'numeric', 'aria-label': `Servings for ${recipe.title}` },
+                      }}
+                      sx={{ width: 96 }}
+                    />
+                  )}
+                >
+                  <ListItemIcon>
+                    <Checkbox
+                      edge="start"
+                      checked={selected}
+                      onChange={() => toggle(recipe.id)}
+                      slotProps={{ input: { 'aria-label': recipe.title } }}
+                    />
+                  </ListItemIcon>
+                  <ListItemText primary={recipe.title} secondary={`${recipe.servings} servings`} />
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+
+        <Typography variant="body2" color="text.secondary">
+          {selections.length} recipe(s) selected, {itemCount} item(s)
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleCreate} disabled={isSaving || selections.length === 0}>
+          Create Draft
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default GenerateShoppingListDialog;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  Box,
+} from '@mui/material';
+import type { ShoppingListItem } from '../../types';
+
+interface ShoppingItemDialogProps {
+  item: ShoppingListItem;
+  label: string;
+  /** Stores already used in this list, offered as suggestions */
+  knownStores: string[];
+  onSave: (item: ShoppingListItem) => void;
+  onClose: () => void;
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  const trimmed = value.trim().replace(',', '.');
+  if (!trimmed) return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const ShoppingItemDialog: React.FC<ShoppingItemDialogProps> = ({ item, label, knownStores, onSave, onClose }) => {
+  const isManual = !item.ingredientId;
+  const [name, setName] = useState(item.name ?? '');
+  const [quantity, setQuantity] = useState(String(item.quantity));
+  const [unit, setUnit] = useState(item.unit);
+  const [price, setPrice] = useState(item.price === undefined ? '' : String(item.price));
+  const [store, setStore] = useState(item.store ?? '');
+
+  const parsedQuantity = parseOptionalNumber(quantity);
+  const parsedPrice = parseOptionalNumber(price);
+  const quantityError = parsedQuantity === undefined || parsedQuantity <= 0;
+  const priceError = price.trim() !== '' && (parsedPrice === undefined || parsedPrice < 0);
+  const nameError = isManual && !name.trim();
+
+  const handleSave = () => {
+    if (parsedQuantity === undefined || quantityError || priceError || nameError) return;
+    onSave({
+      ...item,
+      name: isManual ? name.trim() : item.name,
+      quantity: parsedQuantity,
+      unit: unit.trim(),
+      price: parsedPrice,
+      store: store.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{isManual ? 'Edit Item' : label}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {isManual && (
+          <TextField
+            label="Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            error={nameError}
+            helperText={nameError ? 'Name is required' : undefined}
+            fullWidth
+          />
+        )}
+        <Box display="flex" gap={2}>
+          <TextField
+            label="Quantity"
+            value={quantity}
+            onChange={e => setQuantity(e.target.value)}
+            error={quantityError}
+            helperText={quantityError ? 'Enter a quantity greater than 0' : undefined}
+            slotProps={{ htmlInput: { inputMode: 'decimal' } }}
+          />
+          <TextField label="Unit" value={unit} onChange={e => setUnit(e.target.value)} />
+        </Box>
+        <TextField
+          label="Price"
+          value={price}
+          onChange={e => setPrice(e.target.value)}
+          error={priceError}
+          helperText={priceError ? 'Enter a valid price' : undefined}
+          slotProps={{ htmlInput: { inputMode: 'decimal' } }}
+        />
+        <Autocomplete
+          freeSolo
+          options={knownStores}
+          value={store}
+          onInputChange={(_event, value) => setStore(value)}
+          renderInput={params => <TextField {...params} label="Store" />}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShoppingItemDialog;
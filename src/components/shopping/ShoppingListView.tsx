@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  IconButton,
+  Chip,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  TextField,
+  Switch,
+  FormControlLabel,
+  LinearProgress,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, Add, Edit, Delete, CloudOff } from '@mui/icons-material';
+import type { ShoppingList, ShoppingListItem } from '../../types';
+import { useAppStore, selectIngredients } from '../../stores/appStore';
+import { useReferencedIngredients } from '../../hooks/useReferencedIngredients';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { getOutboxKey } from '../../services/sync';
+import { convertToPreference, formatQuantity } from '../../utils/units';
+import {
+  NEXT_STATUS,
+  STATUS_LABELS,
+  groupItemsByAisle,
+  getListProgress,
+  getListTotal,
+  createManualItem,
+  type ShoppingListEntry,
+} from '../../utils/shoppingList';
+import ShoppingItemDialog from './ShoppingItemDialog';
+
+interface ShoppingListViewProps {
+  list: ShoppingList;
+  onBack: () => void;
+}
+
+const STATUS_ACTIONS: Record<ShoppingList['status'], string> = {
+  draft: 'Start Shopping',
+  active: 'Finish Shopping',
+  completed: 'Reopen',
+};
+
+const ShoppingListView: React.FC<ShoppingListViewProps> = ({ list, onBack }) => {
+  const ingredients = useAppStore(selectIngredients);
+  const referencedIngredients = useReferencedIngredients();
+  const updateShoppingList = useAppStore(state => state.updateShoppingList);
+  const deleteShoppingList = useAppStore(state => state.deleteShoppingList);
+  const isPending = useSyncStatus().pending.includes(getOutboxKey('shoppingLists', list.id));
+  const unitPreference = usePreferencesStore(state => state.unitPreference);
+  const isOnline = useOnlineStatus();
+
+  const [inStoreMode, setInStoreMode] = useState(list.status === 'active');
+  const [newItem, setNewItem] = useState('');
+  const [editing, setEditing] = useState<ShoppingListEntry | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const groups = useMemo(
+    () => groupItemsByAisle(list.items, referencedIngredients, inStoreMode),
+    [list.items, referencedIngredients, inStoreMode]
+  );
+  const knownStores = useMemo(
+    () => [...new Set(list.items.flatMap(item => item.store ? [item.store] : []))].sort(),
+    [list.items]
+  );
+
+  const progress = getListProgress(list.items);
+  const total = getListTotal(list.items);
+
+  // Failures are reported by the store, which also keeps offline changes
+  const save = (changes: Partial<ShoppingList>) => {
+    updateShoppingList({ ...list, ...changes }).catch(() => {});
+  };
+
+  const updateItem = (index: number, item: ShoppingListItem) => {
+    save({ items: list.items.map((existing, i) => (i === index ? item : existing)) });
+  };
+
+  const removeItem = (index: number) => {
+    save({ items: list.items.filter((_item, i) => i !== index) });
+  };
+
+  const addItem = () => {
+    const item = createManualItem(newItem, ingredients);
+    if (!item) return;
+    save({ items: [...list.items, item] });
+    setNewItem('');
+  };
+
+  const advanceStatus = () => {
+    const status = NEXT_STATUS[list.status];
+    save({ status });
+    setInStoreMode(status === 'active');
+  };
+
+  const handleDelete = async () => {
+    setConfirmDelete(false);
+    try {
+      await deleteShoppingList(list.id);
+      onBack();
+    } catch {
+      // Reported by the store
+    }
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={3}>
+      <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2}>
+        <Box display="flex" alignItems="center" gap={1}>
+          <IconButton aria-label="Back to shopping lists" onClick={onBack}>
+            <ArrowBack />
+          </IconButton>
+          <Typography variant="h4" component="h1">
+            {list.name}
+          </Typography>
+          <Chip label={STATUS_LABELS[list.status]} size="small" />
+        </Box>
+        <Box display="flex" gap={1}>
+          <Button color="error" startIcon={<Delete />} onClick={() => setConfirmDelete(true)}>
+            Delete
+          </Button>
+          <Button variant="contained" onClick={advanceStatus}>
+            {STATUS_ACTIONS[list.status]}
+          </Button>
+        </Box>
+      </Box>
+
+      {(!isOnline || isPending) && (
+        <Alert severity="info" icon={<CloudOff />}>
+          {isOnline
+            ? 'Saving changes made offline...'
+            : "You're offline. Changes are kept on this device and will sync when you're back online."}
+        </Alert>
+      )}
+
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent sx={{ p: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={1}>
+            <Typography variant="body1">
+              {progress.purchased} of {progress.total} items
+              {total > 0 && ` · ${total.toFixed(2)}`}
+            </Typography>
+            <FormControlLabel
+              control={<Switch checked={inStoreMode} onChange={e => setInStoreMode(e.target.checked)} />}
+              label="In-store mode"
+            />
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            value={progress.total === 0 ? 0 : (progress.purchased / progress.total) * 100}
+            sx={{ height: 8, borderRadius: 4 }}
+          />
+          <Box
+            component="form"
+            display="flex"
+            gap={1}
+            onSubmit={(e: React.FormEvent) => {
+              e.preventDefault();
+              addItem();
+            }}
+          >
+            <TextField
+              size="small"
+              placeholder="Add an item"
+              value={newItem}
+              onChange={e => setNewItem(e.target.value)}
+              fullWidth
+              slotProps={{ htmlInput: { 'aria-label': 'New item' } }}
+            />
+            <Button type="submit" variant="outlined" startIcon={<Add />} disabled={!newItem.trim()}>
+              Add
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+
+      {list.items.length === 0 ? (
+        <Typography variant="body1" color="text.secondary">
+          This list is empty.
+        </Typography>
+      ) : (
+        groups.map(group => (
+          <Card key={group.category} sx={{ borderRadius: 3 }}>
+            <CardContent sx={{ pb: 0 }}>
+              <Typography variant="h6" component="h2">
+                {group.category}
+              </Typography>
+            </CardContent>
+            <List>
+              {group.entries.map(entry => {
+                const { item, index, label } = entry;
+                const amount = convertToPreference(item.quantity, item.unit, unitPreference);
+                const details = [
+                  formatQuantity(amount.quantity, amount.unit),
+                  item.store,
+                  item.price !== undefined && item.price.toFixed(2),
+                ].filter(Boolean).join(' · ');
+
+                return (
+                  <ListItem
+                    key={index}
+                    disablePadding
+                    divider
+                    secondaryAction={
+                      <>
+                        <IconButton aria-label={`Edit ${label}`} onClick={() => setEditing(entry)}>
+                          <Edit />
+                        </IconButton>
+                        {!inStoreMode && (
+                          <IconButton edge="end" aria-label={`Remove ${label}`} onClick={() => removeItem(index)}>
+                            <Delete />
+                          </IconButton>
+                        )}
+                      </>
+                    }
+                  >
+                    <ListItemButton
+                      onClick={() => updateItem(index, { ...item, purchased: !item.purchased })}
+                      sx={{ minHeight: inStoreMode ? 72 : 48 }}
+                    >
+                      <ListItemIcon>
+                        <Checkbox
+                          edge="start"
+                          checked={item.purchased}
+                          tabIndex={-1}
+                          disableRipple
+                          slotProps={{ input: { 'aria-label': label } }}
+                          sx={inStoreMode ? { '& .MuiSvgIcon-root': { fontSize: 36 } } : undefined}
+                        />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={label}
+                        secondary={details}
+                        slotProps={{
+                          primary: {
+                            variant: inStoreMode ? 'h6' : 'body1',
+                            sx: item.purchased ? { textDecoration: 'line-through', color: 'text.secondary' } : undefined,
+                          },
+                        }}
+                      />
+                    </ListItemButton>
+                  </ListItem>
+                );
+              })}
+            </List>
+          </Card>
+        ))
+      )}
+
+      {editing && (
+        <ShoppingItemDialog
+          item={editing.item}
+          label={editing.label}
+          knownStores={knownStores}
+          onClose={() => setEditing(null)}
+          onSave={item => {
+            updateItem(editing.index, item);
+            setEditing(null);
+          }}
+        />
+      )}
+
+      <Dialog open={confirmDelete} onClose={() => setConfirmDelete(false)}>
+        <DialogTitle>Delete shopping list?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>"{list.name}" will be moved to the trash.</DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmDelete(false)}>Cancel</Button>
+          <Button color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ShoppingListView;
@@ -2,6 +2,9 @@ import React, { useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
 import type { User, AuthState, AuthContextType } from '../types';
 import { googleAuthService } from '../services/googleAuth';
+import { googleDriveService } from '../services/googleDrive';
+import { getStorageBackend } from '../services/storage';
+import { clearRecipeImages } from '../services/recipeImages';
 import { AuthContext } from './AuthContextDefinition';
 
 interface AuthProviderProps {
@@ -159,7 +162,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const signOut = async () => {
     try {
+      // Send what can still be sent; the rest is dropped with the local copy,
+      // which Navigation confirms with the user first (SignOutDialog)
+      const sync = getStorageBackend().sync;
+      await sync?.flush().catch(error => console.warn('Failed to sync before signing out:', error));
       await googleAuthService.signOut();
+      googleDriveService.reset();
+      await sync?.clear();
+      await clearRecipeImages();
       setAuthState({
         user: null,
         isAuthenticated: false,
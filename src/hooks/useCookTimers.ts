@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  isTimerDone,
+  isTimerRunning,
+  pauseTimer,
+  resumeTimer,
+  startTimer,
+  type CookTimer,
+  type StepDuration,
+} from '../utils/stepTimers';
+
+export interface CookTimers {
+  timers: CookTimer[];
+  /** Current time, refreshed every second while a timer runs */
+  now: number;
+  start: (duration: StepDuration, step: number) => void;
+  toggle: (id: string) => void;
+  dismiss: (id: string) => void;
+}
+
+function playChime() {
+  try {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.3, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 1.5);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 1.5);
+    oscillator.onended = () => context.close();
+  } catch {
+    // Audio is blocked until the user has interacted with the page
+  }
+}
+
+function requestNotificationPermission() {
+  try {
+    // Older Safari only takes a callback and returns undefined
+    Promise.resolve(Notification.requestPermission()).catch(() => {});
+  } catch {
+    // Timers still ring without notifications
+  }
+}
+
+function showPageNotification(title: string, options: NotificationOptions) {
+  try {
+    new Notification(title, options);
+  } catch {
+    // Android Chrome only shows notifications through a service worker
+  }
+}
+
+function showNotification(title: string, options: NotificationOptions) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  // `ready` never settles when no service worker controls the page
+  if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+    navigator.serviceWorker.ready
+      .then(registration => registration.showNotification(title, options))
+      .catch(() => showPageNotification(title, options));
+  } else {
+    showPageNotification(title, options);
+  }
+}
+
+function notifyDone(timer: CookTimer) {
+  playChime();
+  navigator.vibrate?.([300, 150, 300]);
+  showNotification('Timer done', { body: timer.label, tag: timer.id });
+}
+
+/**
+ * Kitchen timers that keep running whichever step is shown, and ring once
+ * when they go off
+ */
+export const useCookTimers = (): CookTimers => {
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const notifiedIds = useRef(new Set<string>());
+
+  const hasRunning = timers.some(isTimerRunning);
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  useEffect(() => {
+    for (const timer of timers) {
+      if (isTimerRunning(timer) && isTimerDone(timer, now) && !notifiedIds.current.has(timer.id)) {
+        notifiedIds.current.add(timer.id);
+        notifyDone(timer);
+      }
+    }
+  }, [timers, now]);
+
+  const start = useCallback((duration: StepDuration, step: number) => {
+    if ('Notification' in window && Notification.permission === 'default') {
+      requestNotificationPermission();
+    }
+    const current = Date.now();
+    setNow(current);
+    setTimers(previous => [...previous, startTimer(duration, step, current)]);
+  }, []);
+
+  const toggle = useCallback((id: string) => {
+    const current = Date.now();
+    setNow(current);
+    setTimers(previous => previous.map(timer => {
+      if (timer.id !== id || isTimerDone(timer, current)) return timer;
+      return isTimerRunning(timer) ? pauseTimer(timer, current) : resumeTimer(timer, current);
+    }));
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    setTimers(previous => previous.filter(timer => timer.id !== id));
+  }, []);
+
+  return { timers, now, start, toggle, dismiss };
+};
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import type { Recipe } from '../types';
+import { resolveMediaUrl } from '../services/recipeImages';
+
+/**
+ * URL to display for a recipe's photo: the uploaded image (or its thumbnail)
+ * once it has been fetched, or the external image URL. Undefined while an
+ * upload is still loading or when the recipe has no photo.
+ */
+export const useRecipeImage = (
+  recipe: Pick<Recipe, 'image' | 'imageUrl'>,
+  size: 'full' | 'thumbnail'
+): string | undefined => {
+  const mediaId = size === 'thumbnail' ? recipe.image?.thumbnailId : recipe.image?.id;
+  const [resolved, setResolved] = useState<{ id: string; url: string } | null>(null);
+
+  useEffect(() => {
+    if (!mediaId) return;
+
+    let active = true;
+    resolveMediaUrl(mediaId)
+      .then(url => {
+        if (active) setResolved({ id: mediaId, url });
+      })
+      .catch(error => console.warn('Failed to load recipe image:', error));
+    return () => {
+      active = false;
+    };
+  }, [mediaId]);
+
+  if (!mediaId) return recipe.imageUrl;
+  return resolved?.id === mediaId ? resolved.url : undefined;
+};
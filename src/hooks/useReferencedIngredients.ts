@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import type { Ingredient } from '../types';
+import { useAppStore, selectIngredients, selectTrash } from '../stores/appStore';
+import { withTrashedIngredients } from '../utils/trash';
+
+/**
+ * Every ingredient a recipe or list row can point at, including those in
+ * the trash; offer only the live ones for new rows
+ */
+export const useReferencedIngredients = (): Ingredient[] => {
+  const ingredients = useAppStore(selectIngredients);
+  const trashed = useAppStore(selectTrash).ingredients;
+  return useMemo(() => withTrashedIngredients(ingredients, trashed), [ingredients, trashed]);
+};
@@ -0,0 +1,18 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { SyncStatus } from '../types';
+import { getStorageBackend } from '../services/storage';
+
+const IDLE: SyncStatus = { pending: [], conflicts: [], isSyncing: false, lastSyncedAt: null, error: null };
+
+/**
+ * Outbox status of the active storage backend; backends that save directly
+ * never have anything pending
+ */
+export const useSyncStatus = (): SyncStatus => {
+  const sync = getStorageBackend().sync;
+  const subscribe = useCallback(
+    (listener: () => void) => sync?.subscribe(listener) ?? (() => {}),
+    [sync]
+  );
+  return useSyncExternalStore(subscribe, () => sync?.getStatus() ?? IDLE);
+};
@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import type { PantryItem } from '../types';
+import { useAppStore, selectPantryItems } from '../stores/appStore';
+import { getUsableStock } from '../utils/pantry';
+import { toDateKey } from '../utils/mealPlanning';
+
+/**
+ * Pantry stock that has not expired, to take off generated shopping lists
+ */
+export const useUsableStock = (): PantryItem[] => {
+  const pantryItems = useAppStore(selectPantryItems);
+  return useMemo(() => getUsableStock(pantryItems, toDateKey(new Date())), [pantryItems]);
+};
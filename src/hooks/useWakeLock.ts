@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+
+/**
+ * Keeps the screen on while `enabled`, where the Wake Lock API is available.
+ * Browsers release the lock when the page is hidden, so it is requested
+ * again whenever the page becomes visible.
+ */
+export const useWakeLock = (enabled: boolean): void => {
+  useEffect(() => {
+    if (!enabled || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let active = true;
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (active) sentinel = lock;
+        else await lock.release();
+      } catch (error) {
+        // Refused when the page is hidden or the battery is low
+        console.warn('Screen wake lock unavailable:', error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      active = false;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release().catch(() => {});
+    };
+  }, [enabled]);
+};
@@ -15,32 +15,46 @@ import {
   TrendingUp,
 } from '@mui/icons-material';
 import { useAuth } from '../hooks/useAuth';
+import {
+  useAppStore,
+  selectRecipeCount,
+  selectShoppingListCount,
+  selectIngredientCount,
+  selectMealPlans,
+} from '../stores/appStore';
+import { countUpcomingMeals, toDateKey } from '../utils/mealPlanning';
+import ExpiringPantryCard from '../components/pantry/ExpiringPantryCard';
 
 const DashboardPage: React.FC = () => {
   const { user } = useAuth();
+  const recipeCount = useAppStore(selectRecipeCount);
+  const shoppingListCount = useAppStore(selectShoppingListCount);
+  const ingredientCount = useAppStore(selectIngredientCount);
+  const mealPlans = useAppStore(selectMealPlans);
+  const today = toDateKey(new Date());
 
   const statsCards = [
     {
       title: 'Total Recipes',
-      value: '0',
+      value: String(recipeCount),
       icon: <Restaurant fontSize="large" />,
       color: '#2E7D32',
     },
     {
       title: 'Shopping Lists',
-      value: '0',
+      value: String(shoppingListCount),
       icon: <ShoppingCart fontSize="large" />,
       color: '#FF6F00',
     },
     {
       title: 'Ingredients',
-      value: '0',
+      value: String(ingredientCount),
       icon: <Inventory fontSize="large" />,
       color: '#1976D2',
     },
     {
       title: 'Meals Planned',
-      value: '0',
+      value: String(countUpcomingMeals(mealPlans, today)),
       icon: <TrendingUp fontSize="large" />,
       color: '#7B1FA2',
     },
@@ -131,6 +145,8 @@ const DashboardPage: React.FC = () => {
           ))}
         </Box>
 
+        <ExpiringPantryCard today={today} />
+
         {/* Getting Started Section */}
         <Box
           sx={{
@@ -246,13 +262,11 @@ const DashboardPage: React.FC = () => {
                       width: 8,
                       height: 8,
                       borderRadius: '50%',
-                      backgroundColor: '#FFC107',
+                      backgroundColor: '#4CAF50',
                       mr: 2,
                     }}
                   />
-                  <Typography variant="body2" color="text.secondary">
-                    Meal Planning (Coming Soon)
-                  </Typography>
+                  <Typography variant="body2">Meal Planning</Typography>
                 </Box>
               </Box>
             </CardContent>
@@ -1,19 +1,203 @@
-import React from 'react';
-import { Container, Typography, Box } from '@mui/material';
+import React, { useMemo, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  IconButton,
+  TextField,
+  InputAdornment,
+  CircularProgress,
+} from '@mui/material';
+import { Add, Edit, Delete, MergeType, Search } from '@mui/icons-material';
+import type { Ingredient } from '../types';
+import { useAppStore, selectIngredients, selectRecipes } from '../stores/appStore';
+import { groupIngredientsByCategory, ingredientMatches } from '../utils/ingredientRegistry';
+import IngredientFormDialog from '../components/ingredients/IngredientFormDialog';
+import DeleteIngredientDialog from '../components/ingredients/DeleteIngredientDialog';
+import MergeIngredientsDialog from '../components/ingredients/MergeIngredientsDialog';
+
+type IngredientDialog =
+  | { mode: 'create' }
+  | { mode: 'edit'; ingredient: Ingredient }
+  | { mode: 'delete'; ingredient: Ingredient }
+  | { mode: 'merge' };
 
 const IngredientsPage: React.FC = () => {
+  const ingredients = useAppStore(selectIngredients);
+  const recipes = useAppStore(selectRecipes);
+  const isLoading = useAppStore(state => state.isLoading);
+
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [dialog, setDialog] = useState<IngredientDialog | null>(null);
+
+  const groups = useMemo(
+    () => groupIngredientsByCategory(ingredients.filter(ingredient => ingredientMatches(ingredient, search))),
+    [ingredients, search]
+  );
+
+  const recipeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const recipe of recipes) {
+      for (const id of new Set(recipe.ingredients.map(row => row.ingredientId))) {
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [recipes]);
+
+  // Ignore selections whose ingredient has since been deleted
+  const selected = ingredients.filter(ingredient => selectedIds.has(ingredient.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const closeDialog = () => setDialog(null);
+
+  const describe = (ingredient: Ingredient) => {
+    const count = recipeCounts.get(ingredient.id) ?? 0;
+    return [
+      ingredient.alternativeNames.join(', '),
+      ingredient.defaultUnit && `Unit: ${ingredient.defaultUnit}`,
+      count > 0 && `${count} recipe${count === 1 ? '' : 's'}`,
+    ].filter(Boolean).join(' · ');
+  };
+
   return (
     <Container maxWidth="lg">
       <Box sx={{ mt: 4, mb: 4 }}>
-        <Typography variant="h4" component="h1" gutterBottom>
-          Ingredients
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          Your ingredient registry will appear here. This feature is coming soon!
-        </Typography>
+        <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} mb={2}>
+          <Typography variant="h4" component="h1">
+            Ingredients
+          </Typography>
+          <Box display="flex" gap={1}>
+            {selected.length >= 2 && (
+              <Button variant="outlined" startIcon={<MergeType />} onClick={() => setDialog({ mode: 'merge' })}>
+                Merge {selected.length}
+              </Button>
+            )}
+            <Button variant="contained" startIcon={<Add />} onClick={() => setDialog({ mode: 'create' })}>
+              Add Ingredient
+            </Button>
+          </Box>
+        </Box>
+
+        <TextField
+          placeholder="Search by name or alternative name"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          fullWidth
+          sx={{ mb: 3 }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search />
+                </InputAdornment>
+              ),
+            },
+            htmlInput: { 'aria-label': 'Search ingredients' },
+          }}
+        />
+
+        {isLoading && ingredients.length === 0 ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : ingredients.length === 0 ? (
+          <Typography variant="body1" color="text.secondary">
+            Your ingredient registry is empty.
+          </Typography>
+        ) : groups.length === 0 ? (
+          <Typography variant="body1" color="text.secondary">
+            No ingredients match "{search}".
+          </Typography>
+        ) : (
+          <Box display="flex" flexDirection="column" gap={3}>
+            {groups.map(group => (
+              <Card key={group.category} sx={{ borderRadius: 3 }}>
+                <CardContent sx={{ pb: 1 }}>
+                  <Typography variant="h6" component="h2">
+                    {group.category}
+                  </Typography>
+                </CardContent>
+                <List dense>
+                  {group.ingredients.map(ingredient => (
+                    <ListItem
+                      key={ingredient.id}
+                      divider
+                      secondaryAction={
+                        <>
+                          <IconButton
+                            aria-label={`Edit ${ingredient.name}`}
+                            onClick={() => setDialog({ mode: 'edit', ingredient })}
+                          >
+                            <Edit />
+                          </IconButton>
+                          <IconButton
+                            edge="end"
+                            aria-label={`Delete ${ingredient.name}`}
+                            onClick={() => setDialog({ mode: 'delete', ingredient })}
+                          >
+                            <Delete />
+                          </IconButton>
+                        </>
+                      }
+                    >
+                      <ListItemIcon>
+                        <Checkbox
+                          edge="start"
+                          checked={selectedIds.has(ingredient.id)}
+                          onChange={() => toggleSelected(ingredient.id)}
+                          slotProps={{ input: { 'aria-label': `Select ${ingredient.name}` } }}
+                        />
+                      </ListItemIcon>
+                      <ListItemText primary={ingredient.name} secondary={describe(ingredient)} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Card>
+            ))}
+          </Box>
+        )}
       </Box>
+
+      {(dialog?.mode === 'create' || dialog?.mode === 'edit') && (
+        <IngredientFormDialog
+          open
+          ingredient={dialog.mode === 'edit' ? dialog.ingredient : undefined}
+          onClose={closeDialog}
+        />
+      )}
+      {dialog?.mode === 'delete' && (
+        <DeleteIngredientDialog ingredient={dialog.ingredient} onClose={closeDialog} />
+      )}
+      {dialog?.mode === 'merge' && (
+        <MergeIngredientsDialog
+          ingredients={selected}
+          onClose={closeDialog}
+          onMerged={() => {
+            setSelectedIds(new Set());
+            closeDialog();
+          }}
+        />
+      )}
     </Container>
   );
 };
 
-export default IngredientsPage;
\ No newline at end of file
+export default IngredientsPage;
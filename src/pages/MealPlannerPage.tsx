@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Button,
+  IconButton,
+  Card,
+  CardContent,
+  ToggleButton,
+  ToggleButtonGroup,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import { ChevronLeft, ChevronRight, PlaylistAdd } from '@mui/icons-material';
+import type { MealPlan, MealSlot, ShoppingList } from '../types';
+import { useAppStore, selectRecipes, selectMealPlans } from '../stores/appStore';
+import {
+  addDays,
+  addMonths,
+  createMealPlan,
+  formatDateRange,
+  getMonthWeeks,
+  getWeekDays,
+  parseDateKey,
+  toDateKey,
+} from '../utils/mealPlanning';
+import type { PlannerDragItem } from '../components/planner/dragData';
+import WeekView from '../components/planner/WeekView';
+import MonthView from '../components/planner/MonthView';
+import RecipePalette from '../components/planner/RecipePalette';
+import MealPlanDialog from '../components/planner/MealPlanDialog';
+import PlanShoppingListDialog from '../components/planner/PlanShoppingListDialog';
+
+type PlannerView = 'week' | 'month';
+
+/** Slot given to recipes dropped on a month cell, which has no slots */
+const DEFAULT_SLOT: MealSlot = 'dinner';
+
+interface MealDialogState {
+  plan?: MealPlan;
+  date: string;
+  slot: MealSlot;
+}
+
+const MealPlannerPage: React.FC = () => {
+  const recipes = useAppStore(selectRecipes);
+  const mealPlans = useAppStore(selectMealPlans);
+  const createPlan = useAppStore(state => state.createMealPlan);
+  const updatePlan = useAppStore(state => state.updateMealPlan);
+
+  const today = toDateKey(new Date());
+  const [view, setView] = useState<PlannerView>('week');
+  const [anchor, setAnchor] = useState(today);
+  const [mealDialog, setMealDialog] = useState<MealDialogState | null>(null);
+  const [isListDialogOpen, setIsListDialogOpen] = useState(false);
+  const [createdList, setCreatedList] = useState<ShoppingList | null>(null);
+
+  const recipesById = useMemo(() => new Map(recipes.map(recipe => [recipe.id, recipe])), [recipes]);
+  const weekDays = getWeekDays(anchor);
+  const monthWeeks = getMonthWeeks(anchor);
+  const visibleDays = view === 'week' ? weekDays : monthWeeks.flat();
+  const from = visibleDays[0];
+  const to = visibleDays[visibleDays.length - 1];
+
+  const handleStep = (direction: number) => {
+    setAnchor(view === 'week' ? addDays(anchor, direction * 7) : addMonths(anchor, direction));
+  };
+
+  const handleDrop = (item: PlannerDragItem, date: string, slot?: MealSlot) => {
+    if (item.kind === 'meal') {
+      const plan = mealPlans.find(existing => existing.id === item.id);
+      if (!plan) return;
+      const target = { date, slot: slot ?? plan.slot };
+      if (plan.date === target.date && plan.slot === target.slot) return;
+      updatePlan({ ...plan, ...target }).catch(() => {});
+      return;
+    }
+    const recipe = recipesById.get(item.id);
+    if (!recipe) return;
+    createPlan(createMealPlan({
+      date,
+      slot: slot ?? DEFAULT_SLOT,
+      recipeId: recipe.id,
+      servings: recipe.servings,
+    })).catch(() => {});
+  };
+
+  const handleCreated = (list: ShoppingList) => {
+    setIsListDialogOpen(false);
+    setCreatedList(list);
+  };
+
+  const rangeLabel = view === 'week'
+    ? formatDateRange(from, to)
+    : parseDateKey(anchor).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+  return (
+    <Container maxWidth="xl">
+      <Box sx={{ mt: 4, mb: 4 }}>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
+          <Typography variant="h4" component="h1">
+            Meal Planner
+          </Typography>
+          <Button variant="contained" startIcon={<PlaylistAdd />} onClick={() => setIsListDialogOpen(true)}>
+            Shopping List
+          </Button>
+        </Box>
+
+        <Box display="flex" alignItems="center" flexWrap="wrap" gap={1} mb={2}>
+          <ToggleButtonGroup
+            value={view}
+            exclusive
+            size="small"
+            onChange={(_, value: PlannerView | null) => value && setView(value)}
+          >
+            <ToggleButton value="week">Week</ToggleButton>
+            <ToggleButton value="month">Month</ToggleButton>
+          </ToggleButtonGroup>
+          <IconButton onClick={() => handleStep(-1)} aria-label={`Previous ${view}`}>
+            <ChevronLeft />
+          </IconButton>
+          <Button size="small" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <IconButton onClick={() => handleStep(1)} aria-label={`Next ${view}`}>
+            <ChevronRight />
+          </IconButton>
+          <Typography variant="h6" component="h2">
+            {rangeLabel}
+          </Typography>
+        </Box>
+
+        <Box display="flex" flexDirection={{ xs: 'column', md: 'row' }} gap={2} alignItems="flex-start">
+          <Card sx={{ borderRadius: 3, flex: 1, minWidth: 0, width: '100%' }}>
+            <CardContent>
+              {view === 'week' ? (
+                <WeekView
+                  days={weekDays}
+                  today={today}
+                  plans={mealPlans}
+                  recipesById={recipesById}
+                  onDrop={handleDrop}
+                  onAdd={(date, slot) => setMealDialog({ date, slot })}
+                  onOpen={plan => setMealDialog({ plan, date: plan.date, slot: plan.slot })}
+                />
+              ) : (
+                <MonthView
+                  weeks={monthWeeks}
+                  month={anchor}
+                  today={today}
+                  plans={mealPlans}
+                  recipesById={recipesById}
+                  onDrop={(item, date) => handleDrop(item, date)}
+                  onOpenDay={date => {
+                    setAnchor(date);
+                    setView('week');
+                  }}
+                  onOpen={plan => setMealDialog({ plan, date: plan.date, slot: plan.slot })}
+                />
+              )}
+            </CardContent>
+          </Card>
+          <Box sx={{ width: { xs: '100%', md: 280 }, flexShrink: 0 }}>
+            <RecipePalette />
+          </Box>
+        </Box>
+
+        {mealDialog && (
+          <MealPlanDialog
+            plan={mealDialog.plan}
+            date={mealDialog.date}
+            slot={mealDialog.slot}
+            onClose={() => setMealDialog(null)}
+          />
+        )}
+
+        {isListDialogOpen && (
+          <PlanShoppingListDialog
+            from={from}
+            to={to}
+            onClose={() => setIsListDialogOpen(false)}
+            onCreated={handleCreated}
+          />
+        )}
+
+        <Snackbar open={!!createdList} autoHideDuration={4000} onClose={() => setCreatedList(null)}>
+          <Alert severity="success" onClose={() => setCreatedList(null)}>
+            Created "{createdList?.name}" in Shopping Lists
+          </Alert>
+        </Snackbar>
+      </Box>
+    </Container>
+  );
+};
+
+export default MealPlannerPage;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Container, Typography, Box, Button } from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+
+interface NotFoundPageProps {
+  message?: string;
+  backTo?: string;
+  backLabel?: string;
+}
+
+const NotFoundPage: React.FC<NotFoundPageProps> = ({
+  message = 'This page does not exist.',
+  backTo = '/',
+  backLabel = 'Back to dashboard',
+}) => (
+  <Container maxWidth="lg">
+    <Box sx={{ mt: 4, mb: 4 }} display="flex" flexDirection="column" alignItems="flex-start" gap={2}>
+      <Typography variant="h4" component="h1">
+        Not found
+      </Typography>
+      <Typography variant="body1" color="text.secondary">
+        {message}
+      </Typography>
+      <Button variant="outlined" component={RouterLink} to={backTo}>
+        {backLabel}
+      </Button>
+    </Box>
+  </Container>
+);
+
+export default NotFoundPage;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Button,
+  Card,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import { Add } from '@mui/icons-material';
+import type { PantryItem } from '../types';
+import { useAppStore, selectPantryItems } from '../stores/appStore';
+import { useReferencedIngredients } from '../hooks/useReferencedIngredients';
+import { formatQuantity } from '../utils/units';
+import { toDateKey } from '../utils/mealPlanning';
+import PantryItemDialog from '../components/pantry/PantryItemDialog';
+import ExpiryChip from '../components/pantry/ExpiryChip';
+
+type PantryDialog = { mode: 'create' } | { mode: 'edit'; item: PantryItem };
+
+const PantryPage: React.FC = () => {
+  const pantryItems = useAppStore(selectPantryItems);
+  const ingredients = useReferencedIngredients();
+  const isLoading = useAppStore(state => state.isLoading);
+  const [dialog, setDialog] = useState<PantryDialog | null>(null);
+
+  const today = toDateKey(new Date());
+  const ingredientsById = useMemo(
+    () => new Map(ingredients.map(ingredient => [ingredient.id, ingredient])),
+    [ingredients]
+  );
+  const getName = (item: PantryItem) => ingredientsById.get(item.ingredientId)?.name ?? 'Unknown ingredient';
+
+  const sortedItems = [...pantryItems].sort((a, b) => getName(a).localeCompare(getName(b)));
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ mt: 4, mb: 4 }}>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
+          <Typography variant="h4" component="h1">
+            Pantry
+          </Typography>
+          <Button variant="contained" startIcon={<Add />} onClick={() => setDialog({ mode: 'create' })}>
+            Add Stock
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Stock on hand is taken off new shopping lists, and purchases are added back when a list is completed.
+        </Typography>
+
+        {isLoading && pantryItems.length === 0 ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : pantryItems.length === 0 ? (
+          <Typography variant="body1" color="text.secondary">
+            Your pantry is empty.
+          </Typography>
+        ) : (
+          <Card sx={{ borderRadius: 3 }}>
+            <List>
+              {sortedItems.map(item => (
+                <ListItem
+                  key={item.id}
+                  disablePadding
+                  divider
+                  secondaryAction={<ExpiryChip item={item} today={today} />}
+                >
+                  <ListItemButton onClick={() => setDialog({ mode: 'edit', item })}>
+                    <ListItemText primary={getName(item)} secondary={formatQuantity(item.quantity, item.unit)} />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </List>
+          </Card>
+        )}
+      </Box>
+
+      {dialog && (
+        <PantryItemDialog
+          item={dialog.mode === 'edit' ? dialog.item : undefined}
+          onClose={() => setDialog(null)}
+        />
+      )}
+    </Container>
+  );
+};
+
+export default PantryPage;
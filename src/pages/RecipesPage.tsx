@@ -1,19 +1,211 @@
-import React from 'react';
-import { Container, Typography, Box } from '@mui/material';
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Button,
+  CircularProgress,
+  Menu,
+  MenuItem,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import { Add, FileDownload, FileUpload } from '@mui/icons-material';
+import { Navigate, useLocation, useMatch, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import type { Recipe } from '../types';
+import type { RecipeDraft } from '../utils/recipeValidation';
+import { useAppStore, selectRecipes } from '../stores/appStore';
+import RecipeEditor from '../components/recipes/RecipeEditor';
+import RecipeLibrary from '../components/recipes/RecipeLibrary';
+import RecipeView from '../components/recipes/RecipeView';
+import RecipeImportDialog from '../components/recipes/RecipeImportDialog';
+import ExportCookbookDialog from '../components/recipes/ExportCookbookDialog';
+import LibraryImportDialog from '../components/recipes/LibraryImportDialog';
+import LibraryExportDialog from '../components/recipes/LibraryExportDialog';
+import NotFoundPage from './NotFoundPage';
 
+type RecipesDialog = 'importPage' | 'importLibrary' | 'exportCookbook' | 'exportLibrary';
+
+type RecipesView =
+  | { mode: 'list' }
+  | { mode: 'view'; recipeId: string }
+  | { mode: 'create'; draft?: Partial<RecipeDraft> }
+  | { mode: 'edit'; recipeId: string };
+
+/** Navigation state of /recipes?action=add, for drafts imported from a web page */
+interface CreateLocationState {
+  draft?: Partial<RecipeDraft>;
+}
+
+/**
+ * Recipe list at /recipes, a recipe at /recipes/:recipeId and its editor at
+ * /recipes/:recipeId/edit; /recipes?action=add opens a new recipe
+ */
 const RecipesPage: React.FC = () => {
+  const recipes = useAppStore(selectRecipes);
+  const isLoading = useAppStore(state => state.isLoading);
+  const trashedRecipes = useAppStore(state => state.trash.recipes);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { recipeId } = useParams();
+  const isEditing = useMatch('/recipes/:recipeId/edit') !== null;
+  const [searchParams] = useSearchParams();
+  const [importMenu, setImportMenu] = useState<HTMLElement | null>(null);
+  const [exportMenu, setExportMenu] = useState<HTMLElement | null>(null);
+  const [dialog, setDialog] = useState<RecipesDialog | null>(null);
+  const [importedCount, setImportedCount] = useState(0);
+
+  let view: RecipesView;
+  if (recipeId) {
+    view = isEditing ? { mode: 'edit', recipeId } : { mode: 'view', recipeId };
+  } else if (searchParams.get('action') === 'add') {
+    view = { mode: 'create', draft: (location.state as CreateLocationState | null)?.draft };
+  } else {
+    view = { mode: 'list' };
+  }
+
+  // Leaving the editor replaces it in the history so Back does not reopen it
+  const showList = (replace = false) => navigate('/recipes', { replace });
+  const showRecipe = (recipe: Recipe, replace = false) => navigate(`/recipes/${recipe.id}`, { replace });
+  const closeDialog = () => setDialog(null);
+
+  const openDialog = (next: RecipesDialog) => {
+    setImportMenu(null);
+    setExportMenu(null);
+    setDialog(next);
+  };
+
+  const recipe: Recipe | undefined = view.mode === 'view' || view.mode === 'edit'
+    ? recipes.find(existing => existing.id === view.recipeId)
+    : undefined;
+
+  if ((view.mode === 'view' || view.mode === 'edit') && !recipe) {
+    // Just deleted, possibly from this page
+    if (trashedRecipes.some(trashed => trashed.id === view.recipeId)) {
+      return <Navigate to="/recipes" replace />;
+    }
+    // Opened from a link before the collection has arrived
+    return isLoading ? (
+      <Box display="flex" justifyContent="center" py={4}>
+        <CircularProgress />
+      </Box>
+    ) : (
+      <NotFoundPage message="This recipe does not exist or has been deleted." backTo="/recipes" backLabel="Back to recipes" />
+    );
+  }
+
+  if (view.mode === 'view' && recipe) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ mt: 4, mb: 4 }}>
+          <RecipeView
+            key={recipe.id}
+            recipe={recipe}
+            onBack={() => showList()}
+            onEdit={() => navigate(`/recipes/${recipe.id}/edit`)}
+          />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (view.mode === 'create' || view.mode === 'edit') {
+
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ mt: 4, mb: 4 }}>
+          <RecipeEditor
+            key={recipe?.id ?? 'new'}
+            recipe={recipe}
+            initialDraft={view.mode === 'create' ? view.draft : undefined}
+            onSaved={saved => showRecipe(saved, true)}
+            onCancel={() => (recipe ? showRecipe(recipe, true) : showList(true))}
+            onDeleted={() => showList(true)}
+          />
+        </Box>
+      </Container>
+    );
+  }
+
   return (
     <Container maxWidth="lg">
       <Box sx={{ mt: 4, mb: 4 }}>
-        <Typography variant="h4" component="h1" gutterBottom>
-          Recipes
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          Your recipe collection will appear here. This feature is coming soon!
-        </Typography>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
+          <Typography variant="h4" component="h1">
+            Recipes
+          </Typography>
+          <Box display="flex" gap={1}>
+            <Button variant="outlined" startIcon={<FileDownload />} onClick={e => setImportMenu(e.currentTarget)}>
+              Import
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<FileUpload />}
+              onClick={e => setExportMenu(e.currentTarget)}
+              disabled={recipes.length === 0}
+            >
+              Export
+            </Button>
+            <Button variant="contained" startIcon={<Add />} onClick={() => navigate('/recipes?action=add')}>
+              Add Recipe
+            </Button>
+          </Box>
+        </Box>
+
+        {isLoading && recipes.length === 0 ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : recipes.length === 0 ? (
+          <Typography variant="body1" color="text.secondary">
+            Your recipe collection is empty. Add your first recipe to get started.
+          </Typography>
+        ) : (
+          <RecipeLibrary onSelect={selected => showRecipe(selected)} />
+        )}
+
+        <Menu anchorEl={importMenu} open={Boolean(importMenu)} onClose={() => setImportMenu(null)}>
+          <MenuItem onClick={() => openDialog('importPage')}>From web page…</MenuItem>
+          <MenuItem onClick={() => openDialog('importLibrary')}>From file…</MenuItem>
+        </Menu>
+        <Menu anchorEl={exportMenu} open={Boolean(exportMenu)} onClose={() => setExportMenu(null)}>
+          <MenuItem onClick={() => openDialog('exportCookbook')}>Cookbook PDF…</MenuItem>
+          <MenuItem onClick={() => openDialog('exportLibrary')}>Library file…</MenuItem>
+        </Menu>
+
+        {dialog === 'importPage' && (
+          <RecipeImportDialog
+            open
+            onClose={closeDialog}
+            onImported={draft => {
+              closeDialog();
+              const state: CreateLocationState = { draft };
+              navigate('/recipes?action=add', { state });
+            }}
+          />
+        )}
+
+        {dialog === 'importLibrary' && (
+          <LibraryImportDialog
+            onClose={closeDialog}
+            onImported={count => {
+              closeDialog();
+              setImportedCount(count);
+            }}
+          />
+        )}
+
+        {dialog === 'exportCookbook' && <ExportCookbookDialog onClose={closeDialog} />}
+        {dialog === 'exportLibrary' && <LibraryExportDialog onClose={closeDialog} />}
+
+        <Snackbar open={importedCount > 0} autoHideDuration={4000} onClose={() => setImportedCount(0)}>
+          <Alert severity="success" onClose={() => setImportedCount(0)}>
+            Imported {importedCount} recipe(s)
+          </Alert>
+        </Snackbar>
       </Box>
     </Container>
   );
 };
 
-export default RecipesPage;
\ No newline at end of file
+export default RecipesPage;
@@ -7,12 +7,18 @@ import {
   CardContent,
   Divider,
   Alert,
-  Button
+  Button,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
-import { Settings, Security, CloudSync, ArrowBack } from '@mui/icons-material';
+import { Settings, Security, CloudSync, ArrowBack, Straighten, DeleteOutline } from '@mui/icons-material';
 import { ApiKeyManager } from '../components/common/ApiKeyManager';
 import ThemeToggle from '../components/common/ThemeToggle';
+import TrashManager from '../components/common/TrashManager';
 import { useAuth } from '../hooks/useAuth';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { getStorageBackend } from '../services/storage';
+import type { UnitPreference } from '../utils/units';
 
 interface SettingsPageProps {
   onNavigateBack?: () => void;
@@ -21,6 +27,8 @@ interface SettingsPageProps {
 const SettingsPage: React.FC<SettingsPageProps> = ({ onNavigateBack }) => {
   const [hasApiKey, setHasApiKey] = useState(false);
   const { isAuthenticated } = useAuth();
+  const unitPreference = usePreferencesStore(state => state.unitPreference);
+  const setUnitPreference = usePreferencesStore(state => state.setUnitPreference);
 
   return (
     <Box sx={{ 
@@ -123,6 +131,51 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ onNavigateBack }) => {
             </CardContent>
           </Card>
 
+          {/* Units Section */}
+          <Card sx={{ borderRadius: 3 }}>
+            <CardContent sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom display="flex" alignItems="center" gap={2}>
+                <Straighten />
+                Units
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                Choose how quantities are shown in recipes and shopping lists
+              </Typography>
+
+              <Divider sx={{ mb: 3 }} />
+
+              <ToggleButtonGroup
+                exclusive
+                value={unitPreference}
+                onChange={(_event, value: UnitPreference | null) => value && setUnitPreference(value)}
+                aria-label="Unit system"
+              >
+                <ToggleButton value="original">As written</ToggleButton>
+                <ToggleButton value="metric">Metric</ToggleButton>
+                <ToggleButton value="imperial">Imperial</ToggleButton>
+              </ToggleButtonGroup>
+            </CardContent>
+          </Card>
+
+          {/* Trash Section, once there is a collection to show */}
+          {(isAuthenticated || !getStorageBackend().requiresAuth) && (
+            <Card sx={{ borderRadius: 3 }}>
+              <CardContent sx={{ p: 3 }}>
+                <Typography variant="h6" gutterBottom display="flex" alignItems="center" gap={2}>
+                  <DeleteOutline />
+                  Trash
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                  Deleted recipes, ingredients and lists can be restored until they are purged
+                </Typography>
+
+                <Divider sx={{ mb: 3 }} />
+
+                <TrashManager />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Privacy & Security Section */}
           <Card sx={{ borderRadius: 3 }}>
             <CardContent sx={{ p: 3 }}>
@@ -1,19 +1,140 @@
-import React from 'react';
-import { Container, Typography, Box } from '@mui/material';
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Button,
+  Card,
+  Chip,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import { PlaylistAdd, CloudOff } from '@mui/icons-material';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useAppStore, selectShoppingLists } from '../stores/appStore';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { getOutboxKey } from '../services/sync';
+import { STATUS_LABELS, getListProgress } from '../utils/shoppingList';
+import GenerateShoppingListDialog from '../components/shopping/GenerateShoppingListDialog';
+import ShoppingListView from '../components/shopping/ShoppingListView';
+import NotFoundPage from './NotFoundPage';
 
+const STATUS_ORDER = { active: 0, draft: 1, completed: 2 };
+
+/**
+ * Shopping lists at /shopping, and one list at /shopping/:listId
+ */
 const ShoppingPage: React.FC = () => {
+  const shoppingLists = useAppStore(selectShoppingLists);
+  const trashedLists = useAppStore(state => state.trash.shoppingLists);
+  const { pending } = useSyncStatus();
+  const isLoading = useAppStore(state => state.isLoading);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const navigate = useNavigate();
+  const { listId } = useParams();
+
+  if (listId) {
+    const openList = shoppingLists.find(list => list.id === listId);
+    if (openList) {
+      return (
+        <Container maxWidth="lg">
+          <Box sx={{ mt: 4, mb: 4 }}>
+            <ShoppingListView key={openList.id} list={openList} onBack={() => navigate('/shopping')} />
+          </Box>
+        </Container>
+      );
+    }
+    // Just deleted, possibly from this page
+    if (trashedLists.some(list => list.id === listId)) {
+      return <Navigate to="/shopping" replace />;
+    }
+    // Opened from a link before the collection has arrived
+    return isLoading ? (
+      <Box display="flex" justifyContent="center" py={4}>
+        <CircularProgress />
+      </Box>
+    ) : (
+      <NotFoundPage
+        message="This shopping list does not exist or has been deleted."
+        backTo="/shopping"
+        backLabel="Back to shopping lists"
+      />
+    );
+  }
+
+  const sortedLists = [...shoppingLists].sort(
+    (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+      || new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+
   return (
     <Container maxWidth="lg">
       <Box sx={{ mt: 4, mb: 4 }}>
-        <Typography variant="h4" component="h1" gutterBottom>
-          Shopping Lists
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          Your shopping lists will appear here. This feature is coming soon!
-        </Typography>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
+          <Typography variant="h4" component="h1">
+            Shopping Lists
+          </Typography>
+          <Button variant="contained" startIcon={<PlaylistAdd />} onClick={() => setIsGenerating(true)}>
+            Generate List
+          </Button>
+        </Box>
+
+        {isLoading && shoppingLists.length === 0 ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : shoppingLists.length === 0 ? (
+          <Typography variant="body1" color="text.secondary">
+            You don't have any shopping lists yet.
+          </Typography>
+        ) : (
+          <Card sx={{ borderRadius: 3 }}>
+            <List>
+              {sortedLists.map(list => {
+                const progress = getListProgress(list.items);
+                return (
+                  <ListItem
+                    key={list.id}
+                    disablePadding
+                    divider
+                    secondaryAction={
+                      <Box display="flex" alignItems="center" gap={1}>
+                        {pending.includes(getOutboxKey('shoppingLists', list.id)) && (
+                          <CloudOff fontSize="small" color="action" aria-label="Not synced yet" />
+                        )}
+                        <Chip label={STATUS_LABELS[list.status]} size="small" />
+                      </Box>
+                    }
+                  >
+                    <ListItemButton onClick={() => navigate(`/shopping/${list.id}`)}>
+                      <ListItemText
+                        primary={list.name}
+                        secondary={`${progress.purchased} of ${progress.total} items`}
+                      />
+                    </ListItemButton>
+                  </ListItem>
+                );
+              })}
+            </List>
+          </Card>
+        )}
       </Box>
+
+      {isGenerating && (
+        <GenerateShoppingListDialog
+          open
+          onClose={() => setIsGenerating(false)}
+          onCreated={list => {
+            setIsGenerating(false);
+            navigate(`/shopping/${list.id}`);
+          }}
+        />
+      )}
     </Container>
   );
 };
 
-export default ShoppingPage;
\ No newline at end of file
+export default ShoppingPage;
@@ -0,0 +1,881 @@
+import { googleAuthService } from './googleAuth';
+import {
+  reviveIngredient,
+  reviveMealPlan,
+  revivePantryItem,
+  reviveRecipe,
+  reviveShoppingList,
+  type Serialized,
+} from '../utils/serialization';
+import type { Recipe, Ingredient, ShoppingList, MealPlan, PantryItem } from '../types';
+
+const DRIVE_API_URL = 'https://www.googleapis.com/drive/v3';
+const DRIVE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const JSON_MIME_TYPE = 'application/json';
+const FILE_FIELDS = 'id,name,mimeType,modifiedTime,version';
+const CHANGE_FIELDS = `nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS},parents,trashed))`;
+
+/**
+ * Folders managed by the app, following the layout in ARCHITECTURE.md:
+ *
+ * /Recettier/
+ *   ├── recipes/
+ *   ├── ingredients/
+ *   ├── shopping-lists/
+ *   ├── meal-plans/
+ *   ├── pantry/
+ *   └── media/
+ *       ├── recipe-images/
+ *       └── thumbnails/
+ */
+export type DriveFolderKey =
+  | 'root'
+  | 'recipes'
+  | 'ingredients'
+  | 'shoppingLists'
+  | 'mealPlans'
+  | 'pantry'
+  | 'media'
+  | 'recipeImages'
+  | 'thumbnails';
+
+const FOLDER_LAYOUT: { key: Exclude<DriveFolderKey, 'root'>; name: string; parent: DriveFolderKey }[] = [
+  { key: 'recipes', name: 'recipes', parent: 'root' },
+  { key: 'ingredients', name: 'ingredients', parent: 'root' },
+  { key: 'shoppingLists', name: 'shopping-lists', parent: 'root' },
+  { key: 'mealPlans', name: 'meal-plans', parent: 'root' },
+  { key: 'pantry', name: 'pantry', parent: 'root' },
+  { key: 'media', name: 'media', parent: 'root' },
+  { key: 'recipeImages', name: 'recipe-images', parent: 'media' },
+  { key: 'thumbnails', name: 'thumbnails', parent: 'media' },
+];
+
+const ROOT_FOLDER_NAME = 'Recettier';
+const INGREDIENTS_REGISTRY_FILE = 'ingredients-registry.json';
+const RECIPE_INDEX_FILE = 'metadata.json';
+const RECIPE_FILE_PREFIX = 'recipe-';
+const SHOPPING_LIST_FILE_PREFIX = 'list-';
+const MEAL_PLAN_FILE_PREFIX = 'plan-';
+const PANTRY_ITEM_FILE_PREFIX = 'pantry-';
+
+/** Folders holding one JSON file per entity */
+export type EntityFolderKey = 'recipes' | 'shoppingLists' | 'mealPlans' | 'pantry';
+
+const ENTITY_FILE_PREFIXES: Record<EntityFolderKey, string> = {
+  recipes: RECIPE_FILE_PREFIX,
+  shoppingLists: SHOPPING_LIST_FILE_PREFIX,
+  mealPlans: MEAL_PLAN_FILE_PREFIX,
+  pantry: PANTRY_ITEM_FILE_PREFIX,
+};
+
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType?: string;
+  modifiedTime?: string;
+  version?: string;
+  parents?: string[];
+  trashed?: boolean;
+}
+
+interface DriveFileList {
+  files: DriveFile[];
+  nextPageToken?: string;
+}
+
+/**
+ * A saved version of a file's content
+ */
+export interface DriveRevision {
+  id: string;
+  modifiedTime: string;
+  keepForever?: boolean;
+}
+
+interface DriveRevisionList {
+  revisions: DriveRevision[];
+  nextPageToken?: string;
+}
+
+interface DriveChangeList {
+  changes: { fileId: string; removed?: boolean; file?: DriveFile }[];
+  nextPageToken?: string;
+  newStartPageToken?: string;
+}
+
+/**
+ * An app data file changed since a changes page token
+ */
+export type DriveEntityChange =
+  | { folder: EntityFolderKey; id: string; removed: boolean }
+  /** The ingredients registry, which holds every ingredient */
+  | { folder: 'ingredients'; id: null; removed: boolean };
+
+/**
+ * Copy of every recipe file's content, keyed by file version, so a device
+ * without a local copy downloads one file instead of one per recipe
+ */
+interface EntityIndex<T> {
+  entries: { fileId: string; version: string; data: T }[];
+  updatedAt: string;
+}
+
+interface IngredientsRegistry {
+  ingredients: Ingredient[];
+  updatedAt: string;
+}
+
+/**
+ * Error raised when a Google Drive API call fails
+ */
+export class GoogleDriveError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GoogleDriveError';
+    this.status = status;
+  }
+}
+
+export class GoogleDriveService {
+  private static instance: GoogleDriveService;
+  private folderIds: Record<DriveFolderKey, string> | null = null;
+  private folderPromise: Promise<Record<DriveFolderKey, string>> | null = null;
+  private fileIdCache = new Map<string, string>();
+  private registryQueue: Promise<unknown> = Promise.resolve();
+  private static readonly MAX_RETRIES = 3;
+  private static readonly RETRY_DELAY_MS = 500;
+  private static readonly DOWNLOAD_BATCH_SIZE = 10;
+  // Drive keeps at most 200 revisions per file forever; older ones are let go
+  private static readonly MAX_KEPT_REVISIONS = 150;
+  // Drive wants every chunk but the last to be a multiple of 256 KiB
+  private static readonly UPLOAD_CHUNK_SIZE = 4 * 256 * 1024;
+
+  static getInstance(): GoogleDriveService {
+    if (!GoogleDriveService.instance) {
+      GoogleDriveService.instance = new GoogleDriveService();
+    }
+    return GoogleDriveService.instance;
+  }
+
+  /**
+   * Forget cached folder and file IDs (e.g. after signing out)
+   */
+  reset(): void {
+    this.folderIds = null;
+    this.folderPromise = null;
+    this.fileIdCache.clear();
+    this.registryQueue = Promise.resolve();
+  }
+
+  private async getToken(): Promise<string> {
+    const hasValidToken = await googleAuthService.ensureValidToken();
+    const token = googleAuthService.getAccessToken();
+
+    if (!hasValidToken || !token) {
+      throw new GoogleDriveError('Not signed in to Google Drive. Please sign in again.', 401);
+    }
+
+    return token;
+  }
+
+  private async request(url: string, init: RequestInit = {}, attempt = 0): Promise<Response> {
+    const token = await this.getToken();
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        ...init.headers,
+      },
+    });
+
+    if (response.ok) {
+      return response;
+    }
+
+    // Back off and retry on rate limiting and transient server errors
+    const isRetryable = response.status === 429 || response.status >= 500;
+    if (isRetryable && attempt < GoogleDriveService.MAX_RETRIES) {
+      const delay = GoogleDriveService.RETRY_DELAY_MS * 2 ** attempt;
+      console.warn(`Drive request failed with ${response.status}, retrying in ${delay}ms...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return this.request(url, init, attempt + 1);
+    }
+
+    throw new GoogleDriveError(await this.describeError(response), response.status);
+  }
+
+  private async describeError(response: Response): Promise<string> {
+    try {
+      const body = await response.json();
+      if (body?.error?.message) {
+        return `Google Drive error: ${body.error.message}`;
+      }
+    } catch {
+      // Body is not JSON, fall back to the status line
+    }
+    return `Google Drive error: HTTP ${response.status} ${response.statusText}`;
+  }
+
+  private escapeQuery(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  }
+
+  private async listFiles(query: string): Promise<DriveFile[]> {
+    const files: DriveFile[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        q: query,
+        fields: `nextPageToken,files(${FILE_FIELDS})`,
+        spaces: 'drive',
+        pageSize: '1000',
+      });
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const response = await this.request(`${DRIVE_API_URL}/files?${params}`);
+      const page: DriveFileList = await response.json();
+      files.push(...(page.files ?? []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return files;
+  }
+
+  private async findOrCreateFolder(name: string, parentId: string): Promise<string> {
+    const query = [
+      `name='${this.escapeQuery(name)}'`,
+      `mimeType='${FOLDER_MIME_TYPE}'`,
+      `'${parentId}' in parents`,
+      'trashed=false',
+    ].join(' and ');
+
+    const existing = await this.listFiles(query);
+    if (existing.length > 0) {
+      return existing[0].id;
+    }
+
+    const response = await this.request(`${DRIVE_API_URL}/files?fields=${FILE_FIELDS}`, {
+      method: 'POST',
+      headers: { 'Content-Type': JSON_MIME_TYPE },
+      body: JSON.stringify({ name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] }),
+    });
+    const folder: DriveFile = await response.json();
+    return folder.id;
+  }
+
+  /**
+   * Make sure the /Recettier folder hierarchy exists and return the folder IDs.
+   * Folders are created on first use and cached for the rest of the session.
+   */
+  async ensureFolderStructure(): Promise<Record<DriveFolderKey, string>> {
+    if (this.folderIds) return this.folderIds;
+    if (this.folderPromise) return this.folderPromise;
+
+    this.folderPromise = (async () => {
+      const ids = { root: await this.findOrCreateFolder(ROOT_FOLDER_NAME, 'root') } as Record<DriveFolderKey, string>;
+
+      for (const folder of FOLDER_LAYOUT) {
+        ids[folder.key] = await this.findOrCreateFolder(folder.name, ids[folder.parent]);
+      }
+
+      this.folderIds = ids;
+      return ids;
+    })();
+
+    try {
+      return await this.folderPromise;
+    } catch (error) {
+      this.folderPromise = null;
+      throw error;
+    }
+  }
+
+  async getFolderId(key: DriveFolderKey): Promise<string> {
+    const folders = await this.ensureFolderStructure();
+    return folders[key];
+  }
+
+  private async findFile(folder: DriveFolderKey, name: string): Promise<string | null> {
+    const folderId = await this.getFolderId(folder);
+    const cacheKey = `${folderId}/${name}`;
+    const cached = this.fileIdCache.get(cacheKey);
+    if (cached) return cached;
+
+    const files = await this.listFiles(
+      `name='${this.escapeQuery(name)}' and '${folderId}' in parents and trashed=false`
+    );
+    if (files.length === 0) return null;
+
+    this.fileIdCache.set(cacheKey, files[0].id);
+    return files[0].id;
+  }
+
+  private async downloadJson<T>(fileId: string): Promise<T> {
+    const response = await this.request(`${DRIVE_API_URL}/files/${fileId}?alt=media`);
+    return response.json();
+  }
+
+  /**
+   * With `keepRevision`, Drive keeps this version of the content forever
+   * instead of pruning it after 30 days
+   */
+  private async createJsonFile(folder: DriveFolderKey, name: string, data: unknown, keepRevision = false): Promise<DriveFile> {
+    const folderId = await this.getFolderId(folder);
+    const boundary = `recettier-${crypto.randomUUID()}`;
+    const metadata = { name, mimeType: JSON_MIME_TYPE, parents: [folderId] };
+
+    const body = [
+      `--${boundary}`,
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      JSON.stringify(metadata),
+      `--${boundary}`,
+      `Content-Type: ${JSON_MIME_TYPE}`,
+      '',
+      JSON.stringify(data),
+      `--${boundary}--`,
+    ].join('\r\n');
+
+    const response = await this.request(
+      `${DRIVE_UPLOAD_URL}/files?uploadType=multipart&fields=${FILE_FIELDS}&keepRevisionForever=${keepRevision}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+        body,
+      }
+    );
+    const file: DriveFile = await response.json();
+    this.fileIdCache.set(`${folderId}/${name}`, file.id);
+    return file;
+  }
+
+  private async updateJsonFile(fileId: string, data: unknown, keepRevision = false): Promise<DriveFile> {
+    const response = await this.request(
+      `${DRIVE_UPLOAD_URL}/files/${fileId}?uploadType=media&fields=${FILE_FIELDS}&keepRevisionForever=${keepRevision}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': JSON_MIME_TYPE },
+        body: JSON.stringify(data),
+      }
+    );
+    return response.json();
+  }
+
+  /**
+   * Entity files go to the Drive trash rather than being deleted, so other
+   * devices learn about the deletion from the changes feed
+   */
+  private async deleteFile(folder: DriveFolderKey, name: string): Promise<void> {
+    const fileId = await this.findFile(folder, name);
+    if (!fileId) return;
+
+    await this.request(`${DRIVE_API_URL}/files/${fileId}?fields=${FILE_FIELDS}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': JSON_MIME_TYPE },
+      body: JSON.stringify({ trashed: true }),
+    });
+    const folderId = await this.getFolderId(folder);
+    this.fileIdCache.delete(`${folderId}/${name}`);
+  }
+
+  private async readIndex<T>(folder: DriveFolderKey, name: string): Promise<Map<string, EntityIndex<T>['entries'][number]>> {
+    try {
+      const index = await this.getJsonEntity<EntityIndex<T>>(folder, name);
+      return new Map((index?.entries ?? []).map(entry => [entry.fileId, entry]));
+    } catch (error) {
+      // A damaged index only costs the downloads it would have saved
+      console.warn(`Failed to read ${name}:`, error);
+      return new Map();
+    }
+  }
+
+  private async writeIndex<T>(folder: DriveFolderKey, name: string, entries: EntityIndex<T>['entries']): Promise<void> {
+    const index: EntityIndex<T> = { entries, updatedAt: new Date().toISOString() };
+    const fileId = await this.findFile(folder, name);
+    if (fileId) {
+      await this.updateJsonFile(fileId, index);
+    } else {
+      await this.createJsonFile(folder, name, index);
+    }
+  }
+
+  /**
+   * Download every entity file in a folder. With `indexName`, files whose
+   * version matches the index are taken from it, and the index is rewritten
+   * when it turns out to be out of date.
+   */
+  private async listJsonEntities<T>(folder: DriveFolderKey, prefix: string, indexName?: string): Promise<T[]> {
+    const folderId = await this.getFolderId(folder);
+    const files = await this.listFiles(
+      `'${folderId}' in parents and mimeType='${JSON_MIME_TYPE}' and trashed=false`
+    );
+    const entityFiles = files.filter(file => file.name.startsWith(prefix) && file.name.endsWith('.json'));
+    entityFiles.forEach(file => this.fileIdCache.set(`${folderId}/${file.name}`, file.id));
+
+    const index = indexName ? await this.readIndex<T>(folder, indexName) : new Map();
+    const contents = new Map<string, T>();
+    const toDownload = entityFiles.filter(file => {
+      const entry = index.get(file.id);
+      if (!entry || !file.version || entry.version !== file.version) return true;
+      contents.set(file.id, entry.data);
+      return false;
+    });
+
+    // Download in small batches to stay clear of Drive rate limits
+    for (let i = 0; i < toDownload.length; i += GoogleDriveService.DOWNLOAD_BATCH_SIZE) {
+      const batch = toDownload.slice(i, i + GoogleDriveService.DOWNLOAD_BATCH_SIZE);
+      const downloaded = await Promise.all(batch.map(file => this.downloadJson<T>(file.id)));
+      batch.forEach((file, j) => contents.set(file.id, downloaded[j]));
+    }
+
+    if (indexName && (toDownload.length > 0 || index.size !== entityFiles.length)) {
+      const entries = entityFiles.map(file => ({ fileId: file.id, version: file.version ?? '', data: contents.get(file.id)! }));
+      await this.writeIndex(folder, indexName, entries).catch(error => console.warn(`Failed to update ${indexName}:`, error));
+    }
+
+    return entityFiles.map(file => contents.get(file.id)!);
+  }
+
+  private async getJsonEntity<T>(folder: DriveFolderKey, name: string): Promise<T | null> {
+    const fileId = await this.findFile(folder, name);
+    if (!fileId) return null;
+    return this.downloadJson<T>(fileId);
+  }
+
+  private async createJsonEntity(folder: DriveFolderKey, name: string, data: unknown, keepRevision = false): Promise<void> {
+    const existing = await this.findFile(folder, name);
+    if (existing) {
+      throw new GoogleDriveError(`${name} already exists`, 409);
+    }
+    await this.createJsonFile(folder, name, data, keepRevision);
+  }
+
+  private async updateJsonEntity(folder: DriveFolderKey, name: string, data: unknown, keepRevision = false): Promise<string> {
+    const fileId = await this.findFile(folder, name);
+    if (!fileId) {
+      throw new GoogleDriveError(`${name} not found`, 404);
+    }
+    await this.updateJsonFile(fileId, data, keepRevision);
+    return fileId;
+  }
+
+  private async listRevisions(fileId: string): Promise<DriveRevision[]> {
+    const revisions: DriveRevision[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        fields: 'nextPageToken,revisions(id,modifiedTime,keepForever)',
+        pageSize: '200',
+      });
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const response = await this.request(`${DRIVE_API_URL}/files/${fileId}/revisions?${params}`);
+      const page: DriveRevisionList = await response.json();
+      revisions.push(...(page.revisions ?? []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return revisions;
+  }
+
+  /**
+   * Stop keeping the oldest revisions forever once a file nears Drive's limit,
+   * which would otherwise make further saves fail
+   */
+  private async releaseOldRevisions(fileId: string): Promise<void> {
+    const kept = (await this.listRevisions(fileId)).filter(revision => revision.keepForever);
+    const excess = kept.slice(0, Math.max(0, kept.length - GoogleDriveService.MAX_KEPT_REVISIONS));
+    for (const revision of excess) {
+      await this.request(`${DRIVE_API_URL}/files/${fileId}/revisions/${revision.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': JSON_MIME_TYPE },
+        body: JSON.stringify({ keepForever: false }),
+      });
+    }
+  }
+
+  // Recipes: one JSON file per recipe in /Recettier/recipes
+
+  private recipeFileName(id: string): string {
+    return `${RECIPE_FILE_PREFIX}${id}.json`;
+  }
+
+  async listRecipes(): Promise<Recipe[]> {
+    const raw = await this.listJsonEntities<Serialized<Recipe>>('recipes', RECIPE_FILE_PREFIX, RECIPE_INDEX_FILE);
+    return raw.map(reviveRecipe);
+  }
+
+  async getRecipe(id: string): Promise<Recipe | null> {
+    const raw = await this.getJsonEntity<Serialized<Recipe>>('recipes', this.recipeFileName(id));
+    return raw ? reviveRecipe(raw) : null;
+  }
+
+  // Every saved version of a recipe is kept as a Drive revision
+  async createRecipe(recipe: Recipe): Promise<Recipe> {
+    await this.createJsonEntity('recipes', this.recipeFileName(recipe.id), recipe, true);
+    return recipe;
+  }
+
+  async updateRecipe(recipe: Recipe): Promise<Recipe> {
+    const fileId = await this.updateJsonEntity('recipes', this.recipeFileName(recipe.id), recipe, true);
+    // The save went through; trimming old versions can wait for the next one
+    await this.releaseOldRevisions(fileId).catch(error => console.warn('Failed to release old recipe revisions:', error));
+    return recipe;
+  }
+
+  /**
+   * Saved versions of a recipe, oldest first; the last one is the current
+   * content of the file
+   */
+  async listRecipeRevisions(id: string): Promise<DriveRevision[]> {
+    const fileId = await this.findFile('recipes', this.recipeFileName(id));
+    if (!fileId) return [];
+    return this.listRevisions(fileId);
+  }
+
+  async getRecipeRevision(id: string, revisionId: string): Promise<Recipe | null> {
+    const fileId = await this.findFile('recipes', this.recipeFileName(id));
+    if (!fileId) return null;
+    const response = await this.request(`${DRIVE_API_URL}/files/${fileId}/revisions/${revisionId}?alt=media`);
+    return reviveRecipe(await response.json());
+  }
+
+  async deleteRecipe(id: string): Promise<void> {
+    await this.deleteFile('recipes', this.recipeFileName(id));
+  }
+
+  // Shopping lists: one JSON file per list in /Recettier/shopping-lists
+
+  private shoppingListFileName(id: string): string {
+    return `${SHOPPING_LIST_FILE_PREFIX}${id}.json`;
+  }
+
+  async listShoppingLists(): Promise<ShoppingList[]> {
+    const raw = await this.listJsonEntities<Serialized<ShoppingList>>(
+      'shoppingLists',
+      SHOPPING_LIST_FILE_PREFIX
+    );
+    return raw.map(reviveShoppingList);
+  }
+
+  async getShoppingList(id: string): Promise<ShoppingList | null> {
+    const raw = await this.getJsonEntity<Serialized<ShoppingList>>(
+      'shoppingLists',
+      this.shoppingListFileName(id)
+    );
+    return raw ? reviveShoppingList(raw) : null;
+  }
+
+  async createShoppingList(list: ShoppingList): Promise<ShoppingList> {
+    await this.createJsonEntity('shoppingLists', this.shoppingListFileName(list.id), list);
+    return list;
+  }
+
+  async updateShoppingList(list: ShoppingList): Promise<ShoppingList> {
+    await this.updateJsonEntity('shoppingLists', this.shoppingListFileName(list.id), list);
+    return list;
+  }
+
+  async deleteShoppingList(id: string): Promise<void> {
+    await this.deleteFile('shoppingLists', this.shoppingListFileName(id));
+  }
+
+  // Meal plans: one JSON file per planned meal in /Recettier/meal-plans
+
+  private mealPlanFileName(id: string): string {
+    return `${MEAL_PLAN_FILE_PREFIX}${id}.json`;
+  }
+
+  async listMealPlans(): Promise<MealPlan[]> {
+    const raw = await this.listJsonEntities<Serialized<MealPlan>>('mealPlans', MEAL_PLAN_FILE_PREFIX);
+    return raw.map(reviveMealPlan);
+  }
+
+  async getMealPlan(id: string): Promise<MealPlan | null> {
+    const raw = await this.getJsonEntity<Serialized<MealPlan>>('mealPlans', this.mealPlanFileName(id));
+    return raw ? reviveMealPlan(raw) : null;
+  }
+
+  async createMealPlan(plan: MealPlan): Promise<MealPlan> {
+    await this.createJsonEntity('mealPlans', this.mealPlanFileName(plan.id), plan);
+    return plan;
+  }
+
+  async updateMealPlan(plan: MealPlan): Promise<MealPlan> {
+    await this.updateJsonEntity('mealPlans', this.mealPlanFileName(plan.id), plan);
+    return plan;
+  }
+
+  async deleteMealPlan(id: string): Promise<void> {
+    await this.deleteFile('mealPlans', this.mealPlanFileName(id));
+  }
+
+  // Pantry: one JSON file per stock entry in /Recettier/pantry
+
+  private pantryItemFileName(id: string): string {
+    return `${PANTRY_ITEM_FILE_PREFIX}${id}.json`;
+  }
+
+  async listPantryItems(): Promise<PantryItem[]> {
+    const raw = await this.listJsonEntities<Serialized<PantryItem>>('pantry', PANTRY_ITEM_FILE_PREFIX);
+    return raw.map(revivePantryItem);
+  }
+
+  async getPantryItem(id: string): Promise<PantryItem | null> {
+    const raw = await this.getJsonEntity<Serialized<PantryItem>>('pantry', this.pantryItemFileName(id));
+    return raw ? revivePantryItem(raw) : null;
+  }
+
+  async createPantryItem(item: PantryItem): Promise<PantryItem> {
+    await this.createJsonEntity('pantry', this.pantryItemFileName(item.id), item);
+    return item;
+  }
+
+  async updatePantryItem(item: PantryItem): Promise<PantryItem> {
+    await this.updateJsonEntity('pantry', this.pantryItemFileName(item.id), item);
+    return item;
+  }
+
+  async deletePantryItem(id: string): Promise<void> {
+    await this.deleteFile('pantry', this.pantryItemFileName(id));
+  }
+
+  // Media: binary files in /Recettier/media, sent with resumable uploads
+
+  /**
+   * Upload a file to one of the media folders. The upload session survives
+   * a dropped chunk: on a transient error Drive is asked how much it already
+   * has and the upload resumes from there.
+   */
+  async uploadMedia(folder: 'recipeImages' | 'thumbnails', name: string, blob: Blob): Promise<DriveFile> {
+    const folderId = await this.getFolderId(folder);
+    const mimeType = blob.type || 'application/octet-stream';
+
+    const session = await this.request(`${DRIVE_UPLOAD_URL}/files?uploadType=resumable&fields=${FILE_FIELDS}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Type': mimeType,
+        'X-Upload-Content-Length': String(blob.size),
+      },
+      body: JSON.stringify({ name, mimeType, parents: [folderId] }),
+    });
+    const sessionUrl = session.headers.get('Location');
+    if (!sessionUrl) {
+      throw new GoogleDriveError('Google Drive did not start the upload', 502);
+    }
+
+    let offset = 0;
+    let attempt = 0;
+    // After a failed chunk Drive is asked what it has before sending more
+    let resuming = false;
+    for (;;) {
+      const end = Math.min(offset + GoogleDriveService.UPLOAD_CHUNK_SIZE, blob.size);
+      const range = blob.size === 0 ? 'bytes */0' : `bytes ${offset}-${end - 1}/${blob.size}`;
+      let response: Response;
+      try {
+        response = resuming
+          ? await this.sendUploadChunk(sessionUrl, null, `bytes */${blob.size}`)
+          : await this.sendUploadChunk(sessionUrl, blob.slice(offset, end), range);
+      } catch (error) {
+        // fetch rejects with a TypeError when the connection drops
+        if (!(error instanceof TypeError) || attempt >= GoogleDriveService.MAX_RETRIES) throw error;
+        await this.waitBeforeResuming(attempt++, 'a network error');
+        resuming = true;
+        continue;
+      }
+
+      if (response.ok) return response.json();
+      if (response.status === 308) {
+        offset = this.getUploadedBytes(response);
+        // Only a chunk that went through earns a fresh set of retries
+        if (!resuming) attempt = 0;
+        resuming = false;
+        continue;
+      }
+
+      const isRetryable = response.status === 429 || response.status >= 500;
+      if (!isRetryable || attempt >= GoogleDriveService.MAX_RETRIES) {
+        throw new GoogleDriveError(await this.describeError(response), response.status);
+      }
+      await this.waitBeforeResuming(attempt++, String(response.status));
+      resuming = true;
+    }
+  }
+
+  private async waitBeforeResuming(attempt: number, reason: string): Promise<void> {
+    const delay = GoogleDriveService.RETRY_DELAY_MS * 2 ** attempt;
+    console.warn(`Drive upload failed with ${reason}, resuming in ${delay}ms...`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  /**
+   * Upload session URLs answer 308 while the upload is incomplete, which
+   * request() would treat as a failure, so chunks are sent directly
+   */
+  private async sendUploadChunk(sessionUrl: string, body: Blob | null, range: string): Promise<Response> {
+    const token = await this.getToken();
+    return fetch(sessionUrl, {
+      method: 'PUT',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Range': range },
+      body,
+    });
+  }
+
+  private getUploadedBytes(response: Response): number {
+    // "bytes=0-524287" once something was received, no header otherwise
+    const last = response.headers.get('Range')?.match(/-(\d+)$/)?.[1];
+    return last === undefined ? 0 : Number(last) + 1;
+  }
+
+  async downloadMedia(fileId: string): Promise<Blob> {
+    const response = await this.request(`${DRIVE_API_URL}/files/${fileId}?alt=media`);
+    return response.blob();
+  }
+
+  async deleteMedia(fileId: string): Promise<void> {
+    try {
+      await this.request(`${DRIVE_API_URL}/files/${fileId}`, { method: 'DELETE' });
+    } catch (error) {
+      if (!(error instanceof GoogleDriveError && error.status === 404)) throw error;
+    }
+  }
+
+  // Changes feed: what changed in the app folders since a page token
+
+  async getChangesStartToken(): Promise<string> {
+    const response = await this.request(`${DRIVE_API_URL}/changes/startPageToken`);
+    const body: { startPageToken: string } = await response.json();
+    return body.startPageToken;
+  }
+
+  /**
+   * Entity files changed since `pageToken`, with only the latest change per
+   * file, and the token to start from next time
+   */
+  async listEntityChanges(pageToken: string): Promise<{ changes: DriveEntityChange[]; nextPageToken: string }> {
+    const folders = await this.ensureFolderStructure();
+    const folderKeys = new Map(Object.entries(folders).map(([key, id]) => [id, key as DriveFolderKey]));
+    const changes = new Map<string, DriveEntityChange>();
+    let token = pageToken;
+
+    for (;;) {
+      const params = new URLSearchParams({ pageToken: token, fields: CHANGE_FIELDS, spaces: 'drive', pageSize: '1000' });
+      const response = await this.request(`${DRIVE_API_URL}/changes?${params}`);
+      const page: DriveChangeList = await response.json();
+
+      for (const { removed, file } of page.changes ?? []) {
+        // Files removed for good carry no name; the app only ever trashes
+        // entity files, and that was reported as a change of its own
+        if (removed || !file) continue;
+        const folder = file.parents?.map(id => folderKeys.get(id)).find(key => key !== undefined);
+        const change = folder && this.toEntityChange(folder, file);
+        if (!change) continue;
+
+        const cacheKey = `${folders[folder]}/${file.name}`;
+        if (file.trashed) {
+          this.fileIdCache.delete(cacheKey);
+        } else {
+          this.fileIdCache.set(cacheKey, file.id);
+        }
+        // Keyed by name so a file trashed and created again ends up as the new one
+        changes.delete(cacheKey);
+        changes.set(cacheKey, change);
+      }
+
+      if (page.newStartPageToken) {
+        return { changes: [...changes.values()], nextPageToken: page.newStartPageToken };
+      }
+      token = page.nextPageToken!;
+    }
+  }
+
+  private toEntityChange(folder: DriveFolderKey, file: DriveFile): DriveEntityChange | null {
+    const removed = file.trashed === true;
+    if (folder === 'ingredients') {
+      return file.name === INGREDIENTS_REGISTRY_FILE ? { folder, id: null, removed } : null;
+    }
+    if (!(folder in ENTITY_FILE_PREFIXES)) return null;
+
+    const entityFolder = folder as EntityFolderKey;
+    const prefix = ENTITY_FILE_PREFIXES[entityFolder];
+    if (!file.name.startsWith(prefix) || !file.name.endsWith('.json')) return null;
+    return { folder: entityFolder, id: file.name.slice(prefix.length, -'.json'.length), removed };
+  }
+
+  // Ingredients: a single registry file in /Recettier/ingredients
+
+  private async readRegistry(): Promise<Ingredient[]> {
+    const registry = await this.getJsonEntity<IngredientsRegistry>('ingredients', INGREDIENTS_REGISTRY_FILE);
+    return (registry?.ingredients ?? []).map(reviveIngredient);
+  }
+
+  private async writeRegistry(ingredients: Ingredient[]): Promise<void> {
+    const registry: IngredientsRegistry = { ingredients, updatedAt: new Date().toISOString() };
+    const fileId = await this.findFile('ingredients', INGREDIENTS_REGISTRY_FILE);
+
+    if (fileId) {
+      await this.updateJsonFile(fileId, registry);
+    } else {
+      await this.createJsonFile('ingredients', INGREDIENTS_REGISTRY_FILE, registry);
+    }
+  }
+
+  /**
+   * Run a read-modify-write on the registry, one at a time so that
+   * concurrent edits from the same session don't overwrite each other
+   */
+  private modifyRegistry<T>(change: (ingredients: Ingredient[]) => { ingredients: Ingredient[]; result: T }): Promise<T> {
+    const run = this.registryQueue.then(async () => {
+      const { ingredients, result } = change(await this.readRegistry());
+      await this.writeRegistry(ingredients);
+      return result;
+    });
+    this.registryQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  async listIngredients(): Promise<Ingredient[]> {
+    return this.readRegistry();
+  }
+
+  async getIngredient(id: string): Promise<Ingredient | null> {
+    const ingredients = await this.readRegistry();
+    return ingredients.find(ingredient => ingredient.id === id) ?? null;
+  }
+
+  async createIngredient(ingredient: Ingredient): Promise<Ingredient> {
+    return this.modifyRegistry(ingredients => {
+      if (ingredients.some(existing => existing.id === ingredient.id)) {
+        throw new GoogleDriveError(`Ingredient ${ingredient.id} already exists`, 409);
+      }
+      return { ingredients: [...ingredients, ingredient], result: ingredient };
+    });
+  }
+
+  async updateIngredient(ingredient: Ingredient): Promise<Ingredient> {
+    return this.modifyRegistry(ingredients => {
+      if (!ingredients.some(existing => existing.id === ingredient.id)) {
+        throw new GoogleDriveError(`Ingredient ${ingredient.id} not found`, 404);
+      }
+      return {
+        ingredients: ingredients.map(existing => existing.id === ingredient.id ? ingredient : existing),
+        result: ingredient,
+      };
+    });
+  }
+
+  async deleteIngredient(id: string): Promise<void> {
+    return this.modifyRegistry(ingredients => ({
+      ingredients: ingredients.filter(ingredient => ingredient.id !== id),
+      result: undefined,
+    }));
+  }
+}
+
+export const googleDriveService = GoogleDriveService.getInstance();
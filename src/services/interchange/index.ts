@@ -0,0 +1,133 @@
+/**
+ * Library import and export in other recipe apps' formats
+ *
+ * Each format maps its fields onto Recipe, Ingredient and RecipeIngredient.
+ * Anything that can't be carried over is listed in the returned report
+ * rather than silently dropped.
+ */
+
+import { strFromU8 } from 'fflate';
+import type { ExportResult, ImportResult, Ingredient, InterchangeFormat, LibraryData, Recipe } from '../../types';
+import { slugify } from '../../utils/download';
+import { IngredientResolver, InterchangeError, MappingReport } from './mapping';
+import { exportBundle, importBundle, isRecettierBundle } from './recettierBundle';
+import { exportPaprika, importPaprika } from './paprika';
+import { exportMealie, importMealie, isMealieRecipe } from './mealie';
+import { exportTandoor, importTandoor, isTandoorRecipe } from './tandoor';
+import { exportMarkdown, importMarkdown } from './markdown';
+
+export { InterchangeError } from './mapping';
+
+export interface InterchangeFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const INTERCHANGE_FORMATS: Record<InterchangeFormat, InterchangeFormatInfo> = {
+  recettier: { label: 'Recettier bundle (.json)', extension: 'json', mimeType: 'application/json' },
+  paprika: { label: 'Paprika (.paprikarecipes)', extension: 'paprikarecipes', mimeType: 'application/zip' },
+  mealie: { label: 'Mealie (.json)', extension: 'json', mimeType: 'application/json' },
+  tandoor: { label: 'Tandoor (.json)', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown (.md)', extension: 'md', mimeType: 'text/markdown' },
+};
+
+function getFileName(format: InterchangeFormat, recipes: Recipe[], now: Date): string {
+  const base = recipes.length === 1
+    ? slugify(recipes[0].title) || 'recipe'
+    : `recettier-library-${now.toISOString().slice(0, 10)}`;
+  const suffix = format === 'mealie' || format === 'tandoor' ? `.${format}` : '';
+  return `${base}${suffix}.${INTERCHANGE_FORMATS[format].extension}`;
+}
+
+/**
+ * Write recipes, and the ingredients they use, in the given format
+ */
+export function exportLibrary(format: InterchangeFormat, data: LibraryData, now = new Date()): ExportResult {
+  const report = new MappingReport(format);
+
+  const content = {
+    recettier: () => exportBundle(data, now),
+    paprika: () => exportPaprika(data, report),
+    mealie: () => exportMealie(data, report),
+    tandoor: () => exportTandoor(data, report),
+    markdown: () => exportMarkdown(data, report),
+  }[format]();
+
+  const ingredientCount = format === 'recettier'
+    ? data.ingredients.length
+    : new Set(data.recipes.flatMap(recipe => recipe.ingredients.map(row => row.ingredientId))).size;
+
+  return {
+    content,
+    fileName: getFileName(format, data.recipes, now),
+    mimeType: INTERCHANGE_FORMATS[format].mimeType,
+    report: report.build(data.recipes.length, ingredientCount),
+  };
+}
+
+function parseJson(bytes: Uint8Array): unknown {
+  try {
+    return JSON.parse(strFromU8(bytes));
+  } catch {
+    throw new InterchangeError('The file is not valid JSON');
+  }
+}
+
+/**
+ * Work out a file's format from its name and contents
+ */
+export function detectFormat(fileName: string, bytes: Uint8Array): InterchangeFormat {
+  const name = fileName.toLowerCase();
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+  if (name.endsWith('.paprikarecipes') || name.endsWith('.paprikarecipe') || isZip || isGzip) return 'paprika';
+  if (name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown';
+
+  const value = parseJson(bytes);
+  if (isRecettierBundle(value)) return 'recettier';
+
+  // A single recipe, an array, or a page of API results
+  const page = value as { items?: unknown[]; results?: unknown[] } | null;
+  const first = Array.isArray(value) ? value[0] : page?.items?.[0] ?? page?.results?.[0] ?? value;
+  if (isMealieRecipe(first)) return 'mealie';
+  if (isTandoorRecipe(first)) return 'tandoor';
+
+  throw new InterchangeError('Unrecognised file: expected a Recettier bundle, Paprika, Mealie, Tandoor or Markdown file');
+}
+
+/**
+ * Read a file into recipes ready to save. Ingredients are matched against
+ * the registry, trashed ones included; only the ones that don't exist yet,
+ * or that must come back from the trash, are returned. Recipes
+ * from other apps get new ids, while a Recettier bundle keeps its ids so
+ * importing it again updates the same recipes.
+ */
+export function importLibrary(
+  fileName: string,
+  bytes: Uint8Array,
+  existingIngredients: Ingredient[],
+  now = new Date()
+): ImportResult {
+  const format = detectFormat(fileName, bytes);
+  const report = new MappingReport(format);
+
+  if (format === 'recettier') {
+    const data = importBundle(parseJson(bytes), existingIngredients, report);
+    return { data, report: report.build(data.recipes.length, data.ingredients.length) };
+  }
+
+  const resolver = new IngredientResolver(existingIngredients);
+  const recipes = {
+    paprika: () => importPaprika(bytes, resolver, report, now),
+    mealie: () => importMealie(parseJson(bytes), resolver, report, now),
+    tandoor: () => importTandoor(parseJson(bytes), resolver, report, now),
+    markdown: () => importMarkdown(strFromU8(bytes), resolver, report, now),
+  }[format]();
+
+  return {
+    data: { recipes, ingredients: resolver.created },
+    report: report.build(recipes.length, resolver.created.length),
+  };
+}
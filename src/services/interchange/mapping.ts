@@ -0,0 +1,242 @@
+/**
+ * Helpers shared by the interchange formats: the mapping report, turning
+ * foreign ingredient data into registry references, and reading the loose
+ * duration and servings text other apps store.
+ */
+
+import type {
+  Ingredient,
+  InterchangeFormat,
+  InterchangeReport,
+  MappingIssue,
+  Recipe,
+  RecipeIngredient,
+} from '../../types';
+import { DEFAULT_CATEGORY, normalizeIngredientDraft } from '../../utils/ingredientRegistry';
+import { matchIngredient, parseIngredientLine, toRecipeIngredient } from '../../utils/ingredientParser';
+import { parseIsoDuration } from '../../utils/recipeImport';
+import { formatQuantity, normalizeUnit } from '../../utils/units';
+
+/**
+ * Error raised when a file can't be read in the expected format
+ */
+export class InterchangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterchangeError';
+  }
+}
+
+/**
+ * Collects the fields that could not be carried over
+ */
+export class MappingReport {
+  readonly issues: MappingIssue[] = [];
+  private readonly format: InterchangeFormat;
+
+  constructor(format: InterchangeFormat) {
+    this.format = format;
+  }
+
+  add(recipe: string, field: string, message: string): void {
+    this.issues.push({ recipe, field, message });
+  }
+
+  build(recipeCount: number, ingredientCount: number): InterchangeReport {
+    return { format: this.format, recipeCount, ingredientCount, issues: this.issues };
+  }
+}
+
+/** An ingredient as other apps structure it */
+export interface ForeignIngredient {
+  name: string;
+  quantity?: number;
+  unit?: string;
+  notes?: string;
+  /** Text as written, used in the report */
+  line: string;
+}
+
+/**
+ * Turns ingredient names from an imported file into registry references,
+ * matching existing entries and creating the missing ones. A match in the
+ * trash is returned with the created ones so that saving brings it back.
+ */
+export class IngredientResolver {
+  readonly created: Ingredient[] = [];
+  private readonly existing: Ingredient[];
+  private readonly trashed: Ingredient[];
+
+  constructor(existing: Ingredient[]) {
+    this.existing = existing.filter(ingredient => !ingredient.deletedAt);
+    this.trashed = existing.filter(ingredient => ingredient.deletedAt);
+  }
+
+  resolve(name: string, unit = ''): string {
+    const match = matchIngredient(name, this.existing) ?? matchIngredient(name, this.created);
+    if (match) return match.id;
+
+    const trashed = matchIngredient(name, this.trashed);
+    if (trashed) {
+      this.created.push({ ...trashed, deletedAt: undefined });
+      return trashed.id;
+    }
+
+    const ingredient: Ingredient = {
+      id: crypto.randomUUID(),
+      ...normalizeIngredientDraft({ name, category: DEFAULT_CATEGORY, defaultUnit: unit, alternativeNames: [] }),
+    };
+    this.created.push(ingredient);
+    return ingredient.id;
+  }
+
+  /**
+   * Map a structured ingredient; returns null for rows without a name
+   */
+  fromParts(part: ForeignIngredient, recipe: string, report: MappingReport): RecipeIngredient | null {
+    const name = part.name.trim();
+    if (!name) {
+      report.add(recipe, 'ingredients', `"${part.line}" has no ingredient and was skipped`);
+      return null;
+    }
+
+    if (!part.quantity || part.quantity <= 0) {
+      report.add(recipe, 'ingredients', `"${part.line}" has no amount; 1 was used`);
+    }
+    const unit = part.unit ? normalizeUnit(part.unit) : '';
+    return {
+      ingredientId: this.resolve(name, unit),
+      quantity: part.quantity && part.quantity > 0 ? part.quantity : 1,
+      unit,
+      notes: part.notes?.trim() || undefined,
+    };
+  }
+
+  /**
+   * Map a free-text ingredient line; section headings ("For the sauce:")
+   * are reported and skipped
+   */
+  fromLine(line: string, recipe: string, report: MappingReport): RecipeIngredient | null {
+    const text = line.trim();
+    if (!text) return null;
+    if (text.endsWith(':')) {
+      report.add(recipe, 'ingredients', `Section heading "${text}" was dropped`);
+      return null;
+    }
+
+    const parsed = parseIngredientLine(text);
+    if (!parsed.name) return this.fromParts({ name: '', line: text }, recipe, report);
+    if (parsed.quantity === undefined) {
+      report.add(recipe, 'ingredients', `"${text}" has no amount; 1 was used`);
+    }
+    return toRecipeIngredient(parsed, this.resolve(parsed.name, parsed.unit));
+  }
+}
+
+const DURATION_UNITS: [RegExp, number][] = [
+  [/^(d|days?|jours?)$/, 24 * 60],
+  [/^(h|hrs?|hours?|heures?)$/, 60],
+  [/^(m|mins?|minutes?|mn)$/, 1],
+  [/^(s|secs?|seconds?|secondes?)$/, 1 / 60],
+];
+
+/**
+ * Read a duration written as ISO 8601 ("PT1H30M"), as text ("1 hr 30 mins",
+ * "1h30", "45 minutes") or as a bare number of minutes
+ */
+export function parseDurationText(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+
+  const text = value.trim().toLowerCase();
+  const iso = parseIsoDuration(text);
+  if (iso !== undefined) return iso;
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text));
+
+  let minutes = 0;
+  let matched = false;
+  let lastFactor = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:[.,]\d+)?)\s*([a-zé]*)/g)) {
+    const factor = DURATION_UNITS.find(([pattern]) => pattern.test(unit))?.[1]
+      // "1h30": a bare number after hours counts as minutes
+      ?? (unit === '' && lastFactor === 60 ? 1 : undefined);
+    if (factor === undefined) return undefined;
+    minutes += Number(amount.replace(',', '.')) * factor;
+    lastFactor = factor;
+    matched = true;
+  }
+  return matched ? Math.round(minutes) : undefined;
+}
+
+/**
+ * First positive whole number in a servings text such as "Serves 4-6"
+ */
+export function parseServingsText(value: unknown): number | undefined {
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value : '';
+  const match = text.match(/\d+/);
+  return match && Number(match[0]) > 0 ? Number(match[0]) : undefined;
+}
+
+export function parseDifficulty(value: unknown): Recipe['difficulty'] | undefined {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (['easy', 'facile', 'simple'].includes(text)) return 'easy';
+  if (['medium', 'moyen', 'moyenne', 'intermediate'].includes(text)) return 'medium';
+  if (['hard', 'difficult', 'difficile', 'advanced'].includes(text)) return 'hard';
+  return undefined;
+}
+
+/**
+ * Split a block of directions into steps: one per paragraph, or one per
+ * line when there are no blank lines. Leading step numbers are removed.
+ */
+export function splitSteps(text: string): string[] {
+  const blocks = /\n\s*\n/.test(text) ? text.split(/\n\s*\n/) : text.split('\n');
+  return blocks
+    .map(block => block.replace(/\s+/g, ' ').trim().replace(/^(\d+[.)]|step \d+[:.]?|étape \d+[:.]?)\s*/i, ''))
+    .filter(Boolean);
+}
+
+export function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\//i.test(value.trim());
+}
+
+/**
+ * Recipe with defaults for everything the source didn't provide
+ */
+export function createImportedRecipe(fields: Partial<Recipe>, now = new Date()): Recipe {
+  return {
+    id: crypto.randomUUID(),
+    title: 'Untitled recipe',
+    description: '',
+    ingredients: [],
+    instructions: [],
+    prepTime: 0,
+    cookTime: 0,
+    servings: 4,
+    difficulty: 'easy',
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+}
+
+/**
+ * Write an ingredient row as a text line: "250 g Flour, sifted"
+ */
+export function formatIngredientLine(row: RecipeIngredient, ingredientsById: Map<string, Ingredient>): string {
+  const name = ingredientsById.get(row.ingredientId)?.name ?? 'Unknown ingredient';
+  return `${formatQuantity(row.quantity, row.unit)} ${name}${row.notes ? `, ${row.notes}` : ''}`;
+}
+
+/**
+ * Unique file names within an archive: "Cake", "Cake (2)", ...
+ */
+export function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let index = 2; taken.has(candidate.toLowerCase()); index++) {
+    candidate = `${name} (${index})`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
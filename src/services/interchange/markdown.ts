@@ -0,0 +1,186 @@
+/**
+ * Plain Markdown
+ *
+ * One `# Title` section per recipe, separated by horizontal rules:
+ *
+ *     # Pancakes
+ *
+ *     Fluffy breakfast pancakes.
+ *
+ *     - **Servings:** 4
+ *     - **Prep time:** 10 min
+ *     - **Cook time:** 15 min
+ *     - **Difficulty:** easy
+ *     - **Tags:** breakfast, sweet
+ *
+ *     ## Ingredients
+ *
+ *     - 250 g Flour, sifted
+ *
+ *     ## Instructions
+ *
+ *     1. Mix everything.
+ *
+ * Imports also accept French headings and labels ("Ingrédients",
+ * "Préparation", "Portions", ...).
+ */
+
+import type { Ingredient, LibraryData, Recipe } from '../../types';
+import {
+  createImportedRecipe,
+  formatIngredientLine,
+  IngredientResolver,
+  InterchangeError,
+  isHttpUrl,
+  MappingReport,
+  parseDifficulty,
+  parseDurationText,
+  parseServingsText,
+} from './mapping';
+
+function toMarkdown(recipe: Recipe, ingredientsById: Map<string, Ingredient>): string {
+  const meta = [
+    `- **Servings:** ${recipe.servings}`,
+    `- **Prep time:** ${recipe.prepTime} min`,
+    `- **Cook time:** ${recipe.cookTime} min`,
+    `- **Difficulty:** ${recipe.difficulty}`,
+    recipe.tags.length > 0 ? `- **Tags:** ${recipe.tags.join(', ')}` : '',
+    recipe.imageUrl ? `- **Image:** ${recipe.imageUrl}` : '',
+  ].filter(Boolean);
+
+  return [
+    `# ${recipe.title}`,
+    recipe.description,
+    meta.join('\n'),
+    '## Ingredients',
+    recipe.ingredients.map(row => `- ${formatIngredientLine(row, ingredientsById)}`).join('\n'),
+    '## Instructions',
+    recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n'),
+  ].filter(Boolean).join('\n\n');
+}
+
+export function exportMarkdown(data: LibraryData, report: MappingReport): string {
+  const ingredientsById = new Map(data.ingredients.map(ingredient => [ingredient.id, ingredient]));
+  if (data.recipes.length > 0) {
+    report.add('', 'ingredients', 'Ingredient categories, alternative names and densities are not part of this format');
+  }
+  return `${data.recipes.map(recipe => toMarkdown(recipe, ingredientsById)).join('\n\n---\n\n')}\n`;
+}
+
+type Section = 'description' | 'ingredients' | 'instructions' | 'other';
+
+const SECTION_HEADINGS: [RegExp, Section][] = [
+  [/^(ingredients?|ingrédients?)$/, 'ingredients'],
+  [/^(instructions?|directions?|method|steps|préparation|étapes|recette)$/, 'instructions'],
+];
+
+type MetaField = 'servings' | 'prepTime' | 'cookTime' | 'difficulty' | 'tags' | 'image';
+
+const META_LABELS: [RegExp, MetaField][] = [
+  [/^(servings|serves|yield|portions|personnes)$/, 'servings'],
+  [/^(prep time|preparation time|temps de préparation|préparation)$/, 'prepTime'],
+  [/^(cook time|cooking time|temps de cuisson|cuisson)$/, 'cookTime'],
+  [/^(difficulty|difficulté)$/, 'difficulty'],
+  [/^(tags|categories|étiquettes|mots-clés|catégories)$/, 'tags'],
+  [/^(image|photo)$/, 'image'],
+];
+
+function stripMarkdown(text: string): string {
+  return text.replace(/\*\*|__|`/g, '').trim();
+}
+
+function fromMarkdown(block: string, resolver: IngredientResolver, report: MappingReport, now: Date): Recipe {
+  const lines = block.split('\n');
+  const title = stripMarkdown(lines[0].replace(/^#\s+/, '')) || 'Untitled recipe';
+  const fields: Partial<Recipe> = { title };
+  const description: string[] = [];
+  const ingredientLines: string[] = [];
+  const instructions: string[] = [];
+  let section: Section = 'description';
+
+  for (const raw of lines.slice(1)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const heading = line.match(/^#{2,6}\s+(.+)$/);
+    if (heading) {
+      const name = stripMarkdown(heading[1]).replace(/:$/, '').toLowerCase();
+      section = SECTION_HEADINGS.find(([pattern]) => pattern.test(name))?.[1] ?? 'other';
+      if (section === 'other') report.add(title, 'section', `Section "${heading[1]}" was not imported`);
+      continue;
+    }
+
+    const item = line.match(/^(?:[-*+]|\d+[.)])\s+(.+)$/)?.[1];
+
+    if (section === 'description') {
+      const meta = item && stripMarkdown(item).match(/^([^:]+):\s*(.*)$/);
+      const field = meta && META_LABELS.find(([pattern]) => pattern.test(meta[1].trim().toLowerCase()))?.[1];
+      if (meta && field) {
+        applyMeta(fields, field, meta[2], title, report);
+      } else {
+        description.push(line);
+      }
+    } else if (section === 'ingredients') {
+      ingredientLines.push(item ?? line);
+    } else if (section === 'instructions') {
+      if (item || instructions.length === 0) instructions.push(item ?? line);
+      else instructions[instructions.length - 1] += ` ${line}`;
+    }
+  }
+
+  return createImportedRecipe({
+    ...fields,
+    description: description.join('\n'),
+    ingredients: ingredientLines.flatMap(line => resolver.fromLine(stripMarkdown(line), title, report) ?? []),
+    instructions,
+  }, now);
+}
+
+function applyMeta(fields: Partial<Recipe>, field: MetaField, value: string, title: string, report: MappingReport) {
+  const text = value.trim();
+  switch (field) {
+    case 'servings': {
+      const servings = parseServingsText(text);
+      if (servings) fields.servings = servings;
+      else report.add(title, 'servings', `"${text}" is not a number of servings`);
+      break;
+    }
+    case 'prepTime':
+    case 'cookTime': {
+      const minutes = parseDurationText(text);
+      if (minutes !== undefined) fields[field] = minutes;
+      else report.add(title, field, `"${text}" is not a duration`);
+      break;
+    }
+    case 'difficulty': {
+      const difficulty = parseDifficulty(text);
+      if (difficulty) fields.difficulty = difficulty;
+      else report.add(title, 'difficulty', `"${text}" is not a known difficulty`);
+      break;
+    }
+    case 'tags':
+      fields.tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+      break;
+    case 'image':
+      if (isHttpUrl(text)) fields.imageUrl = text;
+      else report.add(title, 'image', 'The image is not a web address and was not imported');
+      break;
+  }
+}
+
+export function importMarkdown(
+  text: string,
+  resolver: IngredientResolver,
+  report: MappingReport,
+  now: Date
+): Recipe[] {
+  // Each recipe starts at a level-one heading; rules between them are ignored
+  const blocks = text
+    .replace(/\r\n/g, '\n')
+    .split(/^(?=#\s)/m)
+    .map(block => block.replace(/^\s*(---|\*\*\*|___)\s*$/gm, '').trim())
+    .filter(block => block.startsWith('# '));
+
+  if (blocks.length === 0) throw new InterchangeError('No recipe found: each recipe should start with a "# Title" line');
+  return blocks.map(block => fromMarkdown(block, resolver, report, now));
+}
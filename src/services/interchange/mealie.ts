@@ -0,0 +1,189 @@
+/**
+ * Mealie recipe JSON
+ *
+ * Exports a JSON array of recipes in the shape of Mealie's recipe API.
+ * Imports accept a single recipe, an array, or a page of results
+ * (`{ items: [...] }`).
+ */
+
+import type { Ingredient, LibraryData, Recipe } from '../../types';
+import { reviveDate } from '../../utils/serialization';
+import {
+  createImportedRecipe,
+  formatIngredientLine,
+  type ForeignIngredient,
+  IngredientResolver,
+  InterchangeError,
+  isHttpUrl,
+  MappingReport,
+  parseDifficulty,
+  parseDurationText,
+  parseServingsText,
+} from './mapping';
+
+interface MealieName {
+  name: string;
+}
+
+export interface MealieIngredient {
+  quantity?: number | null;
+  unit?: MealieName | null;
+  food?: MealieName | null;
+  note?: string;
+  originalText?: string | null;
+  display?: string;
+}
+
+export interface MealieRecipe {
+  name?: string;
+  description?: string;
+  recipeServings?: number;
+  recipeYield?: string;
+  prepTime?: string | null;
+  performTime?: string | null;
+  cookTime?: string | null;
+  totalTime?: string | null;
+  recipeIngredient?: MealieIngredient[];
+  recipeInstructions?: { title?: string; text?: string }[];
+  tags?: MealieName[];
+  recipeCategory?: MealieName[];
+  image?: string | null;
+  orgURL?: string | null;
+  rating?: number | null;
+  nutrition?: Record<string, string | null> | null;
+  notes?: { title?: string; text?: string }[];
+  extras?: Record<string, string>;
+  dateAdded?: string;
+  dateUpdated?: string;
+}
+
+export function isMealieRecipe(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && ('recipeIngredient' in value || 'recipeInstructions' in value);
+}
+
+function formatMinutes(minutes: number): string | null {
+  return minutes > 0 ? `${minutes} minutes` : null;
+}
+
+function toMealieRecipe(recipe: Recipe, ingredientsById: Map<string, Ingredient>): MealieRecipe {
+  return {
+    name: recipe.title,
+    description: recipe.description,
+    recipeServings: recipe.servings,
+    recipeYield: `${recipe.servings} servings`,
+    prepTime: formatMinutes(recipe.prepTime),
+    performTime: formatMinutes(recipe.cookTime),
+    totalTime: formatMinutes(recipe.prepTime + recipe.cookTime),
+    recipeIngredient: recipe.ingredients.map(row => ({
+      quantity: row.quantity,
+      unit: row.unit ? { name: row.unit } : null,
+      food: { name: ingredientsById.get(row.ingredientId)?.name ?? 'Unknown ingredient' },
+      note: row.notes ?? '',
+      originalText: formatIngredientLine(row, ingredientsById),
+    })),
+    recipeInstructions: recipe.instructions.map(text => ({ text })),
+    tags: recipe.tags.map(name => ({ name })),
+    recipeCategory: [],
+    image: null,
+    // Mealie has no difficulty field
+    extras: { difficulty: recipe.difficulty },
+    dateAdded: recipe.createdAt.toISOString().slice(0, 10),
+    dateUpdated: recipe.updatedAt.toISOString(),
+  };
+}
+
+export function exportMealie(data: LibraryData, report: MappingReport): string {
+  const ingredientsById = new Map(data.ingredients.map(ingredient => [ingredient.id, ingredient]));
+  for (const recipe of data.recipes) {
+    if (recipe.imageUrl) {
+      report.add(recipe.title, 'imageUrl', 'Mealie stores its own images; the image address was not exported');
+    }
+  }
+  if (data.recipes.length > 0) {
+    report.add('', 'ingredients', 'Ingredient categories, alternative names and densities are not part of this format');
+  }
+  return JSON.stringify(data.recipes.map(recipe => toMealieRecipe(recipe, ingredientsById)), null, 2);
+}
+
+function toForeignIngredient(source: MealieIngredient): ForeignIngredient {
+  return {
+    name: source.food?.name ?? '',
+    quantity: source.quantity ?? undefined,
+    unit: source.unit?.name,
+    notes: source.note,
+    line: source.originalText || source.display || source.food?.name || '',
+  };
+}
+
+function fromMealieRecipe(
+  source: MealieRecipe,
+  resolver: IngredientResolver,
+  report: MappingReport,
+  now: Date
+): Recipe {
+  const title = source.name?.trim() || 'Untitled recipe';
+
+  const description = [
+    source.description?.trim(),
+    ...(source.notes ?? []).map(note => [note.title, note.text].filter(Boolean).join(': ')),
+    source.orgURL?.trim() && `Source: ${source.orgURL.trim()}`,
+  ].filter(Boolean).join('\n\n');
+
+  // Unparsed recipes only have the text Mealie scraped
+  const ingredients = (source.recipeIngredient ?? []).flatMap(row => {
+    const mapped = row.food?.name
+      ? resolver.fromParts(toForeignIngredient(row), title, report)
+      : resolver.fromLine(row.originalText || row.note || row.display || '', title, report);
+    return mapped ?? [];
+  });
+
+  const instructions = (source.recipeInstructions ?? [])
+    .map(step => [step.title?.trim(), step.text?.trim()].filter(Boolean).join(': '))
+    .filter(Boolean);
+
+  const prepTime = parseDurationText(source.prepTime);
+  const cookTime = parseDurationText(source.performTime ?? source.cookTime);
+  if (prepTime === undefined && cookTime === undefined && source.totalTime) {
+    report.add(title, 'totalTime', 'Only a total time was given; it was used as the cook time');
+  }
+
+  const servings = source.recipeServings || parseServingsText(source.recipeYield);
+  const difficulty = parseDifficulty(source.extras?.difficulty);
+
+  if (source.image && !isHttpUrl(source.image)) report.add(title, 'image', 'Mealie images are not imported');
+  if (source.rating) report.add(title, 'rating', 'Ratings are not supported');
+  if (source.nutrition && Object.values(source.nutrition).some(Boolean)) {
+    report.add(title, 'nutrition', 'Nutrition information was not imported');
+  }
+
+  const tags = [...(source.tags ?? []), ...(source.recipeCategory ?? [])]
+    .map(tag => tag.name.trim())
+    .filter((tag, index, all) => tag && all.indexOf(tag) === index);
+
+  return createImportedRecipe({
+    title,
+    description,
+    ingredients,
+    instructions,
+    prepTime: prepTime ?? 0,
+    cookTime: cookTime ?? (prepTime === undefined ? parseDurationText(source.totalTime) ?? 0 : 0),
+    ...(servings && { servings }),
+    ...(difficulty && { difficulty }),
+    tags,
+    ...(isHttpUrl(source.image) && { imageUrl: source.image.trim() }),
+    ...(source.dateAdded && { createdAt: reviveDate(source.dateAdded) }),
+    updatedAt: now,
+  }, now);
+}
+
+export function importMealie(
+  value: unknown,
+  resolver: IngredientResolver,
+  report: MappingReport,
+  now: Date
+): Recipe[] {
+  const page = value as { items?: unknown };
+  const items = Array.isArray(value) ? value : Array.isArray(page?.items) ? page.items : [value];
+  if (!items.every(isMealieRecipe)) throw new InterchangeError('This is not a Mealie recipe file');
+  return (items as MealieRecipe[]).map(item => fromMealieRecipe(item, resolver, report, now));
+}
@@ -0,0 +1,193 @@
+/**
+ * Paprika 3 export files (.paprikarecipes)
+ *
+ * A zip archive with one gzipped JSON document per recipe. Paprika keeps
+ * ingredients and directions as plain text, so ingredient lines go through
+ * the natural-language parser on the way in.
+ */
+
+import { gunzipSync, gzipSync, strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { Ingredient, LibraryData, Recipe } from '../../types';
+import { reviveDate } from '../../utils/serialization';
+import {
+  createImportedRecipe,
+  formatIngredientLine,
+  IngredientResolver,
+  InterchangeError,
+  isHttpUrl,
+  MappingReport,
+  parseDifficulty,
+  parseDurationText,
+  parseServingsText,
+  splitSteps,
+  uniqueName,
+} from './mapping';
+
+/** The fields of a Paprika recipe document */
+export interface PaprikaRecipe {
+  uid?: string;
+  name?: string;
+  description?: string;
+  ingredients?: string;
+  directions?: string;
+  notes?: string;
+  nutritional_info?: string;
+  servings?: string;
+  prep_time?: string;
+  cook_time?: string;
+  total_time?: string;
+  difficulty?: string;
+  rating?: number;
+  categories?: string[];
+  source?: string;
+  source_url?: string;
+  image_url?: string;
+  photo_data?: string | null;
+  created?: string;
+}
+
+function formatPaprikaDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes > 0 ? `${minutes} min` : '';
+}
+
+function toPaprikaRecipe(recipe: Recipe, ingredientsById: Map<string, Ingredient>): PaprikaRecipe {
+  return {
+    uid: recipe.id,
+    name: recipe.title,
+    description: recipe.description,
+    ingredients: recipe.ingredients.map(row => formatIngredientLine(row, ingredientsById)).join('\n'),
+    directions: recipe.instructions.join('\n\n'),
+    notes: '',
+    servings: String(recipe.servings),
+    prep_time: formatMinutes(recipe.prepTime),
+    cook_time: formatMinutes(recipe.cookTime),
+    total_time: formatMinutes(recipe.prepTime + recipe.cookTime),
+    difficulty: recipe.difficulty.charAt(0).toUpperCase() + recipe.difficulty.slice(1),
+    rating: 0,
+    categories: recipe.tags,
+    source: '',
+    source_url: '',
+    image_url: recipe.imageUrl ?? '',
+    photo_data: null,
+    created: formatPaprikaDate(recipe.createdAt),
+  };
+}
+
+export function exportPaprika(data: LibraryData, report: MappingReport): Uint8Array {
+  const ingredientsById = new Map(data.ingredients.map(ingredient => [ingredient.id, ingredient]));
+  const taken = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+
+  for (const recipe of data.recipes) {
+    const name = uniqueName(recipe.title.replace(/[\\/:*?"<>|]/g, '-'), taken);
+    files[`${name}.paprikarecipe`] = gzipSync(strToU8(JSON.stringify(toPaprikaRecipe(recipe, ingredientsById))));
+  }
+  if (data.recipes.length > 0) {
+    report.add('', 'ingredients', 'Ingredient categories, alternative names and densities are not part of this format');
+  }
+
+  // Entries are already compressed
+  return zipSync(files, { level: 0 });
+}
+
+function fromPaprikaRecipe(
+  source: PaprikaRecipe,
+  resolver: IngredientResolver,
+  report: MappingReport,
+  now: Date
+): Recipe {
+  const title = source.name?.trim() || 'Untitled recipe';
+
+  const description = [
+    source.description?.trim(),
+    source.notes?.trim() && `Notes: ${source.notes.trim()}`,
+    (source.source_url?.trim() || source.source?.trim()) && `Source: ${source.source_url?.trim() || source.source?.trim()}`,
+  ].filter(Boolean).join('\n\n');
+
+  const ingredients = (source.ingredients ?? '')
+    .split('\n')
+    .flatMap(line => resolver.fromLine(line, title, report) ?? []);
+
+  let prepTime = parseDurationText(source.prep_time);
+  let cookTime = parseDurationText(source.cook_time);
+  const totalTime = parseDurationText(source.total_time);
+  if (prepTime === undefined && cookTime === undefined && totalTime !== undefined) {
+    report.add(title, 'total_time', 'Only a total time was given; it was used as the cook time');
+    cookTime = totalTime;
+    prepTime = 0;
+  }
+  for (const [field, value, parsed] of [
+    ['prep_time', source.prep_time, prepTime],
+    ['cook_time', source.cook_time, cookTime],
+  ] as const) {
+    if (value?.trim() && parsed === undefined) report.add(title, field, `"${value}" is not a duration`);
+  }
+
+  const servings = parseServingsText(source.servings);
+  if (source.servings?.trim() && servings === undefined) {
+    report.add(title, 'servings', `"${source.servings}" is not a number of servings`);
+  }
+
+  const difficulty = parseDifficulty(source.difficulty);
+  if (source.difficulty?.trim() && !difficulty) {
+    report.add(title, 'difficulty', `"${source.difficulty}" is not a known difficulty`);
+  }
+
+  if (source.photo_data) report.add(title, 'photo_data', 'The embedded photo was not imported');
+  if (source.rating) report.add(title, 'rating', 'Ratings are not supported');
+  if (source.nutritional_info?.trim()) report.add(title, 'nutritional_info', 'Nutrition information was not imported');
+  if (source.image_url?.trim() && !isHttpUrl(source.image_url)) {
+    report.add(title, 'image_url', 'The image is not a web address and was not imported');
+  }
+
+  return createImportedRecipe({
+    title,
+    description,
+    ingredients,
+    instructions: splitSteps(source.directions ?? ''),
+    prepTime: prepTime ?? 0,
+    cookTime: cookTime ?? 0,
+    ...(servings !== undefined && { servings }),
+    ...(difficulty && { difficulty }),
+    tags: (source.categories ?? []).map(tag => tag.trim()).filter(Boolean),
+    ...(isHttpUrl(source.image_url) && { imageUrl: source.image_url.trim() }),
+    ...(source.created && { createdAt: reviveDate(source.created.replace(' ', 'T')) }),
+    updatedAt: now,
+  }, now);
+}
+
+/**
+ * Read a .paprikarecipes archive, or a single gzipped .paprikarecipe
+ */
+export function importPaprika(
+  bytes: Uint8Array,
+  resolver: IngredientResolver,
+  report: MappingReport,
+  now: Date
+): Recipe[] {
+  let documents: Uint8Array[];
+  try {
+    documents = bytes[0] === 0x1f && bytes[1] === 0x8b
+      ? [bytes]
+      : Object.entries(unzipSync(bytes))
+        .filter(([name]) => name.toLowerCase().endsWith('.paprikarecipe'))
+        .map(([, content]) => content);
+  } catch {
+    throw new InterchangeError('This is not a Paprika export');
+  }
+
+  return documents.flatMap(document => {
+    try {
+      const source = JSON.parse(strFromU8(gunzipSync(document))) as PaprikaRecipe;
+      return [fromPaprikaRecipe(source, resolver, report, now)];
+    } catch (error) {
+      if (error instanceof InterchangeError) throw error;
+      report.add('', 'file', 'A recipe in the archive could not be read and was skipped');
+      return [];
+    }
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Recettier JSON bundle
+ *
+ * Our own format, documented in DEVELOPMENT.md. It keeps every field and
+ * every id, so importing a bundle restores the library it was made from.
+ */
+
+import type { Ingredient, LibraryData, Recipe } from '../../types';
+import { findIngredientByName } from '../../utils/ingredientRegistry';
+import { reviveRecipe, type Serialized } from '../../utils/serialization';
+import { InterchangeError, MappingReport } from './mapping';
+
+export const BUNDLE_VERSION = 1;
+
+export interface RecettierBundle {
+  format: 'recettier';
+  version: number;
+  exportedAt: string;
+  ingredients: Ingredient[];
+  recipes: Serialized<Recipe>[];
+}
+
+export function isRecettierBundle(value: unknown): value is RecettierBundle {
+  return typeof value === 'object' && value !== null && (value as { format?: unknown }).format === 'recettier';
+}
+
+export function exportBundle(data: LibraryData, now: Date): string {
+  const bundle: RecettierBundle = {
+    format: 'recettier',
+    version: BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    ingredients: data.ingredients,
+    recipes: data.recipes,
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Read a bundle against the current registry. Ingredients that already
+ * exist, by id or by name, are reused; the rest are returned as new, along
+ * with those matching an ingredient in the trash so it can be brought back.
+ */
+export function importBundle(value: unknown, existing: Ingredient[], report: MappingReport): LibraryData {
+  if (!isRecettierBundle(value) || !Array.isArray(value.recipes)) {
+    throw new InterchangeError('This is not a Recettier bundle');
+  }
+  if (value.version > BUNDLE_VERSION) {
+    throw new InterchangeError(`Bundle version ${value.version} is newer than this app supports`);
+  }
+
+  const existingIds = new Set(existing.map(ingredient => ingredient.id));
+  const live = existing.filter(ingredient => !ingredient.deletedAt);
+  const trashed = existing.filter(ingredient => ingredient.deletedAt);
+  const idMap = new Map<string, string>();
+  const ingredients: Ingredient[] = [];
+
+  for (const ingredient of value.ingredients ?? []) {
+    if (live.some(other => other.id === ingredient.id)) {
+      idMap.set(ingredient.id, ingredient.id);
+      continue;
+    }
+    const sameName = findIngredientByName(ingredient.name, live);
+    if (sameName) {
+      idMap.set(ingredient.id, sameName.id);
+      continue;
+    }
+    const trashedMatch = trashed.some(other => other.id === ingredient.id)
+      ? undefined
+      : findIngredientByName(ingredient.name, trashed);
+    if (trashedMatch) {
+      idMap.set(ingredient.id, trashedMatch.id);
+      if (!ingredients.some(other => other.id === trashedMatch.id)) {
+        ingredients.push({ ...trashedMatch, deletedAt: undefined });
+      }
+      continue;
+    }
+    idMap.set(ingredient.id, ingredient.id);
+    ingredients.push(ingredient);
+  }
+
+  const recipes = value.recipes.map(raw => {
+    const recipe = reviveRecipe(raw);
+    return {
+      ...recipe,
+      ingredients: recipe.ingredients.flatMap(row => {
+        const ingredientId = idMap.get(row.ingredientId) ?? (existingIds.has(row.ingredientId) ? row.ingredientId : undefined);
+        if (!ingredientId) {
+          report.add(recipe.title, 'ingredients', `Unknown ingredient ${row.ingredientId} was dropped`);
+          return [];
+        }
+        return [{ ...row, ingredientId }];
+      }),
+    };
+  });
+
+  return { recipes, ingredients };
+}
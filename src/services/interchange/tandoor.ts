@@ -0,0 +1,163 @@
+/**
+ * Tandoor Recipes JSON
+ *
+ * Exports a JSON array of recipes in the shape of Tandoor's recipe API,
+ * with every ingredient in the first step. Imports accept a single recipe,
+ * an array, or a page of results (`{ results: [...] }`).
+ */
+
+import type { Ingredient, LibraryData, Recipe } from '../../types';
+import {
+  createImportedRecipe,
+  IngredientResolver,
+  InterchangeError,
+  isHttpUrl,
+  MappingReport,
+  parseServingsText,
+} from './mapping';
+
+interface TandoorName {
+  name: string;
+}
+
+export interface TandoorIngredient {
+  food?: TandoorName | null;
+  unit?: TandoorName | null;
+  amount?: number;
+  note?: string | null;
+  is_header?: boolean;
+  no_amount?: boolean;
+  original_text?: string | null;
+}
+
+export interface TandoorStep {
+  name?: string;
+  instruction?: string;
+  ingredients?: TandoorIngredient[];
+  time?: number;
+  order?: number;
+}
+
+export interface TandoorRecipe {
+  name?: string;
+  description?: string | null;
+  keywords?: TandoorName[];
+  steps?: TandoorStep[];
+  working_time?: number;
+  waiting_time?: number;
+  servings?: number;
+  servings_text?: string;
+  source_url?: string | null;
+  image?: string | null;
+  rating?: number | null;
+  nutrition?: Record<string, unknown> | null;
+  internal?: boolean;
+}
+
+export function isTandoorRecipe(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && 'steps' in value && Array.isArray((value as TandoorRecipe).steps);
+}
+
+function toTandoorRecipe(recipe: Recipe, ingredientsById: Map<string, Ingredient>): TandoorRecipe {
+  const ingredients: TandoorIngredient[] = recipe.ingredients.map(row => ({
+    food: { name: ingredientsById.get(row.ingredientId)?.name ?? 'Unknown ingredient' },
+    unit: row.unit ? { name: row.unit } : null,
+    amount: row.quantity,
+    note: row.notes ?? '',
+    is_header: false,
+    no_amount: false,
+  }));
+
+  const steps = recipe.instructions.length > 0
+    ? recipe.instructions.map((instruction, index) => ({
+      name: '',
+      instruction,
+      ingredients: index === 0 ? ingredients : [],
+      time: 0,
+      order: index,
+    }))
+    : [{ name: '', instruction: '', ingredients, time: 0, order: 0 }];
+
+  return {
+    name: recipe.title,
+    description: recipe.description,
+    keywords: recipe.tags.map(name => ({ name })),
+    steps,
+    working_time: recipe.prepTime,
+    waiting_time: recipe.cookTime,
+    servings: recipe.servings,
+    servings_text: '',
+    source_url: null,
+    internal: true,
+  };
+}
+
+export function exportTandoor(data: LibraryData, report: MappingReport): string {
+  const ingredientsById = new Map(data.ingredients.map(ingredient => [ingredient.id, ingredient]));
+  for (const recipe of data.recipes) {
+    report.add(recipe.title, 'difficulty', `Tandoor has no difficulty; "${recipe.difficulty}" was not exported`);
+    if (recipe.imageUrl) {
+      report.add(recipe.title, 'imageUrl', 'Tandoor stores its own images; the image address was not exported');
+    }
+  }
+  if (data.recipes.length > 0) {
+    report.add('', 'ingredients', 'Ingredient categories, alternative names and densities are not part of this format');
+  }
+  return JSON.stringify(data.recipes.map(recipe => toTandoorRecipe(recipe, ingredientsById)), null, 2);
+}
+
+function fromTandoorRecipe(source: TandoorRecipe, resolver: IngredientResolver, report: MappingReport, now: Date): Recipe {
+  const title = source.name?.trim() || 'Untitled recipe';
+  const steps = [...(source.steps ?? [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  const ingredients = steps.flatMap(step => step.ingredients ?? []).flatMap(row => {
+    const line = row.original_text || [row.amount, row.unit?.name, row.food?.name].filter(Boolean).join(' ');
+    if (row.is_header) {
+      report.add(title, 'ingredients', `Section heading "${row.note || row.food?.name || ''}" was dropped`);
+      return [];
+    }
+    return resolver.fromParts({
+      name: row.food?.name ?? '',
+      quantity: row.no_amount ? undefined : row.amount,
+      unit: row.unit?.name,
+      notes: row.note ?? undefined,
+      line,
+    }, title, report) ?? [];
+  });
+
+  const instructions = steps
+    .map(step => [step.name?.trim(), step.instruction?.trim()].filter(Boolean).join(': '))
+    .filter(Boolean);
+
+  const servings = source.servings || parseServingsText(source.servings_text);
+
+  if (source.image && !isHttpUrl(source.image)) report.add(title, 'image', 'Tandoor images are not imported');
+  if (source.rating) report.add(title, 'rating', 'Ratings are not supported');
+  if (source.nutrition) report.add(title, 'nutrition', 'Nutrition information was not imported');
+
+  return createImportedRecipe({
+    title,
+    description: [source.description?.trim(), source.source_url?.trim() && `Source: ${source.source_url.trim()}`]
+      .filter(Boolean)
+      .join('\n\n'),
+    ingredients,
+    instructions,
+    prepTime: Math.max(0, Math.round(source.working_time ?? 0)),
+    cookTime: Math.max(0, Math.round(source.waiting_time ?? 0)),
+    ...(servings && { servings }),
+    tags: (source.keywords ?? []).map(keyword => keyword.name.trim()).filter(Boolean),
+    ...(isHttpUrl(source.image) && { imageUrl: source.image.trim() }),
+  }, now);
+}
+
+export function importTandoor(
+  value: unknown,
+  resolver: IngredientResolver,
+  report: MappingReport,
+  now: Date
+): Recipe[] {
+  const page = value as { results?: unknown };
+  const items = Array.isArray(value) ? value : Array.isArray(page?.results) ? page.results : [value];
+  if (!items.every(isTandoorRecipe)) throw new InterchangeError('This is not a Tandoor recipe file');
+  return (items as TandoorRecipe[]).map(item => fromTandoorRecipe(item, resolver, report, now));
+}
@@ -0,0 +1,71 @@
+/**
+ * Recipe photos
+ *
+ * Uploads processed photos through the active storage backend's media store
+ * and turns stored file IDs back into URLs the page can display. Resolved
+ * files are kept as object URLs for the rest of the session.
+ */
+
+import type { RecipeImage, StorageBackend } from '../types';
+import { getImageExtension, processRecipeImage } from '../utils/imageProcessing';
+import { getStorageBackend, mediaCache } from './storage';
+
+const objectUrls = new Map<string, Promise<string>>();
+
+/**
+ * Resize a photo, make its thumbnail and upload both. Nothing is left behind
+ * in storage if either upload fails.
+ */
+export async function uploadRecipeImage(file: File, backend: StorageBackend = getStorageBackend()): Promise<RecipeImage> {
+  const { image, thumbnail } = await processRecipeImage(file);
+  const name = crypto.randomUUID();
+
+  const id = await backend.media.upload('recipeImage', `image-${name}.${getImageExtension(image)}`, image);
+  try {
+    const thumbnailId = await backend.media.upload('thumbnail', `thumb-${name}.${getImageExtension(thumbnail)}`, thumbnail);
+    return { id, thumbnailId };
+  } catch (error) {
+    await backend.media.delete(id).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Delete a photo and its thumbnail. Failures are logged, not thrown: an
+ * orphaned file in the media folder is harmless.
+ */
+export async function deleteRecipeImage(image: RecipeImage, backend: StorageBackend = getStorageBackend()): Promise<void> {
+  const ids = [image.id, image.thumbnailId];
+  const results = await Promise.allSettled(ids.map(id => backend.media.delete(id)));
+  results.forEach(result => {
+    if (result.status === 'rejected') console.warn('Failed to delete recipe image:', result.reason);
+  });
+  ids.forEach(forgetMediaUrl);
+}
+
+/**
+ * Object URL for a stored file, downloaded at most once per session
+ */
+export function resolveMediaUrl(id: string): Promise<string> {
+  let url = objectUrls.get(id);
+  if (!url) {
+    url = getStorageBackend().media.download(id).then(blob => URL.createObjectURL(blob));
+    // Let a failed download be retried later
+    url.catch(() => objectUrls.delete(id));
+    objectUrls.set(id, url);
+  }
+  return url;
+}
+
+function forgetMediaUrl(id: string): void {
+  objectUrls.get(id)?.then(url => URL.revokeObjectURL(url)).catch(() => undefined);
+  objectUrls.delete(id);
+}
+
+/**
+ * Drop resolved and cached photos, e.g. when the user signs out
+ */
+export async function clearRecipeImages(): Promise<void> {
+  [...objectUrls.keys()].forEach(forgetMediaUrl);
+  await mediaCache.clear().catch(error => console.warn('Failed to clear the media cache:', error));
+}
@@ -0,0 +1,245 @@
+/**
+ * Google Drive storage backend
+ *
+ * Adapts GoogleDriveService to the Repository and MediaStore interfaces and
+ * translates Drive "not found"/"already exists" responses and network
+ * failures into StorageErrors. Downloaded media is kept in a local cache.
+ * Changes made from other devices are read from the Drive changes feed.
+ */
+
+import type {
+  Recipe,
+  Ingredient,
+  ShoppingList,
+  MealPlan,
+  PantryItem,
+  ChangeFeed,
+  EntityCollection,
+  EntityVersion,
+  MediaKind,
+  MediaStore,
+  RemoteChanges,
+  Repository,
+  StorableEntity,
+  StorageBackend,
+  VersionHistory,
+} from '../../types';
+import {
+  GoogleDriveError,
+  googleDriveService,
+  type EntityFolderKey,
+  type GoogleDriveService,
+} from '../googleDrive';
+import { mediaCache, type MediaCache } from './mediaCache';
+import { StorageError } from './storageError';
+
+interface DriveCollectionOperations<T> {
+  list: () => Promise<T[]>;
+  get: (id: string) => Promise<T | null>;
+  create: (entity: T) => Promise<T>;
+  update: (entity: T) => Promise<T>;
+  delete: (id: string) => Promise<void>;
+}
+
+async function runDriveOperation<R>(collection: string, id: string | null, operation: () => Promise<R>): Promise<R> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof GoogleDriveError && id !== null) {
+      if (error.status === 404) throw StorageError.notFound(collection, id);
+      if (error.status === 409) throw StorageError.alreadyExists(collection, id);
+    }
+    // Still rate limited or failing after GoogleDriveService's retries
+    if (error instanceof GoogleDriveError && (error.status === 429 || error.status >= 500)) {
+      throw StorageError.unavailable(collection);
+    }
+    // fetch rejects with a TypeError when the network is down
+    if (error instanceof TypeError) throw StorageError.unavailable(collection);
+    throw error;
+  }
+}
+
+class DriveRepository<T extends StorableEntity> implements Repository<T> {
+  private readonly collection: string;
+  private readonly operations: DriveCollectionOperations<T>;
+
+  constructor(collection: string, operations: DriveCollectionOperations<T>) {
+    this.collection = collection;
+    this.operations = operations;
+  }
+
+  private run<R>(id: string | null, operation: () => Promise<R>): Promise<R> {
+    return runDriveOperation(this.collection, id, operation);
+  }
+
+  list(): Promise<T[]> {
+    return this.run(null, () => this.operations.list());
+  }
+
+  get(id: string): Promise<T | null> {
+    return this.run(id, () => this.operations.get(id));
+  }
+
+  create(entity: T): Promise<T> {
+    return this.run(entity.id, () => this.operations.create(entity));
+  }
+
+  update(entity: T): Promise<T> {
+    return this.run(entity.id, () => this.operations.update(entity));
+  }
+
+  delete(id: string): Promise<void> {
+    return this.run(id, () => this.operations.delete(id));
+  }
+}
+
+const MEDIA_FOLDERS: Record<MediaKind, 'recipeImages' | 'thumbnails'> = {
+  recipeImage: 'recipeImages',
+  thumbnail: 'thumbnails',
+};
+
+/**
+ * Media in /Recettier/media. The local cache is best effort: when IndexedDB
+ * is unavailable (e.g. private browsing) files are simply downloaded again.
+ */
+class DriveMediaStore implements MediaStore {
+  private readonly drive: GoogleDriveService;
+  private readonly cache: MediaCache;
+
+  constructor(drive: GoogleDriveService, cache: MediaCache) {
+    this.drive = drive;
+    this.cache = cache;
+  }
+
+  async upload(kind: MediaKind, name: string, blob: Blob): Promise<string> {
+    const file = await runDriveOperation('media', null, () => this.drive.uploadMedia(MEDIA_FOLDERS[kind], name, blob));
+    await this.cache.put(file.id, blob).catch(error => console.warn('Failed to cache uploaded media:', error));
+    return file.id;
+  }
+
+  async download(id: string): Promise<Blob> {
+    const cached = await this.cache.get(id).catch(() => null);
+    if (cached) return cached;
+
+    const blob = await runDriveOperation('media', id, () => this.drive.downloadMedia(id));
+    await this.cache.put(id, blob).catch(error => console.warn('Failed to cache media:', error));
+    return blob;
+  }
+
+  async delete(id: string): Promise<void> {
+    await runDriveOperation('media', id, () => this.drive.deleteMedia(id));
+    await this.cache.delete(id).catch(() => undefined);
+  }
+}
+
+/**
+ * Recipe versions, kept as revisions of the recipe files
+ */
+class DriveRecipeHistory implements VersionHistory<Recipe> {
+  private readonly drive: GoogleDriveService;
+
+  constructor(drive: GoogleDriveService) {
+    this.drive = drive;
+  }
+
+  list(id: string): Promise<EntityVersion[]> {
+    return runDriveOperation('recipes', id, async () => {
+      const revisions = await this.drive.listRecipeRevisions(id);
+      return revisions.map(revision => ({ id: revision.id, savedAt: new Date(revision.modifiedTime) }));
+    });
+  }
+
+  get(id: string, versionId: string): Promise<Recipe | null> {
+    return runDriveOperation('recipes', id, () => this.drive.getRecipeRevision(id, versionId));
+  }
+}
+
+const FOLDER_COLLECTIONS: Record<EntityFolderKey, EntityCollection> = {
+  recipes: 'recipes',
+  shoppingLists: 'shoppingLists',
+  mealPlans: 'mealPlans',
+  pantry: 'pantryItems',
+};
+
+/**
+ * The Drive changes feed, with app folders mapped to collections
+ */
+class DriveChangeFeed implements ChangeFeed {
+  private readonly drive: GoogleDriveService;
+
+  constructor(drive: GoogleDriveService) {
+    this.drive = drive;
+  }
+
+  getCursor(): Promise<string> {
+    return runDriveOperation('changes', null, () => this.drive.getChangesStartToken());
+  }
+
+  async listChanges(cursor: string): Promise<RemoteChanges> {
+    const { changes, nextPageToken } = await runDriveOperation('changes', null, () => this.drive.listEntityChanges(cursor));
+    const result: RemoteChanges = { changes: [], stale: [], cursor: nextPageToken };
+    for (const change of changes) {
+      if (change.folder === 'ingredients') {
+        // All ingredients live in one registry file
+        result.stale = ['ingredients'];
+      } else {
+        result.changes.push({ collection: FOLDER_COLLECTIONS[change.folder], id: change.id, removed: change.removed });
+      }
+    }
+    return result;
+  }
+}
+
+export class DriveStorageBackend implements StorageBackend {
+  readonly type = 'drive' as const;
+  readonly requiresAuth = true;
+  readonly recipes: Repository<Recipe>;
+  readonly ingredients: Repository<Ingredient>;
+  readonly shoppingLists: Repository<ShoppingList>;
+  readonly mealPlans: Repository<MealPlan>;
+  readonly pantryItems: Repository<PantryItem>;
+  readonly media: MediaStore;
+  readonly recipeHistory: VersionHistory<Recipe>;
+  readonly changes: ChangeFeed;
+
+  constructor(drive: GoogleDriveService = googleDriveService, cache: MediaCache = mediaCache) {
+    this.recipes = new DriveRepository('recipes', {
+      list: () => drive.listRecipes(),
+      get: id => drive.getRecipe(id),
+      create: recipe => drive.createRecipe(recipe),
+      update: recipe => drive.updateRecipe(recipe),
+      delete: id => drive.deleteRecipe(id),
+    });
+    this.ingredients = new DriveRepository('ingredients', {
+      list: () => drive.listIngredients(),
+      get: id => drive.getIngredient(id),
+      create: ingredient => drive.createIngredient(ingredient),
+      update: ingredient => drive.updateIngredient(ingredient),
+      delete: id => drive.deleteIngredient(id),
+    });
+    this.shoppingLists = new DriveRepository('shoppingLists', {
+      list: () => drive.listShoppingLists(),
+      get: id => drive.getShoppingList(id),
+      create: list => drive.createShoppingList(list),
+      update: list => drive.updateShoppingList(list),
+      delete: id => drive.deleteShoppingList(id),
+    });
+    this.mealPlans = new DriveRepository('mealPlans', {
+      list: () => drive.listMealPlans(),
+      get: id => drive.getMealPlan(id),
+      create: plan => drive.createMealPlan(plan),
+      update: plan => drive.updateMealPlan(plan),
+      delete: id => drive.deleteMealPlan(id),
+    });
+    this.pantryItems = new DriveRepository('pantryItems', {
+      list: () => drive.listPantryItems(),
+      get: id => drive.getPantryItem(id),
+      create: item => drive.createPantryItem(item),
+      update: item => drive.updatePantryItem(item),
+      delete: id => drive.deletePantryItem(id),
+    });
+    this.media = new DriveMediaStore(drive, cache);
+    this.recipeHistory = new DriveRecipeHistory(drive);
+    this.changes = new DriveChangeFeed(drive);
+  }
+}
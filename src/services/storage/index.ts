@@ -0,0 +1,61 @@
+/**
+ * Storage backend selection
+ *
+ * Pages and stores go through getStorageBackend() and never talk to Google
+ * Drive directly. The backend defaults to Google Drive and can be switched
+ * with VITE_STORAGE_BACKEND=indexeddb|memory (or setStorageBackend() in tests).
+ * Google Drive is wrapped in a local cache and outbox so the app keeps
+ * working offline (see services/sync).
+ */
+
+import type { StorageBackend, StorageBackendType } from '../../types';
+import { DriveStorageBackend } from './driveStorage';
+import { IndexedDBStorageBackend } from './indexedDbStorage';
+import { MemoryStorageBackend } from './memoryStorage';
+import { IndexedDBOutboxStore, LocalStorageCursorStore, Outbox, SyncedStorageBackend } from '../sync';
+
+export { DriveStorageBackend } from './driveStorage';
+export { IndexedDBStorageBackend, IndexedDBRepository, IndexedDBMediaStore } from './indexedDbStorage';
+export { MemoryStorageBackend, MemoryRepository, MemoryMediaStore } from './memoryStorage';
+export { mediaCache } from './mediaCache';
+export { StorageError } from './storageError';
+
+export function createStorageBackend(type: StorageBackendType): StorageBackend {
+  switch (type) {
+    case 'indexeddb':
+      return new IndexedDBStorageBackend();
+    case 'memory':
+      return new MemoryStorageBackend();
+    case 'drive':
+      return new SyncedStorageBackend(
+        new DriveStorageBackend(),
+        new IndexedDBStorageBackend('RecettierCache'),
+        new Outbox(new IndexedDBOutboxStore()),
+        { cursors: new LocalStorageCursorStore() }
+      );
+  }
+}
+
+function getConfiguredBackendType(): StorageBackendType {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND;
+  if (configured === 'indexeddb' || configured === 'memory' || configured === 'drive') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown VITE_STORAGE_BACKEND "${configured}", falling back to Google Drive`);
+  }
+  return 'drive';
+}
+
+let currentBackend: StorageBackend | null = null;
+
+export function getStorageBackend(): StorageBackend {
+  if (!currentBackend) {
+    currentBackend = createStorageBackend(getConfiguredBackendType());
+  }
+  return currentBackend;
+}
+
+export function setStorageBackend(backend: StorageBackend): void {
+  currentBackend = backend;
+}
@@ -0,0 +1,209 @@
+/**
+ * IndexedDB storage backend
+ *
+ * Persists entities in the browser, one object store per collection keyed
+ * by entity id. Follows the same connection and request handling as
+ * src/utils/apiKeyStorage.ts.
+ */
+
+import type {
+  Recipe,
+  Ingredient,
+  ShoppingList,
+  MealPlan,
+  PantryItem,
+  MediaKind,
+  MediaStore,
+  Repository,
+  StorableEntity,
+  StorageBackend,
+} from '../../types';
+import { StorageError } from './storageError';
+
+export type IndexedDBStoreName = 'recipes' | 'ingredients' | 'shoppingLists' | 'mealPlans' | 'pantryItems';
+
+const STORE_NAMES: IndexedDBStoreName[] = ['recipes', 'ingredients', 'shoppingLists', 'mealPlans', 'pantryItems'];
+const MEDIA_STORE_NAME = 'media';
+
+interface StoredMedia {
+  id: string;
+  kind: MediaKind;
+  name: string;
+  blob: Blob;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDBRepository<T extends StorableEntity> implements Repository<T> {
+  private readonly getDB: () => Promise<IDBDatabase>;
+  private readonly storeName: IndexedDBStoreName;
+
+  constructor(getDB: () => Promise<IDBDatabase>, storeName: IndexedDBStoreName) {
+    this.getDB = getDB;
+    this.storeName = storeName;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.storeName], mode);
+    return transaction.objectStore(this.storeName);
+  }
+
+  async list(): Promise<T[]> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest<T[]>(store.getAll());
+  }
+
+  async get(id: string): Promise<T | null> {
+    const store = await this.getStore('readonly');
+    const result = await promisifyRequest<T | undefined>(store.get(id));
+    return result ?? null;
+  }
+
+  async create(entity: T): Promise<T> {
+    const store = await this.getStore('readwrite');
+    try {
+      await promisifyRequest(store.add(entity));
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'ConstraintError') {
+        throw StorageError.alreadyExists(this.storeName, entity.id);
+      }
+      throw error;
+    }
+    return entity;
+  }
+
+  async update(entity: T): Promise<T> {
+    // Check and write within one transaction so the item can't disappear in between
+    const store = await this.getStore('readwrite');
+    const count = await promisifyRequest(store.count(entity.id));
+    if (count === 0) {
+      throw StorageError.notFound(this.storeName, entity.id);
+    }
+    await promisifyRequest(store.put(entity));
+    return entity;
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(id));
+  }
+
+  /**
+   * Write an entity whether or not it exists
+   */
+  async put(entity: T): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put(entity));
+  }
+
+  /**
+   * Replace the whole collection in one transaction
+   */
+  async replaceAll(entities: T[]): Promise<void> {
+    const store = await this.getStore('readwrite');
+    // Requests in a transaction run in order, so the puts land after the clear
+    await Promise.all([
+      promisifyRequest(store.clear()),
+      ...entities.map(entity => promisifyRequest(store.put(entity))),
+    ]);
+  }
+}
+
+export class IndexedDBMediaStore implements MediaStore {
+  private readonly getDB: () => Promise<IDBDatabase>;
+
+  constructor(getDB: () => Promise<IDBDatabase>) {
+    this.getDB = getDB;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.getDB();
+    return db.transaction([MEDIA_STORE_NAME], mode).objectStore(MEDIA_STORE_NAME);
+  }
+
+  async upload(kind: MediaKind, name: string, blob: Blob): Promise<string> {
+    const media: StoredMedia = { id: crypto.randomUUID(), kind, name, blob };
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.add(media));
+    return media.id;
+  }
+
+  async download(id: string): Promise<Blob> {
+    const store = await this.getStore('readonly');
+    const media = await promisifyRequest<StoredMedia | undefined>(store.get(id));
+    if (!media) throw StorageError.notFound(MEDIA_STORE_NAME, id);
+    return media.blob;
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(id));
+  }
+}
+
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly type = 'indexeddb' as const;
+  readonly requiresAuth = false;
+  readonly recipes: IndexedDBRepository<Recipe>;
+  readonly ingredients: IndexedDBRepository<Ingredient>;
+  readonly shoppingLists: IndexedDBRepository<ShoppingList>;
+  readonly mealPlans: IndexedDBRepository<MealPlan>;
+  readonly pantryItems: IndexedDBRepository<PantryItem>;
+  readonly media: IndexedDBMediaStore;
+
+  private readonly dbName: string;
+  // Version 2 added the mealPlans store, version 3 pantryItems, version 4 media
+  private readonly DB_VERSION = 4;
+
+  private db: IDBDatabase | null = null;
+
+  /**
+   * @param dbName Database to use; the sync cache keeps its own copy apart
+   *   from the data of the IndexedDB backend
+   */
+  constructor(dbName = 'RecettierData') {
+    this.dbName = dbName;
+    const getDB = () => this.initDB();
+    this.recipes = new IndexedDBRepository(getDB, 'recipes');
+    this.ingredients = new IndexedDBRepository(getDB, 'ingredients');
+    this.shoppingLists = new IndexedDBRepository(getDB, 'shoppingLists');
+    this.mealPlans = new IndexedDBRepository(getDB, 'mealPlans');
+    this.pantryItems = new IndexedDBRepository(getDB, 'pantryItems');
+    this.media = new IndexedDBMediaStore(getDB);
+  }
+
+  /**
+   * Initialize the IndexedDB database
+   */
+  private async initDB(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [...STORE_NAMES, MEDIA_STORE_NAME].forEach(storeName => {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        });
+      };
+    });
+  }
+}
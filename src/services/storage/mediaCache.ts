@@ -0,0 +1,77 @@
+/**
+ * Local cache for downloaded media
+ *
+ * Keeps a copy of every photo fetched from Google Drive in IndexedDB, keyed
+ * by Drive file ID. Media files are never overwritten, only replaced by new
+ * uploads, so entries don't need invalidating; they are dropped when the file
+ * is deleted or the user signs out.
+ */
+
+import { promisifyRequest } from './indexedDbStorage';
+
+export interface MediaCache {
+  get(id: string): Promise<Blob | null>;
+  put(id: string, blob: Blob): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+class IndexedDBMediaCache implements MediaCache {
+  private readonly DB_NAME = 'RecettierMediaCache';
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = 'files';
+
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize the IndexedDB database
+   */
+  private async initDB(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+          db.createObjectStore(this.STORE_NAME);
+        }
+      };
+    });
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.initDB();
+    return db.transaction([this.STORE_NAME], mode).objectStore(this.STORE_NAME);
+  }
+
+  async get(id: string): Promise<Blob | null> {
+    const store = await this.getStore('readonly');
+    const blob = await promisifyRequest<Blob | undefined>(store.get(id));
+    return blob ?? null;
+  }
+
+  async put(id: string, blob: Blob): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put(blob, id));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.clear());
+  }
+}
+
+export const mediaCache: MediaCache = new IndexedDBMediaCache();
@@ -0,0 +1,119 @@
+/**
+ * In-memory storage backend
+ *
+ * Keeps everything in Maps for the lifetime of the page. Used by the test
+ * suite and for trying the app out without a Google account.
+ */
+
+import type {
+  Recipe,
+  Ingredient,
+  ShoppingList,
+  MealPlan,
+  PantryItem,
+  MediaKind,
+  MediaStore,
+  Repository,
+  StorableEntity,
+  StorageBackend,
+} from '../../types';
+import { StorageError } from './storageError';
+
+export class MemoryRepository<T extends StorableEntity> implements Repository<T> {
+  private readonly items = new Map<string, T>();
+  private readonly collection: string;
+
+  constructor(collection: string, initial: T[] = []) {
+    this.collection = collection;
+    initial.forEach(item => this.items.set(item.id, structuredClone(item)));
+  }
+
+  async list(): Promise<T[]> {
+    return [...this.items.values()].map(item => structuredClone(item));
+  }
+
+  async get(id: string): Promise<T | null> {
+    const item = this.items.get(id);
+    return item ? structuredClone(item) : null;
+  }
+
+  async create(entity: T): Promise<T> {
+    if (this.items.has(entity.id)) {
+      throw StorageError.alreadyExists(this.collection, entity.id);
+    }
+    this.items.set(entity.id, structuredClone(entity));
+    return entity;
+  }
+
+  async update(entity: T): Promise<T> {
+    if (!this.items.has(entity.id)) {
+      throw StorageError.notFound(this.collection, entity.id);
+    }
+    this.items.set(entity.id, structuredClone(entity));
+    return entity;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+
+  async put(entity: T): Promise<void> {
+    this.items.set(entity.id, structuredClone(entity));
+  }
+
+  async replaceAll(entities: T[]): Promise<void> {
+    this.clear();
+    entities.forEach(entity => this.items.set(entity.id, structuredClone(entity)));
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+export class MemoryMediaStore implements MediaStore {
+  private readonly files = new Map<string, Blob>();
+
+  async upload(_kind: MediaKind, _name: string, blob: Blob): Promise<string> {
+    const id = crypto.randomUUID();
+    this.files.set(id, blob);
+    return id;
+  }
+
+  async download(id: string): Promise<Blob> {
+    const blob = this.files.get(id);
+    if (!blob) throw StorageError.notFound('media', id);
+    return blob;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.files.delete(id);
+  }
+}
+
+export interface MemoryStorageSeed {
+  recipes?: Recipe[];
+  ingredients?: Ingredient[];
+  shoppingLists?: ShoppingList[];
+  mealPlans?: MealPlan[];
+  pantryItems?: PantryItem[];
+}
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly type = 'memory' as const;
+  readonly requiresAuth = false;
+  readonly recipes: MemoryRepository<Recipe>;
+  readonly ingredients: MemoryRepository<Ingredient>;
+  readonly shoppingLists: MemoryRepository<ShoppingList>;
+  readonly mealPlans: MemoryRepository<MealPlan>;
+  readonly pantryItems: MemoryRepository<PantryItem>;
+  readonly media = new MemoryMediaStore();
+
+  constructor(seed: MemoryStorageSeed = {}) {
+    this.recipes = new MemoryRepository('recipes', seed.recipes);
+    this.ingredients = new MemoryRepository('ingredients', seed.ingredients);
+    this.shoppingLists = new MemoryRepository('shoppingLists', seed.shoppingLists);
+    this.mealPlans = new MemoryRepository('mealPlans', seed.mealPlans);
+    this.pantryItems = new MemoryRepository('pantryItems', seed.pantryItems);
+  }
+}
@@ -0,0 +1,27 @@
+import type { StorageErrorCode } from '../../types';
+
+/**
+ * Error raised by storage backends, with a code that is the same whichever
+ * backend produced it
+ */
+export class StorageError extends Error {
+  readonly code: StorageErrorCode;
+
+  constructor(message: string, code: StorageErrorCode) {
+    super(message);
+    this.name = 'StorageError';
+    this.code = code;
+  }
+
+  static notFound(collection: string, id: string): StorageError {
+    return new StorageError(`${collection} item ${id} not found`, 'not_found');
+  }
+
+  static alreadyExists(collection: string, id: string): StorageError {
+    return new StorageError(`${collection} item ${id} already exists`, 'already_exists');
+  }
+
+  static unavailable(collection: string): StorageError {
+    return new StorageError(`${collection} storage is unreachable`, 'unavailable');
+  }
+}
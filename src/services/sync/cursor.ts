@@ -0,0 +1,55 @@
+/**
+ * Sync cursor
+ *
+ * Where this device is in the remote's change feed, and which collections
+ * the local cache holds in full as of that point. Those collections are
+ * kept up to date from the feed instead of being listed again.
+ */
+
+import type { EntityCollection } from '../../types';
+
+export interface SyncCursor {
+  token: string;
+  /** Collections listed in full since `token` was taken */
+  complete: EntityCollection[];
+}
+
+export interface CursorStore {
+  load(): SyncCursor | null;
+  /** Null forgets the cursor, so every collection is listed again */
+  save(cursor: SyncCursor | null): void;
+}
+
+const CURSOR_STORAGE_KEY = 'recettier_sync_cursor';
+
+export class LocalStorageCursorStore implements CursorStore {
+  load(): SyncCursor | null {
+    try {
+      const stored = localStorage.getItem(CURSOR_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to read the sync cursor:', error);
+      return null;
+    }
+  }
+
+  save(cursor: SyncCursor | null): void {
+    if (cursor) {
+      localStorage.setItem(CURSOR_STORAGE_KEY, JSON.stringify(cursor));
+    } else {
+      localStorage.removeItem(CURSOR_STORAGE_KEY);
+    }
+  }
+}
+
+export class MemoryCursorStore implements CursorStore {
+  private cursor: SyncCursor | null = null;
+
+  load(): SyncCursor | null {
+    return this.cursor;
+  }
+
+  save(cursor: SyncCursor | null): void {
+    this.cursor = cursor;
+  }
+}
@@ -0,0 +1,7 @@
+export { Outbox, IndexedDBOutboxStore, MemoryOutboxStore, foldChange, getOutboxKey } from './outbox';
+export type { OutboxChange, OutboxConflict, OutboxEntry, OutboxOperation, OutboxStore } from './outbox';
+export { SyncService, OUTBOX_SYNC_TAG } from './syncService';
+export type { CacheRepository, SyncCache } from './syncService';
+export { SyncedStorageBackend, applyPendingChanges } from './syncedStorage';
+export { LocalStorageCursorStore, MemoryCursorStore } from './cursor';
+export type { CursorStore, SyncCursor } from './cursor';
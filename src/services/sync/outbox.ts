@@ -0,0 +1,283 @@
+/**
+ * Outbox of changes waiting to be sent to the remote backend
+ *
+ * There is at most one entry per entity: a later change is folded into the
+ * entry already queued, so an item created and then edited offline is sent
+ * as a single create, and one created and deleted offline is never sent at
+ * all. Entries live in IndexedDB so they survive reloads and closed tabs.
+ */
+
+import type { EntityCollection, FieldConflict, StorableEntity } from '../../types';
+import { promisifyRequest } from '../storage/indexedDbStorage';
+
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+export interface OutboxChange {
+  collection: EntityCollection;
+  operation: OutboxOperation;
+  id: string;
+  /** Latest version of the entity; absent for deletes */
+  entity?: StorableEntity;
+  /** Version on the remote that the change was made to, if known */
+  base?: StorableEntity;
+}
+
+/**
+ * Why an entry is held back: the remote changed the same fields
+ */
+export interface OutboxConflict {
+  remote: StorableEntity;
+  merged: StorableEntity;
+  fields: FieldConflict[];
+}
+
+export interface OutboxEntry extends OutboxChange {
+  /** "collection/id" */
+  key: string;
+  /** When the first change was made, so entries are sent in the order they were made */
+  sequence: number;
+  /** Bumped whenever a change is folded in */
+  revision: number;
+  conflict?: OutboxConflict;
+}
+
+export function getOutboxKey(collection: EntityCollection, id: string): string {
+  return `${collection}/${id}`;
+}
+
+/**
+ * Combine a new change with the entry queued for the same entity. Returns
+ * null when the two cancel out. `wasSent` tells that the queued entry is
+ * being sent right now, so a queued create has to be treated as done.
+ */
+export function foldChange(
+  queued: OutboxEntry | undefined,
+  change: OutboxChange,
+  sequence: number,
+  wasSent = false
+): OutboxEntry | null {
+  if (!queued) {
+    return { ...change, key: getOutboxKey(change.collection, change.id), sequence, revision: 0 };
+  }
+
+  let operation = change.operation;
+  if (queued.operation === 'create' && !wasSent) {
+    // The remote has never seen this entity
+    if (change.operation === 'delete') return null;
+    operation = 'create';
+  } else if (queued.operation === 'delete' && change.operation === 'create') {
+    // Deleted and created again under the same ID: the remote still has the old one
+    operation = 'update';
+  } else if (queued.operation === 'create' && change.operation === 'create') {
+    operation = 'update';
+  }
+
+  // The first change's base is kept; a pending conflict is merged again with the new version
+  return { ...queued, operation, entity: change.entity, revision: queued.revision + 1, conflict: undefined };
+}
+
+/**
+ * Where outbox entries are kept
+ */
+export interface OutboxStore {
+  getAll(): Promise<OutboxEntry[]>;
+  get(key: string): Promise<OutboxEntry | undefined>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class IndexedDBOutboxStore implements OutboxStore {
+  private readonly DB_NAME = 'RecettierOutbox';
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = 'entries';
+
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize the IndexedDB database
+   */
+  private async initDB(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+          db.createObjectStore(this.STORE_NAME, { keyPath: 'key' });
+        }
+      };
+    });
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.initDB();
+    return db.transaction([this.STORE_NAME], mode).objectStore(this.STORE_NAME);
+  }
+
+  async getAll(): Promise<OutboxEntry[]> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest<OutboxEntry[]>(store.getAll());
+  }
+
+  async get(key: string): Promise<OutboxEntry | undefined> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest<OutboxEntry | undefined>(store.get(key));
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.clear());
+  }
+}
+
+export class MemoryOutboxStore implements OutboxStore {
+  private readonly entries = new Map<string, OutboxEntry>();
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return [...this.entries.values()].map(entry => structuredClone(entry));
+  }
+
+  async get(key: string): Promise<OutboxEntry | undefined> {
+    const entry = this.entries.get(key);
+    return entry && structuredClone(entry);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.key, structuredClone(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class Outbox {
+  private readonly store: OutboxStore;
+  private readonly sending = new Set<string>();
+  private lastSequence = 0;
+  // Read-modify-write of entries runs one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(store: OutboxStore) {
+    this.store = store;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  enqueue(change: OutboxChange): Promise<void> {
+    return this.serialize(async () => {
+      const key = getOutboxKey(change.collection, change.id);
+      // Date-based so the order holds across reloads, nudged to stay unique
+      this.lastSequence = Math.max(Date.now(), this.lastSequence + 1);
+      const entry = foldChange(await this.store.get(key), change, this.lastSequence, this.sending.has(key));
+      await (entry ? this.store.put(entry) : this.store.delete(key));
+    });
+  }
+
+  /**
+   * Pending entries, oldest first
+   */
+  async list(): Promise<OutboxEntry[]> {
+    const entries = await this.store.getAll();
+    return entries.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async keys(): Promise<string[]> {
+    return (await this.list()).map(entry => entry.key);
+  }
+
+  /**
+   * Run `send` for an entry and remove the entry afterwards, unless another
+   * change was folded into it in the meantime. `send` returns the version it
+   * left on the remote, which is handed to `onSent` before any later change
+   * can be queued.
+   */
+  async send(
+    entry: OutboxEntry,
+    send: () => Promise<StorableEntity | undefined>,
+    onSent?: (sent: StorableEntity | undefined) => Promise<void>
+  ): Promise<void> {
+    this.sending.add(entry.key);
+    let sent: StorableEntity | undefined;
+    try {
+      sent = await send();
+    } finally {
+      this.sending.delete(entry.key);
+    }
+    await this.serialize(async () => {
+      const current = await this.store.get(entry.key);
+      if (current?.revision === entry.revision) {
+        await this.store.delete(entry.key);
+        await onSent?.(sent);
+      } else if (current) {
+        // Folded in while the change was on its way: it now applies to what was sent
+        const operation = current.operation === 'create' ? 'update' : current.operation;
+        await this.store.put({ ...current, operation, base: sent ?? current.base });
+      }
+    });
+  }
+
+  /**
+   * Hold an entry back until the user resolves the conflict, unless it has
+   * changed since it was read
+   */
+  markConflict(entry: OutboxEntry, conflict: OutboxConflict): Promise<void> {
+    return this.serialize(async () => {
+      const current = await this.store.get(entry.key);
+      if (current?.revision === entry.revision) {
+        await this.store.put({ ...current, conflict });
+      }
+    });
+  }
+
+  /**
+   * Replace a conflicting entry with the version the user settled on, to be
+   * sent over the remote version it was compared with
+   */
+  resolve(key: string, resolved: StorableEntity): Promise<boolean> {
+    return this.serialize(async () => {
+      const current = await this.store.get(key);
+      if (!current?.conflict) return false;
+      await this.store.put({
+        ...current,
+        operation: 'update',
+        entity: resolved,
+        base: current.conflict.remote,
+        revision: current.revision + 1,
+        conflict: undefined,
+      });
+      return true;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.serialize(() => this.store.clear());
+  }
+}
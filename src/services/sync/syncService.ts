@@ -0,0 +1,442 @@
+/**
+ * Sync service
+ *
+ * Sends the outbox to the remote backend, oldest change first. Sending
+ * stops as soon as the remote is unreachable and starts again when the
+ * browser comes back online or the service worker fires a background sync.
+ * Other failures are reported and the change is kept, so nothing is lost;
+ * later changes are still sent.
+ *
+ * An update is compared with the remote version before it is sent. If
+ * another device changed the entity since this device last saw it, the two
+ * versions are merged; fields changed on both sides are held back as a
+ * conflict for the user to resolve.
+ *
+ * Changes made on other devices are pulled from the remote's change feed,
+ * when it has one: only the entities that changed since the stored cursor
+ * are downloaded into the cache. Entities with pending changes are left
+ * alone; sending them merges in the remote version.
+ */
+
+import type {
+  ChangeFeed,
+  EntityCollection,
+  Ingredient,
+  MealPlan,
+  PantryItem,
+  Recipe,
+  RemoteChange,
+  Repository,
+  ShoppingList,
+  StorableEntity,
+  StorageBackend,
+  SyncConflict,
+  SyncController,
+  SyncStatus,
+  SyncedChange,
+} from '../../types';
+import { StorageError } from '../storage/storageError';
+import { pwaService } from '../../utils/pwa';
+import { isEqual, mergeEntity } from '../../utils/merge';
+import { getOutboxKey, type Outbox, type OutboxConflict, type OutboxEntry } from './outbox';
+import { MemoryCursorStore, type CursorStore } from './cursor';
+
+/** Background sync tag, also the message type used by public/sw-sync.js */
+export const OUTBOX_SYNC_TAG = 'recettier-outbox';
+
+export function isUnavailable(error: unknown): boolean {
+  return !navigator.onLine || (error instanceof StorageError && error.code === 'unavailable');
+}
+
+function hasCode(error: unknown, code: StorageError['code']): boolean {
+  return error instanceof StorageError && error.code === code;
+}
+
+/**
+ * Local copy of one collection
+ */
+export interface CacheRepository<T extends StorableEntity> extends Repository<T> {
+  put(entity: T): Promise<void>;
+  replaceAll(entities: T[]): Promise<void>;
+}
+
+export interface SyncCache {
+  recipes: CacheRepository<Recipe>;
+  ingredients: CacheRepository<Ingredient>;
+  shoppingLists: CacheRepository<ShoppingList>;
+  mealPlans: CacheRepository<MealPlan>;
+  pantryItems: CacheRepository<PantryItem>;
+}
+
+const COLLECTIONS: EntityCollection[] = ['recipes', 'ingredients', 'shoppingLists', 'mealPlans', 'pantryItems'];
+
+// Changed entities downloaded at once, like GoogleDriveService's list batches
+const PULL_BATCH_SIZE = 10;
+
+class SyncConflictError extends Error {
+  readonly conflict: OutboxConflict;
+
+  constructor(conflict: OutboxConflict) {
+    super('Changed on another device');
+    this.name = 'SyncConflictError';
+    this.conflict = conflict;
+  }
+}
+
+function toSyncConflict(entry: OutboxEntry & { conflict: OutboxConflict }): SyncConflict {
+  return {
+    key: entry.key,
+    collection: entry.collection,
+    id: entry.id,
+    local: entry.entity!,
+    remote: entry.conflict.remote,
+    merged: entry.conflict.merged,
+    fields: entry.conflict.fields,
+  };
+}
+
+function withoutRevision(entity: StorableEntity): StorableEntity {
+  return { ...entity, revision: undefined };
+}
+
+export interface SyncServiceOptions {
+  /** Settled before the first flush */
+  ready?: Promise<void>;
+  /** Where the change feed cursor is kept; in memory by default */
+  cursors?: CursorStore;
+}
+
+export class SyncService implements SyncController {
+  private readonly remote: StorageBackend;
+  private readonly cache: SyncCache;
+  private readonly outbox: Outbox;
+  private readonly options: SyncServiceOptions;
+  private readonly cursors: CursorStore;
+  private readonly listeners = new Set<(status: SyncStatus) => void>();
+  private readonly changeListeners = new Set<(change: SyncedChange) => void>();
+  private status: SyncStatus = { pending: [], conflicts: [], isSyncing: false, lastSyncedAt: null, error: null };
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+  private pulling: Promise<void> | null = null;
+
+  constructor(remote: StorageBackend, cache: SyncCache, outbox: Outbox, options: SyncServiceOptions = {}) {
+    this.remote = remote;
+    this.cache = cache;
+    this.outbox = outbox;
+    this.options = options;
+    this.cursors = options.cursors ?? new MemoryCursorStore();
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  subscribeToChanges(listener: (change: SyncedChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private setStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  private async readPending(): Promise<Pick<SyncStatus, 'pending' | 'conflicts'>> {
+    const entries = await this.outbox.list();
+    return {
+      pending: entries.map(entry => entry.key),
+      conflicts: entries.flatMap(entry => entry.conflict ? [toSyncConflict({ ...entry, conflict: entry.conflict })] : []),
+    };
+  }
+
+  private async refreshPending(): Promise<void> {
+    this.setStatus(await this.readPending());
+  }
+
+  private getCache(collection: EntityCollection): CacheRepository<StorableEntity> {
+    return this.cache[collection] as unknown as CacheRepository<StorableEntity>;
+  }
+
+  /**
+   * Called after a change has been added to the outbox
+   */
+  changed(): void {
+    this.refreshPending().catch(error => console.warn('Failed to read the outbox:', error));
+    if (navigator.onLine) {
+      void this.flush();
+    } else {
+      void pwaService.requestBackgroundSync(OUTBOX_SYNC_TAG);
+    }
+  }
+
+  flush(): Promise<void> {
+    // Changes queued during a flush are picked up by one more pass
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushAgain = false;
+          await this.sendPending();
+        } while (this.flushAgain);
+      } catch (error) {
+        // The outbox itself could not be read
+        console.error('Failed to sync:', error);
+        this.setStatus({ isSyncing: false, error: `Failed to sync: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+
+  private async sendPending(): Promise<void> {
+    await this.options.ready?.catch(() => undefined);
+    const entries = (await this.outbox.list()).filter(entry => !entry.conflict);
+    if (entries.length === 0) {
+      await this.refreshPending();
+      return;
+    }
+
+    this.setStatus({ isSyncing: true });
+    let error: string | null = null;
+    let reachedRemote = true;
+
+    for (const entry of entries) {
+      try {
+        await this.outbox.send(entry, () => this.send(entry), sent => this.sent(entry, sent));
+      } catch (sendError) {
+        if (sendError instanceof SyncConflictError) {
+          await this.outbox.markConflict(entry, sendError.conflict);
+          continue;
+        }
+        if (isUnavailable(sendError)) {
+          reachedRemote = false;
+          break;
+        }
+        console.error(`Failed to sync ${entry.key}:`, sendError);
+        error = `Failed to sync ${entry.key}: ${sendError instanceof Error ? sendError.message : 'Unknown error'}`;
+      }
+    }
+
+    this.setStatus({
+      ...await this.readPending(),
+      isSyncing: false,
+      error,
+      ...(reachedRemote && !error && { lastSyncedAt: new Date() }),
+    });
+    if (!reachedRemote) {
+      void pwaService.requestBackgroundSync(OUTBOX_SYNC_TAG);
+    }
+  }
+
+  /**
+   * Send one entry and return the version left on the remote
+   */
+  private async send(entry: OutboxEntry): Promise<StorableEntity | undefined> {
+    const repository = this.remote[entry.collection] as unknown as Repository<StorableEntity>;
+
+    switch (entry.operation) {
+      case 'create': {
+        const created = { ...entry.entity!, revision: 1 };
+        try {
+          await repository.create(created);
+        } catch (error) {
+          // An earlier attempt got through but its response was lost
+          if (!hasCode(error, 'already_exists')) throw error;
+          await repository.update(created);
+        }
+        return created;
+      }
+      case 'update': {
+        const current = await repository.get(entry.id);
+        if (!current) {
+          // Deleted on another device: the local edit wins
+          const created = { ...entry.entity!, revision: 1 };
+          await repository.create(created);
+          return created;
+        }
+
+        let next = entry.entity!;
+        if (entry.base && !isEqual(current, entry.base)) {
+          const { merged, conflicts } = mergeEntity(entry.base, next, current);
+          if (conflicts.length > 0) {
+            throw new SyncConflictError({ remote: current, merged, fields: conflicts });
+          }
+          next = merged;
+        }
+        const updated = { ...next, revision: (current.revision ?? 0) + 1 };
+        await repository.update(updated);
+        return updated;
+      }
+      case 'delete':
+        try {
+          await repository.delete(entry.id);
+        } catch (error) {
+          if (!hasCode(error, 'not_found')) throw error;
+        }
+        return undefined;
+    }
+  }
+
+  /**
+   * Keep the local copy in step with what was sent, unless it was edited
+   * again in the meantime
+   */
+  private async sent(entry: OutboxEntry, sent: StorableEntity | undefined): Promise<void> {
+    if (!sent) return;
+    const cache = this.getCache(entry.collection);
+    if (!isEqual(await cache.get(entry.id), entry.entity)) return;
+
+    await cache.put(sent);
+    // Edits merged in from another device have to reach the UI
+    if (!isEqual(withoutRevision(sent), withoutRevision(entry.entity!))) {
+      this.notifyChange({ collection: entry.collection, id: entry.id, entity: sent });
+    }
+  }
+
+  private notifyChange(change: SyncedChange): void {
+    this.changeListeners.forEach(listener => listener(change));
+  }
+
+  /**
+   * Whether the cache holds all of `collection` and is kept up to date from
+   * the change feed, so it can answer list() without the remote
+   */
+  isComplete(collection: EntityCollection): boolean {
+    return this.cursors.load()?.complete.includes(collection) ?? false;
+  }
+
+  /**
+   * Record that `collection` was just listed in full. Only valid after a
+   * pull(), so the cursor predates the listing.
+   */
+  markComplete(collection: EntityCollection): void {
+    const cursor = this.cursors.load();
+    if (!cursor || cursor.complete.includes(collection)) return;
+    this.cursors.save({ ...cursor, complete: [...cursor.complete, collection] });
+  }
+
+  /**
+   * Bring complete collections up to date with the change feed. Never
+   * rejects: without a cursor, every collection is simply listed again.
+   */
+  pull(): Promise<void> {
+    const feed = this.remote.changes;
+    if (!feed || !navigator.onLine) return Promise.resolve();
+
+    this.pulling ??= this.pullChanges(feed).finally(() => {
+      this.pulling = null;
+    });
+    return this.pulling;
+  }
+
+  private async pullChanges(feed: ChangeFeed): Promise<void> {
+    await this.options.ready?.catch(() => undefined);
+    try {
+      const cursor = this.cursors.load();
+      if (!cursor) {
+        // Taken before anything is listed, so nothing listed is missed
+        this.cursors.save({ token: await feed.getCursor(), complete: [] });
+        return;
+      }
+
+      const { changes, stale, cursor: token } = await feed.listChanges(cursor.token);
+      const complete = cursor.complete.filter(collection => !stale.includes(collection));
+      const relevant = changes.filter(change => complete.includes(change.collection));
+      for (let i = 0; i < relevant.length; i += PULL_BATCH_SIZE) {
+        await this.applyRemoteChanges(relevant.slice(i, i + PULL_BATCH_SIZE));
+      }
+      this.cursors.save({ token, complete });
+    } catch (error) {
+      if (isUnavailable(error)) return;
+      // An expired or unreadable cursor: start over from full listings
+      console.warn('Failed to read remote changes:', error);
+      this.cursors.save(null);
+    }
+  }
+
+  private async applyRemoteChanges(changes: RemoteChange[]): Promise<void> {
+    const downloaded = await Promise.all(changes.map(change => {
+      if (change.removed) return null;
+      const repository = this.remote[change.collection] as unknown as Repository<StorableEntity>;
+      return repository.get(change.id);
+    }));
+    // Read after downloading, so edits made meanwhile are not overwritten
+    const pending = new Set(await this.outbox.keys());
+
+    for (const [index, { collection, id }] of changes.entries()) {
+      if (pending.has(getOutboxKey(collection, id))) continue;
+      const cache = this.getCache(collection);
+      const entity = downloaded[index];
+      const cached = await cache.get(id);
+      // This device's own changes come back through the feed too
+      if (isEqual(cached, entity)) continue;
+
+      if (entity) {
+        await cache.put(entity);
+      } else {
+        await cache.delete(id);
+      }
+      this.notifyChange({ collection, id, entity });
+    }
+  }
+
+  async resolveConflict(key: string, resolved: StorableEntity): Promise<void> {
+    const conflict = this.status.conflicts.find(existing => existing.key === key);
+    if (!conflict || !(await this.outbox.resolve(key, resolved))) return;
+
+    await this.getCache(conflict.collection).put(resolved);
+    this.notifyChange({ collection: conflict.collection, id: conflict.id, entity: resolved });
+    this.changed();
+  }
+
+  start(): () => void {
+    const handleOnline = () => {
+      void this.flush();
+      void this.pull();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') void this.pull();
+    };
+
+    // Background sync fires in the service worker, which has no access
+    // token; it asks an open page to flush and waits for the answer
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== OUTBOX_SYNC_TAG) return;
+      const [port] = event.ports;
+      this.flush().then(() => port?.postMessage({ done: this.status.pending.length === 0 }));
+    };
+
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    void this.flush();
+    void this.pull();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.cursors.save(null);
+    await this.outbox.clear();
+    await Promise.all(COLLECTIONS.map(collection => this.getCache(collection).replaceAll([])));
+    this.setStatus({ pending: [], conflicts: [], isSyncing: false, lastSyncedAt: null, error: null });
+  }
+}
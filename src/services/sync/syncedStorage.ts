@@ -0,0 +1,192 @@
+/**
+ * Offline-first storage backend
+ *
+ * Wraps a remote backend (Google Drive) with a copy of every collection in
+ * IndexedDB. Reads are answered from the remote when it can be reached and
+ * from the local copy otherwise; writes go to the local copy and the outbox
+ * and are sent by the SyncService, so they succeed without a connection.
+ * Once a collection has been listed in full, it is kept up to date from the
+ * remote's change feed and listed from the local copy.
+ */
+
+import type {
+  EntityCollection,
+  Ingredient,
+  MealPlan,
+  MediaStore,
+  PantryItem,
+  Recipe,
+  Repository,
+  ShoppingList,
+  StorableEntity,
+  StorageBackend,
+  StorageBackendType,
+  VersionHistory,
+} from '../../types';
+import { StorageError } from '../storage/storageError';
+import { reviveShoppingList, type Serialized } from '../../utils/serialization';
+import { Outbox, type OutboxEntry } from './outbox';
+import { SyncService, isUnavailable, type CacheRepository, type SyncCache } from './syncService';
+import type { CursorStore } from './cursor';
+
+/**
+ * Lay changes that have not been sent yet over what the remote returned
+ */
+export function applyPendingChanges<T extends StorableEntity>(
+  entities: T[],
+  entries: OutboxEntry[],
+  collection: EntityCollection
+): T[] {
+  const byId = new Map(entities.map(entity => [entity.id, entity]));
+  for (const entry of entries) {
+    if (entry.collection !== collection) continue;
+    if (entry.operation === 'delete') {
+      byId.delete(entry.id);
+    } else {
+      byId.set(entry.id, entry.entity as T);
+    }
+  }
+  return [...byId.values()];
+}
+
+class SyncedRepository<T extends StorableEntity> implements Repository<T> {
+  private readonly collection: EntityCollection;
+  private readonly remote: Repository<T>;
+  private readonly cache: CacheRepository<T>;
+  private readonly outbox: Outbox;
+  private readonly sync: SyncService;
+  private readonly ready: Promise<void>;
+
+  constructor(
+    collection: EntityCollection,
+    remote: Repository<T>,
+    cache: CacheRepository<T>,
+    outbox: Outbox,
+    sync: SyncService,
+    ready: Promise<void>
+  ) {
+    this.collection = collection;
+    this.remote = remote;
+    this.cache = cache;
+    this.outbox = outbox;
+    this.sync = sync;
+    this.ready = ready;
+  }
+
+  async listCached(): Promise<T[]> {
+    await this.ready;
+    return this.cache.list();
+  }
+
+  async list(): Promise<T[]> {
+    await this.ready;
+    if (!navigator.onLine) return this.cache.list();
+
+    await this.sync.pull();
+    if (this.sync.isComplete(this.collection)) return this.cache.list();
+
+    let entities: T[];
+    try {
+      entities = await this.remote.list();
+    } catch (error) {
+      if (isUnavailable(error)) return this.cache.list();
+      throw error;
+    }
+
+    // Changes not sent yet are newer than what the remote returned
+    const merged = applyPendingChanges(entities, await this.outbox.list(), this.collection);
+    await this.cache.replaceAll(merged);
+    this.sync.markComplete(this.collection);
+    return merged;
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.ready;
+    const cached = await this.cache.get(id);
+    if (cached || !navigator.onLine) return cached;
+
+    try {
+      const entity = await this.remote.get(id);
+      if (entity) await this.cache.put(entity);
+      return entity;
+    } catch (error) {
+      if (isUnavailable(error)) return null;
+      throw error;
+    }
+  }
+
+  private async queue(operation: 'create' | 'update' | 'delete', id: string, entity?: T, base?: T): Promise<void> {
+    await this.outbox.enqueue({ collection: this.collection, operation, id, entity, base });
+    this.sync.changed();
+  }
+
+  async create(entity: T): Promise<T> {
+    if (await this.cache.get(entity.id)) {
+      throw StorageError.alreadyExists(this.collection, entity.id);
+    }
+    await this.cache.put(entity);
+    await this.queue('create', entity.id, entity);
+    return entity;
+  }
+
+  async update(entity: T): Promise<T> {
+    // The cached copy is the last version seen on the remote, unless it has
+    // pending changes, whose entry already keeps the base
+    const base = await this.cache.get(entity.id);
+    await this.cache.put(entity);
+    await this.queue('update', entity.id, entity, base ?? undefined);
+    return entity;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.cache.delete(id);
+    await this.queue('delete', id);
+  }
+}
+
+// Earlier versions queued offline shopping list changes in localStorage
+const LEGACY_PENDING_SHOPPING_LISTS_KEY = 'recettier_pending_shopping_lists';
+
+async function adoptLegacyPendingShoppingLists(cache: SyncCache, outbox: Outbox): Promise<void> {
+  const stored = localStorage.getItem(LEGACY_PENDING_SHOPPING_LISTS_KEY);
+  if (!stored) return;
+
+  const pending: Record<string, Serialized<ShoppingList>> = JSON.parse(stored);
+  for (const list of Object.values(pending).map(reviveShoppingList)) {
+    await cache.shoppingLists.put(list);
+    await outbox.enqueue({ collection: 'shoppingLists', operation: 'update', id: list.id, entity: list });
+  }
+  localStorage.removeItem(LEGACY_PENDING_SHOPPING_LISTS_KEY);
+}
+
+export class SyncedStorageBackend implements StorageBackend {
+  readonly type: StorageBackendType;
+  readonly requiresAuth: boolean;
+  readonly recipes: Repository<Recipe>;
+  readonly ingredients: Repository<Ingredient>;
+  readonly shoppingLists: Repository<ShoppingList>;
+  readonly mealPlans: Repository<MealPlan>;
+  readonly pantryItems: Repository<PantryItem>;
+  // Uploads and version history need a connection and are not cached
+  readonly media: MediaStore;
+  readonly recipeHistory?: VersionHistory<Recipe>;
+  readonly sync: SyncService;
+
+  constructor(remote: StorageBackend, cache: SyncCache, outbox: Outbox, options: { cursors?: CursorStore } = {}) {
+    this.type = remote.type;
+    this.requiresAuth = remote.requiresAuth;
+    this.media = remote.media;
+    this.recipeHistory = remote.recipeHistory;
+
+    const ready = adoptLegacyPendingShoppingLists(cache, outbox).catch(error => {
+      console.warn('Failed to recover shopping lists saved offline:', error);
+    });
+    this.sync = new SyncService(remote, cache, outbox, { ready, cursors: options.cursors });
+
+    this.recipes = new SyncedRepository('recipes', remote.recipes, cache.recipes, outbox, this.sync, ready);
+    this.ingredients = new SyncedRepository('ingredients', remote.ingredients, cache.ingredients, outbox, this.sync, ready);
+    this.shoppingLists = new SyncedRepository('shoppingLists', remote.shoppingLists, cache.shoppingLists, outbox, this.sync, ready);
+    this.mealPlans = new SyncedRepository('mealPlans', remote.mealPlans, cache.mealPlans, outbox, this.sync, ready);
+    this.pantryItems = new SyncedRepository('pantryItems', remote.pantryItems, cache.pantryItems, outbox, this.sync, ready);
+  }
+}
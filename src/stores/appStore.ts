@@ -0,0 +1,520 @@
+/**
+ * Global application store
+ *
+ * Holds the AppState described in ARCHITECTURE.md and exposes async actions
+ * that persist through the active storage backend. Mutations are applied
+ * optimistically and rolled back if the backend rejects them. Collections
+ * are shown from the backend's local cache first, when it has one, and
+ * refreshed once the full list arrives.
+ *
+ * Completing a shopping list adds its purchases to the pantry, once.
+ *
+ * Deleting moves entities to the trash, kept apart from the live
+ * collections, from which they can be restored until they are purged.
+ */
+
+import { create } from 'zustand';
+import type {
+  AppState,
+  User,
+  Recipe,
+  RecipeIngredient,
+  Ingredient,
+  ShoppingList,
+  ShoppingListItem,
+  MealPlan,
+  PantryItem,
+  Repository,
+  LibraryData,
+  SyncedChange,
+  EntityCollection,
+  TrashContents,
+} from '../types';
+import { getStorageBackend } from '../services/storage';
+import { deleteRecipeImage } from '../services/recipeImages';
+import {
+  combineIngredientRows,
+  mergeIngredientRecords,
+  replaceIngredientReferences,
+  type IngredientMerge,
+  type IngredientUsage,
+} from '../utils/ingredientRegistry';
+import { addPurchasesToPantry } from '../utils/pantry';
+import { EMPTY_TRASH, isTrashExpired } from '../utils/trash';
+
+interface CollectionTypes {
+  recipes: Recipe;
+  ingredients: Ingredient;
+  shoppingLists: ShoppingList;
+  mealPlans: MealPlan;
+  pantryItems: PantryItem;
+}
+
+type CollectionKey = keyof CollectionTypes;
+
+const COLLECTION_LABELS: Record<CollectionKey, { singular: string; plural: string }> = {
+  recipes: { singular: 'recipe', plural: 'recipes' },
+  ingredients: { singular: 'ingredient', plural: 'ingredients' },
+  shoppingLists: { singular: 'shopping list', plural: 'shopping lists' },
+  mealPlans: { singular: 'meal plan', plural: 'meal plans' },
+  pantryItems: { singular: 'pantry item', plural: 'pantry items' },
+};
+
+export interface AppActions {
+  setUser: (user: User | null) => void;
+  clearError: () => void;
+  reset: () => void;
+  /** Show an entity rewritten by the sync, e.g. merged with edits from another device */
+  applySyncedChange: (change: SyncedChange) => void;
+
+  loadAll: () => Promise<void>;
+  loadRecipes: () => Promise<void>;
+  loadIngredients: () => Promise<void>;
+  loadShoppingLists: () => Promise<void>;
+  loadMealPlans: () => Promise<void>;
+  loadPantryItems: () => Promise<void>;
+
+  createRecipe: (recipe: Recipe) => Promise<Recipe>;
+  updateRecipe: (recipe: Recipe) => Promise<Recipe>;
+  /** Move a recipe to the trash; like every delete action, it can be undone with restoreFromTrash */
+  deleteRecipe: (id: string) => Promise<void>;
+  /** Save imported recipes and their new ingredients; recipes that already exist are replaced */
+  importLibrary: (data: LibraryData) => Promise<void>;
+
+  createIngredient: (ingredient: Ingredient) => Promise<Ingredient>;
+  updateIngredient: (ingredient: Ingredient) => Promise<Ingredient>;
+  /**
+   * Move an ingredient to the trash, pointing its references at
+   * `replacementId`. Without one they are kept, and removed once it is purged.
+   */
+  deleteIngredient: (id: string, replacementId?: string) => Promise<void>;
+  /** Fold `sourceIds` into `targetId` and delete them */
+  mergeIngredients: (targetId: string, sourceIds: string[]) => Promise<IngredientMerge>;
+
+  createShoppingList: (list: ShoppingList) => Promise<ShoppingList>;
+  updateShoppingList: (list: ShoppingList) => Promise<ShoppingList>;
+  deleteShoppingList: (id: string) => Promise<void>;
+
+  createMealPlan: (plan: MealPlan) => Promise<MealPlan>;
+  updateMealPlan: (plan: MealPlan) => Promise<MealPlan>;
+  deleteMealPlan: (id: string) => Promise<void>;
+
+  createPantryItem: (item: PantryItem) => Promise<PantryItem>;
+  updatePantryItem: (item: PantryItem) => Promise<PantryItem>;
+  deletePantryItem: (id: string) => Promise<void>;
+
+  restoreFromTrash: (collection: EntityCollection, id: string) => Promise<void>;
+  /** Delete an entity in the trash for good */
+  purgeFromTrash: (collection: EntityCollection, id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  /** Purge what has been in the trash for `retentionDays` or more */
+  purgeExpiredTrash: (retentionDays: number) => Promise<void>;
+  dismissLastTrashed: () => void;
+}
+
+export type AppStore = AppState & AppActions;
+
+const initialState: AppState = {
+  user: null,
+  recipes: [],
+  ingredients: [],
+  shoppingLists: [],
+  mealPlans: [],
+  pantryItems: [],
+  trash: EMPTY_TRASH,
+  lastTrashed: null,
+  isLoading: false,
+  error: null,
+};
+
+function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex(existing => existing.id === item.id);
+  if (index === -1) return [...items, item];
+
+  const next = [...items];
+  next[index] = item;
+  return next;
+}
+
+function removeById<T extends { id: string }>(items: T[], id: string): T[] {
+  return items.filter(item => item.id !== id);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function getRepository<K extends CollectionKey>(key: K): Repository<CollectionTypes[K]> {
+  return getStorageBackend()[key] as unknown as Repository<CollectionTypes[K]>;
+}
+
+export const useAppStore = create<AppStore>()((set, get) => {
+  let activeLoads = 0;
+  let loadGeneration = 0;
+
+  const getItems = <K extends CollectionKey>(key: K): CollectionTypes[K][] =>
+    get()[key] as CollectionTypes[K][];
+
+  const setItems = <K extends CollectionKey>(key: K, items: CollectionTypes[K][]) =>
+    set({ [key]: items } as Partial<AppState>);
+
+  const getTrash = <K extends CollectionKey>(key: K): CollectionTypes[K][] =>
+    get().trash[key] as CollectionTypes[K][];
+
+  const setTrash = <K extends CollectionKey>(key: K, items: CollectionTypes[K][]) =>
+    set(state => ({ trash: { ...state.trash, [key]: items } as TrashContents }));
+
+  // Backends return trashed entities along with the others
+  const showItems = <K extends CollectionKey>(key: K, items: CollectionTypes[K][]) => {
+    setItems(key, items.filter(item => !item.deletedAt));
+    setTrash(key, items.filter(item => item.deletedAt));
+  };
+
+  const load = async <K extends CollectionKey>(key: K): Promise<void> => {
+    // Results of loads started before a reset belong to the previous session
+    const generation = loadGeneration;
+    const isCurrent = () => generation === loadGeneration;
+    activeLoads++;
+    set({ isLoading: true });
+    try {
+      const repository = getRepository(key);
+      // A failed cache read only means waiting for the full list
+      const cached = await repository.listCached?.().catch(() => undefined);
+      if (cached && cached.length > 0 && isCurrent()) showItems(key, cached);
+      const items = await repository.list();
+      if (isCurrent()) showItems(key, items);
+    } catch (error) {
+      console.error(`Failed to load ${COLLECTION_LABELS[key].plural}:`, error);
+      if (isCurrent()) set({ error: `Failed to load ${COLLECTION_LABELS[key].plural}: ${describeError(error)}` });
+    } finally {
+      if (isCurrent()) {
+        activeLoads--;
+        set({ isLoading: activeLoads > 0 });
+      }
+    }
+  };
+
+  /**
+   * Apply a change locally, persist it, and undo the local change on failure.
+   * Rollback only touches the affected item so concurrent edits survive.
+   */
+  const mutate = async <K extends CollectionKey>(
+    key: K,
+    apply: (items: CollectionTypes[K][]) => CollectionTypes[K][],
+    rollback: (items: CollectionTypes[K][]) => CollectionTypes[K][],
+    persist: (repository: Repository<CollectionTypes[K]>) => Promise<unknown>,
+    action: string
+  ): Promise<void> => {
+    setItems(key, apply(getItems(key)));
+    try {
+      await persist(getRepository(key));
+    } catch (error) {
+      console.error(`Failed to ${action} ${COLLECTION_LABELS[key].singular}:`, error);
+      setItems(key, rollback(getItems(key)));
+      set({ error: `Failed to ${action} ${COLLECTION_LABELS[key].singular}: ${describeError(error)}` });
+      throw error;
+    }
+  };
+
+  const createEntity = async <K extends CollectionKey>(key: K, entity: CollectionTypes[K]) => {
+    await mutate(
+      key,
+      items => upsertById(items, entity),
+      items => removeById(items, entity.id),
+      repository => repository.create(entity),
+      'create'
+    );
+    return entity;
+  };
+
+  const updateEntity = async <K extends CollectionKey>(key: K, entity: CollectionTypes[K]) => {
+    const previous = getItems(key).find(item => item.id === entity.id);
+    await mutate(
+      key,
+      items => upsertById(items, entity),
+      items => previous ? upsertById(items, previous) : removeById(items, entity.id),
+      repository => repository.update(entity),
+      'update'
+    );
+    return entity;
+  };
+
+  /**
+   * Save an entity with `deletedAt` set or cleared, moving it between the
+   * live collection and the trash
+   */
+  const moveEntity = async <K extends CollectionKey>(key: K, entity: CollectionTypes[K], action: string) => {
+    const previous = getItems(key).find(item => item.id === entity.id);
+    const previousTrashed = getTrash(key).find(item => item.id === entity.id);
+    const toTrash = !!entity.deletedAt;
+
+    setItems(key, toTrash ? removeById(getItems(key), entity.id) : upsertById(getItems(key), entity));
+    setTrash(key, toTrash ? upsertById(getTrash(key), entity) : removeById(getTrash(key), entity.id));
+    try {
+      await getRepository(key).update(entity);
+    } catch (error) {
+      console.error(`Failed to ${action} ${COLLECTION_LABELS[key].singular}:`, error);
+      setItems(key, previous ? upsertById(getItems(key), previous) : removeById(getItems(key), entity.id));
+      setTrash(key, previousTrashed ? upsertById(getTrash(key), previousTrashed) : removeById(getTrash(key), entity.id));
+      set({ error: `Failed to ${action} ${COLLECTION_LABELS[key].singular}: ${describeError(error)}` });
+      throw error;
+    }
+  };
+
+  const trashEntity = async <K extends CollectionKey>(key: K, id: string) => {
+    const entity = getItems(key).find(item => item.id === id);
+    if (!entity) return;
+    await moveEntity(key, { ...entity, deletedAt: new Date() }, 'delete');
+    set({ lastTrashed: { collection: key, id } });
+  };
+
+  const deleteEntity = async <K extends CollectionKey>(key: K, id: string) => {
+    const previous = getItems(key).find(item => item.id === id);
+    await mutate(
+      key,
+      items => removeById(items, id),
+      items => previous ? upsertById(items, previous) : items,
+      repository => repository.delete(id),
+      'delete'
+    );
+  };
+
+  const purgeEntity = async <K extends CollectionKey>(key: K, id: string) => {
+    const entity = getTrash(key).find(item => item.id === id);
+    if (!entity) return;
+
+    setTrash(key, removeById(getTrash(key), id));
+    if (get().lastTrashed?.id === id) set({ lastTrashed: null });
+    try {
+      await getRepository(key).delete(id);
+    } catch (error) {
+      console.error(`Failed to delete ${COLLECTION_LABELS[key].singular}:`, error);
+      setTrash(key, upsertById(getTrash(key), entity));
+      set({ error: `Failed to delete ${COLLECTION_LABELS[key].singular}: ${describeError(error)}` });
+      throw error;
+    }
+
+    // References and photos stay while the entity can still be restored
+    if (key === 'recipes') {
+      const { image } = entity as Recipe;
+      if (image) void deleteRecipeImage(image);
+    } else if (key === 'ingredients') {
+      await rewriteIngredientReferences(new Set([id]), null);
+    }
+  };
+
+  /**
+   * Add the purchases of a completed list to the pantry. Failed writes are
+   * reported through `error` and not retried.
+   */
+  const restockPantry = async (list: ShoppingList) => {
+    const { updated, created } = addPurchasesToPantry(getItems('pantryItems'), list.items, getItems('ingredients'));
+    await Promise.allSettled([
+      ...updated.map(item => updateEntity('pantryItems', item)),
+      ...created.map(item => createEntity('pantryItems', item)),
+    ]);
+  };
+
+  /**
+   * Rewrite every recipe and shopping list row that uses one of `fromIds`.
+   * Runs before ingredients are replaced, or once they are purged from the
+   * trash, so nothing is left dangling. Trashed recipes and lists are
+   * rewritten too, so restoring one cannot bring a dangling row back.
+   * Rows that end up on the same ingredient are added up; the recipes and
+   * lists where their units do not convert are returned.
+   */
+  const rewriteIngredientReferences = async (
+    fromIds: ReadonlySet<string>,
+    toId: string | null
+  ): Promise<IngredientUsage> => {
+    const conflicts: IngredientUsage = { recipes: [], shoppingLists: [] };
+    const density = [...getItems('ingredients'), ...getTrash('ingredients')]
+      .find(ingredient => ingredient.id === toId)?.density;
+    const combine = <T extends RecipeIngredient | ShoppingListItem>(
+      rows: T[],
+      canCombine: (a: T, b: T) => boolean
+    ) => {
+      const replaced = replaceIngredientReferences(rows, fromIds, toId);
+      if (replaced === rows || toId === null) return { rows: replaced, hasConflict: false };
+      return combineIngredientRows(replaced, toId, density, canCombine);
+    };
+
+    const rewriteRecipe = (recipe: Recipe) => {
+      // Rows with their own notes, like "for the glaze", are kept apart
+      const { rows: ingredients, hasConflict } = combine(
+        recipe.ingredients,
+        (a, b) => (a.notes ?? '') === (b.notes ?? '')
+      );
+      if (ingredients === recipe.ingredients) return [];
+      if (hasConflict) conflicts.recipes.push(recipe);
+      return [{ ...recipe, ingredients }];
+    };
+    const rewriteList = (list: ShoppingList) => {
+      const { rows: items, hasConflict } = combine(list.items, (a, b) => a.purchased === b.purchased);
+      if (items === list.items) return [];
+      if (hasConflict) conflicts.shoppingLists.push(list);
+      return [{ ...list, items }];
+    };
+
+    await Promise.all([
+      ...getItems('recipes').flatMap(rewriteRecipe).map(recipe => get().updateRecipe(recipe)),
+      ...getItems('shoppingLists').flatMap(rewriteList).map(list => get().updateShoppingList(list)),
+      ...getTrash('recipes').flatMap(rewriteRecipe).map(recipe => moveEntity('recipes', recipe, 'update')),
+      ...getTrash('shoppingLists').flatMap(rewriteList).map(list => moveEntity('shoppingLists', list, 'update')),
+    ]);
+    return conflicts;
+  };
+
+  return {
+    ...initialState,
+
+    setUser: user => set({ user }),
+    clearError: () => set({ error: null }),
+    reset: () => {
+      loadGeneration++;
+      activeLoads = 0;
+      set({ ...initialState });
+    },
+    applySyncedChange: ({ collection, id, entity }) => {
+      const [items, trash] = [getItems(collection), getTrash(collection)];
+      const synced = entity as (typeof items)[number] | null;
+      setItems(collection, synced && !synced.deletedAt ? upsertById(items, synced) : removeById(items, id));
+      setTrash(collection, synced?.deletedAt ? upsertById(trash, synced) : removeById(trash, id));
+    },
+
+    loadAll: async () => {
+      set({ error: null });
+      await Promise.all([load('recipes'), load('ingredients'), load('shoppingLists'), load('mealPlans'), load('pantryItems')]);
+    },
+    loadRecipes: () => load('recipes'),
+    loadIngredients: () => load('ingredients'),
+    loadShoppingLists: () => load('shoppingLists'),
+    loadMealPlans: () => load('mealPlans'),
+    loadPantryItems: () => load('pantryItems'),
+
+    createRecipe: recipe => createEntity('recipes', recipe),
+    updateRecipe: async recipe => {
+      const previousImage = getItems('recipes').find(existing => existing.id === recipe.id)?.image;
+      const updated = await updateEntity('recipes', { ...recipe, updatedAt: new Date() });
+      // The old photo is only dropped once nothing refers to it any more
+      if (previousImage && previousImage.id !== updated.image?.id) {
+        void deleteRecipeImage(previousImage);
+      }
+      return updated;
+    },
+    deleteRecipe: id => trashEntity('recipes', id),
+    importLibrary: async data => {
+      // Ingredients first so recipes never reference a missing entry
+      const trashedIngredientIds = new Set(getTrash('ingredients').map(ingredient => ingredient.id));
+      for (const ingredient of data.ingredients) {
+        await (trashedIngredientIds.has(ingredient.id)
+          ? moveEntity('ingredients', { ...ingredient, deletedAt: undefined }, 'restore')
+          : createEntity('ingredients', ingredient));
+      }
+      const existingIds = new Set(getItems('recipes').map(recipe => recipe.id));
+      const trashedIds = new Set(getTrash('recipes').map(recipe => recipe.id));
+      for (const recipe of data.recipes) {
+        if (trashedIds.has(recipe.id)) {
+          await moveEntity('recipes', { ...recipe, deletedAt: undefined }, 'restore');
+        } else {
+          await (existingIds.has(recipe.id) ? updateEntity('recipes', recipe) : createEntity('recipes', recipe));
+        }
+      }
+    },
+
+    createIngredient: ingredient => createEntity('ingredients', ingredient),
+    updateIngredient: ingredient => updateEntity('ingredients', ingredient),
+    deleteIngredient: async (id, replacementId) => {
+      if (replacementId === id) throw new Error('An ingredient cannot replace itself');
+      if (replacementId) await rewriteIngredientReferences(new Set([id]), replacementId);
+      await trashEntity('ingredients', id);
+    },
+    mergeIngredients: async (targetId, sourceIds) => {
+      const ingredients = getItems('ingredients');
+      const target = ingredients.find(ingredient => ingredient.id === targetId);
+      if (!target) throw new Error(`Ingredient ${targetId} not found`);
+
+      const fromIds = new Set(sourceIds.filter(id => id !== targetId));
+      const sources = ingredients.filter(ingredient => fromIds.has(ingredient.id));
+
+      const merged = await updateEntity('ingredients', mergeIngredientRecords(target, sources));
+      const conflicts = await rewriteIngredientReferences(fromIds, targetId);
+      for (const source of sources) {
+        await deleteEntity('ingredients', source.id);
+      }
+      return { ingredient: merged, conflicts };
+    },
+
+    createShoppingList: list => createEntity('shoppingLists', list),
+    updateShoppingList: async list => {
+      // The list is marked first so a failed save can never restock twice
+      const restock = list.status === 'completed' && !list.addedToPantry;
+      const updated = await updateEntity('shoppingLists', {
+        ...list,
+        ...(restock && { addedToPantry: true }),
+        updatedAt: new Date(),
+      });
+      if (restock) await restockPantry(updated);
+      return updated;
+    },
+    deleteShoppingList: id => trashEntity('shoppingLists', id),
+
+    createMealPlan: plan => createEntity('mealPlans', plan),
+    updateMealPlan: plan => updateEntity('mealPlans', { ...plan, updatedAt: new Date() }),
+    deleteMealPlan: id => trashEntity('mealPlans', id),
+
+    createPantryItem: item => createEntity('pantryItems', item),
+    updatePantryItem: item => updateEntity('pantryItems', { ...item, updatedAt: new Date() }),
+    deletePantryItem: id => trashEntity('pantryItems', id),
+
+    restoreFromTrash: async (collection, id) => {
+      const entity = getTrash(collection).find(item => item.id === id);
+      if (!entity) return;
+      if (get().lastTrashed?.id === id) set({ lastTrashed: null });
+      await moveEntity(collection, { ...entity, deletedAt: undefined }, 'restore');
+    },
+    purgeFromTrash: (collection, id) => purgeEntity(collection, id),
+    emptyTrash: async () => {
+      const { trash } = get();
+      for (const collection of Object.keys(trash) as CollectionKey[]) {
+        for (const entity of trash[collection]) {
+          await purgeEntity(collection, entity.id);
+        }
+      }
+    },
+    purgeExpiredTrash: async retentionDays => {
+      const now = new Date();
+      const { trash } = get();
+      for (const collection of Object.keys(trash) as CollectionKey[]) {
+        for (const entity of trash[collection].filter(item => isTrashExpired(item, retentionDays, now))) {
+          await purgeEntity(collection, entity.id).catch(() => undefined);
+        }
+      }
+    },
+    dismissLastTrashed: () => set({ lastTrashed: null }),
+  };
+});
+
+// Selectors
+
+export const selectRecipes = (state: AppStore) => state.recipes;
+export const selectIngredients = (state: AppStore) => state.ingredients;
+export const selectShoppingLists = (state: AppStore) => state.shoppingLists;
+export const selectMealPlans = (state: AppStore) => state.mealPlans;
+export const selectPantryItems = (state: AppStore) => state.pantryItems;
+export const selectTrash = (state: AppStore) => state.trash;
+
+export const selectRecipeById = (id: string) => (state: AppStore) =>
+  state.recipes.find(recipe => recipe.id === id);
+
+export const selectIngredientById = (id: string) => (state: AppStore) =>
+  state.ingredients.find(ingredient => ingredient.id === id);
+
+export const selectShoppingListById = (id: string) => (state: AppStore) =>
+  state.shoppingLists.find(list => list.id === id);
+
+export const selectRecipeCount = (state: AppStore) => state.recipes.length;
+export const selectIngredientCount = (state: AppStore) => state.ingredients.length;
+export const selectShoppingListCount = (state: AppStore) => state.shoppingLists.length;
+export const selectActiveShoppingListCount = (state: AppStore) =>
+  state.shoppingLists.filter(list => list.status !== 'completed').length;
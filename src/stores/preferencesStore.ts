@@ -0,0 +1,36 @@
+/**
+ * User display preferences
+ *
+ * Kept in localStorage through zustand's persist middleware; unlike the app
+ * store these are per device and never go to the storage backend.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { UnitPreference } from '../utils/units';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trash';
+
+export interface PreferencesState {
+  unitPreference: UnitPreference;
+  /** Days deleted items stay in the trash before being purged */
+  trashRetentionDays: number;
+}
+
+export interface PreferencesActions {
+  setUnitPreference: (preference: UnitPreference) => void;
+  setTrashRetentionDays: (days: number) => void;
+}
+
+export type PreferencesStore = PreferencesState & PreferencesActions;
+
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    set => ({
+      unitPreference: 'original',
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+      setUnitPreference: unitPreference => set({ unitPreference }),
+      setTrashRetentionDays: trashRetentionDays => set({ trashRetentionDays }),
+    }),
+    { name: 'recettier_preferences' }
+  )
+);
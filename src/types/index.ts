@@ -2,15 +2,37 @@
 export * from './auth';
 export * from './recipe';
 export * from './pwa';
+export * from './storage';
+export * from './interchange';
 
 import type { User } from './auth';
-import type { Recipe, Ingredient, ShoppingList } from './recipe';
+import type { Recipe, Ingredient, ShoppingList, MealPlan, PantryItem } from './recipe';
+import type { EntityCollection } from './storage';
+
+/** Entities moved to the trash, by collection */
+export interface TrashContents {
+  recipes: Recipe[];
+  ingredients: Ingredient[];
+  shoppingLists: ShoppingList[];
+  mealPlans: MealPlan[];
+  pantryItems: PantryItem[];
+}
+
+export interface TrashedEntityRef {
+  collection: EntityCollection;
+  id: string;
+}
 
 export interface AppState {
   user: User | null;
   recipes: Recipe[];
   ingredients: Ingredient[];
   shoppingLists: ShoppingList[];
+  mealPlans: MealPlan[];
+  pantryItems: PantryItem[];
+  trash: TrashContents;
+  /** Last entity moved to the trash, until its undo is dismissed */
+  lastTrashed: TrashedEntityRef | null;
   isLoading: boolean;
   error: string | null;
 }
\ No newline at end of file
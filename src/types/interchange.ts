@@ -0,0 +1,40 @@
+// Library import and export in other apps' formats
+
+import type { Recipe, Ingredient } from './recipe';
+
+export type InterchangeFormat = 'recettier' | 'paprika' | 'mealie' | 'tandoor' | 'markdown';
+
+/** Recipes together with the registry entries they reference */
+export interface LibraryData {
+  recipes: Recipe[];
+  ingredients: Ingredient[];
+}
+
+/** A field that could not be carried over as it was */
+export interface MappingIssue {
+  /** Recipe title, or empty for issues about the whole file */
+  recipe: string;
+  field: string;
+  message: string;
+}
+
+export interface InterchangeReport {
+  format: InterchangeFormat;
+  recipeCount: number;
+  /** Registry entries written to the file, or created while importing */
+  ingredientCount: number;
+  issues: MappingIssue[];
+}
+
+export interface ImportResult {
+  /** Recipes to save, and only the ingredients that are new to the registry */
+  data: LibraryData;
+  report: InterchangeReport;
+}
+
+export interface ExportResult {
+  content: Uint8Array | string;
+  fileName: string;
+  mimeType: string;
+  report: InterchangeReport;
+}
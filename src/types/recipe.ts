@@ -10,8 +10,23 @@ export interface Recipe {
   difficulty: 'easy' | 'medium' | 'hard';
   tags: string[];
   imageUrl?: string;
+  /** Uploaded photo, shown instead of imageUrl */
+  image?: RecipeImage;
   createdAt: Date;
   updatedAt: Date;
+  /** Sync revision, see StorableEntity */
+  revision?: number;
+  /** Set while in the trash, see StorableEntity */
+  deletedAt?: Date;
+}
+
+/**
+ * Photo stored in the media folder of the storage backend, referenced by
+ * file ID rather than URL
+ */
+export interface RecipeImage {
+  id: string;
+  thumbnailId: string;
 }
 
 export interface Ingredient {
@@ -20,6 +35,30 @@ export interface Ingredient {
   category: string;
   defaultUnit: string;
   alternativeNames: string[];
+  density?: number; // in g/ml, to convert between weight and volume
+  pieceWeight?: number; // in g, weight of one piece or clove
+  nutrition?: NutritionProfile;
+  /** Sync revision, see StorableEntity */
+  revision?: number;
+  /** Set while in the trash, see StorableEntity */
+  deletedAt?: Date;
+}
+
+/**
+ * Nutrients per 100 g of an ingredient
+ */
+export interface NutritionProfile {
+  kcal: number;
+  /** Grams */
+  protein: number;
+  /** Grams */
+  fat: number;
+  /** Grams, fiber included */
+  carbs: number;
+  /** Grams */
+  fiber: number;
+  /** Milligrams */
+  sodium: number;
 }
 
 export interface RecipeIngredient {
@@ -34,15 +73,62 @@ export interface ShoppingList {
   name: string;
   items: ShoppingListItem[];
   status: 'draft' | 'active' | 'completed';
+  /** Set when the completed list is saved, just before its purchases are added to the pantry */
+  addedToPantry?: boolean;
   createdAt: Date;
   updatedAt: Date;
+  /** Sync revision, see StorableEntity */
+  revision?: number;
+  /** Set while in the trash, see StorableEntity */
+  deletedAt?: Date;
 }
 
 export interface ShoppingListItem {
+  /** Empty for items added by hand that are not in the ingredient registry */
   ingredientId: string;
+  /** Label for items without an ingredient */
+  name?: string;
   quantity: number;
   unit: string;
   purchased: boolean;
   price?: number;
   store?: string;
-}
\ No newline at end of file
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+/**
+ * A recipe planned for one meal
+ */
+export interface MealPlan {
+  id: string;
+  /** Calendar day as YYYY-MM-DD, in the user's time zone */
+  date: string;
+  slot: MealSlot;
+  recipeId: string;
+  servings: number;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Sync revision, see StorableEntity */
+  revision?: number;
+  /** Set while in the trash, see StorableEntity */
+  deletedAt?: Date;
+}
+
+/**
+ * Stock of an ingredient on hand
+ */
+export interface PantryItem {
+  id: string;
+  ingredientId: string;
+  quantity: number;
+  unit: string;
+  /** Calendar day as YYYY-MM-DD after which the stock should not be used */
+  expiresOn?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Sync revision, see StorableEntity */
+  revision?: number;
+  /** Set while in the trash, see StorableEntity */
+  deletedAt?: Date;
+}
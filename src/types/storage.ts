@@ -0,0 +1,180 @@
+// Storage backend abstraction
+
+import type { Recipe, Ingredient, ShoppingList, MealPlan, PantryItem } from './recipe';
+
+export interface StorableEntity {
+  id: string;
+  /** Bumped each time the entity is synced, so changes from other devices can be told apart */
+  revision?: number;
+  /**
+   * When the entity was moved to the trash. Trashed entities are stored and
+   * synced like any other until they are purged.
+   */
+  deletedAt?: Date;
+}
+
+/**
+ * CRUD access to one collection of entities, independent of where they live
+ */
+export interface Repository<T extends StorableEntity> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  create(entity: T): Promise<T>;
+  update(entity: T): Promise<T>;
+  delete(id: string): Promise<void>;
+  /**
+   * Last copy saved on this device, for backends that keep one, so the UI
+   * can show something before list() has reached the network
+   */
+  listCached?(): Promise<T[]>;
+}
+
+/** Media folder a file belongs to */
+export type MediaKind = 'recipeImage' | 'thumbnail';
+
+/**
+ * Binary files such as recipe photos, addressed by the ID the backend
+ * gives them on upload
+ */
+export interface MediaStore {
+  upload(kind: MediaKind, name: string, blob: Blob): Promise<string>;
+  download(id: string): Promise<Blob>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * One saved version of an entity
+ */
+export interface EntityVersion {
+  id: string;
+  savedAt: Date;
+}
+
+/**
+ * Earlier versions of the entities in a collection, kept by the backend
+ * each time one is saved
+ */
+export interface VersionHistory<T extends StorableEntity> {
+  /** Oldest first; the last one is the version currently saved */
+  list(id: string): Promise<EntityVersion[]>;
+  get(id: string, versionId: string): Promise<T | null>;
+}
+
+/** Collections that hold entities, as named on StorageBackend */
+export type EntityCollection = 'recipes' | 'ingredients' | 'shoppingLists' | 'mealPlans' | 'pantryItems';
+
+/**
+ * A field changed differently on this device and on another one. `key`
+ * names the element for lists merged item by item (shopping list items,
+ * recipe ingredients); an undefined value means it was removed.
+ */
+export interface FieldConflict {
+  field: string;
+  key?: string;
+  local: unknown;
+  remote: unknown;
+}
+
+/**
+ * A local change that could not be merged with the version on the remote
+ */
+export interface SyncConflict {
+  /** "collection/id" */
+  key: string;
+  collection: EntityCollection;
+  id: string;
+  local: StorableEntity;
+  remote: StorableEntity;
+  /** Both versions combined, with the local value for every conflicting field */
+  merged: StorableEntity;
+  fields: FieldConflict[];
+}
+
+/**
+ * An entity rewritten by the sync rather than by this device's UI, e.g. the
+ * result of merging edits made on another device
+ */
+export interface SyncedChange {
+  collection: EntityCollection;
+  id: string;
+  /** Null when the entity was deleted */
+  entity: StorableEntity | null;
+}
+
+export interface SyncStatus {
+  /** Changes saved on this device but not sent yet, as "collection/id" */
+  pending: string[];
+  /** Pending changes held back until the user picks a version */
+  conflicts: SyncConflict[];
+  isSyncing: boolean;
+  lastSyncedAt: Date | null;
+  /** Why the last attempt failed, other than being offline */
+  error: string | null;
+}
+
+/**
+ * Sends changes saved on this device to the remote backend
+ */
+export interface SyncController {
+  getStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  subscribeToChanges(listener: (change: SyncedChange) => void): () => void;
+  /** Send pending changes now; resolves once the attempt is over */
+  flush(): Promise<void>;
+  /** Replace the local side of a conflict with `resolved` and send it */
+  resolveConflict(key: string, resolved: StorableEntity): Promise<void>;
+  /** Start flushing on reconnection and background sync; returns a stop function */
+  start(): () => void;
+  /** Forget cached data and pending changes, e.g. on sign-out */
+  clear(): Promise<void>;
+}
+
+/**
+ * An entity created, changed or deleted on the remote, possibly by another
+ * device
+ */
+export interface RemoteChange {
+  collection: EntityCollection;
+  id: string;
+  removed: boolean;
+}
+
+export interface RemoteChanges {
+  changes: RemoteChange[];
+  /** Collections changed in ways that cannot be traced to single entities; list them again */
+  stale: EntityCollection[];
+  /** Where the next listChanges() call picks up */
+  cursor: string;
+}
+
+/**
+ * What changed on the remote since a cursor, so devices can fetch just that
+ * instead of listing every collection again
+ */
+export interface ChangeFeed {
+  /** Cursor for changes made from now on */
+  getCursor(): Promise<string>;
+  listChanges(cursor: string): Promise<RemoteChanges>;
+}
+
+export type StorageBackendType = 'drive' | 'indexeddb' | 'memory';
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  /** Whether the backend needs a signed-in Google account */
+  readonly requiresAuth: boolean;
+  readonly recipes: Repository<Recipe>;
+  readonly ingredients: Repository<Ingredient>;
+  readonly shoppingLists: Repository<ShoppingList>;
+  readonly mealPlans: Repository<MealPlan>;
+  readonly pantryItems: Repository<PantryItem>;
+  readonly media: MediaStore;
+  /** Present when the backend keeps earlier versions of recipes */
+  readonly recipeHistory?: VersionHistory<Recipe>;
+  /** Present when the backend can report what changed since an earlier visit */
+  readonly changes?: ChangeFeed;
+  /** Present when changes are saved locally first and synced later */
+  readonly sync?: SyncController;
+}
+
+export type StorageErrorCode = 'not_found' | 'already_exists' | 'unavailable';
@@ -0,0 +1,112 @@
+/**
+ * Recipe photo processing
+ *
+ * Photos are scaled down and re-encoded in the browser before upload so a
+ * 12 MP phone picture doesn't end up in Drive as is, and a small thumbnail is
+ * made for recipe cards, as suggested in ARCHITECTURE.md. WebP is used where
+ * the browser can encode it, JPEG otherwise.
+ */
+
+export const IMAGE_MAX_DIMENSION = 1600;
+export const THUMBNAIL_MAX_DIMENSION = 480;
+export const IMAGE_QUALITY = 0.85;
+export const THUMBNAIL_QUALITY = 0.75;
+export const MAX_SOURCE_IMAGE_BYTES = 25 * 1024 * 1024;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/heic'];
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+}
+
+/**
+ * Why a file can't be used as a recipe photo, or null if it can
+ */
+export function validateImageFile(file: Pick<File, 'type' | 'size'>): string | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return 'Choose a JPEG, PNG, WebP, GIF, AVIF or HEIC image';
+  }
+  if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+    return `Images must be smaller than ${MAX_SOURCE_IMAGE_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+}
+
+/**
+ * Scale dimensions down to fit a square of `maxDimension`, keeping the
+ * aspect ratio. Smaller images are left as they are.
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * File extension for an encoded image
+ */
+export function getImageExtension(blob: Blob): string {
+  return blob.type === 'image/webp' ? 'webp' : 'jpg';
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+async function encode(source: ImageBitmap, maxDimension: number, quality: number): Promise<Blob> {
+  const { width, height } = fitWithin(source.width, source.height, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('This browser cannot process images');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+
+  // Browsers that can't encode WebP silently hand back a PNG instead
+  const webp = await canvasToBlob(canvas, 'image/webp', quality);
+  if (webp?.type === 'image/webp') return webp;
+
+  // JPEG has no transparency, so put transparent areas on white rather than black
+  context.globalCompositeOperation = 'destination-over';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!jpeg) {
+    throw new Error('Failed to encode the image');
+  }
+  return jpeg;
+}
+
+/**
+ * Decode a photo, honouring its EXIF orientation, and produce the resized
+ * image and its thumbnail
+ */
+export async function processRecipeImage(file: File): Promise<ProcessedImage> {
+  const problem = validateImageFile(file);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This image could not be read. Try saving it as JPEG first.');
+  }
+
+  try {
+    return {
+      image: await encode(bitmap, IMAGE_MAX_DIMENSION, IMAGE_QUALITY),
+      thumbnail: await encode(bitmap, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Ingredient line parsing
+ *
+ * Turns free-text ingredient lines, in English or French, into recipe
+ * ingredients:
+ *
+ *   "1 ½ cups (200 g) all-purpose flour, sifted"
+ *   "2-3 gousses d'ail, hachées"
+ *   "une pincée de sel"
+ *
+ * A line is read as an amount (numbers, fractions, ranges or number words),
+ * an optional unit, an optional amount in another unit in parentheses, the
+ * ingredient name and notes (anything after a comma or in parentheses, size
+ * words like "large", and phrases like "to taste"). The name is then matched
+ * against the registry's names and alternative names.
+ */
+
+import type { Ingredient, RecipeIngredient } from '../types';
+import { findIngredientByName } from './ingredientRegistry';
+import { formatNumber, formatQuantity, isKnownUnit, normalizeUnit, type Quantity } from './units';
+
+export interface ParsedIngredientLine {
+  /** Line as it was written */
+  line: string;
+  /** Undefined when the line has no amount ("salt to taste") */
+  quantity?: number;
+  /** Upper end of a range such as "2-3" */
+  quantityMax?: number;
+  unit: string;
+  name: string;
+  notes?: string;
+  /** Same amount in another unit, as in "1 cup (200 g)" */
+  alternative?: Quantity;
+}
+
+export interface ParsedRecipeIngredient {
+  parsed: ParsedIngredientLine;
+  ingredient: RecipeIngredient;
+  /** Registry entry the name matched, if any */
+  match?: Ingredient;
+}
+
+const UNICODE_FRACTION_VALUES: Record<string, number> = {
+  '⅛': 1 / 8, '¼': 1 / 4, '⅓': 1 / 3, '⅜': 3 / 8, '½': 1 / 2,
+  '⅝': 5 / 8, '⅔': 2 / 3, '¾': 3 / 4, '⅞': 7 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5,
+  un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, sept: 7,
+  huit: 8, neuf: 9, dix: 10, onze: 11, douze: 12, demi: 0.5, demie: 0.5,
+};
+
+// "a few", "un peu de": vague amounts are left without a quantity
+const VAGUE_AMOUNT_WORDS = new Set(['few', 'little', 'bit', 'couple', 'peu', 'soupçon']);
+
+// Units that are not measures, so the conversion table doesn't know them
+const CONTAINER_UNITS: Record<string, string> = {
+  can: 'can', cans: 'can', tin: 'can', tins: 'can', 'boîte': 'can', 'boîtes': 'can',
+  jar: 'jar', jars: 'jar', pot: 'jar', pots: 'jar', bocal: 'jar', bocaux: 'jar',
+  bunch: 'bunch', bunches: 'bunch', botte: 'bunch', bottes: 'bunch',
+  sprig: 'sprig', sprigs: 'sprig', brin: 'sprig', brins: 'sprig',
+  slice: 'slice', slices: 'slice', tranche: 'slice', tranches: 'slice',
+  stick: 'stick', sticks: 'stick', head: 'head', heads: 'head', stalk: 'stalk', stalks: 'stalk',
+  handful: 'handful', handfuls: 'handful', 'poignée': 'handful', 'poignées': 'handful',
+  package: 'package', packages: 'package', pack: 'package', packet: 'package', packets: 'package',
+  paquet: 'package', paquets: 'package', sachet: 'sachet', sachets: 'sachet',
+};
+
+const SIZE_WORDS = /^(extra[- ]large|large|medium|small|big|gros|grosses?|petite?s?|moyens?|moyennes?)\s+/i;
+
+const TRAILING_NOTES = /\s+(to taste|as needed|optional|for serving|for garnish|au goût|selon (?:le |votre )?goût|facultatif|pour servir)$/i;
+
+// Words joining an amount to the ingredient: "of", "de", "d'"
+const CONNECTOR = /^(?:(?:of|de|du|des)\s+|d['’]\s*)/i;
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTION_VALUES).join('');
+const NUMBER = `\\d+\\s+\\d+/\\d+|\\d+\\s*[${FRACTION_CHARS}]|\\d+/\\d+|[${FRACTION_CHARS}]|\\d+(?:[.,]\\d+)?`;
+const RANGE_SEPARATOR = '\\s*[-–—]\\s*|\\s+(?:to|à|a|ou|or)\\s+';
+const AMOUNT_PATTERN = new RegExp(`^(${NUMBER})(?:(?:${RANGE_SEPARATOR})(${NUMBER}))?`, 'i');
+
+// Longest unit spellings are a few words long ("cuillères à soupe")
+const MAX_UNIT_WORDS = 3;
+
+/**
+ * Parse a written amount such as "1 1/2", "1½", "0,5" or "deux"
+ */
+export function parseQuantity(text: string): number | undefined {
+  const value = text.trim().toLowerCase();
+  if (!value) return undefined;
+  if (value in NUMBER_WORDS) return NUMBER_WORDS[value];
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[3]) ? Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]) : undefined;
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) ? Number(fraction[1]) / Number(fraction[2]) : undefined;
+
+  const unicode = value.match(new RegExp(`^(\\d*)\\s*([${FRACTION_CHARS}])$`));
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTION_VALUES[unicode[2]];
+
+  const number = Number(value.replace(',', '.'));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+interface Amount {
+  quantity: number;
+  quantityMax?: number;
+  rest: string;
+}
+
+/**
+ * Take an amount, possibly a range, off the start of the text
+ */
+function takeAmount(text: string): Amount | null {
+  const match = text.match(AMOUNT_PATTERN);
+  if (match) {
+    const quantity = parseQuantity(match[1]);
+    if (quantity === undefined) return null;
+
+    const quantityMax = match[2] !== undefined ? parseQuantity(match[2]) : undefined;
+    return {
+      quantity,
+      quantityMax: quantityMax !== undefined && quantityMax > quantity ? quantityMax : undefined,
+      rest: text.slice(match[0].length).trim(),
+    };
+  }
+
+  const [word, next = ''] = text.split(/\s+/, 2);
+  const value = NUMBER_WORDS[word.toLowerCase()];
+  if (value === undefined || !next || VAGUE_AMOUNT_WORDS.has(next.toLowerCase())) return null;
+  // "half a cup", "half an onion"
+  return { quantity: value, rest: text.slice(word.length).trim().replace(/^an?\s+/i, '') };
+}
+
+/**
+ * Take a unit off the start of the text, trying the longest spelling first
+ */
+function takeUnit(text: string): { unit: string; rest: string } {
+  const words = text.split(/\s+/).filter(Boolean);
+
+  // The last word is the ingredient itself ("2 cups" alone is not much of a line)
+  for (let count = Math.min(MAX_UNIT_WORDS, words.length - 1); count > 0; count--) {
+    const candidate = words.slice(0, count).join(' ');
+    const container = CONTAINER_UNITS[candidate.toLowerCase()];
+    if (container || isKnownUnit(candidate)) {
+      return { unit: container ?? normalizeUnit(candidate), rest: words.slice(count).join(' ') };
+    }
+  }
+  return { unit: '', rest: text };
+}
+
+/**
+ * Take an amount in parentheses, like "(200 g)" or "(environ 7 oz)", off the start of the text
+ */
+function takeAlternative(text: string): { alternative?: Quantity; rest: string } {
+  const match = text.match(/^\((?:about|approx\.?|environ|~)?\s*([^)]+)\)\s*/i);
+  if (!match) return { rest: text };
+
+  const amount = takeAmount(match[1].trim());
+  if (!amount || (amount.rest && !isKnownUnit(amount.rest))) return { rest: text };
+  return {
+    alternative: { quantity: amount.quantity, unit: normalizeUnit(amount.rest) },
+    rest: text.slice(match[0].length).trim(),
+  };
+}
+
+/**
+ * Split a name into the ingredient itself and any notes around it
+ */
+function splitNotes(text: string): { name: string; notes: string[] } {
+  const inParentheses: string[] = [];
+  let name = text.replace(/\s*\(([^)]*)\)\s*/g, (_match, inner: string) => {
+    inParentheses.push(inner.trim());
+    return ' ';
+  }).trim();
+
+  let afterComma = '';
+  const comma = name.indexOf(',');
+  if (comma >= 0) {
+    afterComma = name.slice(comma + 1).trim();
+    name = name.slice(0, comma).trim();
+  }
+
+  let trailing = '';
+  const trailingMatch = name.match(TRAILING_NOTES);
+  if (trailingMatch) {
+    trailing = trailingMatch[1];
+    name = name.slice(0, trailingMatch.index).trim();
+  }
+
+  let size = '';
+  const sizeMatch = name.match(SIZE_WORDS);
+  if (sizeMatch) {
+    size = sizeMatch[1];
+    name = name.slice(sizeMatch[0].length);
+  }
+
+  return {
+    name: name.replace(/\.$/, '').trim(),
+    notes: [size, ...inParentheses, afterComma, trailing].filter(Boolean),
+  };
+}
+
+/**
+ * Split an ingredient line into its amount, unit, name and notes
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  // Drop list bullets
+  let text = line.replace(/\s+/g, ' ').trim().replace(/^[-•*·]\s+/, '');
+
+  let quantity: number | undefined;
+  let quantityMax: number | undefined;
+  let unit = '';
+  let alternative: Quantity | undefined;
+
+  const amount = takeAmount(text);
+  if (amount) {
+    ({ quantity, quantityMax } = amount);
+    text = amount.rest;
+
+    // "1 (14 oz) can tomatoes" gives the other amount before the unit
+    ({ alternative, rest: text } = takeAlternative(text));
+    ({ unit, rest: text } = takeUnit(text));
+    if (!alternative) ({ alternative, rest: text } = takeAlternative(text));
+
+    text = text.replace(CONNECTOR, '');
+  }
+
+  const { name, notes } = splitNotes(text);
+  return {
+    line,
+    quantity,
+    quantityMax,
+    unit,
+    name: name.replace(CONNECTOR, '') || text,
+    notes: notes.length > 0 ? notes.join(', ') : undefined,
+    alternative,
+  };
+}
+
+function singular(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length <= 3) return word;
+  if (lower.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ch|sh|ss|x|o)es$/.test(lower)) return word.slice(0, -2);
+  if (/[sx]$/.test(lower)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Find the registry entry for a parsed name. Singular forms are tried too,
+ * then shorter forms of the name, so "all-purpose flour" can match "Flour"
+ * and "huile d'olive vierge" can match "Huile d'olive".
+ */
+export function matchIngredient(name: string, ingredients: Ingredient[]): Ingredient | undefined {
+  const words = name.split(/\s+/).filter(Boolean);
+
+  for (let length = words.length; length > 0; length--) {
+    const phrases = new Set([
+      words.slice(0, length).join(' '),
+      words.slice(words.length - length).join(' '),
+    ]);
+    for (const phrase of phrases) {
+      const candidates = [phrase, phrase.split(' ').map(singular).join(' ')];
+      for (const candidate of candidates) {
+        const found = findIngredientByName(candidate, ingredients);
+        if (found) return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turn a parsed line into a recipe ingredient. Ranges use their upper end so
+ * there is always enough; the written range and any other amount are kept in
+ * the notes. Lines without an ingredient keep the original text as notes.
+ */
+export function toRecipeIngredient(parsed: ParsedIngredientLine, ingredientId = ''): RecipeIngredient {
+  if (!ingredientId) {
+    return { ingredientId, quantity: parsed.quantityMax ?? parsed.quantity ?? 1, unit: parsed.unit, notes: parsed.line };
+  }
+
+  const notes = [
+    parsed.quantity !== undefined && parsed.quantityMax !== undefined
+      ? `${formatNumber(parsed.quantity, true)}–${formatNumber(parsed.quantityMax, true)}`
+      : '',
+    parsed.alternative ? formatQuantity(parsed.alternative.quantity, parsed.alternative.unit) : '',
+    parsed.notes ?? '',
+  ].filter(Boolean);
+
+  return {
+    ingredientId,
+    quantity: parsed.quantityMax ?? parsed.quantity ?? 1,
+    unit: parsed.unit,
+    notes: notes.length > 0 ? notes.join(', ') : undefined,
+  };
+}
+
+/**
+ * Parse a line and match it against the registry
+ */
+export function parseRecipeIngredient(line: string, ingredients: Ingredient[]): ParsedRecipeIngredient {
+  const parsed = parseIngredientLine(line);
+  const match = matchIngredient(parsed.name, ingredients);
+  return { parsed, match, ingredient: toRecipeIngredient(parsed, match?.id) };
+}
@@ -0,0 +1,254 @@
+/**
+ * Ingredient registry helpers
+ *
+ * Grouping, searching and validation for the registry page, plus the
+ * reference rewriting used when ingredients are merged or deleted so that
+ * recipes and shopping lists never point at a missing ingredient.
+ */
+
+import type { Ingredient, Recipe, ShoppingList } from '../types';
+import { convertQuantity } from './units';
+
+export const DEFAULT_CATEGORY = 'Other';
+
+export const INGREDIENT_CATEGORIES = [
+  'Produce',
+  'Meat & Fish',
+  'Dairy & Eggs',
+  'Bakery',
+  'Baking',
+  'Pantry',
+  'Spices & Herbs',
+  'Frozen',
+  'Beverages',
+  DEFAULT_CATEGORY,
+];
+
+export interface IngredientGroup {
+  category: string;
+  ingredients: Ingredient[];
+}
+
+export interface IngredientUsage {
+  recipes: Recipe[];
+  shoppingLists: ShoppingList[];
+}
+
+export interface IngredientMerge {
+  ingredient: Ingredient;
+  /** Recipes and lists left with rows for the ingredient that could not be added up */
+  conflicts: IngredientUsage;
+}
+
+export type IngredientDraft = Omit<Ingredient, 'id'>;
+
+export interface CombinedRows<T> {
+  rows: T[];
+  /** Rows for the ingredient are left in units that do not convert */
+  hasConflict: boolean;
+}
+
+export interface IngredientValidationErrors {
+  name?: string;
+  density?: string;
+  pieceWeight?: string;
+  nutrition?: string;
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+function byName(a: Ingredient, b: Ingredient): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+}
+
+/**
+ * Group ingredients by category, categories and names sorted alphabetically
+ * with the catch-all category last
+ */
+export function groupIngredientsByCategory(ingredients: Ingredient[]): IngredientGroup[] {
+  const groups = new Map<string, Ingredient[]>();
+  for (const ingredient of ingredients) {
+    const category = ingredient.category.trim() || DEFAULT_CATEGORY;
+    groups.set(category, [...(groups.get(category) ?? []), ingredient]);
+  }
+
+  return [...groups.entries()]
+    .map(([category, items]) => ({ category, ingredients: items.sort(byName) }))
+    .sort((a, b) => {
+      if (a.category === DEFAULT_CATEGORY) return 1;
+      if (b.category === DEFAULT_CATEGORY) return -1;
+      return a.category.localeCompare(b.category);
+    });
+}
+
+/**
+ * Case- and accent-insensitive match on the name or any alternative name
+ */
+export function ingredientMatches(ingredient: Ingredient, query: string): boolean {
+  const needle = normalize(query);
+  if (!needle) return true;
+  return [ingredient.name, ...ingredient.alternativeNames].some(name => normalize(name).includes(needle));
+}
+
+/**
+ * Exact (case- and accent-insensitive) lookup by name or alternative name
+ */
+export function findIngredientByName<T extends Pick<Ingredient, 'name' | 'alternativeNames'>>(
+  name: string,
+  ingredients: T[]
+): T | undefined {
+  const needle = normalize(name);
+  if (!needle) return undefined;
+  return ingredients.find(ingredient =>
+    [ingredient.name, ...ingredient.alternativeNames].some(candidate => normalize(candidate) === needle)
+  );
+}
+
+export function findIngredientUsage(
+  ingredientId: string,
+  recipes: Recipe[],
+  shoppingLists: ShoppingList[]
+): IngredientUsage {
+  return {
+    recipes: recipes.filter(recipe => recipe.ingredients.some(row => row.ingredientId === ingredientId)),
+    shoppingLists: shoppingLists.filter(list => list.items.some(item => item.ingredientId === ingredientId)),
+  };
+}
+
+export function validateIngredient(
+  draft: IngredientDraft,
+  existing: Ingredient[],
+  ownId?: string
+): IngredientValidationErrors {
+  const errors: IngredientValidationErrors = {};
+  const name = normalize(draft.name);
+
+  if (!name) {
+    errors.name = 'Name is required';
+  } else if (existing.some(other => other.id !== ownId && normalize(other.name) === name)) {
+    errors.name = 'An ingredient with this name already exists';
+  }
+
+  if (draft.density !== undefined && !(draft.density > 0)) {
+    errors.density = 'Density must be greater than 0';
+  }
+
+  if (draft.pieceWeight !== undefined && !(draft.pieceWeight > 0)) {
+    errors.pieceWeight = 'Piece weight must be greater than 0';
+  }
+
+  if (draft.nutrition && !Object.values(draft.nutrition).every(value => value >= 0)) {
+    errors.nutrition = 'Nutrition values must be numbers of 0 or more';
+  }
+
+  return errors;
+}
+
+export function isIngredientValid(errors: IngredientValidationErrors): boolean {
+  return Object.keys(errors).length === 0;
+}
+
+/**
+ * Trim fields and remove empty or duplicate alternative names, including
+ * any that repeat the main name
+ */
+export function normalizeIngredientDraft(draft: IngredientDraft): IngredientDraft {
+  const name = draft.name.trim();
+  const seen = new Set([normalize(name)]);
+  const alternativeNames: string[] = [];
+
+  for (const alternative of draft.alternativeNames.map(alt => alt.trim())) {
+    const key = normalize(alternative);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    alternativeNames.push(alternative);
+  }
+
+  return {
+    name,
+    category: draft.category.trim() || DEFAULT_CATEGORY,
+    defaultUnit: draft.defaultUnit.trim(),
+    alternativeNames,
+    ...(draft.density !== undefined && { density: draft.density }),
+    ...(draft.pieceWeight !== undefined && { pieceWeight: draft.pieceWeight }),
+    ...(draft.nutrition && { nutrition: draft.nutrition }),
+  };
+}
+
+/**
+ * Fold the merged ingredients' names into the target's alternative names
+ */
+export function mergeIngredientRecords(target: Ingredient, sources: Ingredient[]): Ingredient {
+  const merged = normalizeIngredientDraft({
+    ...target,
+    density: target.density ?? sources.find(source => source.density)?.density,
+    pieceWeight: target.pieceWeight ?? sources.find(source => source.pieceWeight)?.pieceWeight,
+    nutrition: target.nutrition ?? sources.find(source => source.nutrition)?.nutrition,
+    alternativeNames: [
+      ...target.alternativeNames,
+      ...sources.flatMap(source => [source.name, ...source.alternativeNames]),
+    ],
+  });
+  return { ...merged, id: target.id };
+}
+
+/**
+ * Point references to any of `fromIds` at `toId`, or drop them when `toId`
+ * is null. Returns the original array when nothing references `fromIds`.
+ */
+export function replaceIngredientReferences<T extends { ingredientId: string }>(
+  rows: T[],
+  fromIds: ReadonlySet<string>,
+  toId: string | null
+): T[] {
+  if (!rows.some(row => fromIds.has(row.ingredientId))) return rows;
+
+  return rows.flatMap(row => {
+    if (!fromIds.has(row.ingredientId)) return [row];
+    return toId === null ? [] : [{ ...row, ingredientId: toId }];
+  });
+}
+
+/**
+ * Add up the rows for `ingredientId` once references have been rewritten:
+ * amounts go to the first row in a unit they convert to. Rows `canCombine`
+ * keeps apart are left alone; rows in units that do not convert are kept
+ * and reported through `hasConflict`.
+ */
+export function combineIngredientRows<T extends { ingredientId: string; quantity: number; unit: string }>(
+  rows: T[],
+  ingredientId: string,
+  density?: number,
+  canCombine: (a: T, b: T) => boolean = () => true
+): CombinedRows<T> {
+  const combined: T[] = [];
+  for (const row of rows) {
+    const targetIndex = row.ingredientId === ingredientId
+      ? combined.findIndex(other =>
+          other.ingredientId === ingredientId &&
+          canCombine(other, row) &&
+          convertQuantity(1, row.unit, other.unit, density) !== null
+        )
+      : -1;
+
+    if (targetIndex < 0) {
+      combined.push(row);
+      continue;
+    }
+    const target = combined[targetIndex];
+    const quantity = target.quantity + convertQuantity(row.quantity, row.unit, target.unit, density)!;
+    combined[targetIndex] = { ...target, quantity: Math.round(quantity * 100) / 100 };
+  }
+
+  const remaining = combined.filter(row => row.ingredientId === ingredientId);
+  const hasConflict = remaining.some((row, index) =>
+    remaining.slice(index + 1).some(other => canCombine(row, other))
+  );
+  return { rows: combined.length === rows.length ? rows : combined, hasConflict };
+}
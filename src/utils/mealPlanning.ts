@@ -0,0 +1,131 @@
+/**
+ * Meal planning helpers
+ *
+ * Plans store their day as a YYYY-MM-DD string so a meal stays on the same
+ * calendar day whatever the time zone. Keys compare correctly as strings,
+ * which the range helpers rely on. Weeks start on Monday.
+ */
+
+import type { MealPlan, MealSlot, Recipe, ShoppingList } from '../types';
+import {
+  generateShoppingList,
+  type GenerateShoppingListOptions,
+  type RecipeSelection,
+} from './shoppingListGenerator';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+export type MealPlanFields = Pick<MealPlan, 'date' | 'slot' | 'recipeId' | 'servings'>;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local calendar day of a date, e.g. "2024-02-05"
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local midnight of a day key
+ */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+export function addMonths(key: string, months: number): string {
+  const date = parseDateKey(key);
+  return toDateKey(new Date(date.getFullYear(), date.getMonth() + months, 1));
+}
+
+export function startOfWeek(key: string): string {
+  // getDay() is 0 for Sunday
+  return addDays(key, -((parseDateKey(key).getDay() + 6) % 7));
+}
+
+export function getWeekDays(key: string): string[] {
+  const monday = startOfWeek(key);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+}
+
+/**
+ * Whole weeks covering the month of `key`, padded with days of the
+ * neighbouring months
+ */
+export function getMonthWeeks(key: string): string[][] {
+  const first = `${key.slice(0, 7)}-01`;
+  const last = addDays(addMonths(first, 1), -1);
+  const weeks: string[][] = [];
+  for (let monday = startOfWeek(first); monday <= last; monday = addDays(monday, 7)) {
+    weeks.push(getWeekDays(monday));
+  }
+  return weeks;
+}
+
+/**
+ * Planned meals between two days, both included, in calendar order
+ */
+export function getMealsInRange(plans: MealPlan[], from: string, to: string): MealPlan[] {
+  return plans
+    .filter(plan => plan.date >= from && plan.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date) || MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot));
+}
+
+export function countUpcomingMeals(plans: MealPlan[], today: string): number {
+  return plans.filter(plan => plan.date >= today).length;
+}
+
+export function createMealPlan(fields: MealPlanFields, now = new Date()): MealPlan {
+  return { id: crypto.randomUUID(), ...fields, createdAt: now, updatedAt: now };
+}
+
+/**
+ * "5 Feb – 11 Feb", or a single day when both ends match
+ */
+export function formatDateRange(from: string, to: string): string {
+  const format = (key: string) => parseDateKey(key).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+  return from === to ? format(from) : `${format(from)} – ${format(to)}`;
+}
+
+/**
+ * One selection per planned meal, at its planned servings. Meals whose
+ * recipe has since been deleted are skipped.
+ */
+export function getPlanSelections(plans: MealPlan[], recipes: Recipe[]): RecipeSelection[] {
+  const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+  return plans.flatMap(plan => {
+    const recipe = recipesById.get(plan.recipeId);
+    return recipe ? [{ recipe, servings: plan.servings }] : [];
+  });
+}
+
+/**
+ * Shopping list for every meal planned between two days
+ */
+export function generatePlanShoppingList(
+  plans: MealPlan[],
+  recipes: Recipe[],
+  from: string,
+  to: string,
+  options: GenerateShoppingListOptions = {}
+): ShoppingList {
+  const selections = getPlanSelections(getMealsInRange(plans, from, to), recipes);
+  return generateShoppingList(selections, {
+    ...options,
+    name: options.name?.trim() || `Meals ${formatDateRange(from, to)}`,
+  });
+}
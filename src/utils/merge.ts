@@ -0,0 +1,180 @@
+/**
+ * Three-way merge of two versions of an entity
+ *
+ * Both versions are compared with the one they started from, field by field:
+ * a field changed on one side only takes that side's value, and a field
+ * changed on both sides to different values is a conflict. Shopping list
+ * items and recipe ingredients are merged item by item, so ticking off
+ * different items of a list on two devices never collides.
+ */
+
+import type { FieldConflict, StorableEntity } from '../types';
+
+export interface MergeResult<T> {
+  /** Both versions combined, with the local value for every conflicting field */
+  merged: T;
+  conflicts: FieldConflict[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+type Entry = Record<string, unknown>;
+
+// List fields whose elements are matched by ingredient rather than position
+const KEYED_LIST_FIELDS = new Set(['items', 'ingredients']);
+
+function isRecord(value: unknown): value is Entry {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Deep equality for stored entities; missing and undefined fields are equal
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Key list elements by ingredient (or name, for items added by hand);
+ * repeats of the same ingredient are told apart by their position
+ */
+export function keyElements<E extends object>(elements: E[]): Map<string, E> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, E>();
+  for (const element of elements) {
+    const { ingredientId, name } = element as Entry;
+    const identity = ingredientId ? String(ingredientId) : `name:${String(name ?? '').toLowerCase()}`;
+    const occurrence = seen.get(identity) ?? 0;
+    seen.set(identity, occurrence + 1);
+    keyed.set(occurrence === 0 ? identity : `${identity}#${occurrence}`, element);
+  }
+  return keyed;
+}
+
+function isKeyedList(value: unknown): value is Entry[] {
+  return value === undefined || (Array.isArray(value) && value.every(isRecord));
+}
+
+function mergeValue(base: unknown, local: unknown, remote: unknown): { value: unknown; conflict: boolean } {
+  if (isEqual(local, remote) || isEqual(remote, base)) return { value: local, conflict: false };
+  if (isEqual(local, base)) return { value: remote, conflict: false };
+  return { value: local, conflict: true };
+}
+
+function mergeFields(base: Entry, local: Entry, remote: Entry): { merged: Entry; conflicts: string[] } {
+  const merged: Entry = {};
+  const conflicts: string[] = [];
+  for (const field of new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)])) {
+    const { value, conflict } = mergeValue(base[field], local[field], remote[field]);
+    if (conflict) conflicts.push(field);
+    if (value !== undefined) merged[field] = value;
+  }
+  return { merged, conflicts };
+}
+
+function mergeKeyedList(field: string, base: Entry[], local: Entry[], remote: Entry[]): MergeResult<Entry[]> {
+  const baseElements = keyElements(base);
+  const localElements = keyElements(local);
+  const remoteElements = keyElements(remote);
+
+  // Local order first, then elements only added on the other device
+  const keys = [...localElements.keys(), ...[...remoteElements.keys()].filter(key => !localElements.has(key))];
+  const merged: Entry[] = [];
+  const conflicts: FieldConflict[] = [];
+
+  for (const key of keys) {
+    const [b, l, r] = [baseElements.get(key), localElements.get(key), remoteElements.get(key)];
+    let value: unknown;
+    let conflict: boolean;
+    if (b && l && r) {
+      // Both sides kept the element: merge its fields
+      const result = mergeFields(b, l, r);
+      value = result.conflicts.length > 0 ? l : result.merged;
+      conflict = result.conflicts.length > 0;
+    } else {
+      ({ value, conflict } = mergeValue(b, l, r));
+    }
+    if (conflict) conflicts.push({ field, key, local: l, remote: r });
+    if (value !== undefined) merged.push(value as Entry);
+  }
+
+  return { merged, conflicts };
+}
+
+function latest(a: unknown, b: unknown): unknown {
+  if (a instanceof Date && b instanceof Date) return a.getTime() >= b.getTime() ? a : b;
+  return a ?? b;
+}
+
+/**
+ * Merge the local and remote versions of an entity changed since `base`
+ */
+export function mergeEntity<T extends StorableEntity>(base: T, local: T, remote: T): MergeResult<T> {
+  const [b, l, r] = [base, local, remote] as unknown as Entry[];
+  const merged: Entry = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of new Set([...Object.keys(b), ...Object.keys(l), ...Object.keys(r)])) {
+    let value: unknown;
+    if (field === 'revision') {
+      value = r.revision;
+    } else if (field === 'updatedAt') {
+      value = latest(l.updatedAt, r.updatedAt);
+    } else if (KEYED_LIST_FIELDS.has(field) && isKeyedList(b[field]) && isKeyedList(l[field]) && isKeyedList(r[field])) {
+      const result = mergeKeyedList(field, b[field] ?? [], l[field] ?? [], r[field] ?? []);
+      value = result.merged;
+      conflicts.push(...result.conflicts);
+    } else {
+      const result = mergeValue(b[field], l[field], r[field]);
+      value = result.value;
+      if (result.conflict) conflicts.push({ field, local: l[field], remote: r[field] });
+    }
+    if (value !== undefined) merged[field] = value;
+  }
+
+  return { merged: merged as unknown as T, conflicts };
+}
+
+/**
+ * Apply the user's pick for each conflict, in the order of `conflicts`, to
+ * a merge result. Missing choices keep the local value.
+ */
+export function resolveConflicts<T extends StorableEntity>(
+  merged: T,
+  conflicts: FieldConflict[],
+  choices: ConflictChoice[]
+): T {
+  const resolved: Entry = { ...(merged as unknown as Entry) };
+
+  conflicts.forEach((conflict, index) => {
+    if (choices[index] !== 'remote') return;
+
+    if (conflict.key === undefined) {
+      if (conflict.remote === undefined) {
+        delete resolved[conflict.field];
+      } else {
+        resolved[conflict.field] = conflict.remote;
+      }
+      return;
+    }
+
+    const elements = keyElements((resolved[conflict.field] as Entry[] | undefined) ?? []);
+    if (conflict.remote === undefined) {
+      elements.delete(conflict.key);
+    } else {
+      elements.set(conflict.key, conflict.remote as Entry);
+    }
+    resolved[conflict.field] = [...elements.values()];
+  });
+
+  return resolved as unknown as T;
+}
@@ -0,0 +1,122 @@
+/**
+ * Nutrition calculation
+ *
+ * Converts every recipe row to grams, through the ingredient's density for
+ * volumes and its piece weight for counted units, and adds up the
+ * ingredient's per-100 g profile. Rows that cannot be counted are reported
+ * rather than silently left out, so the totals can be read as a lower bound.
+ */
+
+import type { Ingredient, NutritionProfile, Recipe, RecipeIngredient } from '../types';
+import { findIngredientByName } from './ingredientRegistry';
+import { NUTRITION_REFERENCES, type NutritionReference } from './nutritionData';
+import { toBaseUnit } from './units';
+
+export type Nutrient = keyof NutritionProfile;
+
+export const NUTRIENTS: { key: Nutrient; label: string; unit: string }[] = [
+  { key: 'kcal', label: 'Energy', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'carbs', label: 'Carbohydrates', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+export type NutritionGapReason = 'unknown_ingredient' | 'no_profile' | 'no_weight';
+
+export interface NutritionGap {
+  /** Position of the row in Recipe.ingredients */
+  index: number;
+  name: string;
+  reason: NutritionGapReason;
+}
+
+export interface RecipeNutrition {
+  total: NutritionProfile;
+  perServing: NutritionProfile;
+  /** Rows left out of the totals */
+  gaps: NutritionGap[];
+}
+
+export const NUTRITION_GAP_LABELS: Record<NutritionGapReason, string> = {
+  unknown_ingredient: 'not in the ingredient registry',
+  no_profile: 'no nutrition data',
+  no_weight: 'amount cannot be converted to grams',
+};
+
+export function emptyNutrition(): NutritionProfile {
+  return { kcal: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sodium: 0 };
+}
+
+/**
+ * Weight of a recipe row in grams, or null when its unit cannot be converted.
+ * A row without a unit ("3 eggs") is a count of pieces.
+ */
+export function getRowWeight(row: RecipeIngredient, ingredient: Ingredient): number | null {
+  const base = toBaseUnit(row.quantity, row.unit.trim() || 'piece', ingredient.density);
+  if (base.unit === 'g') return base.quantity;
+  if ((base.unit === 'piece' || base.unit === 'clove') && ingredient.pieceWeight) {
+    return base.quantity * ingredient.pieceWeight;
+  }
+  return null;
+}
+
+export function calculateNutrition(recipe: Recipe, ingredientsById: Map<string, Ingredient>): RecipeNutrition {
+  const total = emptyNutrition();
+  const gaps: NutritionGap[] = [];
+
+  recipe.ingredients.forEach((row, index) => {
+    const ingredient = ingredientsById.get(row.ingredientId);
+    if (!ingredient) {
+      gaps.push({ index, name: row.notes || 'Unknown ingredient', reason: 'unknown_ingredient' });
+      return;
+    }
+    if (!ingredient.nutrition) {
+      gaps.push({ index, name: ingredient.name, reason: 'no_profile' });
+      return;
+    }
+    const grams = getRowWeight(row, ingredient);
+    if (grams === null) {
+      gaps.push({ index, name: ingredient.name, reason: 'no_weight' });
+      return;
+    }
+    for (const { key } of NUTRIENTS) {
+      total[key] += (ingredient.nutrition[key] * grams) / 100;
+    }
+  });
+
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const perServing = emptyNutrition();
+  for (const { key } of NUTRIENTS) {
+    perServing[key] = total[key] / servings;
+  }
+
+  return { total, perServing, gaps };
+}
+
+/**
+ * Whole numbers for energy and sodium, one decimal below 10 g otherwise
+ */
+export function formatNutrient(value: number, nutrient: Nutrient): string {
+  const unit = NUTRIENTS.find(({ key }) => key === nutrient)!.unit;
+  const rounded = nutrient === 'kcal' || nutrient === 'sodium' || value >= 10
+    ? Math.round(value)
+    : Math.round(value * 10) / 10;
+  return `${rounded} ${unit}`;
+}
+
+/**
+ * Built-in reference values for an ingredient whose name or an alternative
+ * name is exactly one of the reference names. Partial matches are not
+ * attempted: "chicken stock" is not chicken.
+ */
+export function findNutritionReference(
+  ingredient: Pick<Ingredient, 'name' | 'alternativeNames'>
+): NutritionReference | undefined {
+  for (const name of [ingredient.name, ...ingredient.alternativeNames]) {
+    const match = findIngredientByName(name, NUTRITION_REFERENCES);
+    if (match) return match;
+  }
+  return undefined;
+}
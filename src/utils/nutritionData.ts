@@ -0,0 +1,105 @@
+/**
+ * Built-in nutrition reference values
+ *
+ * A small offline subset of common ingredients, rounded from USDA
+ * FoodData Central (SR Legacy) entries, so a profile can be filled in without
+ * any network request. Values are per 100 g of the raw ingredient as bought.
+ * Names are English and French, matched like registry names.
+ */
+
+import type { NutritionProfile } from '../types';
+
+export interface NutritionReference {
+  name: string;
+  alternativeNames: string[];
+  nutrition: NutritionProfile;
+  /** In g/ml */
+  density?: number;
+  /** In g */
+  pieceWeight?: number;
+}
+
+type Values = [kcal: number, protein: number, fat: number, carbs: number, fiber: number, sodium: number];
+
+function entry(
+  names: string[],
+  [kcal, protein, fat, carbs, fiber, sodium]: Values,
+  extra: Pick<NutritionReference, 'density' | 'pieceWeight'> = {}
+): NutritionReference {
+  const [name, ...alternativeNames] = names;
+  return { name, alternativeNames, nutrition: { kcal, protein, fat, carbs, fiber, sodium }, ...extra };
+}
+
+export const NUTRITION_REFERENCES: NutritionReference[] = [
+  // Baking
+  entry(['Flour', 'all-purpose flour', 'wheat flour', 'farine', 'farine de blé'], [364, 10.3, 1, 76.3, 2.7, 2], { density: 0.53 }),
+  entry(['Sugar', 'caster sugar', 'granulated sugar', 'sucre', 'sucre en poudre'], [387, 0, 0, 100, 0, 1], { density: 0.85 }),
+  entry(['Brown sugar', 'cassonade', 'sucre roux'], [380, 0.1, 0, 98.1, 0, 28], { density: 0.93 }),
+  entry(['Honey', 'miel'], [304, 0.3, 0, 82.4, 0.2, 4], { density: 1.42 }),
+  entry(['Cornstarch', 'corn starch', 'fécule de maïs', 'maïzena'], [381, 0.3, 0.1, 91.3, 0.9, 9], { density: 0.54 }),
+  entry(['Baking powder', 'levure chimique'], [53, 0, 0, 27.7, 0.2, 10600], { density: 0.9 }),
+  entry(['Dry yeast', 'yeast', 'levure de boulanger'], [325, 40.4, 7.6, 41.2, 26.9, 51]),
+  entry(['Cocoa powder', 'cocoa', 'cacao', 'cacao en poudre'], [228, 19.6, 13.7, 57.9, 37, 21], { density: 0.42 }),
+  entry(['Dark chocolate', 'chocolat noir'], [598, 7.8, 42.6, 45.9, 10.9, 20]),
+  entry(['Vanilla extract', 'extrait de vanille'], [288, 0.1, 0.1, 12.7, 0, 9], { density: 0.88 }),
+  entry(['Oats', 'rolled oats', "flocons d'avoine"], [389, 16.9, 6.9, 66.3, 10.6, 2], { density: 0.41 }),
+  entry(['Almonds', 'amandes'], [579, 21.2, 49.9, 21.6, 12.5, 1]),
+  entry(['Walnuts', 'noix'], [654, 15.2, 65.2, 13.7, 6.7, 2]),
+
+  // Dairy and eggs
+  entry(['Egg', 'eggs', 'oeuf', 'œuf'], [143, 12.6, 9.5, 0.7, 0, 142], { pieceWeight: 50 }),
+  entry(['Butter', 'beurre'], [717, 0.9, 81.1, 0.1, 0, 11], { density: 0.96 }),
+  entry(['Milk', 'whole milk', 'lait', 'lait entier'], [61, 3.2, 3.3, 4.8, 0, 43], { density: 1.03 }),
+  entry(['Heavy cream', 'cream', 'crème liquide', 'crème entière'], [340, 2.8, 36, 2.7, 0, 27], { density: 1 }),
+  entry(['Crème fraîche', 'sour cream'], [292, 2.4, 30, 2.8, 0, 40], { density: 1 }),
+  entry(['Yogurt', 'plain yogurt', 'yoghurt', 'yaourt'], [61, 3.5, 3.3, 4.7, 0, 46], { density: 1.03 }),
+  entry(['Parmesan', 'parmigiano'], [392, 35.8, 25.8, 3.2, 0, 1376]),
+  entry(['Cheddar'], [403, 24.9, 33.1, 1.3, 0, 621]),
+  entry(['Gruyère', 'emmental', 'comté', 'swiss cheese'], [413, 29.8, 32.3, 0.4, 0, 336]),
+  entry(['Mozzarella'], [300, 22.2, 22.4, 2.2, 0, 627]),
+
+  // Oils, condiments and seasoning
+  entry(['Olive oil', "huile d'olive"], [884, 0, 100, 0, 0, 2], { density: 0.91 }),
+  entry(['Vegetable oil', 'sunflower oil', 'oil', 'huile', 'huile de tournesol'], [884, 0, 100, 0, 0, 0], { density: 0.92 }),
+  entry(['Salt', 'sea salt', 'sel', 'fleur de sel'], [0, 0, 0, 0, 0, 38758], { density: 1.2 }),
+  entry(['Black pepper', 'pepper', 'poivre', 'poivre noir'], [251, 10.4, 3.3, 64, 25.3, 20], { density: 0.5 }),
+  entry(['Soy sauce', 'sauce soja'], [53, 8.1, 0.6, 4.9, 0.8, 5493], { density: 1.15 }),
+  entry(['Vinegar', 'vinaigre'], [18, 0, 0, 0, 0, 2], { density: 1.01 }),
+  entry(['Tomato paste', 'concentré de tomate'], [82, 4.3, 0.5, 18.9, 4.1, 59], { density: 1.1 }),
+  entry(['Canned tomatoes', 'crushed tomatoes', 'tomates concassées', 'tomates pelées'], [32, 1.6, 0.3, 7.3, 1.9, 132], { density: 1.03 }),
+  entry(['Coconut milk', 'lait de coco'], [230, 2.3, 23.8, 5.5, 2.2, 15], { density: 0.98 }),
+  entry(['Water', 'eau'], [0, 0, 0, 0, 0, 4], { density: 1 }),
+
+  // Grains and legumes
+  entry(['Rice', 'white rice', 'riz'], [365, 7.1, 0.7, 80, 1.3, 5], { density: 0.85 }),
+  entry(['Pasta', 'spaghetti', 'penne', 'pâtes'], [371, 13, 1.5, 74.7, 3.2, 6]),
+  entry(['Bread', 'baguette', 'pain'], [265, 9, 3.2, 49, 2.7, 491]),
+  entry(['Lentils', 'lentilles'], [352, 24.6, 1.1, 63.4, 10.7, 6], { density: 0.8 }),
+  entry(['Chickpeas', 'pois chiches'], [378, 20.5, 6, 63, 12.2, 24], { density: 0.8 }),
+
+  // Produce
+  entry(['Onion', 'oignon'], [40, 1.1, 0.1, 9.3, 1.7, 4], { pieceWeight: 110 }),
+  entry(['Shallot', 'échalote'], [72, 2.5, 0.1, 16.8, 3.2, 12], { pieceWeight: 30 }),
+  entry(['Garlic', 'ail'], [149, 6.4, 0.5, 33.1, 2.1, 17], { pieceWeight: 5 }),
+  entry(['Leek', 'poireau'], [61, 1.5, 0.3, 14.2, 1.8, 20], { pieceWeight: 150 }),
+  entry(['Carrot', 'carotte'], [41, 0.9, 0.2, 9.6, 2.8, 69], { pieceWeight: 60 }),
+  entry(['Potato', 'pomme de terre', 'pommes de terre'], [77, 2, 0.1, 17.5, 2.2, 6], { pieceWeight: 170 }),
+  entry(['Tomato', 'tomate'], [18, 0.9, 0.2, 3.9, 1.2, 5], { pieceWeight: 120 }),
+  entry(['Zucchini', 'courgette'], [17, 1.2, 0.3, 3.1, 1, 8], { pieceWeight: 200 }),
+  entry(['Eggplant', 'aubergine'], [25, 1, 0.2, 5.9, 3, 2], { pieceWeight: 300 }),
+  entry(['Bell pepper', 'poivron'], [31, 1, 0.3, 6, 2.1, 4], { pieceWeight: 150 }),
+  entry(['Cucumber', 'concombre'], [15, 0.7, 0.1, 3.6, 0.5, 2], { pieceWeight: 300 }),
+  entry(['Mushrooms', 'mushroom', 'champignons', 'champignons de Paris'], [22, 3.1, 0.3, 3.3, 1, 5]),
+  entry(['Spinach', 'épinards'], [23, 2.9, 0.4, 3.6, 2.2, 79]),
+  entry(['Broccoli', 'brocoli'], [34, 2.8, 0.4, 6.6, 2.6, 33]),
+  entry(['Lemon', 'citron'], [29, 1.1, 0.3, 9.3, 2.8, 2], { pieceWeight: 100 }),
+  entry(['Lemon juice', 'jus de citron'], [22, 0.4, 0.2, 6.9, 0.3, 1], { density: 1.03 }),
+  entry(['Apple', 'pomme'], [52, 0.3, 0.2, 13.8, 2.4, 1], { pieceWeight: 180 }),
+  entry(['Banana', 'banane'], [89, 1.1, 0.3, 22.8, 2.6, 1], { pieceWeight: 120 }),
+
+  // Meat and fish
+  entry(['Chicken breast', 'chicken', 'blanc de poulet', 'poulet'], [120, 22.5, 2.6, 0, 0, 45]),
+  entry(['Ground beef', 'minced beef', 'bœuf haché', 'boeuf haché', 'viande hachée'], [215, 18.6, 15, 0, 0, 66]),
+  entry(['Bacon', 'lardons'], [417, 12.6, 40, 1.3, 0, 833]),
+  entry(['Salmon', 'saumon'], [208, 20.4, 13.4, 0, 0, 59]),
+];
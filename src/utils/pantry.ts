@@ -0,0 +1,93 @@
+/**
+ * Pantry helpers
+ *
+ * Stock is kept per ingredient, in the unit it was entered or bought in.
+ * Expiry dates are YYYY-MM-DD day keys, like meal plan dates, so they can
+ * be compared as strings.
+ */
+
+import type { Ingredient, PantryItem, ShoppingListItem } from '../types';
+import { convertQuantity } from './units';
+import { addDays } from './mealPlanning';
+
+export type PantryItemFields = Pick<PantryItem, 'ingredientId' | 'quantity' | 'unit' | 'expiresOn'>;
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'fresh';
+
+/** Days ahead of expiry from which stock is flagged */
+export const EXPIRY_WARNING_DAYS = 3;
+
+export function createPantryItem(fields: PantryItemFields, now = new Date()): PantryItem {
+  return { id: crypto.randomUUID(), ...fields, createdAt: now, updatedAt: now };
+}
+
+export function getExpiryStatus(item: PantryItem, today: string): ExpiryStatus {
+  if (!item.expiresOn) return 'fresh';
+  if (item.expiresOn < today) return 'expired';
+  return item.expiresOn <= addDays(today, EXPIRY_WARNING_DAYS) ? 'expiring' : 'fresh';
+}
+
+/**
+ * Stock that can still be used, i.e. everything not past its expiry date
+ */
+export function getUsableStock(pantry: PantryItem[], today: string): PantryItem[] {
+  return pantry.filter(item => getExpiryStatus(item, today) !== 'expired');
+}
+
+/**
+ * Expired and soon to expire stock, soonest first
+ */
+export function getExpiringItems(pantry: PantryItem[], today: string): PantryItem[] {
+  return pantry
+    .filter(item => getExpiryStatus(item, today) !== 'fresh')
+    .sort((a, b) => a.expiresOn!.localeCompare(b.expiresOn!));
+}
+
+export interface PantryRestock {
+  /** Existing entries with the purchase added */
+  updated: PantryItem[];
+  /** New entries for ingredients not in stock in a compatible unit */
+  created: PantryItem[];
+}
+
+/**
+ * Stock changes for the purchased items of a shopping list. Purchases are
+ * added to an entry without an expiry date when the units convert, since
+ * their own expiry is unknown; otherwise they get an entry of their own.
+ * Items without a registry ingredient are skipped.
+ */
+export function addPurchasesToPantry(
+  pantry: PantryItem[],
+  items: ShoppingListItem[],
+  ingredients: Ingredient[] = [],
+  now = new Date()
+): PantryRestock {
+  const densities = new Map(ingredients.map(ingredient => [ingredient.id, ingredient.density]));
+  const updated = new Map<string, PantryItem>();
+  const created: PantryItem[] = [];
+
+  for (const item of items) {
+    if (!item.purchased || !item.ingredientId || item.quantity <= 0) continue;
+
+    const density = densities.get(item.ingredientId);
+    const candidates = [...pantry.map(stock => updated.get(stock.id) ?? stock), ...created];
+    const target = candidates.find(stock =>
+      stock.ingredientId === item.ingredientId &&
+      !stock.expiresOn &&
+      convertQuantity(1, item.unit, stock.unit, density) !== null
+    );
+
+    if (!target) {
+      created.push(createPantryItem({ ingredientId: item.ingredientId, quantity: item.quantity, unit: item.unit }, now));
+      continue;
+    }
+
+    const quantity = target.quantity + convertQuantity(item.quantity, item.unit, target.unit, density)!;
+    const next = { ...target, quantity: Math.round(quantity * 100) / 100, updatedAt: now };
+    const createdIndex = created.indexOf(target);
+    if (createdIndex >= 0) created[createdIndex] = next;
+    else updated.set(next.id, next);
+  }
+
+  return { updated: [...updated.values()], created };
+}
@@ -0,0 +1,50 @@
+/**
+ * Recipe display helpers
+ *
+ * Shared by the recipe view, the printable cook card and the PDF export so
+ * amounts read the same everywhere.
+ */
+
+import type { Ingredient, Recipe } from '../types';
+import { roundForKitchen } from './recipeScaling';
+import { convertToPreference, formatNumber, formatQuantity, type UnitPreference } from './units';
+
+export interface DisplayIngredient {
+  key: string;
+  /** Amount with its unit, e.g. "1½ cup" */
+  amount: string;
+  name: string;
+  notes?: string;
+}
+
+/**
+ * Ingredient rows as they should be shown: in the preferred units and
+ * rounded to measurable amounts
+ */
+export function getDisplayIngredients(
+  recipe: Recipe,
+  ingredientsById: Map<string, Ingredient>,
+  preference: UnitPreference
+): DisplayIngredient[] {
+  return recipe.ingredients.map((row, index) => {
+    const display = convertToPreference(row.quantity, row.unit, preference);
+    return {
+      key: `${row.ingredientId}-${index}`,
+      amount: formatQuantity(roundForKitchen(display.quantity, display.unit), display.unit),
+      name: ingredientsById.get(row.ingredientId)?.name ?? 'Unknown ingredient',
+      notes: row.notes,
+    };
+  });
+}
+
+/**
+ * One-line summary such as "4 servings · 15 min prep · 30 min cooking"
+ */
+export function getRecipeSummary(recipe: Recipe): string {
+  return [
+    `${formatNumber(recipe.servings, true)} servings`,
+    recipe.prepTime ? `${recipe.prepTime} min prep` : '',
+    recipe.cookTime ? `${recipe.cookTime} min cooking` : '',
+    recipe.difficulty,
+  ].filter(Boolean).join(' · ');
+}
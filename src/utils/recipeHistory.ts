@@ -0,0 +1,136 @@
+/**
+ * Recipe history helpers
+ *
+ * Compares two saved versions of a recipe field by field, with ingredients
+ * matched by ingredient (like the sync merge) and steps matched by text, so
+ * inserting a step shows up as one added step rather than every later step
+ * changing. Photos are not versioned: the old file is deleted when a photo
+ * is replaced, so they are left out of diffs and restores.
+ */
+
+import type { Recipe, RecipeIngredient } from '../types';
+import { isEqual, keyElements } from './merge';
+
+/** Recipe fields compared one to one */
+export type DiffedField = 'title' | 'description' | 'prepTime' | 'cookTime' | 'servings' | 'difficulty' | 'tags' | 'imageUrl';
+
+const DIFFED_FIELDS: DiffedField[] = ['title', 'description', 'prepTime', 'cookTime', 'servings', 'difficulty', 'tags', 'imageUrl'];
+
+export interface FieldChange {
+  field: DiffedField;
+  before: unknown;
+  after: unknown;
+}
+
+export type ListChange<T> =
+  | { type: 'added'; after: T }
+  | { type: 'removed'; before: T }
+  | { type: 'changed'; before: T; after: T };
+
+/** A step change, with its 1-based number in the version it appears in (the later one, unless removed) */
+export type StepChange = ListChange<string> & { step: number };
+
+export interface RecipeDiff {
+  fields: FieldChange[];
+  ingredients: ListChange<RecipeIngredient>[];
+  instructions: StepChange[];
+}
+
+function diffIngredients(before: RecipeIngredient[], after: RecipeIngredient[]): ListChange<RecipeIngredient>[] {
+  const beforeByKey = keyElements(before);
+  const afterByKey = keyElements(after);
+  const changes: ListChange<RecipeIngredient>[] = [];
+
+  for (const [key, ingredient] of beforeByKey) {
+    const next = afterByKey.get(key);
+    if (!next) {
+      changes.push({ type: 'removed', before: ingredient });
+    } else if (!isEqual(ingredient, next)) {
+      changes.push({ type: 'changed', before: ingredient, after: next });
+    }
+  }
+  for (const [key, ingredient] of afterByKey) {
+    if (!beforeByKey.has(key)) changes.push({ type: 'added', after: ingredient });
+  }
+  return changes;
+}
+
+/**
+ * Line diff of the steps via their longest common subsequence; a run of
+ * removed steps directly followed by added ones is reported as changes
+ */
+function diffSteps(before: string[], after: string[]): StepChange[] {
+  // lengths[i][j]: longest common subsequence of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: StepChange[] = [];
+  let removed: { step: number; text: string }[] = [];
+  let added: { step: number; text: string }[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({ type: 'changed', before: removed[k].text, after: added[k].text, step: added[k].step });
+    }
+    removed.slice(paired).forEach(({ step, text }) => changes.push({ type: 'removed', before: text, step }));
+    added.slice(paired).forEach(({ step, text }) => changes.push({ type: 'added', after: text, step }));
+    removed = [];
+    added = [];
+  };
+
+  let [i, j] = [0, 0];
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      added.push({ step: j + 1, text: after[j] });
+      j++;
+    } else {
+      removed.push({ step: i + 1, text: before[i] });
+      i++;
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+/**
+ * What changed from `before` to `after`
+ */
+export function diffRecipes(before: Recipe, after: Recipe): RecipeDiff {
+  return {
+    fields: DIFFED_FIELDS
+      .filter(field => !isEqual(before[field], after[field]))
+      .map(field => ({ field, before: before[field], after: after[field] })),
+    ingredients: diffIngredients(before.ingredients, after.ingredients),
+    instructions: diffSteps(before.instructions, after.instructions),
+  };
+}
+
+export function isEmptyDiff(diff: RecipeDiff): boolean {
+  return diff.fields.length === 0 && diff.ingredients.length === 0 && diff.instructions.length === 0;
+}
+
+/**
+ * The current recipe with the content of an earlier version, ready to be
+ * saved as a new version. Identity, creation date, sync revision and photo
+ * stay those of the current recipe.
+ */
+export function restoreRecipeVersion(current: Recipe, version: Recipe): Recipe {
+  return {
+    ...version,
+    id: current.id,
+    image: current.image,
+    createdAt: current.createdAt,
+    revision: current.revision,
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Recipe import from web pages
+ *
+ * Most recipe sites describe their recipes with schema.org `Recipe` data,
+ * either as JSON-LD in a script tag or as microdata attributes on the page.
+ * This module pulls that data out of a page's HTML and maps it onto our
+ * recipe fields, parsing ingredient lines and matching them against the
+ * ingredient registry.
+ */
+
+import type { Ingredient } from '../types';
+import type { RecipeDraft } from './recipeValidation';
+import { parseRecipeIngredient, toRecipeIngredient, type ParsedIngredientLine } from './ingredientParser';
+
+/** The subset of schema.org/Recipe we read, as found on pages */
+export interface SchemaRecipe {
+  name?: unknown;
+  description?: unknown;
+  image?: unknown;
+  recipeIngredient?: unknown;
+  /** Older name for recipeIngredient */
+  ingredients?: unknown;
+  recipeInstructions?: unknown;
+  prepTime?: unknown;
+  cookTime?: unknown;
+  totalTime?: unknown;
+  recipeYield?: unknown;
+  keywords?: unknown;
+  recipeCategory?: unknown;
+  recipeCuisine?: unknown;
+}
+
+export interface ImportedIngredient extends ParsedIngredientLine {
+  /** Registry entry the name matched, if any */
+  ingredientId?: string;
+}
+
+export interface ImportedRecipe {
+  title: string;
+  description: string;
+  imageUrl?: string;
+  prepTime: number;
+  cookTime: number;
+  servings?: number;
+  tags: string[];
+  ingredients: ImportedIngredient[];
+  instructions: string[];
+}
+
+/**
+ * Error raised when a page has no usable recipe data
+ */
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeImportError';
+  }
+}
+
+/**
+ * Parse an ISO 8601 duration ("PT1H30M", "P0DT45M") into whole minutes.
+ * Returns undefined when the value is not a duration.
+ */
+export function parseIsoDuration(value: string): number | undefined {
+  const match = value.trim().match(
+    /^P(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i
+  );
+  if (!match || value.trim().length <= 2) return undefined;
+
+  const [days, hours, minutes, seconds] = match.slice(1).map(part => Number((part ?? '0').replace(',', '.')));
+  return Math.round(days * 24 * 60 + hours * 60 + minutes + seconds / 60);
+}
+
+function decodeHtml(text: string): string {
+  const document = new DOMParser().parseFromString(text, 'text/html');
+  return (document.body.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function asText(value: unknown): string {
+  if (typeof value === 'string') return decodeHtml(value);
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.length > 0 ? asText(value[0]) : '';
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return asText(record.text ?? record.name ?? record['@value'] ?? '');
+  }
+  return '';
+}
+
+function asTextList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return values.map(asText).filter(Boolean);
+}
+
+function isRecipeType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(entry => typeof entry === 'string' && /(^|[/:])Recipe$/.test(entry));
+}
+
+/**
+ * Find a Recipe node in parsed JSON-LD, looking through arrays and @graph
+ */
+function findRecipeNode(node: unknown): SchemaRecipe | null {
+  if (Array.isArray(node)) {
+    for (const entry of node) {
+      const found = findRecipeNode(entry);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!node || typeof node !== 'object') return null;
+
+  const record = node as Record<string, unknown>;
+  if (isRecipeType(record['@type'])) return record as SchemaRecipe;
+  if (record['@graph']) return findRecipeNode(record['@graph']);
+  if (record.mainEntity) return findRecipeNode(record.mainEntity);
+  return null;
+}
+
+function extractJsonLd(document: Document): SchemaRecipe | null {
+  const scripts = document.querySelectorAll('script[type="application/ld+json"]');
+  for (const script of scripts) {
+    try {
+      const found = findRecipeNode(JSON.parse(script.textContent ?? ''));
+      if (found) return found;
+    } catch {
+      // Pages often carry broken JSON-LD blocks for other things; skip them
+    }
+  }
+  return null;
+}
+
+function getMicrodataValue(element: Element): string {
+  if (element.hasAttribute('itemscope')) {
+    const text = element.querySelector('[itemprop="text"]');
+    return (text ?? element).textContent ?? '';
+  }
+  return element.getAttribute('content')
+    ?? element.getAttribute('datetime')
+    ?? element.getAttribute('src')
+    ?? element.getAttribute('href')
+    ?? element.textContent
+    ?? '';
+}
+
+function extractMicrodata(document: Document): SchemaRecipe | null {
+  const root = [...document.querySelectorAll('[itemscope][itemtype]')]
+    .find(element => isRecipeType(element.getAttribute('itemtype')?.replace(/^https?:\/\//, '')));
+  if (!root) return null;
+
+  const properties: Record<string, string[]> = {};
+  for (const element of root.querySelectorAll('[itemprop]')) {
+    // Properties of nested items (a HowToStep's text, an author's name) belong to them
+    const owner = element.parentElement?.closest('[itemscope]');
+    if (owner !== root) continue;
+
+    for (const name of (element.getAttribute('itemprop') ?? '').split(/\s+/)) {
+      properties[name] = [...(properties[name] ?? []), getMicrodataValue(element)];
+    }
+  }
+
+  return {
+    ...Object.fromEntries(Object.entries(properties).map(([name, values]) => [name, values.length > 1 ? values : values[0]])),
+    // Always lists, even with a single entry
+    recipeIngredient: properties.recipeIngredient ?? properties.ingredients,
+    recipeInstructions: properties.recipeInstructions,
+  };
+}
+
+/**
+ * Find schema.org Recipe data in a page's HTML, preferring JSON-LD
+ */
+export function extractSchemaRecipe(html: string): SchemaRecipe | null {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return extractJsonLd(document) ?? extractMicrodata(document);
+}
+
+function getInstructions(value: unknown): string[] {
+  if (typeof value === 'string') {
+    // A single block of text, possibly with one step per line or paragraph
+    const block = value.replace(/<\/(p|li)>|<br\s*\/?>/gi, '\n');
+    return block.split(/\n+/).map(decodeHtml).filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap(getInstructions);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // HowToSection groups steps
+    if (record.itemListElement) return getInstructions(record.itemListElement);
+    const text = asText(record.text ?? record.name);
+    return text ? [text] : [];
+  }
+  return [];
+}
+
+function getImageUrl(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (Array.isArray(value)) return value.length > 0 ? getImageUrl(value[0]) : undefined;
+  if (value && typeof value === 'object') return getImageUrl((value as Record<string, unknown>).url);
+  return undefined;
+}
+
+function getServings(value: unknown): number | undefined {
+  for (const text of asTextList(value)) {
+    const match = text.match(/\d+/);
+    if (match && Number(match[0]) > 0) return Number(match[0]);
+  }
+  return undefined;
+}
+
+function getMinutes(value: unknown): number | undefined {
+  const text = asText(value);
+  return text ? parseIsoDuration(text) : undefined;
+}
+
+function getTags(data: SchemaRecipe): string[] {
+  const keywords = asTextList(data.keywords).flatMap(keyword => keyword.split(','));
+  const tags = [...asTextList(data.recipeCategory), ...asTextList(data.recipeCuisine), ...keywords]
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * Map schema.org Recipe data onto our recipe fields
+ */
+export function mapSchemaRecipe(data: SchemaRecipe, ingredients: Ingredient[]): ImportedRecipe {
+  const prepTime = getMinutes(data.prepTime);
+  const cookTime = getMinutes(data.cookTime);
+  const totalTime = getMinutes(data.totalTime);
+
+  return {
+    title: asText(data.name),
+    description: asText(data.description),
+    imageUrl: getImageUrl(data.image),
+    prepTime: prepTime ?? 0,
+    // Pages that only give a total time get it counted as cooking time
+    cookTime: cookTime ?? Math.max(0, (totalTime ?? 0) - (prepTime ?? 0)),
+    servings: getServings(data.recipeYield),
+    tags: getTags(data),
+    ingredients: asTextList(data.recipeIngredient ?? data.ingredients).map(line => {
+      const { parsed, match } = parseRecipeIngredient(line, ingredients);
+      return { ...parsed, ingredientId: match?.id };
+    }),
+    instructions: getInstructions(data.recipeInstructions),
+  };
+}
+
+/**
+ * Import a recipe from a page's HTML
+ *
+ * @throws RecipeImportError when the page has no recipe data
+ */
+export function importRecipeFromHtml(html: string, ingredients: Ingredient[]): ImportedRecipe {
+  const data = extractSchemaRecipe(html);
+  if (!data) throw new RecipeImportError('No recipe found on this page');
+
+  const imported = mapSchemaRecipe(data, ingredients);
+  if (!imported.title && imported.ingredients.length === 0) {
+    throw new RecipeImportError('The recipe on this page has no title or ingredients');
+  }
+  return imported;
+}
+
+/**
+ * Turn an import into a draft for the recipe editor. `ingredientIds` maps
+ * lines that were not matched to ingredients created for them; rows left
+ * without an ingredient keep the original line in their notes.
+ */
+export function toRecipeDraft(imported: ImportedRecipe, ingredientIds: Map<string, string> = new Map()): Partial<RecipeDraft> {
+  return {
+    title: imported.title,
+    description: imported.description,
+    imageUrl: imported.imageUrl,
+    prepTime: imported.prepTime,
+    cookTime: imported.cookTime,
+    servings: imported.servings,
+    tags: imported.tags,
+    instructions: imported.instructions,
+    ingredients: imported.ingredients.map(row =>
+      toRecipeIngredient(row, row.ingredientId ?? ingredientIds.get(row.line))
+    ),
+  };
+}
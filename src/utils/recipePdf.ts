@@ -0,0 +1,224 @@
+/**
+ * Recipe PDF export
+ *
+ * Builds PDFs entirely in the browser with jsPDF: a single recipe as a cook
+ * card, or several recipes as a cookbook with a cover page and a linked table
+ * of contents. jsPDF is loaded on demand so it stays out of the main bundle.
+ *
+ * Layout is A4 in millimetres. Each recipe starts on a new page with the
+ * ingredients in a narrow column beside the numbered steps; both columns
+ * flow onto further pages when they run long.
+ */
+
+import type { jsPDF } from 'jspdf';
+import type { Ingredient, Recipe } from '../types';
+import { getDisplayIngredients, getRecipeSummary } from './recipeDisplay';
+import { slugify } from './download';
+import type { UnitPreference } from './units';
+
+export interface RecipePdfOptions {
+  ingredients: Ingredient[];
+  unitPreference: UnitPreference;
+}
+
+export interface CookbookPdfOptions extends RecipePdfOptions {
+  title: string;
+  now?: Date;
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BOTTOM = PAGE_HEIGHT - MARGIN - 8;
+const COLUMN_GAP = 8;
+const INGREDIENTS_WIDTH = 60;
+const LINE_HEIGHT = 5;
+const TOC_LINE_HEIGHT = 8;
+const TOC_TOP = MARGIN + 20;
+
+// Characters the built-in PDF fonts (WinAnsi) can't draw
+const PDF_FRACTIONS: Record<string, string> = {
+  '⅛': '1/8', '⅓': '1/3', '⅜': '3/8', '⅝': '5/8', '⅔': '2/3', '⅞': '7/8',
+};
+
+const PDF_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '…': '...', 'œ': 'oe', 'Œ': 'OE',
+};
+
+/**
+ * Make text drawable with the standard PDF fonts, e.g. "1⅓" becomes "1 1/3"
+ */
+export function toPdfText(text: string): string {
+  return [...text.replace(/(\d?)([⅛⅓⅜⅝⅔⅞])/g, (_match, whole: string, fraction: string) =>
+    `${whole ? `${whole} ` : ''}${PDF_FRACTIONS[fraction]}`
+  )]
+    .map(char => PDF_REPLACEMENTS[char] ?? (char.charCodeAt(0) > 0xff ? '?' : char))
+    .join('');
+}
+
+/**
+ * Writes lines into a column, moving to the next page when it is full
+ */
+class ColumnCursor {
+  page: number;
+  y: number;
+  private readonly doc: jsPDF;
+  private readonly x: number;
+  private readonly width: number;
+
+  constructor(doc: jsPDF, x: number, width: number, page: number, y: number) {
+    this.doc = doc;
+    this.x = x;
+    this.width = width;
+    this.page = page;
+    this.y = y;
+  }
+
+  write(text: string, options: { size?: number; bold?: boolean; indent?: string; gapAfter?: number } = {}) {
+    const { size = 10, bold = false, indent = '', gapAfter = 1 } = options;
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+
+    const indentWidth = indent ? this.doc.getTextWidth(indent) : 0;
+    const lines: string[] = this.doc.splitTextToSize(toPdfText(text), this.width - indentWidth);
+    const lineHeight = Math.max(LINE_HEIGHT, size * 0.45);
+
+    lines.forEach((line, index) => {
+      if (this.y + lineHeight > BOTTOM) this.nextPage();
+      this.doc.setPage(this.page);
+      if (index === 0 && indent) this.doc.text(indent, this.x, this.y);
+      this.doc.text(line, this.x + indentWidth, this.y);
+      this.y += lineHeight;
+    });
+    this.y += gapAfter;
+  }
+
+  private nextPage() {
+    this.page += 1;
+    if (this.page > this.doc.getNumberOfPages()) this.doc.addPage();
+    this.y = MARGIN + LINE_HEIGHT;
+  }
+}
+
+/**
+ * Draw a recipe starting on the given page; returns the last page used
+ */
+function drawRecipe(doc: jsPDF, recipe: Recipe, page: number, options: RecipePdfOptions): number {
+  const ingredientsById = new Map(options.ingredients.map(ingredient => [ingredient.id, ingredient]));
+
+  const header = new ColumnCursor(doc, MARGIN, CONTENT_WIDTH, page, MARGIN + 8);
+  header.write(recipe.title, { size: 20, bold: true, gapAfter: 2 });
+  header.write(getRecipeSummary(recipe), { size: 10, gapAfter: 2 });
+  if (recipe.description) header.write(recipe.description, { size: 10, gapAfter: 2 });
+  if (recipe.tags.length > 0) header.write(recipe.tags.join(', '), { size: 9, gapAfter: 2 });
+
+  doc.setPage(header.page);
+  doc.setDrawColor(180);
+  doc.line(MARGIN, header.y, PAGE_WIDTH - MARGIN, header.y);
+  const top = header.y + 8;
+
+  const left = new ColumnCursor(doc, MARGIN, INGREDIENTS_WIDTH, header.page, top);
+  left.write('Ingredients', { size: 13, bold: true, gapAfter: 2 });
+  for (const row of getDisplayIngredients(recipe, ingredientsById, options.unitPreference)) {
+    left.write(`${row.amount} ${row.name}${row.notes ? `, ${row.notes}` : ''}`, { gapAfter: 1.5 });
+  }
+
+  const stepsX = MARGIN + INGREDIENTS_WIDTH + COLUMN_GAP;
+  const right = new ColumnCursor(doc, stepsX, PAGE_WIDTH - MARGIN - stepsX, header.page, top);
+  right.write('Method', { size: 13, bold: true, gapAfter: 2 });
+  recipe.instructions.forEach((step, index) => {
+    right.write(step, { indent: `${index + 1}.  `, gapAfter: 3 });
+  });
+
+  return Math.max(left.page, right.page);
+}
+
+function drawPageNumbers(doc: jsPDF, firstPage: number) {
+  const total = doc.getNumberOfPages();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  for (let page = firstPage; page <= total; page++) {
+    doc.setPage(page);
+    doc.text(`${page} / ${total}`, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN / 2, { align: 'center' });
+  }
+}
+
+async function createDocument(title: string): Promise<jsPDF> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: toPdfText(title), creator: 'Recettier' });
+  return doc;
+}
+
+/**
+ * A single recipe as a printable cook card
+ */
+export async function buildRecipePdf(recipe: Recipe, options: RecipePdfOptions): Promise<jsPDF> {
+  const doc = await createDocument(recipe.title);
+  drawRecipe(doc, recipe, 1, options);
+  if (doc.getNumberOfPages() > 1) drawPageNumbers(doc, 1);
+  return doc;
+}
+
+/**
+ * Several recipes as a cookbook: cover, table of contents, then one recipe
+ * per page in title order
+ */
+export async function buildCookbookPdf(recipes: Recipe[], options: CookbookPdfOptions): Promise<jsPDF> {
+  const doc = await createDocument(options.title);
+  const sorted = [...recipes].sort((a, b) => a.title.localeCompare(b.title));
+
+  // Cover
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(32);
+  doc.text(doc.splitTextToSize(toPdfText(options.title), CONTENT_WIDTH), PAGE_WIDTH / 2, PAGE_HEIGHT / 3, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text(
+    toPdfText(`${sorted.length} recipe(s) · ${(options.now ?? new Date()).toLocaleDateString()}`),
+    PAGE_WIDTH / 2,
+    PAGE_HEIGHT / 3 + 20,
+    { align: 'center' }
+  );
+
+  // Reserve the contents pages; they are filled in once page numbers are known
+  const entriesPerPage = Math.floor((BOTTOM - TOC_TOP) / TOC_LINE_HEIGHT);
+  const tocPages = Math.max(1, Math.ceil(sorted.length / entriesPerPage));
+  for (let page = 0; page < tocPages; page++) doc.addPage();
+
+  const startPages = sorted.map(recipe => {
+    doc.addPage();
+    const start = doc.getNumberOfPages();
+    drawRecipe(doc, recipe, start, options);
+    return start;
+  });
+
+  sorted.forEach((recipe, index) => {
+    const tocPage = 2 + Math.floor(index / entriesPerPage);
+    const y = TOC_TOP + (index % entriesPerPage) * TOC_LINE_HEIGHT;
+    doc.setPage(tocPage);
+
+    if (index % entriesPerPage === 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(18);
+      doc.text('Contents', MARGIN, MARGIN + 8);
+    }
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    const title = doc.splitTextToSize(toPdfText(recipe.title), CONTENT_WIDTH - 20)[0];
+    doc.textWithLink(title, MARGIN, y, { pageNumber: startPages[index] });
+    doc.text(String(startPages[index]), PAGE_WIDTH - MARGIN, y, { align: 'right' });
+  });
+
+  drawPageNumbers(doc, 2);
+  return doc;
+}
+
+/**
+ * File name for a PDF, e.g. "Crêpes Suzette" becomes "crepes-suzette.pdf"
+ */
+export function getPdfFileName(title: string): string {
+  return `${slugify(title) || 'recipes'}.pdf`;
+}
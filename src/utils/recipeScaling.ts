@@ -0,0 +1,85 @@
+/**
+ * Recipe scaling
+ *
+ * Scaling produces a copy of the recipe and never touches the stored one.
+ * Quantities are rounded to amounts you can actually measure: whole eggs,
+ * quarter cups, 5 g steps for larger weights.
+ */
+
+import type { Recipe } from '../types';
+import { getUnitDimension, getUnitSystem, isKnownUnit, normalizeUnit } from './units';
+
+export type ScaleTarget = { servings: number } | { factor: number };
+
+export interface ScaleOptions {
+  /** Round quantities to kitchen-friendly values (default true) */
+  round?: boolean;
+}
+
+const KITCHEN_FRACTIONS = [0, 1 / 8, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+
+function roundTo(quantity: number, step: number): number {
+  return Math.round(quantity / step) * step;
+}
+
+function roundToFraction(quantity: number): number {
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  const nearest = KITCHEN_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate - fraction) < Math.abs(best - fraction) ? candidate : best
+  );
+  return whole + nearest;
+}
+
+function roundMetric(quantity: number): number {
+  if (quantity >= 100) return roundTo(quantity, 5);
+  if (quantity >= 10) return Math.round(quantity);
+  if (quantity >= 1) return Math.round(quantity * 10) / 10;
+  return Math.round(quantity * 100) / 100;
+}
+
+/**
+ * Round a quantity to something measurable in the given unit. Positive
+ * amounts never round down to zero.
+ */
+export function roundForKitchen(quantity: number, unit: string): number {
+  if (!(quantity > 0)) return 0;
+
+  const normalized = normalizeUnit(unit);
+
+  // Counts, and amounts without a unit ("3 eggs"), are whole
+  if (normalized === '' || getUnitDimension(normalized) === 'count') {
+    return Math.max(1, Math.round(quantity));
+  }
+
+  if (getUnitSystem(normalized) === 'metric') {
+    return roundMetric(quantity) || Math.round(quantity * 1000) / 1000;
+  }
+
+  // Imperial, spoons and unknown units ("can", "bunch") read as fractions
+  if (quantity >= 10 && isKnownUnit(normalized)) return Math.round(quantity);
+  return roundToFraction(quantity) || 1 / 8;
+}
+
+export function getScaleFactorFor(recipe: Recipe, target: ScaleTarget): number {
+  if ('factor' in target) return target.factor;
+  if (!recipe.servings) return 1;
+  return target.servings / recipe.servings;
+}
+
+/**
+ * Return a copy of the recipe scaled to a servings count or by a factor
+ */
+export function scaleRecipe(recipe: Recipe, target: ScaleTarget, options: ScaleOptions = {}): Recipe {
+  const factor = getScaleFactorFor(recipe, target);
+  const round = options.round ?? true;
+
+  return {
+    ...recipe,
+    servings: 'servings' in target ? target.servings : recipe.servings * factor,
+    ingredients: recipe.ingredients.map(row => {
+      const quantity = row.quantity * factor;
+      return { ...row, quantity: round ? roundForKitchen(quantity, row.unit) : quantity };
+    }),
+  };
+}
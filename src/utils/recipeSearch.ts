@@ -0,0 +1,171 @@
+/**
+ * Local full-text search and filtering for recipes
+ *
+ * A RecipeSearchIndex is built once per change of the recipe collection and
+ * then answers queries without re-scanning recipe text: words are mapped to
+ * recipe ids in an inverted index, and a sorted token list allows prefix
+ * matching while the user is still typing.
+ */
+
+import type { Recipe, Ingredient } from '../types';
+
+export type RecipeSortKey = 'updatedAt' | 'title' | 'totalTime';
+
+export interface RecipeQuery {
+  text?: string;
+  /** Recipe must carry every one of these tags */
+  tags?: string[];
+  /** Recipe must have one of these difficulties */
+  difficulties?: Recipe['difficulty'][];
+  /** Maximum prepTime + cookTime in minutes */
+  maxTotalTime?: number;
+  /** Recipe must use every one of these ingredients */
+  ingredientIds?: string[];
+  sort?: RecipeSortKey;
+}
+
+interface IndexedRecipe {
+  recipe: Recipe;
+  totalTime: number;
+  tags: Set<string>;
+  ingredientIds: Set<string>;
+}
+
+/**
+ * Lower-case, strip accents and split into word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+export function getTotalTime(recipe: Pick<Recipe, 'prepTime' | 'cookTime'>): number {
+  return (recipe.prepTime || 0) + (recipe.cookTime || 0);
+}
+
+export class RecipeSearchIndex {
+  private readonly entries = new Map<string, IndexedRecipe>();
+  private readonly postings = new Map<string, Set<string>>();
+  private readonly sortedTokens: string[];
+
+  constructor(recipes: Recipe[], ingredients: Ingredient[] = []) {
+    const ingredientsById = new Map(ingredients.map(ingredient => [ingredient.id, ingredient]));
+
+    for (const recipe of recipes) {
+      const ingredientText = recipe.ingredients.flatMap(row => {
+        const ingredient = ingredientsById.get(row.ingredientId);
+        return ingredient ? [ingredient.name, ...ingredient.alternativeNames] : [];
+      });
+
+      const text = [
+        recipe.title,
+        recipe.description,
+        ...recipe.instructions,
+        ...ingredientText,
+      ].join(' ');
+
+      for (const token of new Set(tokenize(text))) {
+        let ids = this.postings.get(token);
+        if (!ids) {
+          ids = new Set();
+          this.postings.set(token, ids);
+        }
+        ids.add(recipe.id);
+      }
+
+      this.entries.set(recipe.id, {
+        recipe,
+        totalTime: getTotalTime(recipe),
+        tags: new Set(recipe.tags.map(tag => tag.toLowerCase())),
+        ingredientIds: new Set(recipe.ingredients.map(row => row.ingredientId)),
+      });
+    }
+
+    this.sortedTokens = [...this.postings.keys()].sort();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Binary search for the first indexed token >= prefix
+   */
+  private lowerBound(prefix: string): number {
+    let low = 0;
+    let high = this.sortedTokens.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTokens[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private idsMatchingPrefix(prefix: string): Set<string> {
+    const ids = new Set<string>();
+    for (let i = this.lowerBound(prefix); i < this.sortedTokens.length; i++) {
+      const token = this.sortedTokens[i];
+      if (!token.startsWith(prefix)) break;
+      this.postings.get(token)!.forEach(id => ids.add(id));
+    }
+    return ids;
+  }
+
+  /**
+   * Ids of recipes containing every word of the query (as a word prefix)
+   */
+  matchText(text: string): Set<string> {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return new Set(this.entries.keys());
+
+    let result = this.idsMatchingPrefix(tokens[0]);
+    for (const token of tokens.slice(1)) {
+      if (result.size === 0) break;
+      const ids = this.idsMatchingPrefix(token);
+      result = new Set([...result].filter(id => ids.has(id)));
+    }
+    return result;
+  }
+
+  query(query: RecipeQuery = {}): Recipe[] {
+    const matchingIds = this.matchText(query.text ?? '');
+    const tags = (query.tags ?? []).map(tag => tag.toLowerCase());
+    const difficulties = query.difficulties ?? [];
+    const ingredientIds = query.ingredientIds ?? [];
+
+    const results: IndexedRecipe[] = [];
+    for (const id of matchingIds) {
+      const entry = this.entries.get(id)!;
+
+      if (tags.some(tag => !entry.tags.has(tag))) continue;
+      if (difficulties.length > 0 && !difficulties.includes(entry.recipe.difficulty)) continue;
+      if (query.maxTotalTime !== undefined && entry.totalTime > query.maxTotalTime) continue;
+      if (ingredientIds.some(ingredientId => !entry.ingredientIds.has(ingredientId))) continue;
+
+      results.push(entry);
+    }
+
+    return sortEntries(results, query.sort ?? 'updatedAt').map(entry => entry.recipe);
+  }
+}
+
+function sortEntries(entries: IndexedRecipe[], sort: RecipeSortKey): IndexedRecipe[] {
+  const byTitle = (a: IndexedRecipe, b: IndexedRecipe) =>
+    a.recipe.title.localeCompare(b.recipe.title, undefined, { sensitivity: 'base' });
+
+  switch (sort) {
+    case 'title':
+      return entries.sort(byTitle);
+    case 'totalTime':
+      return entries.sort((a, b) => a.totalTime - b.totalTime || byTitle(a, b));
+    case 'updatedAt':
+      return entries.sort(
+        (a, b) => new Date(b.recipe.updatedAt).getTime() - new Date(a.recipe.updatedAt).getTime()
+      );
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Recipe validation
+ *
+ * Checks a recipe draft before it is stored, as recommended by the
+ * "Data Validation" item in ARCHITECTURE.md.
+ */
+
+import type { Recipe, RecipeIngredient } from '../types';
+
+export type RecipeDraft = Omit<Recipe, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface RecipeIngredientErrors {
+  ingredientId?: string;
+  quantity?: string;
+  unit?: string;
+}
+
+export interface RecipeValidationErrors {
+  title?: string;
+  description?: string;
+  instructions?: string;
+  prepTime?: string;
+  cookTime?: string;
+  servings?: string;
+  difficulty?: string;
+  imageUrl?: string;
+  ingredients?: string;
+  ingredientRows?: Record<number, RecipeIngredientErrors>;
+}
+
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 5000;
+export const MAX_MINUTES = 7 * 24 * 60;
+export const MAX_SERVINGS = 1000;
+
+const DIFFICULTIES: Recipe['difficulty'][] = ['easy', 'medium', 'hard'];
+
+function validateMinutes(value: number, label: string): string | undefined {
+  if (!Number.isFinite(value) || !Number.isInteger(value)) return `${label} must be a whole number of minutes`;
+  if (value < 0) return `${label} can't be negative`;
+  if (value > MAX_MINUTES) return `${label} is unrealistically long`;
+  return undefined;
+}
+
+function isValidImageUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function validateIngredient(
+  row: RecipeIngredient,
+  knownIngredientIds?: Set<string>
+): RecipeIngredientErrors | undefined {
+  const errors: RecipeIngredientErrors = {};
+
+  if (!row.ingredientId) {
+    errors.ingredientId = 'Choose an ingredient';
+  } else if (knownIngredientIds && !knownIngredientIds.has(row.ingredientId)) {
+    errors.ingredientId = 'Unknown ingredient';
+  }
+
+  if (!Number.isFinite(row.quantity) || row.quantity <= 0) {
+    errors.quantity = 'Enter a quantity greater than 0';
+  }
+
+  if (row.unit.length > 30) {
+    errors.unit = 'Unit is too long';
+  }
+
+  return Object.keys(errors).length > 0 ? errors : undefined;
+}
+
+/**
+ * Validate a recipe draft. Returns an empty object when the draft is valid.
+ *
+ * @param knownIngredientIds - when given, ingredient rows must reference one of these ids
+ */
+export function validateRecipe(draft: RecipeDraft, knownIngredientIds?: Set<string>): RecipeValidationErrors {
+  const errors: RecipeValidationErrors = {};
+
+  const title = draft.title.trim();
+  if (!title) {
+    errors.title = 'Title is required';
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `Title must be at most ${MAX_TITLE_LENGTH} characters`;
+  }
+
+  if (draft.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  if (!draft.instructions.some(step => step.trim())) {
+    errors.instructions = 'Add at least one step';
+  }
+
+  const prepTimeError = validateMinutes(draft.prepTime, 'Prep time');
+  if (prepTimeError) errors.prepTime = prepTimeError;
+
+  const cookTimeError = validateMinutes(draft.cookTime, 'Cook time');
+  if (cookTimeError) errors.cookTime = cookTimeError;
+
+  if (!Number.isInteger(draft.servings) || draft.servings < 1) {
+    errors.servings = 'Servings must be a whole number of at least 1';
+  } else if (draft.servings > MAX_SERVINGS) {
+    errors.servings = `Servings must be at most ${MAX_SERVINGS}`;
+  }
+
+  if (!DIFFICULTIES.includes(draft.difficulty)) {
+    errors.difficulty = 'Choose a difficulty';
+  }
+
+  if (draft.imageUrl && !isValidImageUrl(draft.imageUrl)) {
+    errors.imageUrl = 'Enter a valid http(s) image URL';
+  }
+
+  const rowErrors: Record<number, RecipeIngredientErrors> = {};
+  draft.ingredients.forEach((row, index) => {
+    const rowError = validateIngredient(row, knownIngredientIds);
+    if (rowError) rowErrors[index] = rowError;
+  });
+  if (Object.keys(rowErrors).length > 0) {
+    errors.ingredientRows = rowErrors;
+    errors.ingredients = 'Fix the highlighted ingredients';
+  }
+
+  return errors;
+}
+
+export function isRecipeValid(errors: RecipeValidationErrors): boolean {
+  return Object.keys(errors).length === 0;
+}
+
+/**
+ * Trim text fields, drop empty steps and de-duplicate tags before saving
+ */
+export function normalizeRecipeDraft(draft: RecipeDraft): RecipeDraft {
+  const seenTags = new Set<string>();
+  const tags = draft.tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seenTags.has(key)) return false;
+      seenTags.add(key);
+      return true;
+    });
+
+  return {
+    ...draft,
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    instructions: draft.instructions.map(step => step.trim()).filter(Boolean),
+    tags,
+    imageUrl: draft.imageUrl?.trim() || undefined,
+    ingredients: draft.ingredients.map(row => ({
+      ...row,
+      unit: row.unit.trim(),
+      notes: row.notes?.trim() || undefined,
+    })),
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * JSON serialization helpers for persisted entities
+ *
+ * Entities are stored as JSON (Google Drive files, exported bundles), which
+ * turns Date fields into ISO strings. These helpers restore the Date
+ * instances expected by the types in src/types.
+ */
+
+import type { Ingredient, MealPlan, PantryItem, Recipe, ShoppingList } from '../types';
+
+export type Serialized<T> = Omit<T, 'createdAt' | 'updatedAt' | 'deletedAt'> & {
+  createdAt: string | Date;
+  updatedAt: string | Date;
+  deletedAt?: string | Date;
+};
+
+/**
+ * Convert an ISO string (or an existing Date) back to a Date
+ */
+export function reviveDate(value: string | number | Date | undefined | null): Date {
+  if (value instanceof Date) return value;
+  if (value === undefined || value === null) return new Date();
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+// Only entities in the trash have a deletion date
+function reviveDeletedAt<T extends { deletedAt?: string | Date }>(raw: T): Omit<T, 'deletedAt'> & { deletedAt?: Date } {
+  const { deletedAt, ...rest } = raw;
+  return deletedAt ? { ...rest, deletedAt: reviveDate(deletedAt) } : rest;
+}
+
+export function reviveRecipe(raw: Serialized<Recipe>): Recipe {
+  return {
+    ...reviveDeletedAt(raw),
+    ingredients: raw.ingredients ?? [],
+    instructions: raw.instructions ?? [],
+    tags: raw.tags ?? [],
+    createdAt: reviveDate(raw.createdAt),
+    updatedAt: reviveDate(raw.updatedAt),
+  };
+}
+
+export function reviveShoppingList(raw: Serialized<ShoppingList>): ShoppingList {
+  return {
+    ...reviveDeletedAt(raw),
+    items: raw.items ?? [],
+    createdAt: reviveDate(raw.createdAt),
+    updatedAt: reviveDate(raw.updatedAt),
+  };
+}
+
+export function reviveMealPlan(raw: Serialized<MealPlan>): MealPlan {
+  return {
+    ...reviveDeletedAt(raw),
+    createdAt: reviveDate(raw.createdAt),
+    updatedAt: reviveDate(raw.updatedAt),
+  };
+}
+
+export function revivePantryItem(raw: Serialized<PantryItem>): PantryItem {
+  return {
+    ...reviveDeletedAt(raw),
+    createdAt: reviveDate(raw.createdAt),
+    updatedAt: reviveDate(raw.updatedAt),
+  };
+}
+
+export function reviveIngredient(raw: Omit<Ingredient, 'deletedAt'> & { deletedAt?: string | Date }): Ingredient {
+  return reviveDeletedAt(raw);
+}
@@ -0,0 +1,94 @@
+/**
+ * Shopping list helpers for the in-store view
+ */
+
+import type { Ingredient, ShoppingList, ShoppingListItem } from '../types';
+import { DEFAULT_CATEGORY, findIngredientByName } from './ingredientRegistry';
+
+export type ShoppingListStatus = ShoppingList['status'];
+
+export interface ShoppingListEntry {
+  item: ShoppingListItem;
+  /** Position in ShoppingList.items, used to address the item */
+  index: number;
+  label: string;
+}
+
+export interface AisleGroup {
+  category: string;
+  entries: ShoppingListEntry[];
+}
+
+export const NEXT_STATUS: Record<ShoppingListStatus, ShoppingListStatus> = {
+  draft: 'active',
+  active: 'completed',
+  completed: 'active',
+};
+
+export const STATUS_LABELS: Record<ShoppingListStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  completed: 'Completed',
+};
+
+export function getItemLabel(item: ShoppingListItem, ingredientsById: Map<string, Ingredient>): string {
+  return ingredientsById.get(item.ingredientId)?.name ?? item.name ?? 'Unknown item';
+}
+
+/**
+ * Group items by their ingredient's category. Items are sorted by name, with
+ * purchased items moved to the end of their aisle when `purchasedLast` is set.
+ */
+export function groupItemsByAisle(
+  items: ShoppingListItem[],
+  ingredients: Ingredient[],
+  purchasedLast = false
+): AisleGroup[] {
+  const ingredientsById = new Map(ingredients.map(ingredient => [ingredient.id, ingredient]));
+  const groups = new Map<string, ShoppingListEntry[]>();
+
+  items.forEach((item, index) => {
+    const category = ingredientsById.get(item.ingredientId)?.category.trim() || DEFAULT_CATEGORY;
+    const entry = { item, index, label: getItemLabel(item, ingredientsById) };
+    groups.set(category, [...(groups.get(category) ?? []), entry]);
+  });
+
+  return [...groups.entries()]
+    .map(([category, entries]) => ({
+      category,
+      entries: entries.sort((a, b) =>
+        (purchasedLast ? Number(a.item.purchased) - Number(b.item.purchased) : 0)
+        || a.label.localeCompare(b.label, undefined, { sensitivity: 'base' })
+      ),
+    }))
+    .sort((a, b) => {
+      if (a.category === DEFAULT_CATEGORY) return 1;
+      if (b.category === DEFAULT_CATEGORY) return -1;
+      return a.category.localeCompare(b.category);
+    });
+}
+
+export function getListProgress(items: ShoppingListItem[]): { purchased: number; total: number } {
+  return {
+    purchased: items.filter(item => item.purchased).length,
+    total: items.length,
+  };
+}
+
+export function getListTotal(items: ShoppingListItem[]): number {
+  return items.reduce((sum, item) => sum + (item.price ?? 0), 0);
+}
+
+/**
+ * Build an item from typed text, linking it to the registry when the text
+ * names a known ingredient
+ */
+export function createManualItem(text: string, ingredients: Ingredient[]): ShoppingListItem | null {
+  const name = text.trim();
+  if (!name) return null;
+
+  const ingredient = findIngredientByName(name, ingredients);
+  return ingredient
+    ? { ingredientId: ingredient.id, quantity: 1, unit: ingredient.defaultUnit, purchased: false }
+    : { ingredientId: '', name, quantity: 1, unit: '', purchased: false };
+}
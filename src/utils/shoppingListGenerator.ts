@@ -0,0 +1,175 @@
+/**
+ * Shopping list generation from recipes
+ *
+ * Scales each selected recipe to the requested servings, converts every
+ * ingredient quantity to a common unit and sums rows that share an
+ * ingredient. Volumes are folded into weights when the same ingredient is
+ * also measured by weight and its density is known. Amounts that still
+ * cannot be converted into each other (e.g. grams and pieces) stay on
+ * separate items. Pantry stock given in the options is then taken off each
+ * total, and items fully covered by it are left out.
+ */
+
+import type { Ingredient, PantryItem, Recipe, ShoppingList, ShoppingListItem } from '../types';
+import { convertQuantity, simplifyQuantity, toBaseUnit, type UnitSystem } from './units';
+
+export interface RecipeSelection {
+  recipe: Recipe;
+  /** Servings to cook; defaults to the recipe's own servings */
+  servings?: number;
+}
+
+export interface AggregationOptions {
+  /** Registry entries, used for their density */
+  ingredients?: Ingredient[];
+  /** System to express totals in; defaults to each unit's own */
+  unitSystem?: UnitSystem;
+  /** Stock on hand to take off the totals */
+  pantry?: PantryItem[];
+}
+
+export interface GenerateShoppingListOptions extends AggregationOptions {
+  name?: string;
+  now?: Date;
+}
+
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
+
+export function getScaleFactor(selection: RecipeSelection): number {
+  const { recipe, servings } = selection;
+  if (!servings || !recipe.servings) return 1;
+  return servings / recipe.servings;
+}
+
+export function generateShoppingListItems(
+  selections: RecipeSelection[],
+  options: AggregationOptions = {}
+): ShoppingListItem[] {
+  // Ingredient -> base unit -> total, in order of first appearance
+  const totals = new Map<string, Map<string, number>>();
+
+  for (const selection of selections) {
+    const factor = getScaleFactor(selection);
+
+    for (const row of selection.recipe.ingredients) {
+      if (!row.ingredientId) continue;
+
+      const base = toBaseUnit(row.quantity * factor, row.unit);
+      let byUnit = totals.get(row.ingredientId);
+      if (!byUnit) {
+        byUnit = new Map();
+        totals.set(row.ingredientId, byUnit);
+      }
+      byUnit.set(base.unit, (byUnit.get(base.unit) ?? 0) + base.quantity);
+    }
+  }
+
+  const densities = new Map((options.ingredients ?? []).map(ingredient => [ingredient.id, ingredient.density]));
+
+  const items = [...totals.entries()].flatMap(([ingredientId, byUnit]) => {
+    const density = densities.get(ingredientId);
+    const volume = byUnit.get('ml');
+    if (density && volume !== undefined && byUnit.has('g')) {
+      byUnit.set('g', byUnit.get('g')! + volume * density);
+      byUnit.delete('ml');
+    }
+
+    return [...byUnit.entries()].map(([unit, quantity]) => {
+      const display = simplifyQuantity(quantity, unit, options.unitSystem);
+      return {
+        ingredientId,
+        quantity: roundQuantity(display.quantity),
+        unit: display.unit,
+        purchased: false,
+      };
+    });
+  });
+
+  return options.pantry ? subtractPantryStock(items, options.pantry, options.ingredients) : items;
+}
+
+/**
+ * Take stock on hand off the items still to buy. Each stock entry is used up
+ * at most once across items; items it fully covers are dropped.
+ */
+export function subtractPantryStock(
+  items: ShoppingListItem[],
+  pantry: PantryItem[],
+  ingredients: Ingredient[] = []
+): ShoppingListItem[] {
+  const densities = new Map(ingredients.map(ingredient => [ingredient.id, ingredient.density]));
+  const remaining = new Map(pantry.map(stock => [stock.id, stock.quantity]));
+
+  return items.flatMap(item => {
+    if (item.purchased || !item.ingredientId) return [item];
+
+    const density = densities.get(item.ingredientId);
+    let quantity = item.quantity;
+    for (const stock of pantry) {
+      if (quantity <= 0) break;
+      if (stock.ingredientId !== item.ingredientId) continue;
+
+      const available = convertQuantity(remaining.get(stock.id)!, stock.unit, item.unit, density);
+      if (available === null || available <= 0) continue;
+
+      const used = Math.min(available, quantity);
+      quantity -= used;
+      remaining.set(stock.id, convertQuantity(available - used, item.unit, stock.unit, density)!);
+    }
+
+    const rounded = roundQuantity(quantity);
+    return rounded > 0 ? [{ ...item, quantity: rounded }] : [];
+  });
+}
+
+/**
+ * Add generated items to an existing list. Amounts are added to an item
+ * still to buy for the same ingredient when the units convert; purchased
+ * items are left alone so the extra amount shows up as a new item.
+ */
+export function mergeShoppingListItems(
+  existing: ShoppingListItem[],
+  additions: ShoppingListItem[],
+  ingredients: Ingredient[] = []
+): ShoppingListItem[] {
+  const densities = new Map(ingredients.map(ingredient => [ingredient.id, ingredient.density]));
+  const merged = existing.map(item => ({ ...item }));
+
+  for (const addition of additions) {
+    const density = densities.get(addition.ingredientId);
+    const target = addition.ingredientId
+      ? merged.find(item =>
+          !item.purchased &&
+          item.ingredientId === addition.ingredientId &&
+          convertQuantity(1, addition.unit, item.unit, density) !== null
+        )
+      : undefined;
+
+    if (target) {
+      const converted = convertQuantity(addition.quantity, addition.unit, target.unit, density)!;
+      target.quantity = roundQuantity(target.quantity + converted);
+    } else {
+      merged.push({ ...addition });
+    }
+  }
+
+  return merged;
+}
+
+export function generateShoppingList(
+  selections: RecipeSelection[],
+  options: GenerateShoppingListOptions = {}
+): ShoppingList {
+  const now = options.now ?? new Date();
+
+  return {
+    id: crypto.randomUUID(),
+    name: options.name?.trim() || `Shopping list ${now.toLocaleDateString()}`,
+    items: generateShoppingListItems(selections, options),
+    status: 'draft',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
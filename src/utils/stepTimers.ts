@@ -0,0 +1,113 @@
+/**
+ * Timers for cook mode
+ *
+ * Finds durations written in instruction steps ("simmer 20 minutes",
+ * "cuire 1 h 30") so they can be offered as timers. Ranges such as
+ * "25-30 min" use their lower bound, the point at which to start checking.
+ * Running timers store the time they go off rather than counting down, so
+ * they stay accurate while the page is in the background.
+ */
+
+export interface StepDuration {
+  /** Text the duration was read from, e.g. "20 minutes" */
+  label: string;
+  seconds: number;
+}
+
+export interface CookTimer {
+  id: string;
+  label: string;
+  /** Index of the step the timer was started from */
+  step: number;
+  durationMs: number;
+  /** Epoch milliseconds at which a running timer goes off */
+  endsAt?: number;
+  /** Time left on a paused timer */
+  remainingMs: number;
+}
+
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+const HOURS = 'hours?|hrs?|h|heures?';
+const MINUTES = 'minutes?|mins?|mn';
+const SECONDS = 'seconds?|secondes?|secs?';
+const END = '(?![\\p{L}\\d])';
+
+const DURATION_PATTERN = new RegExp(
+  [
+    // "1 hour 30 minutes", "1 h et 30 min"
+    `(?<hours>\\d+)\\s*(?:${HOURS})\\s*(?:(?:and|et)\\s+)?(?<hourMinutes>\\d{1,2})\\s*(?:${MINUTES})${END}`,
+    // "1h30", "1 h 30"
+    `(?<shortHours>\\d+)\\s*h\\s*(?<shortMinutes>\\d{2})${END}`,
+    // "half an hour", "une demi-heure"
+    `(?<halfHour>half an hour|(?:une )?demi-heure)${END}`,
+    // "an hour", "une heure"
+    `(?<oneHour>(?:an|one) hour|une heure)${END}`,
+    // "20 minutes", "25-30 min", "1.5 hours"
+    `(?<amount>${NUMBER})(?:\\s*(?:-|–|to|à|ou|or)\\s*${NUMBER})?\\s*(?<unit>${HOURS}|${MINUTES}|${SECONDS})${END}`,
+  ].join('|'),
+  'giu'
+);
+
+function unitSeconds(unit: string): number {
+  const normalized = unit.toLowerCase();
+  if (new RegExp(`^(?:${HOURS})$`).test(normalized)) return 3600;
+  if (new RegExp(`^(?:${MINUTES})$`).test(normalized)) return 60;
+  return 1;
+}
+
+/**
+ * Durations mentioned in a step, in the order they appear
+ */
+export function findStepDurations(step: string): StepDuration[] {
+  const durations: StepDuration[] = [];
+
+  for (const match of step.matchAll(DURATION_PATTERN)) {
+    const groups = match.groups!;
+    let seconds: number;
+    if (groups.hours) seconds = Number(groups.hours) * 3600 + Number(groups.hourMinutes) * 60;
+    else if (groups.shortHours) seconds = Number(groups.shortHours) * 3600 + Number(groups.shortMinutes) * 60;
+    else if (groups.halfHour) seconds = 1800;
+    else if (groups.oneHour) seconds = 3600;
+    else seconds = Math.round(Number(groups.amount.replace(',', '.')) * unitSeconds(groups.unit));
+
+    if (seconds > 0) durations.push({ label: match[0].trim(), seconds });
+  }
+
+  return durations;
+}
+
+export function startTimer(duration: StepDuration, step: number, now = Date.now()): CookTimer {
+  const durationMs = duration.seconds * 1000;
+  return { id: crypto.randomUUID(), label: duration.label, step, durationMs, endsAt: now + durationMs, remainingMs: durationMs };
+}
+
+export function getRemainingMs(timer: CookTimer, now = Date.now()): number {
+  return timer.endsAt === undefined ? timer.remainingMs : Math.max(0, timer.endsAt - now);
+}
+
+export function isTimerRunning(timer: CookTimer): boolean {
+  return timer.endsAt !== undefined;
+}
+
+export function isTimerDone(timer: CookTimer, now = Date.now()): boolean {
+  return getRemainingMs(timer, now) === 0;
+}
+
+export function pauseTimer(timer: CookTimer, now = Date.now()): CookTimer {
+  return { ...timer, endsAt: undefined, remainingMs: getRemainingMs(timer, now) };
+}
+
+export function resumeTimer(timer: CookTimer, now = Date.now()): CookTimer {
+  return { ...timer, endsAt: now + timer.remainingMs };
+}
+
+/**
+ * Time left as "4:05" or "1:04:05"
+ */
+export function formatTimer(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,105 @@
+/**
+ * Trash helpers
+ *
+ * Deleted entities keep their data, with `deletedAt` set, until they are
+ * purged by hand or once they have been in the trash longer than the
+ * retention period chosen in Settings.
+ */
+
+import type { EntityCollection, Ingredient, Recipe, StorableEntity, TrashContents } from '../types';
+
+/** Retention periods offered in Settings, in days */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EMPTY_TRASH: TrashContents = {
+  recipes: [],
+  ingredients: [],
+  shoppingLists: [],
+  mealPlans: [],
+  pantryItems: [],
+};
+
+export function isTrashExpired(entity: StorableEntity, retentionDays: number, now = new Date()): boolean {
+  return !!entity.deletedAt && now.getTime() - entity.deletedAt.getTime() >= retentionDays * DAY_MS;
+}
+
+/**
+ * Whole days left before an entity is purged, never below zero
+ */
+export function getDaysUntilPurge(entity: StorableEntity, retentionDays: number, now = new Date()): number {
+  if (!entity.deletedAt) return retentionDays;
+  const elapsed = (now.getTime() - entity.deletedAt.getTime()) / DAY_MS;
+  return Math.max(0, Math.ceil(retentionDays - elapsed));
+}
+
+/**
+ * Live ingredients followed by those in the trash, named as such. Recipes
+ * and lists keep pointing at a trashed ingredient until it is purged, so
+ * this is what their rows are looked up and validated against.
+ */
+export function withTrashedIngredients(ingredients: Ingredient[], trashed: Ingredient[]): Ingredient[] {
+  return [...ingredients, ...trashed.map(ingredient => ({ ...ingredient, name: `${ingredient.name} (in trash)` }))];
+}
+
+/**
+ * Live ingredients plus the trashed ones `recipes` still use, taken out of
+ * the trash, so that an exported library resolves every row
+ */
+export function withTrashedIngredientsUsedBy(
+  ingredients: Ingredient[],
+  trashed: Ingredient[],
+  recipes: Recipe[]
+): Ingredient[] {
+  const used = new Set(recipes.flatMap(recipe => recipe.ingredients.map(row => row.ingredientId)));
+  return [
+    ...ingredients,
+    ...trashed.filter(ingredient => used.has(ingredient.id)).map(ingredient => ({ ...ingredient, deletedAt: undefined })),
+  ];
+}
+
+export interface TrashLookups {
+  recipes: Recipe[];
+  ingredients: Ingredient[];
+}
+
+/**
+ * Name to show for an entity in the trash. Meal plans and pantry items are
+ * named after their recipe or ingredient, which may be in the trash too.
+ */
+export function describeTrashedEntity(
+  collection: EntityCollection,
+  entity: StorableEntity,
+  lookups: TrashLookups
+): string {
+  switch (collection) {
+    case 'recipes':
+      return (entity as Recipe).title;
+    case 'ingredients':
+      return (entity as Ingredient).name;
+    case 'shoppingLists':
+      return (entity as TrashContents['shoppingLists'][number]).name;
+    case 'mealPlans': {
+      const plan = entity as TrashContents['mealPlans'][number];
+      const recipe = lookups.recipes.find(existing => existing.id === plan.recipeId);
+      return `${recipe?.title ?? 'Meal'} (${plan.date}, ${plan.slot})`;
+    }
+    case 'pantryItems': {
+      const item = entity as TrashContents['pantryItems'][number];
+      const ingredient = lookups.ingredients.find(existing => existing.id === item.ingredientId);
+      return `${ingredient?.name ?? 'Unknown ingredient'} (${item.quantity} ${item.unit})`;
+    }
+  }
+}
+
+/**
+ * Everything in the trash, most recently deleted first
+ */
+export function listTrash(trash: TrashContents): { collection: EntityCollection; entity: StorableEntity }[] {
+  return (Object.keys(trash) as EntityCollection[])
+    .flatMap(collection => (trash[collection] as StorableEntity[]).map(entity => ({ collection, entity })))
+    .sort((a, b) => (b.entity.deletedAt?.getTime() ?? 0) - (a.entity.deletedAt?.getTime() ?? 0));
+}
@@ -0,0 +1,260 @@
+/**
+ * Unit normalization and conversion
+ *
+ * Every known unit converts through a base unit: grams for mass, millilitres
+ * for volume, and its own count unit for countables (a dozen is 12 pieces,
+ * but a clove is never a piece). Mass and volume can be converted into each
+ * other when the ingredient's density is known.
+ *
+ * Volume units are US customary (1 cup = 236.59 ml). The French livre
+ * (500 g) and tasse (250 ml) are units of their own rather than aliases of
+ * the pound and cup, which they only roughly match.
+ */
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/** How quantities are displayed: as written, or converted to one system */
+export type UnitPreference = 'original' | UnitSystem;
+
+interface UnitDefinition {
+  dimension: UnitDimension;
+  /** Unit this one converts through */
+  base: string;
+  /** Size of one unit expressed in `base` */
+  factor: number;
+  /** Omitted for units used in both systems (spoons, counts) */
+  system?: UnitSystem;
+}
+
+export interface Quantity {
+  quantity: number;
+  unit: string;
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  // Mass
+  mg: { dimension: 'mass', base: 'g', factor: 0.001, system: 'metric' },
+  g: { dimension: 'mass', base: 'g', factor: 1, system: 'metric' },
+  kg: { dimension: 'mass', base: 'g', factor: 1000, system: 'metric' },
+  oz: { dimension: 'mass', base: 'g', factor: 28.349523125, system: 'imperial' },
+  lb: { dimension: 'mass', base: 'g', factor: 453.59237, system: 'imperial' },
+  livre: { dimension: 'mass', base: 'g', factor: 500, system: 'metric' },
+
+  // Volume
+  ml: { dimension: 'volume', base: 'ml', factor: 1, system: 'metric' },
+  cl: { dimension: 'volume', base: 'ml', factor: 10, system: 'metric' },
+  dl: { dimension: 'volume', base: 'ml', factor: 100, system: 'metric' },
+  l: { dimension: 'volume', base: 'ml', factor: 1000, system: 'metric' },
+  tsp: { dimension: 'volume', base: 'ml', factor: 4.92892159375 },
+  tbsp: { dimension: 'volume', base: 'ml', factor: 14.78676478125 },
+  'fl oz': { dimension: 'volume', base: 'ml', factor: 29.5735295625, system: 'imperial' },
+  cup: { dimension: 'volume', base: 'ml', factor: 236.5882365, system: 'imperial' },
+  pint: { dimension: 'volume', base: 'ml', factor: 473.176473, system: 'imperial' },
+  quart: { dimension: 'volume', base: 'ml', factor: 946.352946, system: 'imperial' },
+  gallon: { dimension: 'volume', base: 'ml', factor: 3785.411784, system: 'imperial' },
+  tasse: { dimension: 'volume', base: 'ml', factor: 250, system: 'metric' },
+
+  // Count
+  piece: { dimension: 'count', base: 'piece', factor: 1 },
+  dozen: { dimension: 'count', base: 'piece', factor: 12 },
+  clove: { dimension: 'count', base: 'clove', factor: 1 },
+  pinch: { dimension: 'count', base: 'pinch', factor: 1 },
+};
+
+// English and French spellings, matched after lower-casing
+const ALIASES: Record<string, string> = {
+  gram: 'g', grams: 'g', gr: 'g', gramme: 'g', grammes: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', kilogramme: 'kg', kilogrammes: 'kg',
+  milligram: 'mg', milligrams: 'mg', milligramme: 'mg', milligrammes: 'mg',
+  ounce: 'oz', ounces: 'oz', once: 'oz', onces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  livres: 'livre',
+
+  millilitre: 'ml', millilitres: 'ml', milliliter: 'ml', milliliters: 'ml',
+  centilitre: 'cl', centilitres: 'cl', centiliter: 'cl', centiliters: 'cl',
+  decilitre: 'dl', decilitres: 'dl', deciliter: 'dl', deciliters: 'dl',
+  litre: 'l', litres: 'l', liter: 'l', liters: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp',
+  'c. à c.': 'tsp', 'c.à.c.': 'tsp', 'càc': 'tsp', cac: 'tsp', 'cuillère à café': 'tsp', 'cuillères à café': 'tsp',
+  'c. à café': 'tsp', 'c à c': 'tsp', 'cuil. à café': 'tsp', 'cuillerée à café': 'tsp', 'cuillerées à café': 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  'c. à s.': 'tbsp', 'c.à.s.': 'tbsp', 'càs': 'tbsp', cas: 'tbsp', 'cuillère à soupe': 'tbsp', 'cuillères à soupe': 'tbsp',
+  'c. à soupe': 'tbsp', 'c à s': 'tbsp', 'cuil. à soupe': 'tbsp', 'cuillerée à soupe': 'tbsp', 'cuillerées à soupe': 'tbsp',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl. oz': 'fl oz', floz: 'fl oz',
+  cups: 'cup', c: 'cup',
+  tasses: 'tasse',
+  pints: 'pint', pt: 'pint',
+  quarts: 'quart', qt: 'quart',
+  gallons: 'gallon', gal: 'gallon',
+
+  pieces: 'piece', pc: 'piece', pcs: 'piece', 'pièce': 'piece', 'pièces': 'piece',
+  unit: 'piece', units: 'piece', 'unité': 'piece', 'unités': 'piece', whole: 'piece',
+  dozens: 'dozen', doz: 'dozen', douzaine: 'dozen', douzaines: 'dozen',
+  cloves: 'clove', gousse: 'clove', gousses: 'clove',
+  pinches: 'pinch', 'pincée': 'pinch', 'pincées': 'pinch',
+};
+
+// Case matters for the classic single-letter spoon abbreviations
+const CASE_SENSITIVE_ALIASES: Record<string, string> = {
+  T: 'tbsp',
+  t: 'tsp',
+};
+
+/**
+ * Canonical spelling of a unit: trimmed, lower-cased and de-aliased.
+ * Unknown units are returned lower-cased so they still compare equal.
+ */
+export function normalizeUnit(unit: string): string {
+  const trimmed = unit.trim();
+  if (CASE_SENSITIVE_ALIASES[trimmed]) return CASE_SENSITIVE_ALIASES[trimmed];
+
+  const key = trimmed.toLowerCase().replace(/\s+/g, ' ');
+  if (UNITS[key] || ALIASES[key]) return ALIASES[key] ?? key;
+
+  // Abbreviations are often written with a trailing dot ("tbsp.", "oz.")
+  const undotted = key.replace(/\.$/, '');
+  return ALIASES[undotted] ?? undotted;
+}
+
+export function isKnownUnit(unit: string): boolean {
+  return normalizeUnit(unit) in UNITS;
+}
+
+export function getUnitDimension(unit: string): UnitDimension | null {
+  return UNITS[normalizeUnit(unit)]?.dimension ?? null;
+}
+
+export function getUnitSystem(unit: string): UnitSystem | null {
+  return UNITS[normalizeUnit(unit)]?.system ?? null;
+}
+
+/**
+ * Convert between two units, or return null if they are not compatible.
+ * `density` (g/ml) allows converting between mass and volume.
+ */
+export function convertQuantity(quantity: number, from: string, to: string, density?: number): number | null {
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+  if (fromUnit === toUnit) return quantity;
+
+  const source = UNITS[fromUnit];
+  const target = UNITS[toUnit];
+  if (!source || !target) return null;
+
+  let baseQuantity = quantity * source.factor;
+  if (source.base !== target.base) {
+    if (!density || density <= 0) return null;
+    if (source.base === 'ml' && target.base === 'g') baseQuantity *= density;
+    else if (source.base === 'g' && target.base === 'ml') baseQuantity /= density;
+    else return null;
+  }
+  return baseQuantity / target.factor;
+}
+
+export function areUnitsCompatible(a: string, b: string, density?: number): boolean {
+  return convertQuantity(1, a, b, density) !== null;
+}
+
+/**
+ * Express a quantity in its base unit; unknown units are kept as they are.
+ * With a density, volumes are expressed as mass so both can be added up.
+ */
+export function toBaseUnit(quantity: number, unit: string, density?: number): Quantity {
+  const normalized = normalizeUnit(unit);
+  const definition = UNITS[normalized];
+  if (!definition) return { quantity, unit: normalized };
+
+  const baseQuantity = quantity * definition.factor;
+  if (definition.base === 'ml' && density && density > 0) {
+    return { quantity: baseQuantity * density, unit: 'g' };
+  }
+  return { quantity: baseQuantity, unit: definition.base };
+}
+
+// Display units per system, largest first, with the smallest amount each is used for
+const DISPLAY_UNITS: Record<UnitSystem, Record<'mass' | 'volume', { unit: string; from: number }[]>> = {
+  metric: {
+    mass: [{ unit: 'kg', from: 1000 }, { unit: 'g', from: 1 }, { unit: 'mg', from: 0 }],
+    volume: [{ unit: 'l', from: 1000 }, { unit: 'ml', from: 0 }],
+  },
+  imperial: {
+    mass: [{ unit: 'lb', from: UNITS.lb.factor }, { unit: 'oz', from: 0 }],
+    volume: [
+      { unit: 'gallon', from: UNITS.gallon.factor },
+      { unit: 'cup', from: UNITS.cup.factor / 4 },
+      { unit: 'tbsp', from: UNITS.tbsp.factor },
+      { unit: 'tsp', from: 0 },
+    ],
+  },
+};
+
+/**
+ * Pick a readable unit in the given system, e.g. 1500 g becomes 1.5 kg.
+ * Without a system the quantity stays in its own system. Counts, spoons
+ * and unknown units are returned as they are.
+ */
+export function simplifyQuantity(quantity: number, unit: string, system?: UnitSystem): Quantity {
+  const normalized = normalizeUnit(unit);
+  const definition = UNITS[normalized];
+  if (!definition || definition.dimension === 'count') return { quantity, unit: normalized };
+
+  const targetSystem = system ?? definition.system;
+  if (!targetSystem) return { quantity, unit: normalized };
+
+  const baseQuantity = quantity * definition.factor;
+  const candidates = DISPLAY_UNITS[targetSystem][definition.dimension];
+  const target = candidates.find(candidate => baseQuantity >= candidate.from) ?? candidates[candidates.length - 1];
+  return { quantity: baseQuantity / UNITS[target.unit].factor, unit: target.unit };
+}
+
+/**
+ * Apply a display preference to a quantity
+ */
+export function convertToPreference(quantity: number, unit: string, preference: UnitPreference): Quantity {
+  if (preference === 'original') return { quantity, unit };
+
+  // Spoons read better than millilitres for small amounts in either system
+  const definition = UNITS[normalizeUnit(unit)];
+  if (!definition?.system) return { quantity, unit };
+  return simplifyQuantity(quantity, unit, preference);
+}
+
+const UNICODE_FRACTIONS: [number, string][] = [
+  [1 / 8, '⅛'],
+  [1 / 4, '¼'],
+  [1 / 3, '⅓'],
+  [3 / 8, '⅜'],
+  [1 / 2, '½'],
+  [5 / 8, '⅝'],
+  [2 / 3, '⅔'],
+  [3 / 4, '¾'],
+  [7 / 8, '⅞'],
+];
+
+/**
+ * Format a number with unicode fractions (1½) when it is close to one,
+ * otherwise with at most two decimals
+ */
+export function formatNumber(quantity: number, useFractions = false): string {
+  const decimal = String(Math.round(quantity * 100) / 100);
+  if (!useFractions) return decimal;
+
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  if (fraction < 0.01) return String(whole);
+
+  const match = UNICODE_FRACTIONS.find(([value]) => Math.abs(value - fraction) < 0.01);
+  if (!match) return decimal;
+  return whole > 0 ? `${whole}${match[1]}` : match[1];
+}
+
+/**
+ * Format a quantity with its unit. Metric amounts use decimals; imperial,
+ * spoon and count amounts use fractions.
+ */
+export function formatQuantity(quantity: number, unit: string): string {
+  const useFractions = getUnitSystem(unit) !== 'metric';
+  return `${formatNumber(quantity, useFractions)} ${unit}`.trim();
+}
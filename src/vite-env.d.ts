@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GOOGLE_CLIENT_ID: string;
+  readonly VITE_STORAGE_BACKEND?: 'drive' | 'indexeddb' | 'memory';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
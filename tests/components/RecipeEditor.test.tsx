@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import RecipeEditor from '../../src/components/recipes/RecipeEditor'
+import { MemoryStorageBackend, setStorageBackend } from '../../src/services/storage'
+import { useAppStore } from '../../src/stores/appStore'
+import type { Recipe } from '../../src/types'
+
+const existingRecipe: Recipe = {
+  id: 'r1',
+  title: 'Pancakes',
+  description: '',
+  ingredients: [],
+  instructions: ['Mix', 'Cook'],
+  prepTime: 5,
+  cookTime: 10,
+  servings: 2,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+}
+
+describe('RecipeEditor', () => {
+  let backend: MemoryStorageBackend
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend()
+    setStorageBackend(backend)
+    useAppStore.getState().reset()
+
+    // Rows and steps are keyed by UUID, so they need to be unique here
+    let counter = 0
+    vi.mocked(crypto.randomUUID).mockImplementation(
+      () => `00000000-0000-0000-0000-${String(++counter).padStart(12, '0')}` as ReturnType<typeof crypto.randomUUID>
+    )
+  })
+
+  it('should show validation errors instead of saving an incomplete recipe', async () => {
+    const onSaved = vi.fn()
+    render(<RecipeEditor onSaved={onSaved} onCancel={vi.fn()} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /save/i }))
+
+    expect(await screen.findByText('Title is required')).toBeInTheDocument()
+    expect(screen.getByText('Add at least one step')).toBeInTheDocument()
+    expect(onSaved).not.toHaveBeenCalled()
+    expect(await backend.recipes.list()).toEqual([])
+  })
+
+  it('should create a new recipe through the store', async () => {
+    const onSaved = vi.fn()
+    render(<RecipeEditor onSaved={onSaved} onCancel={vi.fn()} />)
+
+    fireEvent.change(screen.getByLabelText(/title/i), { target: { value: 'Omelette' } })
+    fireEvent.change(screen.getByLabelText('Step 1'), { target: { value: 'Beat the eggs' } })
+    fireEvent.click(screen.getByRole('button', { name: /save/i }))
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled())
+    const [stored] = await backend.recipes.list()
+    expect(stored.title).toBe('Omelette')
+    expect(stored.instructions).toEqual(['Beat the eggs'])
+    expect(stored.servings).toBe(4)
+  })
+
+  it('should reorder and remove steps', async () => {
+    await useAppStore.getState().createRecipe(existingRecipe)
+    const onSaved = vi.fn()
+    render(<RecipeEditor recipe={existingRecipe} onSaved={onSaved} onCancel={vi.fn()} />)
+
+    fireEvent.click(screen.getByLabelText('Move step 2 up'))
+    expect(screen.getByLabelText('Step 1')).toHaveValue('Cook')
+
+    fireEvent.click(screen.getByLabelText('Remove step 2'))
+    fireEvent.click(screen.getByRole('button', { name: /save/i }))
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled())
+    expect((await backend.recipes.get('r1'))?.instructions).toEqual(['Cook'])
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom'
+import RequireAuth from '../../src/components/layout/RequireAuth'
+
+const LoginProbe = () => {
+  const location = useLocation()
+  return <div data-testid="login">{JSON.stringify(location.state)}</div>
+}
+
+const renderAt = (path: string, hasAccess: boolean) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/login" element={<LoginProbe />} />
+        <Route element={<RequireAuth hasAccess={hasAccess} />}>
+          <Route path="/recipes" element={<div>Recipes</div>} />
+        </Route>
+      </Routes>
+    </MemoryRouter>
+  )
+
+describe('RequireAuth', () => {
+  it('should render the guarded route when storage is usable', () => {
+    renderAt('/recipes?action=add', true)
+
+    expect(screen.getByText('Recipes')).toBeInTheDocument()
+  })
+
+  it('should send the user to login and remember where they were headed', () => {
+    renderAt('/recipes?action=add', false)
+
+    expect(JSON.parse(screen.getByTestId('login').textContent ?? '')).toEqual({
+      from: { pathname: '/recipes', search: '?action=add', hash: '' },
+    })
+  })
+})
@@ -0,0 +1,597 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Recipe, ShoppingList, Ingredient, MealPlan } from '../../src/types'
+
+vi.mock('../../src/services/googleAuth', () => ({
+  googleAuthService: {
+    ensureValidToken: vi.fn(),
+    getAccessToken: vi.fn(),
+  },
+}))
+
+import { googleAuthService } from '../../src/services/googleAuth'
+import { googleDriveService, GoogleDriveError } from '../../src/services/googleDrive'
+
+interface FakeFile {
+  id: string
+  name: string
+  mimeType: string
+  parents: string[]
+  content?: string
+  version: number
+  trashed?: boolean
+}
+
+interface FakeRevision {
+  id: string
+  modifiedTime: string
+  keepForever: boolean
+  content: string
+}
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder'
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as string)
+  reader.onerror = () => reject(reader.error)
+  reader.readAsText(blob)
+})
+
+// Minimal in-memory implementation of the Drive v3 endpoints used by the service
+class FakeDrive {
+  files = new Map<string, FakeFile>()
+  requests: { method: string; url: string }[] = []
+  failNext: number[] = []
+  failUploadChunks: number[] = []
+  // Chunks stored before the connection drops, so the response never arrives
+  dropUploadChunks = 0
+  // IDs of changed files, in order; a changes page token is an index into it
+  changeLog: string[] = []
+  revisions = new Map<string, FakeRevision[]>()
+  private uploads = new Map<string, { metadata: Omit<FakeFile, 'id' | 'version'>; total: number; received: string }>()
+  private nextId = 1
+
+  add(file: Omit<FakeFile, 'id' | 'version'>): FakeFile {
+    const created = { ...file, id: `file-${this.nextId++}`, version: 1 }
+    this.files.set(created.id, created)
+    this.changeLog.push(created.id)
+    return created
+  }
+
+  private change(file: FakeFile, changes: Partial<FakeFile>): void {
+    Object.assign(file, changes, { version: file.version + 1 })
+    this.changeLog.push(file.id)
+  }
+
+  private revise(file: FakeFile, url: URL): void {
+    const revisions = this.revisions.get(file.id) ?? []
+    revisions.push({
+      id: `rev-${this.nextId++}`,
+      modifiedTime: new Date().toISOString(),
+      keepForever: url.searchParams.get('keepRevisionForever') === 'true',
+      content: file.content ?? '',
+    })
+    this.revisions.set(file.id, revisions)
+  }
+
+  private json(data: unknown, status = 200): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  private matches(file: FakeFile, query: string): boolean {
+    const name = query.match(/name='((?:[^'\\]|\\.)*)'/)?.[1]?.replace(/\\'/g, "'")
+    const mimeType = query.match(/mimeType='([^']*)'/)?.[1]
+    const parent = query.match(/'([^']*)' in parents/)?.[1]
+    return (
+      (name === undefined || file.name === name) &&
+      (mimeType === undefined || file.mimeType === mimeType) &&
+      (parent === undefined || file.parents.includes(parent)) &&
+      !(query.includes('trashed=false') && file.trashed)
+    )
+  }
+
+  handle = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(input.toString())
+    const method = init.method ?? 'GET'
+    this.requests.push({ method, url: url.toString() })
+
+    const failure = this.failNext.shift()
+    if (failure) {
+      return this.json({ error: { message: `Simulated ${failure}` } }, failure)
+    }
+
+    const idMatch = url.pathname.match(/\/files\/([^/]+)$/)
+    const fileId = idMatch?.[1]
+
+    const revisionMatch = url.pathname.match(/\/files\/([^/]+)\/revisions(?:\/([^/]+))?$/)
+    if (revisionMatch) {
+      const revisions = this.revisions.get(revisionMatch[1]) ?? []
+      const revision = revisions.find(existing => existing.id === revisionMatch[2])
+      if (!revisionMatch[2]) {
+        return this.json({ revisions: revisions.map(({ id, modifiedTime, keepForever }) => ({ id, modifiedTime, keepForever })) })
+      }
+      if (!revision) return this.json({ error: { message: 'Revision not found' } }, 404)
+      if (method === 'PATCH') {
+        Object.assign(revision, JSON.parse(init.body as string))
+        return this.json(revision)
+      }
+      return new Response(revision.content, { status: 200 })
+    }
+
+    if (url.pathname === '/drive/v3/files' && method === 'GET') {
+      const query = url.searchParams.get('q') ?? ''
+      const files = [...this.files.values()].filter(file => this.matches(file, query))
+      return this.json({ files: files.map(({ id, name, mimeType, version }) => ({ id, name, mimeType, version: String(version) })) })
+    }
+
+    if (url.pathname === '/drive/v3/changes/startPageToken') {
+      return this.json({ startPageToken: String(this.changeLog.length) })
+    }
+
+    if (url.pathname === '/drive/v3/changes') {
+      const changes = this.changeLog.slice(Number(url.searchParams.get('pageToken'))).map(id => {
+        const file = this.files.get(id)
+        if (!file) return { fileId: id, removed: true }
+        const { name, mimeType, parents, trashed, version } = file
+        return { fileId: id, removed: false, file: { id, name, mimeType, parents, trashed, version: String(version) } }
+      })
+      return this.json({ changes, newStartPageToken: String(this.changeLog.length) })
+    }
+
+    if (url.pathname === '/drive/v3/files' && method === 'POST') {
+      const metadata = JSON.parse(init.body as string)
+      return this.json(this.add(metadata))
+    }
+
+    if (url.pathname === '/upload/drive/v3/files' && method === 'POST' && url.searchParams.get('uploadType') === 'resumable') {
+      const sessionId = `session-${this.nextId++}`
+      const headers = init.headers as Record<string, string>
+      this.uploads.set(sessionId, {
+        metadata: JSON.parse(init.body as string),
+        total: Number(headers['X-Upload-Content-Length']),
+        received: '',
+      })
+      return new Response(null, {
+        status: 200,
+        headers: { Location: `https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&upload_id=${sessionId}` },
+      })
+    }
+
+    const upload = this.uploads.get(url.searchParams.get('upload_id') ?? '')
+    if (upload && method === 'PUT') {
+      const chunkFailure = this.failUploadChunks.shift()
+      if (chunkFailure) {
+        return this.json({ error: { message: `Simulated ${chunkFailure}` } }, chunkFailure)
+      }
+      if (init.body) upload.received += await readBlob(init.body as Blob)
+      if (init.body && this.dropUploadChunks > 0) {
+        this.dropUploadChunks--
+        throw new TypeError('Failed to fetch')
+      }
+      if (upload.received.length < upload.total) {
+        const range: Record<string, string> = upload.received ? { Range: `bytes=0-${upload.received.length - 1}` } : {}
+        return new Response(null, { status: 308, headers: range })
+      }
+      this.uploads.delete(url.searchParams.get('upload_id')!)
+      return this.json(this.add({ ...upload.metadata, content: upload.received }))
+    }
+
+    if (url.pathname === '/upload/drive/v3/files' && method === 'POST') {
+      const boundary = (init.headers as Record<string, string>)['Content-Type'].split('boundary=')[1]
+      const parts = (init.body as string).split(`--${boundary}`)
+      const metadata = JSON.parse(parts[1].split('\r\n\r\n')[1])
+      const content = parts[2].split('\r\n\r\n')[1].replace(/\r\n$/, '')
+      const file = this.add({ ...metadata, content })
+      this.revise(file, url)
+      return this.json(file)
+    }
+
+    if (fileId && url.pathname.startsWith('/upload/') && method === 'PATCH') {
+      const file = this.files.get(fileId)
+      if (!file) return this.json({ error: { message: 'File not found' } }, 404)
+      this.change(file, { content: init.body as string })
+      this.revise(file, url)
+      return this.json({ id: file.id, name: file.name })
+    }
+
+    if (fileId && method === 'PATCH') {
+      const file = this.files.get(fileId)
+      if (!file) return this.json({ error: { message: 'File not found' } }, 404)
+      this.change(file, JSON.parse(init.body as string))
+      return this.json({ id: file.id, name: file.name })
+    }
+
+    if (fileId && method === 'GET' && url.searchParams.get('alt') === 'media') {
+      const file = this.files.get(fileId)
+      if (!file) return this.json({ error: { message: 'File not found' } }, 404)
+      return new Response(file.content, { status: 200 })
+    }
+
+    if (fileId && method === 'DELETE') {
+      this.files.delete(fileId)
+      this.changeLog.push(fileId)
+      return new Response(null, { status: 204 })
+    }
+
+    return this.json({ error: { message: `Unhandled ${method} ${url}` } }, 400)
+  }
+
+  folder(name: string): FakeFile | undefined {
+    return [...this.files.values()].find(file => file.mimeType === FOLDER_MIME_TYPE && file.name === name)
+  }
+
+  filesIn(folderName: string): FakeFile[] {
+    const folder = this.folder(folderName)
+    return [...this.files.values()].filter(file => folder && file.parents.includes(folder.id) && !file.trashed)
+  }
+}
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Ratatouille',
+  description: 'Provençal vegetable stew',
+  ingredients: [{ ingredientId: 'i1', quantity: 2, unit: 'piece' }],
+  instructions: ['Chop', 'Simmer'],
+  prepTime: 20,
+  cookTime: 45,
+  servings: 4,
+  difficulty: 'medium',
+  tags: ['vegetarian'],
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-02T10:00:00Z'),
+  ...overrides,
+})
+
+const createShoppingList = (overrides: Partial<ShoppingList> = {}): ShoppingList => ({
+  id: 'l1',
+  name: 'Weekly shop',
+  items: [{ ingredientId: 'i1', quantity: 3, unit: 'piece', purchased: false }],
+  status: 'draft',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides,
+})
+
+const createMealPlan = (overrides: Partial<MealPlan> = {}): MealPlan => ({
+  id: 'p1',
+  date: '2024-02-05',
+  slot: 'dinner',
+  recipeId: 'r1',
+  servings: 4,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides,
+})
+
+const createIngredient = (overrides: Partial<Ingredient> = {}): Ingredient => ({
+  id: 'i1',
+  name: 'Zucchini',
+  category: 'produce',
+  defaultUnit: 'piece',
+  alternativeNames: ['courgette'],
+  ...overrides,
+})
+
+describe('Google Drive Service', () => {
+  let drive: FakeDrive
+
+  beforeEach(() => {
+    drive = new FakeDrive()
+    global.fetch = vi.fn(drive.handle) as typeof fetch
+    vi.mocked(googleAuthService.ensureValidToken).mockResolvedValue(true)
+    vi.mocked(googleAuthService.getAccessToken).mockReturnValue('drive-token')
+    googleDriveService.reset()
+  })
+
+  describe('Folder structure', () => {
+    it('should create the Recettier folder hierarchy on first use', async () => {
+      const folders = await googleDriveService.ensureFolderStructure()
+
+      const root = drive.folder('Recettier')
+      expect(root?.parents).toEqual(['root'])
+      for (const name of ['recipes', 'ingredients', 'shopping-lists', 'meal-plans', 'pantry', 'media']) {
+        expect(drive.folder(name)?.parents).toEqual([root?.id])
+      }
+      expect(drive.folder('recipe-images')?.parents).toEqual([drive.folder('media')?.id])
+      expect(drive.folder('thumbnails')?.parents).toEqual([drive.folder('media')?.id])
+      expect(folders.recipes).toBe(drive.folder('recipes')?.id)
+    })
+
+    it('should reuse existing folders instead of creating duplicates', async () => {
+      await googleDriveService.ensureFolderStructure()
+      googleDriveService.reset()
+      await googleDriveService.ensureFolderStructure()
+
+      const folderCount = [...drive.files.values()].filter(file => file.mimeType === FOLDER_MIME_TYPE).length
+      expect(folderCount).toBe(9)
+    })
+
+    it('should only resolve folders once per session', async () => {
+      await Promise.all([
+        googleDriveService.ensureFolderStructure(),
+        googleDriveService.ensureFolderStructure(),
+      ])
+      const requestCount = drive.requests.length
+
+      await googleDriveService.getFolderId('recipes')
+      expect(drive.requests.length).toBe(requestCount)
+    })
+  })
+
+  describe('Authentication', () => {
+    it('should send the access token as a bearer token', async () => {
+      await googleDriveService.ensureFolderStructure()
+
+      const [, init] = vi.mocked(global.fetch).mock.calls[0]
+      expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer drive-token')
+    })
+
+    it('should fail when no valid token is available', async () => {
+      vi.mocked(googleAuthService.ensureValidToken).mockResolvedValue(false)
+
+      await expect(googleDriveService.listRecipes()).rejects.toBeInstanceOf(GoogleDriveError)
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Recipes', () => {
+    it('should create and read back a recipe with dates restored', async () => {
+      await googleDriveService.createRecipe(createRecipe())
+
+      expect(drive.filesIn('recipes').map(file => file.name)).toEqual(['recipe-r1.json'])
+
+      const recipe = await googleDriveService.getRecipe('r1')
+      expect(recipe?.title).toBe('Ratatouille')
+      expect(recipe?.createdAt).toBeInstanceOf(Date)
+      expect(recipe?.updatedAt.toISOString()).toBe('2024-01-02T10:00:00.000Z')
+    })
+
+    it('should list all recipes in the recipes folder', async () => {
+      await googleDriveService.createRecipe(createRecipe({ id: 'r1' }))
+      await googleDriveService.createRecipe(createRecipe({ id: 'r2', title: 'Tian' }))
+
+      const recipes = await googleDriveService.listRecipes()
+      expect(recipes.map(recipe => recipe.title).sort()).toEqual(['Ratatouille', 'Tian'])
+    })
+
+    it('should update an existing recipe in place', async () => {
+      await googleDriveService.createRecipe(createRecipe())
+      await googleDriveService.updateRecipe(createRecipe({ title: 'Ratatouille niçoise' }))
+
+      expect(drive.filesIn('recipes')).toHaveLength(1)
+      expect((await googleDriveService.getRecipe('r1'))?.title).toBe('Ratatouille niçoise')
+    })
+
+    it('should reject creating a recipe that already exists', async () => {
+      await googleDriveService.createRecipe(createRecipe())
+
+      await expect(googleDriveService.createRecipe(createRecipe())).rejects.toMatchObject({ status: 409 })
+    })
+
+    it('should reject updating a missing recipe', async () => {
+      await expect(googleDriveService.updateRecipe(createRecipe())).rejects.toMatchObject({ status: 404 })
+    })
+
+    it('should delete a recipe', async () => {
+      await googleDriveService.createRecipe(createRecipe())
+      await googleDriveService.deleteRecipe('r1')
+
+      expect(drive.filesIn('recipes')).toHaveLength(0)
+      expect([...drive.files.values()].find(file => file.name === 'recipe-r1.json')?.trashed).toBe(true)
+      expect(await googleDriveService.getRecipe('r1')).toBeNull()
+    })
+
+    it('should only download recipes changed since the metadata.json index was written', async () => {
+      await googleDriveService.createRecipe(createRecipe({ id: 'r1' }))
+      await googleDriveService.createRecipe(createRecipe({ id: 'r2', title: 'Tian' }))
+      await googleDriveService.listRecipes()
+      await googleDriveService.updateRecipe(createRecipe({ id: 'r2', title: 'Tian provençal' }))
+      googleDriveService.reset()
+      drive.requests = []
+
+      const recipes = await googleDriveService.listRecipes()
+
+      expect(recipes.map(recipe => recipe.title).sort()).toEqual(['Ratatouille', 'Tian provençal'])
+      expect(recipes[0].createdAt).toBeInstanceOf(Date)
+      const downloads = drive.requests.filter(request => request.url.includes('alt=media'))
+      expect(downloads).toHaveLength(2)
+      expect(drive.filesIn('recipes').map(file => file.name).sort()).toEqual(['metadata.json', 'recipe-r1.json', 'recipe-r2.json'])
+    })
+  })
+
+  describe('Recipe history', () => {
+    it('should keep every saved version of a recipe', async () => {
+      await googleDriveService.createRecipe(createRecipe())
+      await googleDriveService.updateRecipe(createRecipe({ title: 'Ratatouille niçoise' }))
+      await googleDriveService.updateRecipe(createRecipe({ title: 'Ratatouille confite' }))
+
+      const revisions = await googleDriveService.listRecipeRevisions('r1')
+      expect(revisions).toHaveLength(3)
+      expect(revisions.every(revision => revision.keepForever)).toBe(true)
+
+      const first = await googleDriveService.getRecipeRevision('r1', revisions[0].id)
+      expect(first?.title).toBe('Ratatouille')
+      expect(first?.createdAt).toBeInstanceOf(Date)
+    })
+
+    it('should not keep versions of other files forever', async () => {
+      await googleDriveService.createShoppingList(createShoppingList())
+
+      const [file] = drive.filesIn('shopping-lists')
+      expect(drive.revisions.get(file.id)?.[0].keepForever).toBe(false)
+    })
+
+    it('should let go of the oldest versions near the Drive limit', async () => {
+      await googleDriveService.createRecipe(createRecipe())
+      const [file] = drive.filesIn('recipes')
+      const revisions = drive.revisions.get(file.id)!
+      for (let i = 0; i < 149; i++) {
+        revisions.push({ id: `old-${i}`, modifiedTime: '2024-01-01T00:00:00Z', keepForever: true, content: '{}' })
+      }
+
+      await googleDriveService.updateRecipe(createRecipe({ title: 'Ratatouille niçoise' }))
+
+      expect(revisions.filter(revision => revision.keepForever)).toHaveLength(150)
+      expect(revisions[0].keepForever).toBe(false)
+      expect(revisions[revisions.length - 1].keepForever).toBe(true)
+    })
+  })
+
+  describe('Shopping lists', () => {
+    it('should store lists as list-{id}.json in the shopping-lists folder', async () => {
+      await googleDriveService.createShoppingList(createShoppingList())
+      await googleDriveService.updateShoppingList(createShoppingList({ status: 'active' }))
+
+      expect(drive.filesIn('shopping-lists').map(file => file.name)).toEqual(['list-l1.json'])
+      const lists = await googleDriveService.listShoppingLists()
+      expect(lists[0].status).toBe('active')
+      expect(lists[0].createdAt).toBeInstanceOf(Date)
+
+      await googleDriveService.deleteShoppingList('l1')
+      expect(await googleDriveService.listShoppingLists()).toEqual([])
+    })
+  })
+
+  describe('Meal plans', () => {
+    it('should store plans as plan-{id}.json in the meal-plans folder', async () => {
+      await googleDriveService.createMealPlan(createMealPlan())
+      await googleDriveService.updateMealPlan(createMealPlan({ slot: 'lunch' }))
+
+      expect(drive.filesIn('meal-plans').map(file => file.name)).toEqual(['plan-p1.json'])
+      const plans = await googleDriveService.listMealPlans()
+      expect(plans[0].slot).toBe('lunch')
+      expect(plans[0].date).toBe('2024-02-05')
+      expect(plans[0].updatedAt).toBeInstanceOf(Date)
+
+      await googleDriveService.deleteMealPlan('p1')
+      expect(await googleDriveService.listMealPlans()).toEqual([])
+    })
+  })
+
+  describe('Ingredients', () => {
+    it('should keep all ingredients in a single registry file', async () => {
+      await googleDriveService.createIngredient(createIngredient({ id: 'i1' }))
+      await googleDriveService.createIngredient(createIngredient({ id: 'i2', name: 'Eggplant' }))
+
+      expect(drive.filesIn('ingredients').map(file => file.name)).toEqual(['ingredients-registry.json'])
+      expect((await googleDriveService.listIngredients()).map(i => i.name)).toEqual(['Zucchini', 'Eggplant'])
+    })
+
+    it('should not lose concurrent registry writes', async () => {
+      await Promise.all([
+        googleDriveService.createIngredient(createIngredient({ id: 'i1' })),
+        googleDriveService.createIngredient(createIngredient({ id: 'i2' })),
+        googleDriveService.createIngredient(createIngredient({ id: 'i3' })),
+      ])
+
+      expect(await googleDriveService.listIngredients()).toHaveLength(3)
+    })
+
+    it('should update and delete registry entries', async () => {
+      await googleDriveService.createIngredient(createIngredient())
+      await googleDriveService.updateIngredient(createIngredient({ category: 'vegetables' }))
+      expect((await googleDriveService.getIngredient('i1'))?.category).toBe('vegetables')
+
+      await googleDriveService.deleteIngredient('i1')
+      expect(await googleDriveService.getIngredient('i1')).toBeNull()
+    })
+
+    it('should reject updating an unknown ingredient', async () => {
+      await expect(googleDriveService.updateIngredient(createIngredient())).rejects.toMatchObject({ status: 404 })
+    })
+  })
+
+  describe('Changes', () => {
+    it('should report entity files changed since a page token', async () => {
+      await googleDriveService.createRecipe(createRecipe({ id: 'r1' }))
+      await googleDriveService.createRecipe(createRecipe({ id: 'r2' }))
+      const token = await googleDriveService.getChangesStartToken()
+
+      await googleDriveService.updateRecipe(createRecipe({ id: 'r1', title: 'Edited' }))
+      await googleDriveService.deleteRecipe('r2')
+      await googleDriveService.createShoppingList(createShoppingList())
+      await googleDriveService.createPantryItem({
+        id: 'pi1',
+        ingredientId: 'i1',
+        quantity: 2,
+        unit: 'piece',
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        updatedAt: new Date('2024-01-01T10:00:00Z'),
+      })
+      await googleDriveService.createIngredient(createIngredient())
+
+      const { changes, nextPageToken } = await googleDriveService.listEntityChanges(token)
+      expect(changes).toEqual([
+        { folder: 'recipes', id: 'r1', removed: false },
+        { folder: 'recipes', id: 'r2', removed: true },
+        { folder: 'shoppingLists', id: 'l1', removed: false },
+        { folder: 'pantry', id: 'pi1', removed: false },
+        { folder: 'ingredients', id: null, removed: false },
+      ])
+      expect((await googleDriveService.listEntityChanges(nextPageToken)).changes).toEqual([])
+    })
+  })
+
+  describe('Media', () => {
+    const createImage = () => new Blob(['x'.repeat(2.5 * 1024 * 1024)], { type: 'image/webp' })
+
+    it('should upload media in chunks with a resumable upload', async () => {
+      const file = await googleDriveService.uploadMedia('recipeImages', 'image-1.webp', createImage())
+
+      const [stored] = drive.filesIn('recipe-images')
+      expect(stored).toMatchObject({ id: file.id, name: 'image-1.webp', mimeType: 'image/webp' })
+      expect(stored.content).toHaveLength(2.5 * 1024 * 1024)
+      expect(drive.requests.filter(request => request.method === 'PUT')).toHaveLength(3)
+    })
+
+    it('should resume from the last confirmed byte after a failed chunk', async () => {
+      drive.failUploadChunks = [0, 503]
+
+      await googleDriveService.uploadMedia('thumbnails', 'thumb-1.webp', createImage())
+
+      const [stored] = drive.filesIn('thumbnails')
+      expect(stored.content).toBe('x'.repeat(2.5 * 1024 * 1024))
+    })
+
+    it('should ask Drive what it has after the connection drops', async () => {
+      drive.dropUploadChunks = 1
+
+      await googleDriveService.uploadMedia('thumbnails', 'thumb-1.webp', createImage())
+
+      const [stored] = drive.filesIn('thumbnails')
+      expect(stored.content).toBe('x'.repeat(2.5 * 1024 * 1024))
+      expect(drive.requests.filter(request => request.method === 'PUT')).toHaveLength(4)
+    })
+
+    it('should download and delete media', async () => {
+      const file = await googleDriveService.uploadMedia('recipeImages', 'image-1.webp', new Blob(['photo'], { type: 'image/webp' }))
+
+      expect(await (await googleDriveService.downloadMedia(file.id)).text()).toBe('photo')
+
+      await googleDriveService.deleteMedia(file.id)
+      expect(drive.files.has(file.id)).toBe(false)
+    })
+  })
+
+  describe('Error handling', () => {
+    it('should retry transient server errors', async () => {
+      drive.failNext = [503]
+
+      await googleDriveService.ensureFolderStructure()
+      expect(drive.folder('Recettier')).toBeDefined()
+    })
+
+    it('should surface client errors as GoogleDriveError with the API message', async () => {
+      drive.failNext = [403]
+
+      const error = await googleDriveService.ensureFolderStructure().catch(e => e)
+      expect(error).toBeInstanceOf(GoogleDriveError)
+      expect(error.status).toBe(403)
+      expect(error.message).toContain('Simulated 403')
+    })
+  })
+})
@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { gzipSync, strToU8, unzipSync, zipSync } from 'fflate'
+import type { Ingredient, InterchangeFormat, Recipe } from '../../src/types'
+import { detectFormat, exportLibrary, importLibrary, InterchangeError } from '../../src/services/interchange'
+import { parseDurationText } from '../../src/services/interchange/mapping'
+import { withTrashedIngredientsUsedBy } from '../../src/utils/trash'
+
+const ingredients: Ingredient[] = [
+  { id: 'flour', name: 'Flour', category: 'Baking', defaultUnit: 'g', alternativeNames: ['farine'], density: 0.53 },
+  { id: 'egg', name: 'Egg', category: 'Dairy', defaultUnit: '', alternativeNames: [] },
+  { id: 'milk', name: 'Milk', category: 'Dairy', defaultUnit: 'ml', alternativeNames: [] },
+]
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Crêpes',
+  description: 'Thin pancakes',
+  ingredients: [
+    { ingredientId: 'flour', quantity: 250, unit: 'g', notes: 'sifted' },
+    { ingredientId: 'egg', quantity: 3, unit: '' },
+    { ingredientId: 'milk', quantity: 500, unit: 'ml' },
+  ],
+  instructions: ['Whisk everything.', 'Fry thin crêpes.'],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'medium',
+  tags: ['breakfast', 'french'],
+  createdAt: new Date('2024-02-02T00:00:00Z'),
+  updatedAt: new Date('2024-02-02T00:00:00Z'),
+  ...overrides,
+})
+
+const library = { recipes: [createRecipe()], ingredients }
+const now = new Date('2024-03-01T12:00:00Z')
+
+const toBytes = (content: Uint8Array | string) => typeof content === 'string' ? strToU8(content) : content
+
+const roundTrip = (format: InterchangeFormat, existing: Ingredient[] = ingredients) => {
+  const exported = exportLibrary(format, library, now)
+  return importLibrary(exported.fileName, toBytes(exported.content), existing, now)
+}
+
+describe('Interchange', () => {
+  beforeEach(() => {
+    let counter = 0
+    crypto.randomUUID = () => `uuid-${++counter}` as ReturnType<typeof crypto.randomUUID>
+  })
+
+  describe('Recettier bundle', () => {
+    it('should document its format and version', () => {
+      const exported = exportLibrary('recettier', library, now)
+      const bundle = JSON.parse(exported.content as string)
+
+      expect(exported.fileName).toBe('crepes.json')
+      expect(bundle).toMatchObject({ format: 'recettier', version: 1, exportedAt: '2024-03-01T12:00:00.000Z' })
+      expect(bundle.recipes[0].createdAt).toBe('2024-02-02T00:00:00.000Z')
+      expect(exported.report).toEqual({ format: 'recettier', recipeCount: 1, ingredientCount: 3, issues: [] })
+    })
+
+    it('should restore every field and id', () => {
+      const { data, report } = roundTrip('recettier')
+
+      expect(data.recipes).toEqual([createRecipe()])
+      expect(data.ingredients).toEqual([])
+      expect(report.issues).toEqual([])
+    })
+
+    it('should reuse ingredients with the same name and keep the rest as new', () => {
+      const existing = [{ ...ingredients[0], id: 'other-flour' }]
+      const { data, report } = roundTrip('recettier', existing)
+
+      expect(data.recipes[0].ingredients.map(row => row.ingredientId)).toEqual(['other-flour', 'egg', 'milk'])
+      expect(data.ingredients.map(ingredient => ingredient.id)).toEqual(['egg', 'milk'])
+      expect(report.ingredientCount).toBe(2)
+    })
+
+    it('should drop references to ingredients missing from the bundle', () => {
+      const exported = exportLibrary('recettier', { recipes: [createRecipe()], ingredients: ingredients.slice(0, 2) }, now)
+      const { data, report } = importLibrary('library.json', toBytes(exported.content), [], now)
+
+      expect(data.recipes[0].ingredients).toHaveLength(2)
+      expect(report.issues).toEqual([{ recipe: 'Crêpes', field: 'ingredients', message: 'Unknown ingredient milk was dropped' }])
+    })
+
+    it('should carry a trashed ingredient a recipe uses and bring it back on import', () => {
+      const trashedMilk = { ...ingredients[2], deletedAt: new Date('2024-02-20T00:00:00Z') }
+      const live = ingredients.slice(0, 2)
+      const exported = exportLibrary(
+        'recettier',
+        { recipes: [createRecipe()], ingredients: withTrashedIngredientsUsedBy(live, [trashedMilk], [createRecipe()]) },
+        now
+      )
+      expect(exported.report.ingredientCount).toBe(3)
+
+      const { data, report } = importLibrary('crepes.json', toBytes(exported.content), [...live, trashedMilk], now)
+
+      expect(data.recipes).toEqual([createRecipe()])
+      expect(data.ingredients).toEqual([ingredients[2]])
+      expect(data.ingredients[0].deletedAt).toBeUndefined()
+      expect(report.issues).toEqual([])
+    })
+
+    it('should reject bundles from a newer version', () => {
+      const bundle = strToU8(JSON.stringify({ format: 'recettier', version: 2, recipes: [], ingredients: [] }))
+      expect(() => importLibrary('library.json', bundle, [])).toThrow(InterchangeError)
+    })
+  })
+
+  describe.each(['paprika', 'mealie', 'tandoor', 'markdown'] as const)('%s round trip', format => {
+    it('should bring back the recipe with new ids and the same ingredients', () => {
+      const { data } = roundTrip(format)
+      const [recipe] = data.recipes
+
+      expect(recipe.id).not.toBe('r1')
+      expect(recipe).toMatchObject({
+        title: 'Crêpes',
+        instructions: ['Whisk everything.', 'Fry thin crêpes.'],
+        prepTime: 10,
+        cookTime: 20,
+        servings: 4,
+        tags: ['breakfast', 'french'],
+      })
+      expect(recipe.description.startsWith('Thin pancakes')).toBe(true)
+      expect(recipe.ingredients).toEqual([
+        { ingredientId: 'flour', quantity: 250, unit: 'g', notes: 'sifted' },
+        { ingredientId: 'egg', quantity: 3, unit: '', notes: undefined },
+        { ingredientId: 'milk', quantity: 500, unit: 'ml', notes: undefined },
+      ])
+      expect(data.ingredients).toEqual([])
+    })
+
+    it('should create ingredients that are not in the registry', () => {
+      const { data, report } = roundTrip(format, [])
+
+      expect(data.ingredients.map(ingredient => ingredient.name)).toEqual(['Flour', 'Egg', 'Milk'])
+      expect(data.ingredients[0]).toMatchObject({ id: 'uuid-1', category: 'Other', defaultUnit: 'g' })
+      expect(data.recipes[0].ingredients[0].ingredientId).toBe('uuid-1')
+      expect(report.ingredientCount).toBe(3)
+    })
+
+    it('should bring back a matching ingredient from the trash', () => {
+      const trashedMilk = { ...ingredients[2], deletedAt: new Date('2024-02-20T00:00:00Z') }
+      const { data } = roundTrip(format, [...ingredients.slice(0, 2), trashedMilk])
+
+      expect(data.recipes[0].ingredients[2].ingredientId).toBe('milk')
+      expect(data.ingredients).toEqual([ingredients[2]])
+    })
+
+    it('should report what the format cannot hold', () => {
+      const { report } = exportLibrary(format, library, now)
+      expect(report.issues).toContainEqual({
+        recipe: '',
+        field: 'ingredients',
+        message: 'Ingredient categories, alternative names and densities are not part of this format',
+      })
+    })
+  })
+
+  describe('Paprika', () => {
+    it('should write one gzipped recipe per archive entry', () => {
+      const { content, fileName } = exportLibrary('paprika', {
+        recipes: [createRecipe(), createRecipe({ id: 'r2' })],
+        ingredients,
+      }, now)
+
+      expect(fileName).toBe('recettier-library-2024-03-01.paprikarecipes')
+      expect(Object.keys(unzipSync(content as Uint8Array))).toEqual(['Crêpes.paprikarecipe', 'Crêpes (2).paprikarecipe'])
+    })
+
+    it('should report fields without a counterpart', () => {
+      const archive = zipSync({
+        'Soup.paprikarecipe': gzipSync(strToU8(JSON.stringify({
+          name: 'Soup',
+          ingredients: 'For the soup:\n1 l Milk\nSalt',
+          directions: '1. Heat the milk.\n2. Season.',
+          notes: 'Serve hot',
+          source_url: 'https://example.com/soup',
+          servings: 'Serves 2-3',
+          total_time: '1 hr 30 mins',
+          difficulty: 'Facile',
+          rating: 4,
+          photo_data: 'aGVsbG8=',
+          nutritional_info: '200 kcal',
+        }))),
+      })
+
+      const { data, report } = importLibrary('export.paprikarecipes', archive, ingredients, now)
+
+      expect(data.recipes[0]).toMatchObject({
+        title: 'Soup',
+        description: 'Notes: Serve hot\n\nSource: https://example.com/soup',
+        instructions: ['Heat the milk.', 'Season.'],
+        servings: 2,
+        prepTime: 0,
+        cookTime: 90,
+        difficulty: 'easy',
+      })
+      expect(data.recipes[0].ingredients[0]).toEqual({ ingredientId: 'milk', quantity: 1, unit: 'l', notes: undefined })
+      expect(report.issues.map(issue => issue.field)).toEqual([
+        'ingredients', 'ingredients', 'total_time', 'photo_data', 'rating', 'nutritional_info',
+      ])
+    })
+  })
+
+  describe('Mealie', () => {
+    it('should read unparsed ingredients, categories, notes and a page of results', () => {
+      const page = {
+        items: [{
+          name: 'Salad',
+          recipeYield: '2 servings',
+          prepTime: '15 minutes',
+          recipeIngredient: [
+            { quantity: 0, unit: null, food: null, note: '2 eggs, boiled', originalText: null },
+            { quantity: 0, unit: null, food: { name: 'Pepper' }, note: '' },
+          ],
+          recipeInstructions: [{ title: 'Dressing', text: 'Mix.' }],
+          tags: [{ name: 'light' }],
+          recipeCategory: [{ name: 'Starter' }, { name: 'light' }],
+          notes: [{ title: 'Tip', text: 'Chill first' }],
+          image: 'abc123',
+          extras: { difficulty: 'hard' },
+        }],
+      }
+
+      const { data, report } = importLibrary('salad.json', strToU8(JSON.stringify(page)), ingredients, now)
+
+      expect(data.recipes[0]).toMatchObject({
+        servings: 2,
+        prepTime: 15,
+        difficulty: 'hard',
+        description: 'Tip: Chill first',
+        instructions: ['Dressing: Mix.'],
+        tags: ['light', 'Starter'],
+      })
+      expect(data.recipes[0].ingredients[0]).toEqual({ ingredientId: 'egg', quantity: 2, unit: '', notes: 'boiled' })
+      expect(data.ingredients.map(ingredient => ingredient.name)).toEqual(['Pepper'])
+      expect(report.issues.map(issue => issue.field)).toEqual(['ingredients', 'image'])
+    })
+  })
+
+  describe('Tandoor', () => {
+    it('should flatten steps and drop ingredient headers', () => {
+      const recipe = {
+        name: 'Bread',
+        keywords: [{ name: 'baking' }],
+        working_time: 20,
+        waiting_time: 45,
+        servings: 1,
+        steps: [
+          { name: 'Knead', instruction: 'Knead well.', order: 1, ingredients: [] },
+          {
+            name: '',
+            instruction: 'Mix.',
+            order: 0,
+            ingredients: [
+              { is_header: true, note: 'Dough', food: null },
+              { food: { name: 'Flour' }, unit: { name: 'g' }, amount: 500, note: '' },
+              { food: { name: 'Salt' }, unit: null, amount: 0, no_amount: true, note: 'a pinch' },
+            ],
+          },
+        ],
+      }
+
+      const { data, report } = importLibrary('bread.json', strToU8(JSON.stringify(recipe)), ingredients, now)
+
+      expect(data.recipes[0]).toMatchObject({
+        instructions: ['Mix.', 'Knead: Knead well.'],
+        prepTime: 20,
+        cookTime: 45,
+        servings: 1,
+        tags: ['baking'],
+      })
+      expect(data.recipes[0].ingredients).toEqual([
+        { ingredientId: 'flour', quantity: 500, unit: 'g', notes: undefined },
+        { ingredientId: 'uuid-1', quantity: 1, unit: '', notes: 'a pinch' },
+      ])
+      expect(report.issues.map(issue => issue.message)).toEqual([
+        'Section heading "Dough" was dropped',
+        '"Salt" has no amount; 1 was used',
+      ])
+    })
+
+    it('should report the difficulty, which Tandoor has no field for', () => {
+      const { report } = exportLibrary('tandoor', library, now)
+      expect(report.issues[0]).toEqual({ recipe: 'Crêpes', field: 'difficulty', message: 'Tandoor has no difficulty; "medium" was not exported' })
+    })
+  })
+
+  describe('Markdown', () => {
+    it('should read several recipes with French headings', () => {
+      const markdown = [
+        '# Omelette',
+        '',
+        'Rapide.',
+        '',
+        '- **Portions :** 2',
+        '- **Temps de cuisson :** 5 min',
+        '- **Note:** 5 stars',
+        '',
+        '## Ingrédients',
+        '',
+        '* 3 oeufs',
+        '',
+        '## Préparation',
+        '',
+        '1. Battre les oeufs.',
+        '   Saler.',
+        '2. Cuire.',
+        '',
+        '---',
+        '',
+        '# Toast',
+        '## Variations',
+        'Anything goes.',
+      ].join('\n')
+      const withOeuf = [...ingredients, { id: 'oeuf', name: 'Oeuf', category: 'Dairy', defaultUnit: '', alternativeNames: [] }]
+
+      const { data, report } = importLibrary('recettes.md', strToU8(markdown), withOeuf, now)
+
+      expect(data.recipes.map(recipe => recipe.title)).toEqual(['Omelette', 'Toast'])
+      expect(data.recipes[0]).toMatchObject({
+        description: 'Rapide.\n- **Note:** 5 stars',
+        servings: 2,
+        cookTime: 5,
+        instructions: ['Battre les oeufs. Saler.', 'Cuire.'],
+      })
+      expect(data.recipes[0].ingredients).toEqual([{ ingredientId: 'oeuf', quantity: 3, unit: '', notes: undefined }])
+      expect(report.issues).toEqual([{ recipe: 'Toast', field: 'section', message: 'Section "Variations" was not imported' }])
+    })
+
+    it('should reject text without a recipe title', () => {
+      expect(() => importLibrary('notes.md', strToU8('Just some notes'), [])).toThrow(InterchangeError)
+    })
+  })
+
+  describe('Detection', () => {
+    it('should tell formats apart by name and content', () => {
+      expect(detectFormat('export.paprikarecipes', new Uint8Array([0x50, 0x4b]))).toBe('paprika')
+      expect(detectFormat('recipes.md', strToU8('# Hi'))).toBe('markdown')
+      expect(detectFormat('a.json', strToU8('{"format":"recettier","version":1}'))).toBe('recettier')
+      expect(detectFormat('a.json', strToU8('[{"name":"x","recipeIngredient":[]}]'))).toBe('mealie')
+      expect(detectFormat('a.json', strToU8('{"results":[{"name":"x","steps":[]}]}'))).toBe('tandoor')
+    })
+
+    it('should reject files it does not recognise', () => {
+      expect(() => detectFormat('a.json', strToU8('{"name":"x"}'))).toThrow('Unrecognised file')
+      expect(() => detectFormat('a.json', strToU8('not json'))).toThrow('The file is not valid JSON')
+    })
+  })
+
+  it('should read durations written in different ways', () => {
+    expect(parseDurationText('PT1H30M')).toBe(90)
+    expect(parseDurationText('1 hr 30 mins')).toBe(90)
+    expect(parseDurationText('1h30')).toBe(90)
+    expect(parseDurationText('2 heures')).toBe(120)
+    expect(parseDurationText('45')).toBe(45)
+    expect(parseDurationText(12)).toBe(12)
+    expect(parseDurationText('overnight')).toBeUndefined()
+  })
+})
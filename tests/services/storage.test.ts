@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Recipe } from '../../src/types'
+
+vi.mock('../../src/services/googleDrive', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/services/googleDrive')>()
+  return {
+    ...actual,
+    googleDriveService: {
+      listRecipes: vi.fn(),
+      getRecipe: vi.fn(),
+      createRecipe: vi.fn(),
+      updateRecipe: vi.fn(),
+      deleteRecipe: vi.fn(),
+      downloadMedia: vi.fn(),
+    },
+  }
+})
+
+import { GoogleDriveError, googleDriveService } from '../../src/services/googleDrive'
+import {
+  DriveStorageBackend,
+  MemoryStorageBackend,
+  StorageError,
+  createStorageBackend,
+  getStorageBackend,
+  setStorageBackend,
+} from '../../src/services/storage'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Quiche lorraine',
+  description: '',
+  ingredients: [],
+  instructions: ['Bake'],
+  prepTime: 15,
+  cookTime: 35,
+  servings: 6,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-03-01T00:00:00Z'),
+  updatedAt: new Date('2024-03-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('Storage backends', () => {
+  describe('MemoryStorageBackend', () => {
+    let backend: MemoryStorageBackend
+
+    beforeEach(() => {
+      backend = new MemoryStorageBackend()
+    })
+
+    it('should not require a Google account', () => {
+      expect(backend.type).toBe('memory')
+      expect(backend.requiresAuth).toBe(false)
+    })
+
+    it('should support the full CRUD cycle', async () => {
+      await backend.recipes.create(createRecipe())
+      expect(await backend.recipes.list()).toHaveLength(1)
+
+      await backend.recipes.update(createRecipe({ title: 'Quiche aux poireaux' }))
+      expect((await backend.recipes.get('r1'))?.title).toBe('Quiche aux poireaux')
+
+      await backend.recipes.delete('r1')
+      expect(await backend.recipes.get('r1')).toBeNull()
+    })
+
+    it('should raise StorageErrors with stable codes', async () => {
+      await expect(backend.recipes.update(createRecipe())).rejects.toMatchObject({ code: 'not_found' })
+
+      await backend.recipes.create(createRecipe())
+      await expect(backend.recipes.create(createRecipe())).rejects.toBeInstanceOf(StorageError)
+      await expect(backend.recipes.create(createRecipe())).rejects.toMatchObject({ code: 'already_exists' })
+    })
+
+    it('should store copies so callers cannot mutate stored data', async () => {
+      const recipe = createRecipe()
+      await backend.recipes.create(recipe)
+      recipe.title = 'Mutated'
+
+      const stored = await backend.recipes.get('r1')
+      expect(stored?.title).toBe('Quiche lorraine')
+      expect(stored?.createdAt).toBeInstanceOf(Date)
+    })
+
+    it('should accept seed data', async () => {
+      const seeded = new MemoryStorageBackend({ recipes: [createRecipe()] })
+      expect(await seeded.recipes.list()).toHaveLength(1)
+      expect(await seeded.ingredients.list()).toEqual([])
+    })
+  })
+
+  describe('DriveStorageBackend', () => {
+    it('should require a Google account', () => {
+      const backend = new DriveStorageBackend()
+      expect(backend.requiresAuth).toBe(true)
+    })
+
+    it('should translate Drive errors into StorageErrors', async () => {
+      vi.mocked(googleDriveService.updateRecipe).mockRejectedValue(new GoogleDriveError('missing', 404))
+      vi.mocked(googleDriveService.createRecipe).mockRejectedValue(new GoogleDriveError('exists', 409))
+      const backend = new DriveStorageBackend()
+
+      await expect(backend.recipes.update(createRecipe())).rejects.toMatchObject({ code: 'not_found' })
+      await expect(backend.recipes.create(createRecipe())).rejects.toMatchObject({ code: 'already_exists' })
+    })
+
+    it('should report network failures as unavailable', async () => {
+      vi.mocked(googleDriveService.listRecipes).mockRejectedValue(new TypeError('Failed to fetch'))
+      const backend = new DriveStorageBackend()
+
+      await expect(backend.recipes.list()).rejects.toMatchObject({ code: 'unavailable' })
+    })
+
+    it('should download media once and then serve it from the local cache', async () => {
+      const cached = new Map<string, Blob>()
+      const cache = {
+        get: async (id: string) => cached.get(id) ?? null,
+        put: async (id: string, blob: Blob) => void cached.set(id, blob),
+        delete: async (id: string) => void cached.delete(id),
+        clear: async () => cached.clear(),
+      }
+      const photo = new Blob(['photo'], { type: 'image/webp' })
+      vi.mocked(googleDriveService.downloadMedia).mockResolvedValue(photo)
+      const backend = new DriveStorageBackend(googleDriveService, cache)
+
+      expect(await backend.media.download('f1')).toBe(photo)
+      expect(await backend.media.download('f1')).toBe(photo)
+      expect(googleDriveService.downloadMedia).toHaveBeenCalledTimes(1)
+    })
+
+    it('should still download media when the local cache is unavailable', async () => {
+      const cache = {
+        get: () => Promise.reject(new Error('blocked')),
+        put: () => Promise.reject(new Error('blocked')),
+        delete: () => Promise.reject(new Error('blocked')),
+        clear: () => Promise.reject(new Error('blocked')),
+      }
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(googleDriveService.downloadMedia).mockResolvedValue(new Blob(['photo']))
+      const backend = new DriveStorageBackend(googleDriveService, cache)
+
+      await expect(backend.media.download('f1')).resolves.toBeInstanceOf(Blob)
+    })
+
+    it('should pass other errors through unchanged', async () => {
+      const forbidden = new GoogleDriveError('forbidden', 403)
+      vi.mocked(googleDriveService.listRecipes).mockRejectedValue(forbidden)
+      const backend = new DriveStorageBackend()
+
+      await expect(backend.recipes.list()).rejects.toBe(forbidden)
+    })
+  })
+
+  describe('Backend selection', () => {
+    it('should create backends by type', () => {
+      expect(createStorageBackend('memory').type).toBe('memory')
+      expect(createStorageBackend('indexeddb').type).toBe('indexeddb')
+      expect(createStorageBackend('drive').type).toBe('drive')
+    })
+
+    it('should allow replacing the active backend', () => {
+      const backend = new MemoryStorageBackend()
+      setStorageBackend(backend)
+
+      expect(getStorageBackend()).toBe(backend)
+    })
+  })
+})
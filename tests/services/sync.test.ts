@@ -0,0 +1,326 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { ChangeFeed, Recipe, ShoppingList } from '../../src/types'
+import { MemoryStorageBackend, StorageError } from '../../src/services/storage'
+import {
+  MemoryOutboxStore,
+  Outbox,
+  SyncedStorageBackend,
+  foldChange,
+  type OutboxEntry,
+} from '../../src/services/sync'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Ratatouille',
+  description: '',
+  ingredients: [],
+  instructions: ['Simmer'],
+  prepTime: 20,
+  cookTime: 60,
+  servings: 4,
+  difficulty: 'medium',
+  tags: [],
+  createdAt: new Date('2024-03-01T00:00:00Z'),
+  updatedAt: new Date('2024-03-01T00:00:00Z'),
+  ...overrides,
+})
+
+const createEntry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  collection: 'recipes',
+  operation: 'create',
+  id: 'r1',
+  entity: createRecipe(),
+  key: 'recipes/r1',
+  sequence: 1,
+  revision: 0,
+  ...overrides,
+})
+
+describe('Sync', () => {
+  describe('foldChange', () => {
+    it('should keep a create that has not been sent yet', () => {
+      const folded = foldChange(createEntry(), { collection: 'recipes', operation: 'update', id: 'r1', entity: createRecipe({ title: 'Edited' }) }, 2)
+
+      expect(folded).toMatchObject({ operation: 'create', sequence: 1, revision: 1, entity: { title: 'Edited' } })
+    })
+
+    it('should drop entities created and deleted before being sent', () => {
+      expect(foldChange(createEntry(), { collection: 'recipes', operation: 'delete', id: 'r1' }, 2)).toBeNull()
+    })
+
+    it('should send a delete when the create is already on its way', () => {
+      const folded = foldChange(createEntry(), { collection: 'recipes', operation: 'delete', id: 'r1' }, 2, true)
+
+      expect(folded?.operation).toBe('delete')
+    })
+
+    it('should turn a create after a delete into an update', () => {
+      const folded = foldChange(createEntry({ operation: 'delete', entity: undefined }), { collection: 'recipes', operation: 'create', id: 'r1', entity: createRecipe() }, 2)
+
+      expect(folded?.operation).toBe('update')
+    })
+  })
+
+  describe('SyncedStorageBackend', () => {
+    let remote: MemoryStorageBackend
+    let cache: MemoryStorageBackend
+    let outbox: Outbox
+    let backend: SyncedStorageBackend
+    let onLine: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+      onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true)
+      remote = new MemoryStorageBackend()
+      cache = new MemoryStorageBackend()
+      outbox = new Outbox(new MemoryOutboxStore())
+      backend = new SyncedStorageBackend(remote, cache, outbox)
+    })
+
+    afterEach(() => {
+      onLine.mockRestore()
+    })
+
+    it('should save changes locally while offline and send them once online', async () => {
+      onLine.mockReturnValue(false)
+      await backend.recipes.create(createRecipe())
+      await backend.recipes.update(createRecipe({ title: 'Edited offline' }))
+
+      expect(await remote.recipes.list()).toEqual([])
+      expect(await backend.recipes.list()).toEqual([expect.objectContaining({ title: 'Edited offline' })])
+      await vi.waitFor(() => expect(backend.sync.getStatus().pending).toEqual(['recipes/r1']))
+
+      onLine.mockReturnValue(true)
+      await backend.sync.flush()
+
+      expect(await remote.recipes.list()).toEqual([expect.objectContaining({ title: 'Edited offline' })])
+      expect(backend.sync.getStatus()).toMatchObject({ pending: [], error: null, isSyncing: false })
+      expect(backend.sync.getStatus().lastSyncedAt).toBeInstanceOf(Date)
+    })
+
+    it('should never send entities created and deleted offline', async () => {
+      onLine.mockReturnValue(false)
+      await backend.recipes.create(createRecipe())
+      await backend.recipes.delete('r1')
+      const create = vi.spyOn(remote.recipes, 'create')
+
+      onLine.mockReturnValue(true)
+      await backend.sync.flush()
+
+      expect(create).not.toHaveBeenCalled()
+      expect(await outbox.list()).toEqual([])
+    })
+
+    it('should lay pending changes over the remote list and cache the result', async () => {
+      await remote.recipes.create(createRecipe({ id: 'r1', title: 'Remote' }))
+      await remote.recipes.create(createRecipe({ id: 'r2' }))
+      await outbox.enqueue({ collection: 'recipes', operation: 'update', id: 'r1', entity: createRecipe({ title: 'Local' }) })
+      await outbox.enqueue({ collection: 'recipes', operation: 'delete', id: 'r2' })
+
+      const recipes = await backend.recipes.list()
+
+      expect(recipes).toEqual([expect.objectContaining({ id: 'r1', title: 'Local' })])
+      expect(await backend.recipes.listCached?.()).toEqual(recipes)
+    })
+
+    it('should answer from the cache when the remote is unreachable', async () => {
+      await cache.recipes.create(createRecipe({ title: 'Cached' }))
+      vi.spyOn(remote.recipes, 'list').mockRejectedValue(StorageError.unavailable('recipes'))
+
+      expect(await backend.recipes.list()).toEqual([expect.objectContaining({ title: 'Cached' })])
+    })
+
+    it('should stop sending when the remote is unreachable', async () => {
+      await outbox.enqueue({ collection: 'recipes', operation: 'create', id: 'r1', entity: createRecipe({ id: 'r1' }) })
+      await outbox.enqueue({ collection: 'recipes', operation: 'create', id: 'r2', entity: createRecipe({ id: 'r2' }) })
+      const create = vi.spyOn(remote.recipes, 'create').mockRejectedValue(StorageError.unavailable('recipes'))
+
+      await backend.sync.flush()
+
+      expect(create).toHaveBeenCalledTimes(1)
+      expect(backend.sync.getStatus()).toMatchObject({ pending: ['recipes/r1', 'recipes/r2'], error: null })
+    })
+
+    it('should report other failures, keep the change and send the rest', async () => {
+      await outbox.enqueue({ collection: 'recipes', operation: 'create', id: 'r1', entity: createRecipe({ id: 'r1' }) })
+      await outbox.enqueue({ collection: 'recipes', operation: 'create', id: 'r2', entity: createRecipe({ id: 'r2' }) })
+      vi.spyOn(remote.recipes, 'create').mockRejectedValueOnce(new Error('quota exceeded'))
+
+      await backend.sync.flush()
+
+      expect(await remote.recipes.get('r2')).not.toBeNull()
+      expect(backend.sync.getStatus().pending).toEqual(['recipes/r1'])
+      expect(backend.sync.getStatus().error).toContain('quota exceeded')
+    })
+
+    it('should recreate entities deleted on another device', async () => {
+      await outbox.enqueue({ collection: 'recipes', operation: 'update', id: 'r1', entity: createRecipe() })
+
+      await backend.sync.flush()
+
+      expect(await remote.recipes.get('r1')).not.toBeNull()
+    })
+
+    it('should update entities whose create already went through', async () => {
+      await remote.recipes.create(createRecipe())
+      await outbox.enqueue({ collection: 'recipes', operation: 'create', id: 'r1', entity: createRecipe({ title: 'Retried' }) })
+
+      await backend.sync.flush()
+
+      expect((await remote.recipes.get('r1'))?.title).toBe('Retried')
+    })
+
+    it('should merge edits made on another device', async () => {
+      await remote.recipes.create(createRecipe({ revision: 1 }))
+      await backend.recipes.list()
+      await remote.recipes.update(createRecipe({ description: 'From the laptop', revision: 2 }))
+      const changes = vi.fn()
+      backend.sync.subscribeToChanges(changes)
+
+      onLine.mockReturnValue(false)
+      await backend.recipes.update(createRecipe({ servings: 6, revision: 1 }))
+      onLine.mockReturnValue(true)
+      await backend.sync.flush()
+
+      const merged = expect.objectContaining({ description: 'From the laptop', servings: 6, revision: 3 })
+      expect(await remote.recipes.get('r1')).toEqual(merged)
+      expect(await cache.recipes.get('r1')).toEqual(merged)
+      expect(changes).toHaveBeenCalledWith({ collection: 'recipes', id: 'r1', entity: merged })
+      expect(backend.sync.getStatus().pending).toEqual([])
+    })
+
+    it('should hold back conflicting edits until they are resolved', async () => {
+      await remote.recipes.create(createRecipe({ revision: 1 }))
+      await backend.recipes.list()
+      await remote.recipes.update(createRecipe({ title: 'Theirs', revision: 2 }))
+
+      onLine.mockReturnValue(false)
+      await backend.recipes.update(createRecipe({ title: 'Mine', revision: 1 }))
+      onLine.mockReturnValue(true)
+      await backend.sync.flush()
+
+      expect((await remote.recipes.get('r1'))?.title).toBe('Theirs')
+      const [conflict] = backend.sync.getStatus().conflicts
+      expect(conflict).toMatchObject({ key: 'recipes/r1', fields: [{ field: 'title', local: 'Mine', remote: 'Theirs' }] })
+
+      await backend.sync.resolveConflict(conflict.key, { ...conflict.merged, title: 'Ours' } as Recipe)
+      await backend.sync.flush()
+
+      expect(await remote.recipes.get('r1')).toMatchObject({ title: 'Ours', revision: 3 })
+      expect(backend.sync.getStatus()).toMatchObject({ pending: [], conflicts: [] })
+    })
+
+    it('should adopt shopping lists saved offline by earlier versions', async () => {
+      const list: ShoppingList = {
+        id: 'l1',
+        name: 'Groceries',
+        items: [],
+        status: 'active',
+        createdAt: new Date('2024-02-02T00:00:00Z'),
+        updatedAt: new Date('2024-02-02T00:00:00Z'),
+      }
+      vi.mocked(localStorage.getItem).mockImplementation(key =>
+        key === 'recettier_pending_shopping_lists' ? JSON.stringify({ l1: list }) : null
+      )
+      onLine.mockReturnValue(false)
+      backend = new SyncedStorageBackend(remote, cache, outbox)
+
+      expect(await backend.shoppingLists.listCached?.()).toEqual([list])
+      expect(await outbox.keys()).toEqual(['shoppingLists/l1'])
+      expect(localStorage.removeItem).toHaveBeenCalledWith('recettier_pending_shopping_lists')
+      vi.mocked(localStorage.getItem).mockReset()
+    })
+
+    describe('Change feed', () => {
+      let changes: { [K in keyof ChangeFeed]: ReturnType<typeof vi.fn> }
+
+      beforeEach(() => {
+        changes = {
+          getCursor: vi.fn().mockResolvedValue('cursor-1'),
+          listChanges: vi.fn().mockResolvedValue({ changes: [], stale: [], cursor: 'cursor-2' }),
+        }
+        remote = Object.assign(new MemoryStorageBackend(), { changes })
+        backend = new SyncedStorageBackend(remote, cache, outbox)
+      })
+
+      it('should list a collection once and then only fetch what changed', async () => {
+        await remote.recipes.create(createRecipe({ id: 'r1' }))
+        await remote.recipes.create(createRecipe({ id: 'r2' }))
+        expect(await backend.recipes.list()).toHaveLength(2)
+
+        await remote.recipes.update(createRecipe({ id: 'r1', title: 'Edited elsewhere' }))
+        await remote.recipes.delete('r2')
+        changes.listChanges.mockResolvedValue({
+          changes: [
+            { collection: 'recipes', id: 'r1', removed: false },
+            { collection: 'recipes', id: 'r2', removed: true },
+          ],
+          stale: [],
+          cursor: 'cursor-2',
+        })
+        const list = vi.spyOn(remote.recipes, 'list')
+        const synced = vi.fn()
+        backend.sync.subscribeToChanges(synced)
+
+        expect(await backend.recipes.list()).toEqual([expect.objectContaining({ id: 'r1', title: 'Edited elsewhere' })])
+        expect(list).not.toHaveBeenCalled()
+        expect(changes.listChanges).toHaveBeenCalledWith('cursor-1')
+        expect(synced).toHaveBeenCalledWith({ collection: 'recipes', id: 'r2', entity: null })
+
+        await backend.recipes.list()
+        expect(changes.listChanges).toHaveBeenLastCalledWith('cursor-2')
+      })
+
+      it('should leave entities with pending changes to be merged when sent', async () => {
+        await remote.recipes.create(createRecipe())
+        await backend.recipes.list()
+        await remote.recipes.update(createRecipe({ title: 'Edited elsewhere' }))
+        changes.listChanges.mockResolvedValue({ changes: [{ collection: 'recipes', id: 'r1', removed: false }], stale: [], cursor: 'cursor-2' })
+        await cache.recipes.update(createRecipe({ title: 'Edited here' }))
+        await outbox.enqueue({ collection: 'recipes', operation: 'update', id: 'r1', entity: createRecipe({ title: 'Edited here' }) })
+
+        await backend.sync.pull()
+
+        expect((await cache.recipes.get('r1'))?.title).toBe('Edited here')
+      })
+
+      it('should list collections again when the feed cannot say what changed', async () => {
+        await backend.recipes.list()
+        await backend.ingredients.list()
+        const recipes = vi.spyOn(remote.recipes, 'list')
+        const ingredients = vi.spyOn(remote.ingredients, 'list')
+        changes.listChanges.mockResolvedValueOnce({ changes: [], stale: ['ingredients'], cursor: 'cursor-2' })
+
+        await backend.recipes.list()
+        await backend.ingredients.list()
+
+        expect(recipes).not.toHaveBeenCalled()
+        expect(ingredients).toHaveBeenCalledTimes(1)
+      })
+
+      it('should start over from a new cursor when the feed fails', async () => {
+        await backend.recipes.list()
+        const list = vi.spyOn(remote.recipes, 'list')
+        changes.listChanges.mockRejectedValueOnce(new Error('Invalid page token'))
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+        await backend.recipes.list()
+        await backend.recipes.list()
+
+        expect(list).toHaveBeenCalledTimes(2)
+        expect(changes.getCursor).toHaveBeenCalledTimes(2)
+        warn.mockRestore()
+      })
+    })
+
+    it('should drop the cache and outbox when cleared', async () => {
+      onLine.mockReturnValue(false)
+      await backend.recipes.create(createRecipe())
+
+      await backend.sync.clear()
+
+      expect(await backend.recipes.listCached?.()).toEqual([])
+      expect(await outbox.list()).toEqual([])
+      expect(backend.sync.getStatus().pending).toEqual([])
+    })
+  })
+})
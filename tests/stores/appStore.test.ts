@@ -0,0 +1,575 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Recipe, Ingredient, ShoppingList } from '../../src/types'
+import { MemoryStorageBackend, setStorageBackend } from '../../src/services/storage'
+import {
+  useAppStore,
+  selectRecipeById,
+  selectRecipeCount,
+  selectActiveShoppingListCount,
+} from '../../src/stores/appStore'
+import { withTrashedIngredients } from '../../src/utils/trash'
+import { validateRecipe } from '../../src/utils/recipeValidation'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Crêpes',
+  description: 'Thin pancakes',
+  ingredients: [],
+  instructions: ['Whisk', 'Fry'],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'easy',
+  tags: ['breakfast'],
+  createdAt: new Date('2024-02-02T00:00:00Z'),
+  updatedAt: new Date('2024-02-02T00:00:00Z'),
+  ...overrides,
+})
+
+const createIngredient = (overrides: Partial<Ingredient> = {}): Ingredient => ({
+  id: 'i1',
+  name: 'Flour',
+  category: 'baking',
+  defaultUnit: 'g',
+  alternativeNames: ['farine'],
+  ...overrides,
+})
+
+describe('App Store', () => {
+  let backend: MemoryStorageBackend
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend()
+    setStorageBackend(backend)
+    useAppStore.getState().reset()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('Loading', () => {
+    it('should load every collection from the storage backend', async () => {
+      await backend.recipes.create(createRecipe())
+      await backend.ingredients.create(createIngredient())
+
+      await useAppStore.getState().loadAll()
+
+      const state = useAppStore.getState()
+      expect(state.recipes).toHaveLength(1)
+      expect(state.ingredients).toHaveLength(1)
+      expect(state.shoppingLists).toEqual([])
+      expect(state.mealPlans).toEqual([])
+      expect(state.isLoading).toBe(false)
+      expect(state.error).toBeNull()
+    })
+
+    it('should report loading while requests are in flight', async () => {
+      const promise = useAppStore.getState().loadRecipes()
+      expect(useAppStore.getState().isLoading).toBe(true)
+
+      await promise
+      expect(useAppStore.getState().isLoading).toBe(false)
+    })
+
+    it('should record an error when loading fails', async () => {
+      vi.spyOn(backend.recipes, 'list').mockRejectedValue(new Error('offline'))
+
+      await useAppStore.getState().loadAll()
+
+      expect(useAppStore.getState().error).toBe('Failed to load recipes: offline')
+    })
+
+    it('should ignore loads that finish after a reset', async () => {
+      let resolveList: (recipes: Recipe[]) => void = () => {}
+      vi.spyOn(backend.recipes, 'list').mockReturnValue(new Promise(resolve => { resolveList = resolve }))
+
+      const loading = useAppStore.getState().loadRecipes()
+      useAppStore.getState().reset()
+      expect(useAppStore.getState().isLoading).toBe(false)
+
+      resolveList([createRecipe()])
+      await loading
+      expect(useAppStore.getState().recipes).toEqual([])
+      expect(useAppStore.getState().isLoading).toBe(false)
+    })
+  })
+
+  describe('Mutations', () => {
+    it('should create, update and delete through the backend', async () => {
+      const { createRecipe: create, updateRecipe, deleteRecipe } = useAppStore.getState()
+
+      await create(createRecipe())
+      expect(await backend.recipes.get('r1')).not.toBeNull()
+
+      await updateRecipe(createRecipe({ title: 'Crêpes Suzette' }))
+      expect((await backend.recipes.get('r1'))?.title).toBe('Crêpes Suzette')
+      expect(useAppStore.getState().recipes[0].title).toBe('Crêpes Suzette')
+
+      await deleteRecipe('r1')
+      expect((await backend.recipes.get('r1'))?.deletedAt).toBeInstanceOf(Date)
+      expect(useAppStore.getState().recipes).toEqual([])
+
+      await useAppStore.getState().purgeFromTrash('recipes', 'r1')
+      expect(await backend.recipes.get('r1')).toBeNull()
+    })
+
+    it('should delete recipe photos once they are replaced or the recipe is purged', async () => {
+      let counter = 0
+      crypto.randomUUID = () => `uuid-${++counter}` as ReturnType<typeof crypto.randomUUID>
+      const upload = async () => ({
+        id: await backend.media.upload('recipeImage', 'image.webp', new Blob(['image'])),
+        thumbnailId: await backend.media.upload('thumbnail', 'thumb.webp', new Blob(['thumb'])),
+      })
+      const first = await upload()
+      const second = await upload()
+      const { createRecipe: create, updateRecipe, deleteRecipe } = useAppStore.getState()
+
+      await create(createRecipe({ image: first }))
+      await updateRecipe(createRecipe({ image: second }))
+      await vi.waitFor(() => expect(backend.media.download(first.thumbnailId)).rejects.toMatchObject({ code: 'not_found' }))
+      await expect(backend.media.download(second.id)).resolves.toBeInstanceOf(Blob)
+
+      await deleteRecipe('r1')
+      await expect(backend.media.download(second.id)).resolves.toBeInstanceOf(Blob)
+
+      await useAppStore.getState().purgeFromTrash('recipes', 'r1')
+      await vi.waitFor(() => expect(backend.media.download(second.id)).rejects.toMatchObject({ code: 'not_found' }))
+    })
+
+    it('should move planned meals through the backend', async () => {
+      const { createMealPlan, updateMealPlan } = useAppStore.getState()
+      const plan = await createMealPlan({
+        id: 'p1',
+        date: '2024-02-05',
+        slot: 'dinner',
+        recipeId: 'r1',
+        servings: 4,
+        createdAt: new Date('2024-02-02T00:00:00Z'),
+        updatedAt: new Date('2024-02-02T00:00:00Z'),
+      })
+
+      await updateMealPlan({ ...plan, date: '2024-02-06', slot: 'lunch' })
+
+      expect(await backend.mealPlans.get('p1')).toMatchObject({ date: '2024-02-06', slot: 'lunch' })
+      expect(useAppStore.getState().mealPlans[0].date).toBe('2024-02-06')
+    })
+
+    it('should stamp updatedAt on update', async () => {
+      await useAppStore.getState().createRecipe(createRecipe())
+      const updated = await useAppStore.getState().updateRecipe(createRecipe({ title: 'New' }))
+
+      expect(updated.updatedAt.getTime()).toBeGreaterThan(new Date('2024-02-02T00:00:00Z').getTime())
+    })
+
+    it('should apply changes optimistically before the backend answers', async () => {
+      let release: () => void = () => {}
+      vi.spyOn(backend.recipes, 'create').mockImplementation(
+        recipe => new Promise(resolve => { release = () => resolve(recipe) })
+      )
+
+      const promise = useAppStore.getState().createRecipe(createRecipe())
+      expect(useAppStore.getState().recipes).toHaveLength(1)
+
+      release()
+      await promise
+    })
+
+    it('should roll back a failed create', async () => {
+      vi.spyOn(backend.recipes, 'create').mockRejectedValue(new Error('quota exceeded'))
+
+      await expect(useAppStore.getState().createRecipe(createRecipe())).rejects.toThrow('quota exceeded')
+
+      expect(useAppStore.getState().recipes).toEqual([])
+      expect(useAppStore.getState().error).toBe('Failed to create recipe: quota exceeded')
+    })
+
+    it('should restore the previous version when an update fails', async () => {
+      await useAppStore.getState().createRecipe(createRecipe())
+      vi.spyOn(backend.recipes, 'update').mockRejectedValue(new Error('network'))
+
+      await expect(useAppStore.getState().updateRecipe(createRecipe({ title: 'Broken' }))).rejects.toThrow()
+
+      expect(useAppStore.getState().recipes[0].title).toBe('Crêpes')
+    })
+
+    it('should put a recipe back when a delete fails', async () => {
+      await useAppStore.getState().createRecipe(createRecipe())
+      vi.spyOn(backend.recipes, 'update').mockRejectedValue(new Error('network'))
+
+      await expect(useAppStore.getState().deleteRecipe('r1')).rejects.toThrow()
+
+      expect(useAppStore.getState().recipes.map(recipe => recipe.id)).toEqual(['r1'])
+      expect(useAppStore.getState().trash.recipes).toEqual([])
+    })
+
+    it('should keep unrelated concurrent changes when rolling back', async () => {
+      vi.spyOn(backend.recipes, 'create').mockImplementation(async recipe => {
+        if (recipe.id === 'bad') throw new Error('rejected')
+        return recipe
+      })
+
+      await Promise.allSettled([
+        useAppStore.getState().createRecipe(createRecipe({ id: 'good' })),
+        useAppStore.getState().createRecipe(createRecipe({ id: 'bad' })),
+      ])
+
+      expect(useAppStore.getState().recipes.map(recipe => recipe.id)).toEqual(['good'])
+    })
+  })
+
+  describe('Ingredient registry', () => {
+    const seedReferences = async () => {
+      const store = useAppStore.getState()
+      await store.createIngredient(createIngredient())
+      await store.createIngredient(createIngredient({ id: 'i2', name: 'Plain flour', alternativeNames: [] }))
+      await store.createRecipe(createRecipe({
+        ingredients: [
+          { ingredientId: 'i2', quantity: 250, unit: 'g' },
+          { ingredientId: 'egg', quantity: 2, unit: 'piece' },
+        ],
+      }))
+      await store.createShoppingList({
+        id: 'l1',
+        name: 'Groceries',
+        items: [{ ingredientId: 'i2', quantity: 1, unit: 'kg', purchased: false }],
+        status: 'active',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+    }
+
+    it('should merge ingredients and rewrite every reference', async () => {
+      await seedReferences()
+
+      const { ingredient: merged, conflicts } = await useAppStore.getState().mergeIngredients('i1', ['i1', 'i2'])
+
+      expect(conflicts).toEqual({ recipes: [], shoppingLists: [] })
+      expect(merged.alternativeNames).toEqual(['farine', 'Plain flour'])
+      expect(await backend.ingredients.get('i2')).toBeNull()
+      expect((await backend.recipes.get('r1'))?.ingredients.map(row => row.ingredientId)).toEqual(['i1', 'egg'])
+      expect((await backend.shoppingLists.get('l1'))?.items[0].ingredientId).toBe('i1')
+      expect(useAppStore.getState().ingredients.map(ingredient => ingredient.id)).toEqual(['i1'])
+    })
+
+    it('should add up rows that end up on the same ingredient', async () => {
+      await seedReferences()
+      const store = useAppStore.getState()
+      await store.updateRecipe({
+        ...store.recipes[0],
+        ingredients: [...store.recipes[0].ingredients, { ingredientId: 'i1', quantity: 0.5, unit: 'kg' }],
+      })
+      await store.updateShoppingList({
+        ...store.shoppingLists[0],
+        items: [...store.shoppingLists[0].items, { ingredientId: 'i1', quantity: 2, unit: 'cup', purchased: false }],
+      })
+
+      const { conflicts } = await useAppStore.getState().mergeIngredients('i1', ['i2'])
+
+      expect((await backend.recipes.get('r1'))?.ingredients).toEqual([
+        { ingredientId: 'i1', quantity: 750, unit: 'g' },
+        { ingredientId: 'egg', quantity: 2, unit: 'piece' },
+      ])
+      expect((await backend.shoppingLists.get('l1'))?.items.map(item => item.unit)).toEqual(['kg', 'cup'])
+      expect(conflicts.recipes).toEqual([])
+      expect(conflicts.shoppingLists.map(list => list.id)).toEqual(['l1'])
+    })
+
+    it('should point references at the replacement when deleting', async () => {
+      await seedReferences()
+
+      await useAppStore.getState().deleteIngredient('i2', 'i1')
+
+      expect((await backend.recipes.get('r1'))?.ingredients[0].ingredientId).toBe('i1')
+      expect((await backend.shoppingLists.get('l1'))?.items[0].ingredientId).toBe('i1')
+    })
+
+    it('should remove references once an ingredient deleted without a replacement is purged', async () => {
+      await seedReferences()
+
+      await useAppStore.getState().deleteIngredient('i2')
+      expect((await backend.recipes.get('r1'))?.ingredients.map(row => row.ingredientId)).toEqual(['i2', 'egg'])
+
+      await useAppStore.getState().purgeFromTrash('ingredients', 'i2')
+      expect((await backend.recipes.get('r1'))?.ingredients.map(row => row.ingredientId)).toEqual(['egg'])
+      expect((await backend.shoppingLists.get('l1'))?.items).toEqual([])
+      expect(await backend.ingredients.get('i2')).toBeNull()
+    })
+
+    it('should still accept recipes that use an ingredient in the trash', async () => {
+      await seedReferences()
+      await useAppStore.getState().deleteIngredient('i2')
+
+      const { ingredients, trash, recipes } = useAppStore.getState()
+      const known = withTrashedIngredients(ingredients, trash.ingredients)
+      const edited = { ...recipes[0], title: 'Crêpes Suzette' }
+      // Row 0 uses the trashed ingredient; row 1 was never registered
+      const errors = validateRecipe(edited, new Set(known.map(ingredient => ingredient.id)))
+      expect(errors.ingredientRows?.[0]).toBeUndefined()
+      expect(errors.ingredientRows?.[1]).toEqual({ ingredientId: 'Unknown ingredient' })
+      expect(known.find(ingredient => ingredient.id === 'i2')?.name).toBe('Plain flour (in trash)')
+
+      await useAppStore.getState().updateRecipe(edited)
+      expect((await backend.recipes.get('r1'))?.title).toBe('Crêpes Suzette')
+    })
+
+    it('should remove references from trashed recipes when an ingredient is purged', async () => {
+      await seedReferences()
+      await useAppStore.getState().deleteRecipe('r1')
+      await useAppStore.getState().deleteIngredient('i2')
+
+      await useAppStore.getState().purgeFromTrash('ingredients', 'i2')
+
+      const stored = await backend.recipes.get('r1')
+      expect(stored?.ingredients.map(row => row.ingredientId)).toEqual(['egg'])
+      expect(stored?.deletedAt).toBeInstanceOf(Date)
+      expect(useAppStore.getState().trash.recipes[0].ingredients.map(row => row.ingredientId)).toEqual(['egg'])
+    })
+
+    it('should keep the ingredient when its references cannot be rewritten', async () => {
+      await seedReferences()
+      vi.spyOn(backend.recipes, 'update').mockRejectedValue(new Error('network'))
+
+      await expect(useAppStore.getState().deleteIngredient('i2', 'i1')).rejects.toThrow()
+
+      expect(await backend.ingredients.get('i2')).not.toBeNull()
+      expect(useAppStore.getState().recipes[0].ingredients[0].ingredientId).toBe('i2')
+    })
+
+    it('should save imported ingredients and replace recipes that already exist', async () => {
+      await useAppStore.getState().createRecipe(createRecipe())
+
+      await useAppStore.getState().importLibrary({
+        ingredients: [createIngredient()],
+        recipes: [
+          createRecipe({ title: 'Restored', ingredients: [{ ingredientId: 'i1', quantity: 100, unit: 'g' }] }),
+          createRecipe({ id: 'r2', title: 'Galettes' }),
+        ],
+      })
+
+      expect(await backend.ingredients.get('i1')).not.toBeNull()
+      expect((await backend.recipes.get('r1'))?.title).toBe('Restored')
+      expect(useAppStore.getState().recipes.map(recipe => recipe.title)).toEqual(['Restored', 'Galettes'])
+    })
+
+    it('should bring back imported ingredients that are in the trash', async () => {
+      await useAppStore.getState().createIngredient(createIngredient())
+      await useAppStore.getState().deleteIngredient('i1')
+
+      await useAppStore.getState().importLibrary({
+        ingredients: [createIngredient()],
+        recipes: [createRecipe({ ingredients: [{ ingredientId: 'i1', quantity: 100, unit: 'g' }] })],
+      })
+
+      const state = useAppStore.getState()
+      expect(state.ingredients.map(ingredient => ingredient.id)).toEqual(['i1'])
+      expect(state.trash.ingredients).toEqual([])
+      expect((await backend.ingredients.get('i1'))?.deletedAt).toBeUndefined()
+    })
+  })
+
+  describe('Trash', () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    it('should move deleted entities to the trash and offer to undo', async () => {
+      await useAppStore.getState().createRecipe(createRecipe())
+
+      await useAppStore.getState().deleteRecipe('r1')
+
+      const state = useAppStore.getState()
+      expect(state.recipes).toEqual([])
+      expect(state.trash.recipes.map(recipe => recipe.id)).toEqual(['r1'])
+      expect(state.lastTrashed).toEqual({ collection: 'recipes', id: 'r1' })
+    })
+
+    it('should restore an entity from the trash', async () => {
+      await useAppStore.getState().createRecipe(createRecipe())
+      await useAppStore.getState().deleteRecipe('r1')
+
+      await useAppStore.getState().restoreFromTrash('recipes', 'r1')
+
+      const state = useAppStore.getState()
+      expect(state.recipes.map(recipe => recipe.id)).toEqual(['r1'])
+      expect(state.trash.recipes).toEqual([])
+      expect(state.lastTrashed).toBeNull()
+      expect((await backend.recipes.get('r1'))?.deletedAt).toBeUndefined()
+    })
+
+    it('should keep trashed entities apart when loading', async () => {
+      await backend.recipes.create(createRecipe())
+      await backend.recipes.create(createRecipe({ id: 'r2', deletedAt: daysAgo(1) }))
+
+      await useAppStore.getState().loadRecipes()
+
+      expect(useAppStore.getState().recipes.map(recipe => recipe.id)).toEqual(['r1'])
+      expect(useAppStore.getState().trash.recipes.map(recipe => recipe.id)).toEqual(['r2'])
+    })
+
+    it('should purge everything when the trash is emptied', async () => {
+      await backend.recipes.create(createRecipe({ deletedAt: daysAgo(1) }))
+      await backend.ingredients.create(createIngredient({ deletedAt: daysAgo(2) }))
+      await useAppStore.getState().loadAll()
+
+      await useAppStore.getState().emptyTrash()
+
+      expect(await backend.recipes.list()).toEqual([])
+      expect(await backend.ingredients.list()).toEqual([])
+      expect(useAppStore.getState().trash.recipes).toEqual([])
+    })
+
+    it('should only purge what has been in the trash past the retention period', async () => {
+      await backend.recipes.create(createRecipe({ deletedAt: daysAgo(31) }))
+      await backend.recipes.create(createRecipe({ id: 'r2', deletedAt: daysAgo(5) }))
+      await useAppStore.getState().loadRecipes()
+
+      await useAppStore.getState().purgeExpiredTrash(30)
+
+      expect((await backend.recipes.list()).map(recipe => recipe.id)).toEqual(['r2'])
+      expect(useAppStore.getState().trash.recipes.map(recipe => recipe.id)).toEqual(['r2'])
+    })
+  })
+
+  describe('Pantry', () => {
+    const completedList = (overrides: Partial<ShoppingList> = {}): ShoppingList => ({
+      id: 'l1',
+      name: 'Groceries',
+      items: [
+        { ingredientId: 'i1', quantity: 500, unit: 'g', purchased: true },
+        { ingredientId: 'i2', quantity: 6, unit: 'piece', purchased: false },
+        { ingredientId: '', name: 'Candles', quantity: 1, unit: '', purchased: true },
+      ],
+      status: 'completed',
+      createdAt: new Date('2024-02-02T00:00:00Z'),
+      updatedAt: new Date('2024-02-02T00:00:00Z'),
+      ...overrides,
+    })
+
+    it('should add purchased items to the pantry when a list is completed', async () => {
+      await useAppStore.getState().createPantryItem({
+        id: 's1',
+        ingredientId: 'i1',
+        quantity: 1,
+        unit: 'kg',
+        createdAt: new Date('2024-02-01T00:00:00Z'),
+        updatedAt: new Date('2024-02-01T00:00:00Z'),
+      })
+      await useAppStore.getState().createShoppingList(completedList({ status: 'active' }))
+
+      const saved = await useAppStore.getState().updateShoppingList(completedList())
+
+      expect(saved.addedToPantry).toBe(true)
+      expect(await backend.pantryItems.list()).toEqual([
+        expect.objectContaining({ id: 's1', quantity: 1.5, unit: 'kg' }),
+      ])
+    })
+
+    it('should only restock once per list', async () => {
+      await useAppStore.getState().createShoppingList(completedList({ status: 'active' }))
+
+      const saved = await useAppStore.getState().updateShoppingList(completedList())
+      await useAppStore.getState().updateShoppingList({ ...saved, name: 'Renamed' })
+
+      expect(useAppStore.getState().pantryItems).toEqual([
+        expect.objectContaining({ ingredientId: 'i1', quantity: 500, unit: 'g' }),
+      ])
+    })
+
+    it('should not restock again after some pantry writes failed', async () => {
+      await useAppStore.getState().createPantryItem({
+        id: 's1',
+        ingredientId: 'i1',
+        quantity: 1,
+        unit: 'kg',
+        createdAt: new Date('2024-02-01T00:00:00Z'),
+        updatedAt: new Date('2024-02-01T00:00:00Z'),
+      })
+      const list = completedList({
+        items: [
+          { ingredientId: 'i1', quantity: 500, unit: 'g', purchased: true },
+          { ingredientId: 'i2', quantity: 6, unit: 'piece', purchased: true },
+        ],
+      })
+      await useAppStore.getState().createShoppingList({ ...list, status: 'active' })
+      vi.spyOn(backend.pantryItems, 'update').mockRejectedValueOnce(new Error('network'))
+
+      const saved = await useAppStore.getState().updateShoppingList(list)
+      await useAppStore.getState().updateShoppingList({ ...saved, name: 'Renamed' })
+
+      expect(saved.addedToPantry).toBe(true)
+      expect((await backend.shoppingLists.get('l1'))?.addedToPantry).toBe(true)
+      expect(useAppStore.getState().pantryItems).toEqual([
+        expect.objectContaining({ id: 's1', quantity: 1, unit: 'kg' }),
+        expect.objectContaining({ ingredientId: 'i2', quantity: 6, unit: 'piece' }),
+      ])
+    })
+
+    it('should not restock when the completed list cannot be saved', async () => {
+      await useAppStore.getState().createShoppingList(completedList({ status: 'active' }))
+      vi.spyOn(backend.shoppingLists, 'update').mockRejectedValueOnce(new Error('network'))
+
+      await expect(useAppStore.getState().updateShoppingList(completedList())).rejects.toThrow()
+
+      expect(useAppStore.getState().pantryItems).toEqual([])
+    })
+
+    it('should leave lists that are not completed alone', async () => {
+      await useAppStore.getState().createShoppingList(completedList({ status: 'draft' }))
+
+      const saved = await useAppStore.getState().updateShoppingList(completedList({ status: 'active' }))
+
+      expect(saved.addedToPantry).toBeUndefined()
+      expect(useAppStore.getState().pantryItems).toEqual([])
+    })
+  })
+
+  describe('Cached collections', () => {
+    it('should show the cached copy until the full list arrives', async () => {
+      let resolveList: (recipes: Recipe[]) => void = () => {}
+      Object.assign(backend.recipes, { listCached: vi.fn().mockResolvedValue([createRecipe({ title: 'Cached' })]) })
+      vi.spyOn(backend.recipes, 'list').mockReturnValue(new Promise(resolve => { resolveList = resolve }))
+
+      const loading = useAppStore.getState().loadRecipes()
+      await vi.waitFor(() => expect(useAppStore.getState().recipes[0]?.title).toBe('Cached'))
+
+      resolveList([createRecipe({ title: 'Fresh' })])
+      await loading
+      expect(useAppStore.getState().recipes[0].title).toBe('Fresh')
+    })
+
+    it('should wait for the full list when the cache cannot be read', async () => {
+      await backend.recipes.create(createRecipe())
+      Object.assign(backend.recipes, { listCached: vi.fn().mockRejectedValue(new Error('blocked')) })
+
+      await useAppStore.getState().loadRecipes()
+
+      expect(useAppStore.getState().recipes).toHaveLength(1)
+      expect(useAppStore.getState().error).toBeNull()
+    })
+  })
+
+  describe('Selectors', () => {
+    it('should derive counts and look up entities', async () => {
+      const store = useAppStore.getState()
+      await store.createRecipe(createRecipe())
+      await store.createShoppingList({
+        id: 'l1',
+        name: 'Groceries',
+        items: [],
+        status: 'active',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      await store.createShoppingList({
+        id: 'l2',
+        name: 'Last week',
+        items: [],
+        status: 'completed',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+
+      const state = useAppStore.getState()
+      expect(selectRecipeCount(state)).toBe(1)
+      expect(selectActiveShoppingListCount(state)).toBe(1)
+      expect(selectRecipeById('r1')(state)?.title).toBe('Crêpes')
+      expect(selectRecipeById('missing')(state)).toBeUndefined()
+    })
+  })
+})
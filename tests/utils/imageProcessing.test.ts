@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_SOURCE_IMAGE_BYTES,
+  fitWithin,
+  getImageExtension,
+  validateImageFile,
+} from '../../src/utils/imageProcessing'
+
+describe('Image Processing', () => {
+  describe('fitWithin', () => {
+    it('should scale the longest side down to the limit', () => {
+      expect(fitWithin(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 })
+      expect(fitWithin(3024, 4032, 480)).toEqual({ width: 360, height: 480 })
+    })
+
+    it('should never enlarge small images', () => {
+      expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 })
+    })
+
+    it('should keep at least one pixel on very thin images', () => {
+      expect(fitWithin(10000, 2, 480)).toEqual({ width: 480, height: 1 })
+    })
+  })
+
+  describe('validateImageFile', () => {
+    it('should accept common photo formats', () => {
+      expect(validateImageFile({ type: 'image/jpeg', size: 3_000_000 })).toBeNull()
+      expect(validateImageFile({ type: 'image/heic', size: 3_000_000 })).toBeNull()
+    })
+
+    it('should reject other files and oversized images', () => {
+      expect(validateImageFile({ type: 'application/pdf', size: 1000 })).toMatch(/JPEG/)
+      expect(validateImageFile({ type: 'image/png', size: MAX_SOURCE_IMAGE_BYTES + 1 })).toMatch(/smaller than 25 MB/)
+    })
+  })
+
+  it('should name files after the encoding the browser produced', () => {
+    expect(getImageExtension(new Blob([], { type: 'image/webp' }))).toBe('webp')
+    expect(getImageExtension(new Blob([], { type: 'image/jpeg' }))).toBe('jpg')
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseQuantity,
+  parseIngredientLine,
+  matchIngredient,
+  parseRecipeIngredient,
+} from '../../src/utils/ingredientParser'
+import type { Ingredient } from '../../src/types'
+
+const createIngredient = (id: string, name: string, alternativeNames: string[] = []): Ingredient => ({
+  id,
+  name,
+  category: 'Other',
+  defaultUnit: '',
+  alternativeNames,
+})
+
+const ingredients = [
+  createIngredient('flour', 'Flour', ['farine']),
+  createIngredient('garlic', 'Garlic', ['ail']),
+  createIngredient('egg', 'Egg', ['oeuf', 'œuf']),
+  createIngredient('olive-oil', "Huile d'olive", ['olive oil']),
+  createIngredient('tomato', 'Tomato', ['tomate']),
+  createIngredient('salt', 'Salt', ['sel']),
+]
+
+describe('Ingredient Parser', () => {
+  it('should parse numbers, fractions and number words', () => {
+    expect(parseQuantity('1 1/2')).toBe(1.5)
+    expect(parseQuantity('1½')).toBe(1.5)
+    expect(parseQuantity('1 ½')).toBe(1.5)
+    expect(parseQuantity('¾')).toBe(0.75)
+    expect(parseQuantity('0,5')).toBe(0.5)
+    expect(parseQuantity('deux')).toBe(2)
+    expect(parseQuantity('1/0')).toBeUndefined()
+  })
+
+  it('should split a full English line', () => {
+    expect(parseIngredientLine('1 ½ cups (200 g) all-purpose flour, sifted')).toEqual({
+      line: '1 ½ cups (200 g) all-purpose flour, sifted',
+      quantity: 1.5,
+      unit: 'cup',
+      name: 'all-purpose flour',
+      notes: 'sifted',
+      alternative: { quantity: 200, unit: 'g' },
+    })
+  })
+
+  it('should read ranges', () => {
+    expect(parseIngredientLine('2-3 cloves garlic')).toMatchObject({ quantity: 2, quantityMax: 3, unit: 'clove', name: 'garlic' })
+    expect(parseIngredientLine('2 to 3 eggs')).toMatchObject({ quantity: 2, quantityMax: 3, name: 'eggs' })
+    expect(parseIngredientLine('2 à 3 œufs')).toMatchObject({ quantity: 2, quantityMax: 3, name: 'œufs' })
+  })
+
+  it('should read French lines', () => {
+    expect(parseIngredientLine("2 c. à soupe d'huile d'olive")).toMatchObject({ quantity: 2, unit: 'tbsp', name: "huile d'olive" })
+    expect(parseIngredientLine('3 gousses d’ail, hachées')).toMatchObject({ quantity: 3, unit: 'clove', name: 'ail', notes: 'hachées' })
+    expect(parseIngredientLine('une pincée de sel')).toMatchObject({ quantity: 1, unit: 'pinch', name: 'sel' })
+    expect(parseIngredientLine('200g de farine')).toMatchObject({ quantity: 200, unit: 'g', name: 'farine' })
+    expect(parseIngredientLine('sel selon le goût')).toMatchObject({ quantity: undefined, name: 'sel', notes: 'selon le goût' })
+  })
+
+  it('should move sizes, containers and vague amounts to the right place', () => {
+    expect(parseIngredientLine('2 large eggs')).toMatchObject({ quantity: 2, unit: '', name: 'eggs', notes: 'large' })
+    expect(parseIngredientLine('1 (14 oz) can tomatoes')).toMatchObject({
+      quantity: 1,
+      unit: 'can',
+      name: 'tomatoes',
+      alternative: { quantity: 14, unit: 'oz' },
+    })
+    expect(parseIngredientLine('a few basil leaves')).toMatchObject({ quantity: undefined, name: 'a few basil leaves' })
+    expect(parseIngredientLine('half an onion')).toMatchObject({ quantity: 0.5, name: 'onion' })
+    expect(parseIngredientLine('Salt to taste')).toMatchObject({ name: 'Salt', notes: 'to taste' })
+  })
+
+  it('should match names through alternative names, plurals and shorter forms', () => {
+    expect(matchIngredient('all-purpose flour', ingredients)?.id).toBe('flour')
+    expect(matchIngredient('tomatoes', ingredients)?.id).toBe('tomato')
+    expect(matchIngredient('oeufs', ingredients)?.id).toBe('egg')
+    expect(matchIngredient("huile d'olive vierge extra", ingredients)?.id).toBe('olive-oil')
+    expect(matchIngredient('butter', ingredients)).toBeUndefined()
+  })
+
+  it('should build recipe ingredients with ranges and other amounts in the notes', () => {
+    expect(parseRecipeIngredient('1 ½ cups (200 g) flour, sifted', ingredients).ingredient).toEqual({
+      ingredientId: 'flour',
+      quantity: 1.5,
+      unit: 'cup',
+      notes: '200 g, sifted',
+    })
+    expect(parseRecipeIngredient('2-3 gousses d\'ail', ingredients).ingredient).toEqual({
+      ingredientId: 'garlic',
+      quantity: 3,
+      unit: 'clove',
+      notes: '2–3',
+    })
+
+    const unknown = parseRecipeIngredient('100 g butter', ingredients)
+    expect(unknown.match).toBeUndefined()
+    expect(unknown.ingredient).toEqual({ ingredientId: '', quantity: 100, unit: 'g', notes: '100 g butter' })
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import {
+  groupIngredientsByCategory,
+  ingredientMatches,
+  validateIngredient,
+  normalizeIngredientDraft,
+  mergeIngredientRecords,
+  replaceIngredientReferences,
+  combineIngredientRows,
+} from '../../src/utils/ingredientRegistry'
+import type { Ingredient } from '../../src/types'
+
+const createIngredient = (overrides: Partial<Ingredient> = {}): Ingredient => ({
+  id: 'i1',
+  name: 'Flour',
+  category: 'Baking',
+  defaultUnit: 'g',
+  alternativeNames: ['farine'],
+  ...overrides,
+})
+
+describe('Ingredient Registry', () => {
+  it('should group by category with names sorted and Other last', () => {
+    const groups = groupIngredientsByCategory([
+      createIngredient({ id: 'a', name: 'Salt', category: '' }),
+      createIngredient({ id: 'b', name: 'Sugar', category: 'Baking' }),
+      createIngredient({ id: 'c', name: 'Apple', category: 'Produce' }),
+      createIngredient({ id: 'd', name: 'butter', category: 'Baking' }),
+    ])
+
+    expect(groups.map(group => group.category)).toEqual(['Baking', 'Produce', 'Other'])
+    expect(groups[0].ingredients.map(ingredient => ingredient.name)).toEqual(['butter', 'Sugar'])
+  })
+
+  it('should search alternative names without case or accents', () => {
+    const cream = createIngredient({ name: 'Cream', alternativeNames: ['Crème fraîche'] })
+
+    expect(ingredientMatches(cream, 'creme FRAICHE')).toBe(true)
+    expect(ingredientMatches(cream, 'crea')).toBe(true)
+    expect(ingredientMatches(cream, 'milk')).toBe(false)
+    expect(ingredientMatches(cream, ' ')).toBe(true)
+  })
+
+  it('should reject empty and duplicate names', () => {
+    const existing = [createIngredient()]
+
+    expect(validateIngredient({ ...createIngredient(), name: ' ' }, existing).name).toBe('Name is required')
+    expect(validateIngredient({ ...createIngredient({ id: 'i2' }), name: 'flour' }, existing).name).toBeDefined()
+    expect(validateIngredient(createIngredient(), existing, 'i1')).toEqual({})
+  })
+
+  it('should require a positive density when one is given', () => {
+    expect(validateIngredient(createIngredient({ density: 0 }), [], 'i1').density).toBeDefined()
+    expect(validateIngredient(createIngredient({ density: NaN }), [], 'i1').density).toBeDefined()
+    expect(validateIngredient(createIngredient({ density: 0.53 }), [], 'i1')).toEqual({})
+  })
+
+  it('should validate piece weights and nutrition values', () => {
+    const nutrition = { kcal: 364, protein: 10.3, fat: 1, carbs: 76.3, fiber: 2.7, sodium: 2 }
+
+    expect(validateIngredient(createIngredient({ pieceWeight: 0 }), [], 'i1').pieceWeight).toBeDefined()
+    expect(validateIngredient(createIngredient({ nutrition: { ...nutrition, fat: NaN } }), [], 'i1').nutrition).toBeDefined()
+    expect(validateIngredient(createIngredient({ pieceWeight: 50, nutrition }), [], 'i1')).toEqual({})
+  })
+
+  it('should normalize drafts and drop duplicate alternative names', () => {
+    expect(normalizeIngredientDraft({
+      name: ' Flour ',
+      category: ' ',
+      defaultUnit: ' g ',
+      alternativeNames: ['flour', 'Farine', ' farine ', ''],
+    })).toEqual({ name: 'Flour', category: 'Other', defaultUnit: 'g', alternativeNames: ['Farine'] })
+  })
+
+  it('should fold merged names into the target', () => {
+    const merged = mergeIngredientRecords(createIngredient(), [
+      createIngredient({ id: 'i2', name: 'Plain flour', alternativeNames: ['Farine', 'AP flour'] }),
+    ])
+
+    expect(merged.id).toBe('i1')
+    expect(merged.alternativeNames).toEqual(['farine', 'Plain flour', 'AP flour'])
+  })
+
+  it('should keep a known density when merging', () => {
+    const merged = mergeIngredientRecords(createIngredient(), [createIngredient({ id: 'i2', density: 0.53 })])
+    expect(merged.density).toBe(0.53)
+  })
+
+  it('should rewrite or drop references', () => {
+    const rows = [
+      { ingredientId: 'a', quantity: 1 },
+      { ingredientId: 'b', quantity: 2 },
+    ]
+
+    expect(replaceIngredientReferences(rows, new Set(['a']), 'c')).toEqual([
+      { ingredientId: 'c', quantity: 1 },
+      { ingredientId: 'b', quantity: 2 },
+    ])
+    expect(replaceIngredientReferences(rows, new Set(['a']), null)).toEqual([{ ingredientId: 'b', quantity: 2 }])
+    expect(replaceIngredientReferences(rows, new Set(['z']), 'c')).toBe(rows)
+  })
+
+  it('should add up rows for the same ingredient when their units convert', () => {
+    const rows = [
+      { ingredientId: 'a', quantity: 1, unit: 'kg' },
+      { ingredientId: 'b', quantity: 2, unit: 'piece' },
+      { ingredientId: 'a', quantity: 250, unit: 'g' },
+    ]
+
+    expect(combineIngredientRows(rows, 'a')).toEqual({
+      rows: [
+        { ingredientId: 'a', quantity: 1.25, unit: 'kg' },
+        { ingredientId: 'b', quantity: 2, unit: 'piece' },
+      ],
+      hasConflict: false,
+    })
+  })
+
+  it('should keep and flag rows whose units do not convert', () => {
+    const rows = [
+      { ingredientId: 'a', quantity: 200, unit: 'g' },
+      { ingredientId: 'a', quantity: 1, unit: 'cup' },
+    ]
+
+    expect(combineIngredientRows(rows, 'a')).toEqual({ rows, hasConflict: true })
+    expect(combineIngredientRows(rows, 'a', 0.5).rows).toEqual([{ ingredientId: 'a', quantity: 318.29, unit: 'g' }])
+  })
+
+  it('should leave rows apart that the caller does not want combined', () => {
+    const rows = [
+      { ingredientId: 'a', quantity: 200, unit: 'g', notes: 'dough' },
+      { ingredientId: 'a', quantity: 1, unit: 'cup', notes: 'glaze' },
+    ]
+
+    expect(combineIngredientRows(rows, 'a', undefined, (x, y) => x.notes === y.notes)).toEqual({
+      rows,
+      hasConflict: false,
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addDays,
+  addMonths,
+  countUpcomingMeals,
+  createMealPlan,
+  generatePlanShoppingList,
+  getMealsInRange,
+  getMonthWeeks,
+  getWeekDays,
+  parseDateKey,
+  startOfWeek,
+  toDateKey,
+} from '../../src/utils/mealPlanning'
+import type { MealPlan, Recipe } from '../../src/types'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Crêpes',
+  description: '',
+  ingredients: [
+    { ingredientId: 'flour', quantity: 250, unit: 'g' },
+    { ingredientId: 'egg', quantity: 3, unit: 'piece' },
+  ],
+  instructions: ['Whisk', 'Fry'],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+const createPlan = (overrides: Partial<MealPlan> = {}): MealPlan => ({
+  id: 'p1',
+  date: '2024-02-05',
+  slot: 'dinner',
+  recipeId: 'r1',
+  servings: 4,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('Meal planning', () => {
+  describe('Dates', () => {
+    it('should round-trip day keys in local time', () => {
+      expect(toDateKey(new Date(2024, 1, 5, 23, 30))).toBe('2024-02-05')
+      expect(toDateKey(parseDateKey('2024-12-31'))).toBe('2024-12-31')
+    })
+
+    it('should add days and months across boundaries', () => {
+      expect(addDays('2024-02-28', 2)).toBe('2024-03-01')
+      expect(addDays('2024-01-01', -1)).toBe('2023-12-31')
+      expect(addMonths('2024-01-31', 1)).toBe('2024-02-01')
+      expect(addMonths('2024-01-15', -1)).toBe('2023-12-01')
+    })
+
+    it('should start weeks on Monday', () => {
+      expect(startOfWeek('2024-02-07')).toBe('2024-02-05')
+      expect(startOfWeek('2024-02-11')).toBe('2024-02-05')
+      expect(getWeekDays('2024-02-05')).toEqual([
+        '2024-02-05', '2024-02-06', '2024-02-07', '2024-02-08', '2024-02-09', '2024-02-10', '2024-02-11',
+      ])
+    })
+
+    it('should cover a month with whole weeks', () => {
+      const weeks = getMonthWeeks('2024-02-14')
+
+      expect(weeks).toHaveLength(5)
+      expect(weeks[0][0]).toBe('2024-01-29')
+      expect(weeks[4][6]).toBe('2024-03-03')
+      expect(weeks.every(week => week.length === 7)).toBe(true)
+    })
+  })
+
+  describe('Plans', () => {
+    it('should list meals in a range by day then slot', () => {
+      const plans = [
+        createPlan({ id: 'late', date: '2024-02-06', slot: 'breakfast' }),
+        createPlan({ id: 'dinner', date: '2024-02-05', slot: 'dinner' }),
+        createPlan({ id: 'lunch', date: '2024-02-05', slot: 'lunch' }),
+        createPlan({ id: 'outside', date: '2024-02-12' }),
+      ]
+
+      expect(getMealsInRange(plans, '2024-02-05', '2024-02-11').map(plan => plan.id))
+        .toEqual(['lunch', 'dinner', 'late'])
+    })
+
+    it('should count meals from today onwards', () => {
+      const plans = [createPlan({ date: '2024-02-04' }), createPlan({ date: '2024-02-05' }), createPlan({ date: '2024-03-01' })]
+
+      expect(countUpcomingMeals(plans, '2024-02-05')).toBe(2)
+    })
+
+    it('should create plans with timestamps', () => {
+      const now = new Date('2024-02-01T08:00:00Z')
+      const plan = createMealPlan({ date: '2024-02-05', slot: 'lunch', recipeId: 'r1', servings: 2 }, now)
+
+      expect(plan).toMatchObject({ date: '2024-02-05', slot: 'lunch', servings: 2, createdAt: now, updatedAt: now })
+      expect(plan.id).toBeTruthy()
+    })
+  })
+
+  describe('Shopping list', () => {
+    it('should aggregate the planned servings of every meal in the range', () => {
+      const plans = [
+        createPlan({ id: 'p1', date: '2024-02-05', servings: 4 }),
+        createPlan({ id: 'p2', date: '2024-02-07', servings: 2 }),
+        createPlan({ id: 'p3', date: '2024-02-20', servings: 4 }),
+      ]
+
+      const list = generatePlanShoppingList(plans, [createRecipe()], '2024-02-05', '2024-02-11')
+
+      expect(list.status).toBe('draft')
+      expect(list.name).toMatch(/^Meals /)
+      expect(list.items).toEqual([
+        expect.objectContaining({ ingredientId: 'flour', quantity: 375, unit: 'g', purchased: false }),
+        expect.objectContaining({ ingredientId: 'egg', quantity: 4.5, unit: 'piece' }),
+      ])
+    })
+
+    it('should skip meals whose recipe was deleted', () => {
+      const plans = [createPlan(), createPlan({ id: 'p2', recipeId: 'gone' })]
+
+      const list = generatePlanShoppingList(plans, [createRecipe()], '2024-02-05', '2024-02-05', { name: ' Monday ' })
+
+      expect(list.name).toBe('Monday')
+      expect(list.items.find(item => item.ingredientId === 'flour')?.quantity).toBe(250)
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { isEqual, mergeEntity, resolveConflicts } from '../../src/utils/merge'
+import type { ShoppingList } from '../../src/types'
+
+const createList = (overrides: Partial<ShoppingList> = {}): ShoppingList => ({
+  id: 'l1',
+  name: 'Groceries',
+  items: [
+    { ingredientId: 'flour', quantity: 1, unit: 'kg', purchased: false },
+    { ingredientId: 'milk', quantity: 1, unit: 'l', purchased: false },
+    { ingredientId: '', name: 'Candles', quantity: 1, unit: 'piece', purchased: false },
+  ],
+  status: 'active',
+  createdAt: new Date('2024-02-02T00:00:00Z'),
+  updatedAt: new Date('2024-02-02T00:00:00Z'),
+  revision: 3,
+  ...overrides,
+})
+
+const tick = (list: ShoppingList, index: number, changes = {}) => ({
+  ...list,
+  items: list.items.map((item, i) => (i === index ? { ...item, purchased: true, ...changes } : item)),
+})
+
+describe('Merge Utils', () => {
+  describe('isEqual', () => {
+    it('should compare dates, arrays and nested objects by value', () => {
+      expect(isEqual(createList(), createList())).toBe(true)
+      expect(isEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true)
+      expect(isEqual(createList(), createList({ updatedAt: new Date('2024-02-03T00:00:00Z') }))).toBe(false)
+      expect(isEqual([1, 2], [2, 1])).toBe(false)
+    })
+  })
+
+  describe('mergeEntity', () => {
+    it('should combine changes to different fields', () => {
+      const base = createList()
+      const { merged, conflicts } = mergeEntity(base, { ...base, name: 'Weekend' }, { ...base, status: 'completed', revision: 4 })
+
+      expect(conflicts).toEqual([])
+      expect(merged).toMatchObject({ name: 'Weekend', status: 'completed', revision: 4 })
+    })
+
+    it('should combine items ticked off on different devices', () => {
+      const base = createList()
+      const { merged, conflicts } = mergeEntity(base, tick(base, 0), tick(base, 1))
+
+      expect(conflicts).toEqual([])
+      expect(merged.items.map(item => item.purchased)).toEqual([true, true, false])
+    })
+
+    it('should combine changes to different fields of the same item', () => {
+      const base = createList()
+      const remote = { ...base, items: base.items.map((item, i) => (i === 0 ? { ...item, quantity: 2 } : item)) }
+      const { merged, conflicts } = mergeEntity(base, tick(base, 0), remote)
+
+      expect(conflicts).toEqual([])
+      expect(merged.items[0]).toMatchObject({ quantity: 2, purchased: true })
+    })
+
+    it('should keep items added and drop items removed on either side', () => {
+      const base = createList()
+      const local = { ...base, items: [...base.items, { ingredientId: 'eggs', quantity: 6, unit: 'piece', purchased: false }] }
+      const remote = { ...base, items: base.items.filter(item => item.ingredientId !== 'milk') }
+      const { merged, conflicts } = mergeEntity(base, local, remote)
+
+      expect(conflicts).toEqual([])
+      expect(merged.items.map(item => item.ingredientId || item.name)).toEqual(['flour', 'Candles', 'eggs'])
+    })
+
+    it('should report fields changed on both sides', () => {
+      const base = createList()
+      const { merged, conflicts } = mergeEntity(base, { ...base, name: 'Mine' }, { ...base, name: 'Theirs' })
+
+      expect(conflicts).toEqual([{ field: 'name', local: 'Mine', remote: 'Theirs' }])
+      expect(merged.name).toBe('Mine')
+    })
+
+    it('should report the same item changed on both sides', () => {
+      const base = createList()
+      const { conflicts } = mergeEntity(base, tick(base, 2, { quantity: 2 }), tick(base, 2, { quantity: 3 }))
+
+      expect(conflicts).toEqual([expect.objectContaining({ field: 'items', key: 'name:candles' })])
+    })
+
+    it('should report an item edited on one side and removed on the other', () => {
+      const base = createList()
+      const remote = { ...base, items: base.items.slice(1) }
+      const { conflicts } = mergeEntity(base, tick(base, 0), remote)
+
+      expect(conflicts).toEqual([expect.objectContaining({ field: 'items', key: 'flour', remote: undefined })])
+    })
+
+    it('should keep the latest update time', () => {
+      const base = createList()
+      const later = new Date('2024-02-05T00:00:00Z')
+      const { merged } = mergeEntity(base, { ...base, name: 'Mine' }, { ...base, status: 'draft', updatedAt: later })
+
+      expect(merged.updatedAt).toEqual(later)
+    })
+  })
+
+  describe('resolveConflicts', () => {
+    it('should apply the chosen version of each conflict', () => {
+      const base = createList()
+      const local = { ...tick(base, 0, { quantity: 2 }), name: 'Mine' }
+      const remote = { ...tick(base, 0, { quantity: 3 }), name: 'Theirs' }
+      const { merged, conflicts } = mergeEntity(base, local, remote)
+
+      const resolved = resolveConflicts(merged, conflicts, conflicts.map(conflict => (conflict.field === 'items' ? 'remote' : 'local')))
+
+      expect(resolved.name).toBe('Mine')
+      expect(resolved.items[0].quantity).toBe(3)
+    })
+
+    it('should remove items when the removal is chosen', () => {
+      const base = createList()
+      const { merged, conflicts } = mergeEntity(base, tick(base, 0), { ...base, items: base.items.slice(1) })
+
+      const resolved = resolveConflicts(merged, conflicts, ['remote'])
+
+      expect(resolved.items.map(item => item.ingredientId || item.name)).toEqual(['milk', 'Candles'])
+    })
+  })
+})
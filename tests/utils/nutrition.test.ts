@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateNutrition,
+  findNutritionReference,
+  formatNutrient,
+  getRowWeight,
+} from '../../src/utils/nutrition'
+import { NUTRITION_REFERENCES } from '../../src/utils/nutritionData'
+import type { Ingredient, Recipe } from '../../src/types'
+
+const flour: Ingredient = {
+  id: 'flour',
+  name: 'Flour',
+  category: 'Baking',
+  defaultUnit: 'g',
+  alternativeNames: ['farine'],
+  density: 0.5,
+  nutrition: { kcal: 400, protein: 10, fat: 1, carbs: 80, fiber: 3, sodium: 2 },
+}
+
+const egg: Ingredient = {
+  id: 'egg',
+  name: 'Egg',
+  category: 'Dairy & Eggs',
+  defaultUnit: 'piece',
+  alternativeNames: [],
+  pieceWeight: 50,
+  nutrition: { kcal: 140, protein: 12, fat: 10, carbs: 1, fiber: 0, sodium: 140 },
+}
+
+const saffron: Ingredient = { id: 'saffron', name: 'Saffron', category: 'Spices & Herbs', defaultUnit: 'pinch', alternativeNames: [] }
+
+const ingredientsById = new Map([flour, egg, saffron].map(ingredient => [ingredient.id, ingredient]))
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Crêpes',
+  description: '',
+  ingredients: [
+    { ingredientId: 'flour', quantity: 250, unit: 'g' },
+    { ingredientId: 'egg', quantity: 2, unit: 'piece' },
+  ],
+  instructions: ['Whisk', 'Fry'],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('Nutrition', () => {
+  describe('getRowWeight', () => {
+    it('should convert mass, volume and pieces to grams', () => {
+      expect(getRowWeight({ ingredientId: 'flour', quantity: 0.5, unit: 'kg' }, flour)).toBe(500)
+      expect(getRowWeight({ ingredientId: 'flour', quantity: 100, unit: 'ml' }, flour)).toBe(50)
+      expect(getRowWeight({ ingredientId: 'egg', quantity: 1, unit: 'dozen' }, egg)).toBe(600)
+    })
+
+    it('should count rows without a unit as pieces', () => {
+      expect(getRowWeight({ ingredientId: 'egg', quantity: 3, unit: '' }, egg)).toBe(150)
+      expect(getRowWeight({ ingredientId: 'flour', quantity: 3, unit: '' }, flour)).toBeNull()
+    })
+
+    it('should give up without a density or piece weight', () => {
+      expect(getRowWeight({ ingredientId: 'egg', quantity: 1, unit: 'cup' }, egg)).toBeNull()
+      expect(getRowWeight({ ingredientId: 'flour', quantity: 2, unit: 'piece' }, flour)).toBeNull()
+      expect(getRowWeight({ ingredientId: 'saffron', quantity: 1, unit: 'pinch' }, saffron)).toBeNull()
+    })
+  })
+
+  describe('calculateNutrition', () => {
+    it('should sum the recipe and divide by servings', () => {
+      const { total, perServing, gaps } = calculateNutrition(createRecipe(), ingredientsById)
+
+      expect(total).toEqual({ kcal: 1140, protein: 37, fat: 12.5, carbs: 201, fiber: 7.5, sodium: 145 })
+      expect(perServing.kcal).toBe(285)
+      expect(gaps).toEqual([])
+    })
+
+    it('should report rows left out of the totals', () => {
+      const recipe = createRecipe({
+        ingredients: [
+          { ingredientId: 'flour', quantity: 100, unit: 'g' },
+          { ingredientId: 'saffron', quantity: 1, unit: 'pinch' },
+          { ingredientId: 'egg', quantity: 1, unit: 'cup' },
+          { ingredientId: '', quantity: 1, unit: '', notes: 'a splash of rum' },
+        ],
+      })
+
+      const { total, gaps } = calculateNutrition(recipe, ingredientsById)
+
+      expect(total.kcal).toBe(400)
+      expect(gaps).toEqual([
+        { index: 1, name: 'Saffron', reason: 'no_profile' },
+        { index: 2, name: 'Egg', reason: 'no_weight' },
+        { index: 3, name: 'a splash of rum', reason: 'unknown_ingredient' },
+      ])
+    })
+  })
+
+  it('should format nutrients with sensible precision', () => {
+    expect(formatNutrient(284.6, 'kcal')).toBe('285 kcal')
+    expect(formatNutrient(3.14, 'fat')).toBe('3.1 g')
+    expect(formatNutrient(12.6, 'protein')).toBe('13 g')
+    expect(formatNutrient(141.2, 'sodium')).toBe('141 mg')
+  })
+
+  describe('Reference data', () => {
+    it('should match registry names and translations exactly', () => {
+      expect(findNutritionReference({ name: 'Farine', alternativeNames: [] })?.name).toBe('Flour')
+      expect(findNutritionReference({ name: 'Oeufs bio', alternativeNames: ['œuf'] })?.pieceWeight).toBe(50)
+      expect(findNutritionReference({ name: 'Chicken stock', alternativeNames: [] })).toBeUndefined()
+    })
+
+    it('should have complete, plausible profiles', () => {
+      for (const reference of NUTRITION_REFERENCES) {
+        const { kcal, protein, fat, carbs, fiber } = reference.nutrition
+        expect(Object.values(reference.nutrition).every(value => value >= 0)).toBe(true)
+        expect(protein + fat + carbs).toBeLessThanOrEqual(100.5)
+        expect(fiber).toBeLessThanOrEqual(carbs)
+        expect(kcal).toBeLessThanOrEqual(900)
+      }
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  addPurchasesToPantry,
+  getExpiringItems,
+  getExpiryStatus,
+  getUsableStock,
+} from '../../src/utils/pantry'
+import type { Ingredient, PantryItem, ShoppingListItem } from '../../src/types'
+
+const createStock = (overrides: Partial<PantryItem> = {}): PantryItem => ({
+  id: 's1',
+  ingredientId: 'flour',
+  quantity: 1,
+  unit: 'kg',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+const purchase = (overrides: Partial<ShoppingListItem> = {}): ShoppingListItem => ({
+  ingredientId: 'flour',
+  quantity: 500,
+  unit: 'g',
+  purchased: true,
+  ...overrides,
+})
+
+describe('Pantry', () => {
+  beforeEach(() => {
+    let counter = 0
+    crypto.randomUUID = () => `uuid-${++counter}` as ReturnType<typeof crypto.randomUUID>
+  })
+
+  describe('Expiry', () => {
+    const today = '2024-02-10'
+
+    it('should classify stock by its expiry date', () => {
+      expect(getExpiryStatus(createStock(), today)).toBe('fresh')
+      expect(getExpiryStatus(createStock({ expiresOn: '2024-02-09' }), today)).toBe('expired')
+      expect(getExpiryStatus(createStock({ expiresOn: '2024-02-10' }), today)).toBe('expiring')
+      expect(getExpiryStatus(createStock({ expiresOn: '2024-02-13' }), today)).toBe('expiring')
+      expect(getExpiryStatus(createStock({ expiresOn: '2024-02-14' }), today)).toBe('fresh')
+    })
+
+    it('should list expired and expiring stock soonest first', () => {
+      const pantry = [
+        createStock({ id: 'later', expiresOn: '2024-02-12' }),
+        createStock({ id: 'none' }),
+        createStock({ id: 'past', expiresOn: '2024-02-01' }),
+        createStock({ id: 'fresh', expiresOn: '2024-03-01' }),
+      ]
+
+      expect(getExpiringItems(pantry, today).map(item => item.id)).toEqual(['past', 'later'])
+      expect(getUsableStock(pantry, today).map(item => item.id)).toEqual(['later', 'none', 'fresh'])
+    })
+  })
+
+  describe('Restocking', () => {
+    const now = new Date('2024-02-10T18:00:00Z')
+
+    it('should add purchases to stock without an expiry date', () => {
+      const pantry = [createStock({ id: 'dated', expiresOn: '2024-03-01' }), createStock({ id: 'open' })]
+
+      const { updated, created } = addPurchasesToPantry(pantry, [purchase()], [], now)
+
+      expect(created).toEqual([])
+      expect(updated).toEqual([{ ...pantry[1], quantity: 1.5, updatedAt: now }])
+    })
+
+    it('should create entries for new ingredients and incompatible units', () => {
+      const items = [
+        purchase({ ingredientId: 'milk', quantity: 1, unit: 'l' }),
+        purchase({ ingredientId: 'milk', quantity: 50, unit: 'cl' }),
+        purchase({ quantity: 2, unit: 'piece' }),
+      ]
+
+      const { updated, created } = addPurchasesToPantry([createStock()], items, [], now)
+
+      expect(updated).toEqual([])
+      expect(created).toEqual([
+        expect.objectContaining({ id: 'uuid-1', ingredientId: 'milk', quantity: 1.5, unit: 'l', createdAt: now }),
+        expect.objectContaining({ id: 'uuid-2', ingredientId: 'flour', quantity: 2, unit: 'piece' }),
+      ])
+    })
+
+    it('should convert volumes using the ingredient density', () => {
+      const ingredients: Ingredient[] = [
+        { id: 'flour', name: 'Flour', category: 'baking', defaultUnit: 'g', alternativeNames: [], density: 0.5 },
+      ]
+
+      const { updated } = addPurchasesToPantry([createStock()], [purchase({ quantity: 1, unit: 'l' })], ingredients, now)
+
+      expect(updated[0].quantity).toBe(1.5)
+    })
+
+    it('should skip items not bought or not in the registry', () => {
+      const items = [purchase({ purchased: false }), purchase({ ingredientId: '', name: 'Foil' })]
+
+      expect(addPurchasesToPantry([], items, [], now)).toEqual({ updated: [], created: [] })
+    })
+  })
+})
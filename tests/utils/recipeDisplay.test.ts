@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { getDisplayIngredients, getRecipeSummary } from '../../src/utils/recipeDisplay'
+import type { Ingredient, Recipe } from '../../src/types'
+
+const flour: Ingredient = { id: 'flour', name: 'Flour', category: 'Baking', defaultUnit: 'g', alternativeNames: [] }
+
+const recipe: Recipe = {
+  id: 'r1',
+  title: 'Pancakes',
+  description: '',
+  ingredients: [
+    { ingredientId: 'flour', quantity: 0.3, unit: 'cup', notes: 'sifted' },
+    { ingredientId: 'gone', quantity: 2.6, unit: 'piece' },
+  ],
+  instructions: ['Whisk'],
+  prepTime: 10,
+  cookTime: 0,
+  servings: 1.5,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+}
+
+describe('Recipe Display', () => {
+  it('should round and format amounts in the preferred units', () => {
+    const byId = new Map([[flour.id, flour]])
+
+    expect(getDisplayIngredients(recipe, byId, 'original')).toEqual([
+      { key: 'flour-0', amount: '⅓ cup', name: 'Flour', notes: 'sifted' },
+      { key: 'gone-1', amount: '3 piece', name: 'Unknown ingredient', notes: undefined },
+    ])
+    expect(getDisplayIngredients(recipe, byId, 'metric')[0].amount).toBe('71 ml')
+  })
+
+  it('should summarise servings and times', () => {
+    expect(getRecipeSummary(recipe)).toBe('1½ servings · 10 min prep · easy')
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { diffRecipes, isEmptyDiff, restoreRecipeVersion } from '../../src/utils/recipeHistory'
+import type { Recipe } from '../../src/types'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Ratatouille',
+  description: 'Provençal vegetable stew',
+  ingredients: [
+    { ingredientId: 'zucchini', quantity: 2, unit: 'piece' },
+    { ingredientId: 'eggplant', quantity: 1, unit: 'piece' },
+  ],
+  instructions: ['Chop the vegetables', 'Fry them one by one', 'Simmer for an hour'],
+  prepTime: 20,
+  cookTime: 60,
+  servings: 4,
+  difficulty: 'medium',
+  tags: ['vegetarian'],
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-02T10:00:00Z'),
+  ...overrides,
+})
+
+describe('Recipe History Utils', () => {
+  describe('diffRecipes', () => {
+    it('should find nothing between identical versions', () => {
+      const diff = diffRecipes(createRecipe(), createRecipe({ updatedAt: new Date(), revision: 4 }))
+
+      expect(isEmptyDiff(diff)).toBe(true)
+    })
+
+    it('should list changed fields with both values', () => {
+      const diff = diffRecipes(createRecipe(), createRecipe({ title: 'Tian', tags: ['vegetarian', 'summer'] }))
+
+      expect(diff.fields).toEqual([
+        { field: 'title', before: 'Ratatouille', after: 'Tian' },
+        { field: 'tags', before: ['vegetarian'], after: ['vegetarian', 'summer'] },
+      ])
+    })
+
+    it('should match ingredients by ingredient rather than position', () => {
+      const before = createRecipe()
+      const after = createRecipe({
+        ingredients: [
+          { ingredientId: 'onion', quantity: 1, unit: 'piece' },
+          { ingredientId: 'zucchini', quantity: 3, unit: 'piece' },
+        ],
+      })
+
+      expect(diffRecipes(before, after).ingredients).toEqual([
+        { type: 'changed', before: before.ingredients[0], after: after.ingredients[1] },
+        { type: 'removed', before: before.ingredients[1] },
+        { type: 'added', after: after.ingredients[0] },
+      ])
+    })
+
+    it('should report an inserted step once', () => {
+      const after = createRecipe({ instructions: ['Chop the vegetables', 'Salt the eggplant', 'Fry them one by one', 'Simmer for an hour'] })
+
+      expect(diffRecipes(createRecipe(), after).instructions).toEqual([
+        { type: 'added', after: 'Salt the eggplant', step: 2 },
+      ])
+    })
+
+    it('should report edited and removed steps', () => {
+      const after = createRecipe({ instructions: ['Chop the vegetables finely', 'Simmer for an hour'] })
+
+      expect(diffRecipes(createRecipe(), after).instructions).toEqual([
+        { type: 'changed', before: 'Chop the vegetables', after: 'Chop the vegetables finely', step: 1 },
+        { type: 'removed', before: 'Fry them one by one', step: 2 },
+      ])
+    })
+  })
+
+  describe('restoreRecipeVersion', () => {
+    it('should take the content of the version and keep the identity of the current recipe', () => {
+      const current = createRecipe({ title: 'Tian', image: { id: 'img-2', thumbnailId: 'thumb-2' }, revision: 7 })
+      const version = createRecipe({ id: 'r1', title: 'Ratatouille', image: { id: 'img-1', thumbnailId: 'thumb-1' }, revision: 2 })
+
+      const restored = restoreRecipeVersion(current, version)
+
+      expect(restored).toMatchObject({ id: 'r1', title: 'Ratatouille', revision: 7 })
+      expect(restored.image).toEqual(current.image)
+      expect(restored.createdAt).toEqual(current.createdAt)
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseIsoDuration,
+  extractSchemaRecipe,
+  importRecipeFromHtml,
+  toRecipeDraft,
+  RecipeImportError,
+} from '../../src/utils/recipeImport'
+import type { Ingredient } from '../../src/types'
+
+const ingredients: Ingredient[] = [
+  { id: 'flour', name: 'Flour', category: 'Baking', defaultUnit: 'g', alternativeNames: ['all-purpose flour'] },
+  { id: 'egg', name: 'Egg', category: 'Dairy', defaultUnit: '', alternativeNames: [] },
+]
+
+const jsonLdPage = `
+<html><head>
+<script type="application/ld+json">{ not json }</script>
+<script type="application/ld+json">
+{
+  "@context": "https://schema.org",
+  "@graph": [
+    { "@type": "WebPage", "name": "Blog" },
+    {
+      "@type": ["Recipe", "NewsArticle"],
+      "name": "Crêpes &amp; jam",
+      "description": "<p>Thin pancakes</p>",
+      "image": [{ "@type": "ImageObject", "url": "https://example.com/crepes.jpg" }],
+      "prepTime": "PT15M",
+      "totalTime": "PT1H",
+      "recipeYield": ["4", "4 servings"],
+      "recipeCategory": "Dessert",
+      "keywords": "french, quick",
+      "recipeIngredient": ["250 g all-purpose flour, sifted", "3 eggs", "1 pinch of salt"],
+      "recipeInstructions": [
+        { "@type": "HowToSection", "name": "Batter", "itemListElement": [{ "@type": "HowToStep", "text": "Whisk everything." }] },
+        { "@type": "HowToStep", "text": "Fry thin crêpes." }
+      ]
+    }
+  ]
+}
+</script>
+</head><body></body></html>`
+
+const microdataPage = `
+<div itemscope itemtype="http://schema.org/Recipe">
+  <h1 itemprop="name">Omelette</h1>
+  <meta itemprop="cookTime" content="PT5M">
+  <span itemprop="recipeYield">Serves 2</span>
+  <div itemprop="author" itemscope itemtype="http://schema.org/Person"><span itemprop="name">Chef</span></div>
+  <li itemprop="recipeIngredient">2 eggs</li>
+  <div itemprop="recipeInstructions">Beat the eggs. Cook.</div>
+</div>`
+
+describe('Recipe Import', () => {
+  it('should parse ISO 8601 durations into minutes', () => {
+    expect(parseIsoDuration('PT1H30M')).toBe(90)
+    expect(parseIsoDuration('P0DT45M')).toBe(45)
+    expect(parseIsoDuration('PT90S')).toBe(2)
+    expect(parseIsoDuration('P1D')).toBe(1440)
+    expect(parseIsoDuration('45 minutes')).toBeUndefined()
+    expect(parseIsoDuration('PT')).toBeUndefined()
+  })
+
+  it('should map JSON-LD recipes and match ingredients', () => {
+    const recipe = importRecipeFromHtml(jsonLdPage, ingredients)
+
+    expect(recipe).toMatchObject({
+      title: 'Crêpes & jam',
+      description: 'Thin pancakes',
+      imageUrl: 'https://example.com/crepes.jpg',
+      prepTime: 15,
+      cookTime: 45,
+      servings: 4,
+      tags: ['dessert', 'french', 'quick'],
+      instructions: ['Whisk everything.', 'Fry thin crêpes.'],
+    })
+    expect(recipe.ingredients).toEqual([
+      { line: '250 g all-purpose flour, sifted', quantity: 250, unit: 'g', name: 'all-purpose flour', notes: 'sifted', ingredientId: 'flour' },
+      { line: '3 eggs', quantity: 3, unit: '', name: 'eggs', notes: undefined, ingredientId: 'egg' },
+      { line: '1 pinch of salt', quantity: 1, unit: 'pinch', name: 'salt', notes: undefined, ingredientId: undefined },
+    ])
+  })
+
+  it('should fall back to microdata', () => {
+    const data = extractSchemaRecipe(microdataPage)
+    expect(data?.name).toBe('Omelette')
+
+    const recipe = importRecipeFromHtml(microdataPage, ingredients)
+    expect(recipe).toMatchObject({ title: 'Omelette', cookTime: 5, servings: 2, instructions: ['Beat the eggs. Cook.'] })
+    expect(recipe.ingredients[0].ingredientId).toBe('egg')
+  })
+
+  it('should reject pages without a recipe', () => {
+    expect(() => importRecipeFromHtml('<p>Hello</p>', ingredients)).toThrow(RecipeImportError)
+  })
+
+  it('should keep unmatched lines in the notes of the draft', () => {
+    const recipe = importRecipeFromHtml(jsonLdPage, ingredients)
+
+    expect(toRecipeDraft(recipe).ingredients?.[2]).toEqual({ ingredientId: '', quantity: 1, unit: 'pinch', notes: '1 pinch of salt' })
+    expect(toRecipeDraft(recipe, new Map([['1 pinch of salt', 'salt']])).ingredients?.[2].ingredientId).toBe('salt')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { buildCookbookPdf, buildRecipePdf, getPdfFileName, toPdfText } from '../../src/utils/recipePdf'
+import type { Recipe } from '../../src/types'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Crêpes',
+  description: 'Thin pancakes',
+  ingredients: [{ ingredientId: 'flour', quantity: 250, unit: 'g' }],
+  instructions: ['Whisk', 'Fry'],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'easy',
+  tags: ['french'],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+const options = {
+  ingredients: [{ id: 'flour', name: 'Flour', category: 'Baking', defaultUnit: 'g', alternativeNames: [] }],
+  unitPreference: 'original' as const,
+}
+
+describe('Recipe PDF', () => {
+  it('should replace characters the PDF fonts cannot draw', () => {
+    expect(toPdfText('1⅓ cup')).toBe('1 1/3 cup')
+    expect(toPdfText('⅔ tasse d’œufs – ½')).toBe("2/3 tasse d'oeufs - ½")
+    expect(toPdfText('餃子')).toBe('??')
+  })
+
+  it('should name files after the title', () => {
+    expect(getPdfFileName('Crêpes Suzette!')).toBe('crepes-suzette.pdf')
+    expect(getPdfFileName('ひ')).toBe('recipes.pdf')
+  })
+
+  it('should fit a short recipe on one page', async () => {
+    const doc = await buildRecipePdf(createRecipe(), options)
+    expect(doc.getNumberOfPages()).toBe(1)
+  })
+
+  it('should flow long recipes onto more pages', async () => {
+    const instructions = Array.from({ length: 60 }, (_, index) => `Step ${index} `.repeat(20))
+    const doc = await buildRecipePdf(createRecipe({ instructions }), options)
+    expect(doc.getNumberOfPages()).toBeGreaterThan(1)
+  })
+
+  it('should build a cookbook with a cover, contents and one page per recipe', async () => {
+    const recipes = [createRecipe({ id: 'b', title: 'Tarte' }), createRecipe({ id: 'a', title: 'Crêpes' })]
+    const doc = await buildCookbookPdf(recipes, { ...options, title: 'French' })
+
+    expect(doc.getNumberOfPages()).toBe(4)
+    expect(doc.output()).toContain('Contents')
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { scaleRecipe, roundForKitchen, getScaleFactorFor } from '../../src/utils/recipeScaling'
+import type { Recipe } from '../../src/types'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Pancakes',
+  description: '',
+  ingredients: [
+    { ingredientId: 'flour', quantity: 1.5, unit: 'cup' },
+    { ingredientId: 'egg', quantity: 3, unit: 'piece' },
+    { ingredientId: 'milk', quantity: 300, unit: 'ml' },
+  ],
+  instructions: ['Whisk', 'Fry'],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('Recipe Scaling', () => {
+  describe('roundForKitchen', () => {
+    it('should keep whole counts', () => {
+      expect(roundForKitchen(1.5, 'piece')).toBe(2)
+      expect(roundForKitchen(0.3, '')).toBe(1)
+      expect(roundForKitchen(2.4, 'cloves')).toBe(2)
+    })
+
+    it('should round imperial and spoon amounts to fractions', () => {
+      expect(roundForKitchen(0.7, 'cup')).toBeCloseTo(2 / 3)
+      expect(roundForKitchen(1.2, 'tbsp')).toBe(1.25)
+      expect(roundForKitchen(0.01, 'tsp')).toBe(0.125)
+      expect(roundForKitchen(12.4, 'oz')).toBe(12)
+    })
+
+    it('should round metric amounts to sensible steps', () => {
+      expect(roundForKitchen(333.3, 'g')).toBe(335)
+      expect(roundForKitchen(37.5, 'ml')).toBe(38)
+      expect(roundForKitchen(1.25, 'kg')).toBe(1.3)
+      expect(roundForKitchen(0.001, 'l')).toBe(0.001)
+    })
+  })
+
+  it('should compute the factor from servings or take it as is', () => {
+    const recipe = createRecipe()
+    expect(getScaleFactorFor(recipe, { servings: 2 })).toBe(0.5)
+    expect(getScaleFactorFor(recipe, { factor: 3 })).toBe(3)
+    expect(getScaleFactorFor(createRecipe({ servings: 0 }), { servings: 2 })).toBe(1)
+  })
+
+  it('should scale to a servings count with rounding', () => {
+    const scaled = scaleRecipe(createRecipe(), { servings: 2 })
+
+    expect(scaled.servings).toBe(2)
+    expect(scaled.ingredients.map(row => row.quantity)).toEqual([0.75, 2, 150])
+  })
+
+  it('should scale by a factor without rounding when asked', () => {
+    const scaled = scaleRecipe(createRecipe(), { factor: 1 / 3 }, { round: false })
+
+    expect(scaled.servings).toBeCloseTo(4 / 3)
+    expect(scaled.ingredients[1].quantity).toBe(1)
+    expect(scaled.ingredients[2].quantity).toBe(100)
+  })
+
+  it('should never change the stored recipe', () => {
+    const recipe = createRecipe()
+    const snapshot = structuredClone(recipe)
+
+    scaleRecipe(recipe, { servings: 8 })
+    expect(recipe).toEqual(snapshot)
+  })
+})
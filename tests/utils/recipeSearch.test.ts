@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { RecipeSearchIndex, tokenize, getTotalTime } from '../../src/utils/recipeSearch'
+import type { Recipe, Ingredient } from '../../src/types'
+
+const ingredients: Ingredient[] = [
+  { id: 'egg', name: 'Egg', category: 'Dairy', defaultUnit: 'piece', alternativeNames: ['oeuf'] },
+  { id: 'flour', name: 'Flour', category: 'Baking', defaultUnit: 'g', alternativeNames: [] },
+  { id: 'tomato', name: 'Tomato', category: 'Produce', defaultUnit: 'piece', alternativeNames: [] },
+]
+
+const createRecipe = (overrides: Partial<Recipe>): Recipe => ({
+  id: 'recipe',
+  title: 'Recipe',
+  description: '',
+  ingredients: [],
+  instructions: [],
+  prepTime: 10,
+  cookTime: 10,
+  servings: 2,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+const recipes: Recipe[] = [
+  createRecipe({
+    id: 'crepes',
+    title: 'Crêpes',
+    description: 'Thin French pancakes',
+    ingredients: [
+      { ingredientId: 'egg', quantity: 2, unit: 'piece' },
+      { ingredientId: 'flour', quantity: 250, unit: 'g' },
+    ],
+    instructions: ['Whisk everything', 'Rest the batter'],
+    prepTime: 10,
+    cookTime: 20,
+    tags: ['Breakfast', 'French'],
+    updatedAt: new Date('2024-03-01T00:00:00Z'),
+  }),
+  createRecipe({
+    id: 'salad',
+    title: 'Tomato salad',
+    ingredients: [{ ingredientId: 'tomato', quantity: 3, unit: 'piece' }],
+    instructions: ['Slice and season'],
+    prepTime: 5,
+    cookTime: 0,
+    tags: ['Summer'],
+    updatedAt: new Date('2024-02-01T00:00:00Z'),
+  }),
+  createRecipe({
+    id: 'quiche',
+    title: 'Quiche',
+    ingredients: [
+      { ingredientId: 'egg', quantity: 3, unit: 'piece' },
+      { ingredientId: 'tomato', quantity: 1, unit: 'piece' },
+    ],
+    instructions: ['Bake the tart for 40 minutes'],
+    prepTime: 20,
+    cookTime: 40,
+    difficulty: 'medium',
+    tags: ['french'],
+    updatedAt: new Date('2024-04-01T00:00:00Z'),
+  }),
+]
+
+const ids = (results: Recipe[]) => results.map(recipe => recipe.id)
+
+describe('Recipe Search', () => {
+  const index = new RecipeSearchIndex(recipes, ingredients)
+
+  it('should tokenize without case or accents', () => {
+    expect(tokenize('Crêpes, Œufs & Thé!')).toEqual(['crepes', 'œufs', 'the'])
+    expect(getTotalTime({ prepTime: 5, cookTime: 12 })).toBe(17)
+  })
+
+  it('should match titles, descriptions, instructions and ingredient names', () => {
+    expect(ids(index.query({ text: 'crepes' }))).toEqual(['crepes'])
+    expect(ids(index.query({ text: 'pancakes' }))).toEqual(['crepes'])
+    expect(ids(index.query({ text: 'bake' }))).toEqual(['quiche'])
+    expect(ids(index.query({ text: 'tomato', sort: 'title' }))).toEqual(['quiche', 'salad'])
+    expect(ids(index.query({ text: 'oeuf', sort: 'title' }))).toEqual(['crepes', 'quiche'])
+  })
+
+  it('should match word prefixes and require every word', () => {
+    expect(ids(index.query({ text: 'whi' }))).toEqual(['crepes'])
+    expect(ids(index.query({ text: 'egg tom' }))).toEqual(['quiche'])
+    expect(index.query({ text: 'egg chocolate' })).toEqual([])
+  })
+
+  it('should return everything for an empty query', () => {
+    expect(index.query({ text: '  ' })).toHaveLength(3)
+    expect(index.size).toBe(3)
+  })
+
+  it('should filter by tags, difficulty, total time and ingredient', () => {
+    expect(ids(index.query({ tags: ['FRENCH'], sort: 'title' }))).toEqual(['crepes', 'quiche'])
+    expect(ids(index.query({ tags: ['french', 'breakfast'] }))).toEqual(['crepes'])
+    expect(ids(index.query({ difficulties: ['medium', 'hard'] }))).toEqual(['quiche'])
+    expect(ids(index.query({ maxTotalTime: 30, sort: 'title' }))).toEqual(['crepes', 'salad'])
+    expect(ids(index.query({ ingredientIds: ['egg', 'tomato'] }))).toEqual(['quiche'])
+  })
+
+  it('should sort by last update, title or total time', () => {
+    expect(ids(index.query())).toEqual(['quiche', 'crepes', 'salad'])
+    expect(ids(index.query({ sort: 'title' }))).toEqual(['crepes', 'quiche', 'salad'])
+    expect(ids(index.query({ sort: 'totalTime' }))).toEqual(['salad', 'crepes', 'quiche'])
+  })
+})
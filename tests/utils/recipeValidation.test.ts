@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validateRecipe,
+  isRecipeValid,
+  normalizeRecipeDraft,
+  type RecipeDraft,
+} from '../../src/utils/recipeValidation'
+import { toDraft, toFormState } from '../../src/components/recipes/recipeForm'
+
+const createDraft = (overrides: Partial<RecipeDraft> = {}): RecipeDraft => ({
+  title: 'Soupe à l\'oignon',
+  description: 'French onion soup',
+  ingredients: [{ ingredientId: 'onion', quantity: 4, unit: 'piece' }],
+  instructions: ['Slice onions', 'Caramelize', 'Add stock'],
+  prepTime: 15,
+  cookTime: 60,
+  servings: 4,
+  difficulty: 'medium',
+  tags: ['soup'],
+  ...overrides,
+})
+
+describe('Recipe Validation', () => {
+  it('should accept a complete recipe', () => {
+    const errors = validateRecipe(createDraft())
+    expect(errors).toEqual({})
+    expect(isRecipeValid(errors)).toBe(true)
+  })
+
+  it('should require a title and at least one step', () => {
+    const errors = validateRecipe(createDraft({ title: '   ', instructions: ['', '  '] }))
+
+    expect(errors.title).toBe('Title is required')
+    expect(errors.instructions).toBe('Add at least one step')
+  })
+
+  it('should reject negative or fractional times', () => {
+    const errors = validateRecipe(createDraft({ prepTime: -5, cookTime: 12.5 }))
+
+    expect(errors.prepTime).toBeDefined()
+    expect(errors.cookTime).toBeDefined()
+  })
+
+  it('should require at least one whole serving', () => {
+    expect(validateRecipe(createDraft({ servings: 0 })).servings).toBeDefined()
+    expect(validateRecipe(createDraft({ servings: NaN })).servings).toBeDefined()
+    expect(validateRecipe(createDraft({ servings: 2.5 })).servings).toBeDefined()
+  })
+
+  it('should reject non-http image URLs', () => {
+    expect(validateRecipe(createDraft({ imageUrl: 'javascript:alert(1)' })).imageUrl).toBeDefined()
+    expect(validateRecipe(createDraft({ imageUrl: 'https://example.com/soup.jpg' })).imageUrl).toBeUndefined()
+  })
+
+  it('should report errors per ingredient row', () => {
+    const errors = validateRecipe(createDraft({
+      ingredients: [
+        { ingredientId: 'onion', quantity: 4, unit: 'piece' },
+        { ingredientId: '', quantity: 0, unit: 'g' },
+      ],
+    }))
+
+    expect(errors.ingredients).toBeDefined()
+    expect(errors.ingredientRows?.[0]).toBeUndefined()
+    expect(errors.ingredientRows?.[1]).toEqual({
+      ingredientId: 'Choose an ingredient',
+      quantity: 'Enter a quantity greater than 0',
+    })
+  })
+
+  it('should check ingredient ids against the registry when provided', () => {
+    const errors = validateRecipe(createDraft(), new Set(['butter']))
+    expect(errors.ingredientRows?.[0]?.ingredientId).toBe('Unknown ingredient')
+  })
+
+  describe('normalizeRecipeDraft', () => {
+    it('should trim fields, drop empty steps and de-duplicate tags', () => {
+      const normalized = normalizeRecipeDraft(createDraft({
+        title: '  Soup  ',
+        instructions: ['  Slice ', '', 'Simmer'],
+        tags: ['Soup', 'soup ', ' ', 'French'],
+        imageUrl: '  ',
+        ingredients: [{ ingredientId: 'onion', quantity: 4, unit: ' piece ', notes: '  ' }],
+      }))
+
+      expect(normalized.title).toBe('Soup')
+      expect(normalized.instructions).toEqual(['Slice', 'Simmer'])
+      expect(normalized.tags).toEqual(['Soup', 'French'])
+      expect(normalized.imageUrl).toBeUndefined()
+      expect(normalized.ingredients[0]).toEqual({ ingredientId: 'onion', quantity: 4, unit: 'piece', notes: undefined })
+    })
+  })
+
+  describe('Editor form conversion', () => {
+    it('should round-trip a draft through the form state', () => {
+      const draft = createDraft({ imageUrl: 'https://example.com/soup.jpg' })
+      expect(toDraft(toFormState(draft))).toEqual({ ...draft, ingredients: [{ ...draft.ingredients[0], notes: undefined }] })
+    })
+
+    it('should accept comma decimals and treat empty numbers as invalid quantities', () => {
+      const form = toFormState(createDraft())
+      form.ingredients[0].quantity = '1,5'
+      form.servings = ''
+
+      const draft = toDraft(form)
+      expect(draft.ingredients[0].quantity).toBe(1.5)
+      expect(Number.isNaN(draft.servings)).toBe(true)
+    })
+
+    it('should start new recipes with one empty step', () => {
+      const form = toFormState()
+      expect(form.instructions).toHaveLength(1)
+      expect(form.servings).toBe('4')
+    })
+  })
+})
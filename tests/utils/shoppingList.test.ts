@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  groupItemsByAisle,
+  getListProgress,
+  getListTotal,
+  createManualItem,
+  NEXT_STATUS,
+} from '../../src/utils/shoppingList'
+import type { Ingredient, ShoppingListItem } from '../../src/types'
+
+const ingredients: Ingredient[] = [
+  { id: 'milk', name: 'Milk', category: 'Dairy', defaultUnit: 'l', alternativeNames: ['lait'] },
+  { id: 'apple', name: 'Apple', category: 'Produce', defaultUnit: 'piece', alternativeNames: [] },
+  { id: 'butter', name: 'Butter', category: 'Dairy', defaultUnit: 'g', alternativeNames: [] },
+]
+
+const items: ShoppingListItem[] = [
+  { ingredientId: 'milk', quantity: 1, unit: 'l', purchased: true, price: 1.2 },
+  { ingredientId: '', name: 'Batteries', quantity: 4, unit: '', purchased: false },
+  { ingredientId: 'apple', quantity: 6, unit: 'piece', purchased: false, price: 2.5 },
+  { ingredientId: 'butter', quantity: 250, unit: 'g', purchased: false },
+]
+
+describe('Shopping List Helpers', () => {
+  it('should group items by aisle with manual items last', () => {
+    const groups = groupItemsByAisle(items, ingredients)
+
+    expect(groups.map(group => group.category)).toEqual(['Dairy', 'Produce', 'Other'])
+    expect(groups[0].entries.map(entry => entry.label)).toEqual(['Butter', 'Milk'])
+    expect(groups[2].entries[0]).toMatchObject({ label: 'Batteries', index: 1 })
+  })
+
+  it('should move purchased items to the end of their aisle in store mode', () => {
+    const [dairy] = groupItemsByAisle(items, ingredients, true)
+    expect(dairy.entries.map(entry => entry.label)).toEqual(['Butter', 'Milk'])
+
+    const [reordered] = groupItemsByAisle(
+      [{ ...items[3], purchased: true }, { ...items[0], purchased: false }],
+      ingredients,
+      true
+    )
+    expect(reordered.entries.map(entry => entry.label)).toEqual(['Milk', 'Butter'])
+  })
+
+  it('should count progress and total prices', () => {
+    expect(getListProgress(items)).toEqual({ purchased: 1, total: 4 })
+    expect(getListTotal(items)).toBeCloseTo(3.7)
+  })
+
+  it('should link typed items to the registry when possible', () => {
+    expect(createManualItem(' Lait ', ingredients)).toEqual({
+      ingredientId: 'milk', quantity: 1, unit: 'l', purchased: false,
+    })
+    expect(createManualItem('Batteries', ingredients)).toEqual({
+      ingredientId: '', name: 'Batteries', quantity: 1, unit: '', purchased: false,
+    })
+    expect(createManualItem('  ', ingredients)).toBeNull()
+  })
+
+  it('should move status from draft to active to completed', () => {
+    expect(NEXT_STATUS.draft).toBe('active')
+    expect(NEXT_STATUS.active).toBe('completed')
+  })
+})
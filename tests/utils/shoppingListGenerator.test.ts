@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateShoppingList,
+  generateShoppingListItems,
+  getScaleFactor,
+  mergeShoppingListItems,
+  subtractPantryStock,
+} from '../../src/utils/shoppingListGenerator'
+import { convertQuantity, normalizeUnit, simplifyQuantity } from '../../src/utils/units'
+import type { PantryItem, Recipe } from '../../src/types'
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Crêpes',
+  description: '',
+  ingredients: [],
+  instructions: ['Whisk', 'Fry'],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+const createStock = (overrides: Partial<PantryItem> = {}): PantryItem => ({
+  id: 's1',
+  ingredientId: 'flour',
+  quantity: 100,
+  unit: 'g',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+const crepes = createRecipe({
+  ingredients: [
+    { ingredientId: 'flour', quantity: 250, unit: 'g' },
+    { ingredientId: 'milk', quantity: 0.5, unit: 'l' },
+    { ingredientId: 'egg', quantity: 3, unit: 'piece' },
+  ],
+})
+
+const cake = createRecipe({
+  id: 'r2',
+  title: 'Cake',
+  servings: 8,
+  ingredients: [
+    { ingredientId: 'flour', quantity: 1, unit: 'kg' },
+    { ingredientId: 'milk', quantity: 20, unit: 'cl' },
+    { ingredientId: 'egg', quantity: 100, unit: 'g' },
+  ],
+})
+
+describe('Units', () => {
+  it('should normalize aliases', () => {
+    expect(normalizeUnit(' Grams ')).toBe('g')
+    expect(normalizeUnit('Litres')).toBe('l')
+    expect(normalizeUnit('Piece')).toBe('piece')
+  })
+
+  it('should convert within a dimension only', () => {
+    expect(convertQuantity(1.5, 'kg', 'g')).toBe(1500)
+    expect(convertQuantity(25, 'cl', 'ml')).toBe(250)
+    expect(convertQuantity(1, 'kg', 'ml')).toBeNull()
+    expect(convertQuantity(2, 'piece', 'Piece')).toBe(2)
+    expect(convertQuantity(2, 'piece', 'g')).toBeNull()
+  })
+
+  it('should pick a readable display unit', () => {
+    expect(simplifyQuantity(1250, 'g')).toEqual({ quantity: 1.25, unit: 'kg' })
+    expect(simplifyQuantity(50, 'cl')).toEqual({ quantity: 500, unit: 'ml' })
+  })
+})
+
+describe('Shopping List Generator', () => {
+  it('should scale by the requested servings', () => {
+    expect(getScaleFactor({ recipe: crepes, servings: 2 })).toBe(0.5)
+    expect(getScaleFactor({ recipe: crepes })).toBe(1)
+
+    const items = generateShoppingListItems([{ recipe: crepes, servings: 8 }])
+    expect(items).toEqual([
+      { ingredientId: 'flour', quantity: 500, unit: 'g', purchased: false },
+      { ingredientId: 'milk', quantity: 1, unit: 'l', purchased: false },
+      { ingredientId: 'egg', quantity: 6, unit: 'piece', purchased: false },
+    ])
+  })
+
+  it('should sum identical ingredients across units', () => {
+    const items = generateShoppingListItems([{ recipe: crepes }, { recipe: cake, servings: 4 }])
+
+    expect(items).toContainEqual({ ingredientId: 'flour', quantity: 750, unit: 'g', purchased: false })
+    expect(items).toContainEqual({ ingredientId: 'milk', quantity: 600, unit: 'ml', purchased: false })
+  })
+
+  it('should keep incompatible units on separate items', () => {
+    const items = generateShoppingListItems([{ recipe: crepes }, { recipe: cake }])
+
+    expect(items.filter(item => item.ingredientId === 'egg')).toEqual([
+      { ingredientId: 'egg', quantity: 3, unit: 'piece', purchased: false },
+      { ingredientId: 'egg', quantity: 100, unit: 'g', purchased: false },
+    ])
+  })
+
+  it('should fold volumes into weights when the density is known', () => {
+    const pancakes = createRecipe({
+      id: 'r3',
+      ingredients: [{ ingredientId: 'flour', quantity: 2, unit: 'cups' }],
+    })
+    const flour = { id: 'flour', name: 'Flour', category: 'Baking', defaultUnit: 'g', alternativeNames: [], density: 0.53 }
+
+    const items = generateShoppingListItems([{ recipe: crepes }, { recipe: pancakes }], { ingredients: [flour] })
+    expect(items[0]).toEqual({ ingredientId: 'flour', quantity: 500.78, unit: 'g', purchased: false })
+
+    // Without weights to add to, volumes stay volumes
+    const [alone] = generateShoppingListItems([{ recipe: pancakes }], { ingredients: [flour] })
+    expect(alone).toMatchObject({ quantity: 473.18, unit: 'ml' })
+  })
+
+  it('should express totals in the requested system', () => {
+    const [flour] = generateShoppingListItems([{ recipe: crepes }], { unitSystem: 'imperial' })
+    expect(flour).toMatchObject({ quantity: 8.82, unit: 'oz' })
+  })
+
+  it('should add to items still to buy and keep purchased ones apart', () => {
+    const existing = [
+      { ingredientId: 'flour', quantity: 1, unit: 'kg', purchased: false },
+      { ingredientId: 'egg', quantity: 6, unit: 'piece', purchased: true },
+      { ingredientId: '', name: 'Foil', quantity: 1, unit: '', purchased: false },
+    ]
+    const merged = mergeShoppingListItems(existing, generateShoppingListItems([{ recipe: crepes }]))
+
+    expect(merged).toEqual([
+      { ingredientId: 'flour', quantity: 1.25, unit: 'kg', purchased: false },
+      existing[1],
+      existing[2],
+      { ingredientId: 'milk', quantity: 500, unit: 'ml', purchased: false },
+      { ingredientId: 'egg', quantity: 3, unit: 'piece', purchased: false },
+    ])
+    expect(existing[0].quantity).toBe(1)
+  })
+
+  it('should take pantry stock off the totals', () => {
+    const pantry = [
+      createStock({ quantity: 0.1, unit: 'kg' }),
+      createStock({ id: 's2', ingredientId: 'egg', quantity: 6, unit: 'piece' }),
+      createStock({ id: 's3', ingredientId: 'milk', quantity: 2, unit: 'piece' }),
+    ]
+
+    expect(generateShoppingListItems([{ recipe: crepes }], { pantry })).toEqual([
+      { ingredientId: 'flour', quantity: 150, unit: 'g', purchased: false },
+      { ingredientId: 'milk', quantity: 500, unit: 'ml', purchased: false },
+    ])
+  })
+
+  it('should use each stock entry up only once', () => {
+    const items = [
+      { ingredientId: 'flour', quantity: 80, unit: 'g', purchased: false },
+      { ingredientId: 'flour', quantity: 2, unit: 'cup', purchased: false },
+      { ingredientId: 'flour', quantity: 50, unit: 'g', purchased: false },
+    ]
+
+    expect(subtractPantryStock(items, [createStock()])).toEqual([
+      items[1],
+      { ingredientId: 'flour', quantity: 30, unit: 'g', purchased: false },
+    ])
+  })
+
+  it('should create a draft list', () => {
+    const now = new Date('2024-05-01T10:00:00Z')
+    const list = generateShoppingList([{ recipe: crepes }], { name: ' Weekend ', now })
+
+    expect(list.name).toBe('Weekend')
+    expect(list.status).toBe('draft')
+    expect(list.items).toHaveLength(3)
+    expect(list.createdAt).toBe(now)
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findStepDurations,
+  formatTimer,
+  getRemainingMs,
+  isTimerDone,
+  pauseTimer,
+  resumeTimer,
+  startTimer,
+} from '../../src/utils/stepTimers'
+
+describe('Step Timers', () => {
+  describe('findStepDurations', () => {
+    it('should find minutes, hours and seconds', () => {
+      expect(findStepDurations('Simmer 20 minutes, stirring often.')).toEqual([{ label: '20 minutes', seconds: 1200 }])
+      expect(findStepDurations('Bake for 1.5 hours')).toEqual([{ label: '1.5 hours', seconds: 5400 }])
+      expect(findStepDurations('Whisk for 30 sec')).toEqual([{ label: '30 sec', seconds: 30 }])
+    })
+
+    it('should use the lower bound of a range', () => {
+      expect(findStepDurations('Roast 25-30 min until golden')).toEqual([{ label: '25-30 min', seconds: 1500 }])
+      expect(findStepDurations('Cook 10 to 12 minutes')[0].seconds).toBe(600)
+    })
+
+    it('should read hours with minutes', () => {
+      expect(findStepDurations('Braise 1 hour 30 minutes')[0].seconds).toBe(5400)
+      expect(findStepDurations('Cuire 1h30 à feu doux')).toEqual([{ label: '1h30', seconds: 5400 }])
+      expect(findStepDurations('Laisser reposer 2 h 15')[0].seconds).toBe(8100)
+    })
+
+    it('should read French and spelled-out durations', () => {
+      expect(findStepDurations('Laisser mijoter 45 minutes puis 2 heures au frais').map(d => d.seconds)).toEqual([2700, 7200])
+      expect(findStepDurations('Rest for half an hour')[0].seconds).toBe(1800)
+      expect(findStepDurations('Laisser lever une heure')[0].seconds).toBe(3600)
+    })
+
+    it('should ignore numbers that are not durations', () => {
+      expect(findStepDurations('Add 2 eggs and 4 servings of rice')).toEqual([])
+      expect(findStepDurations('Preheat the oven to 180°C')).toEqual([])
+    })
+  })
+
+  describe('Timers', () => {
+    it('should count down from when it was started', () => {
+      const timer = startTimer({ label: '1 min', seconds: 60 }, 2, 1_000)
+
+      expect(timer.step).toBe(2)
+      expect(getRemainingMs(timer, 31_000)).toBe(30_000)
+      expect(isTimerDone(timer, 61_000)).toBe(true)
+      expect(getRemainingMs(timer, 90_000)).toBe(0)
+    })
+
+    it('should keep the time left while paused', () => {
+      const paused = pauseTimer(startTimer({ label: '1 min', seconds: 60 }, 0, 0), 20_000)
+
+      expect(getRemainingMs(paused, 500_000)).toBe(40_000)
+      expect(getRemainingMs(resumeTimer(paused, 500_000), 510_000)).toBe(30_000)
+    })
+
+    it('should format the time left', () => {
+      expect(formatTimer(245_000)).toBe('4:05')
+      expect(formatTimer(3_845_000)).toBe('1:04:05')
+      expect(formatTimer(400)).toBe('0:01')
+    })
+  })
+})
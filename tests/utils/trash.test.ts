@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import type { Ingredient, MealPlan, PantryItem, Recipe } from '../../src/types'
+import {
+  EMPTY_TRASH,
+  describeTrashedEntity,
+  getDaysUntilPurge,
+  isTrashExpired,
+  listTrash,
+} from '../../src/utils/trash'
+
+const now = new Date('2024-03-31T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'r1',
+  title: 'Crêpes',
+  description: '',
+  ingredients: [],
+  instructions: [],
+  prepTime: 10,
+  cookTime: 20,
+  servings: 4,
+  difficulty: 'easy',
+  tags: [],
+  createdAt: new Date('2024-02-02T00:00:00Z'),
+  updatedAt: new Date('2024-02-02T00:00:00Z'),
+  ...overrides,
+})
+
+const flour: Ingredient = { id: 'i1', name: 'Flour', category: 'baking', defaultUnit: 'g', alternativeNames: [] }
+
+describe('Trash Utils', () => {
+  describe('isTrashExpired', () => {
+    it('should expire entities once the retention period has passed', () => {
+      expect(isTrashExpired(createRecipe({ deletedAt: daysAgo(30) }), 30, now)).toBe(true)
+      expect(isTrashExpired(createRecipe({ deletedAt: daysAgo(29) }), 30, now)).toBe(false)
+    })
+
+    it('should never expire entities that are not in the trash', () => {
+      expect(isTrashExpired(createRecipe(), 0, now)).toBe(false)
+    })
+  })
+
+  describe('getDaysUntilPurge', () => {
+    it('should round the days left up and stop at zero', () => {
+      expect(getDaysUntilPurge(createRecipe({ deletedAt: daysAgo(0.5) }), 7, now)).toBe(7)
+      expect(getDaysUntilPurge(createRecipe({ deletedAt: daysAgo(6.5) }), 7, now)).toBe(1)
+      expect(getDaysUntilPurge(createRecipe({ deletedAt: daysAgo(10) }), 7, now)).toBe(0)
+    })
+  })
+
+  describe('describeTrashedEntity', () => {
+    it('should name meal plans and pantry items after their recipe or ingredient', () => {
+      const plan: MealPlan = {
+        id: 'p1',
+        date: '2024-03-30',
+        slot: 'dinner',
+        recipeId: 'r1',
+        servings: 2,
+        createdAt: now,
+        updatedAt: now,
+      }
+      const lookups = { recipes: [createRecipe()], ingredients: [flour] }
+
+      expect(describeTrashedEntity('recipes', createRecipe(), lookups)).toBe('Crêpes')
+      expect(describeTrashedEntity('mealPlans', plan, lookups)).toBe('Crêpes (2024-03-30, dinner)')
+      const stock: PantryItem = { id: 's1', ingredientId: 'i1', quantity: 500, unit: 'g', createdAt: now, updatedAt: now }
+      expect(describeTrashedEntity('pantryItems', stock, lookups)).toBe('Flour (500 g)')
+    })
+  })
+
+  describe('listTrash', () => {
+    it('should list every collection, most recently deleted first', () => {
+      const items = listTrash({
+        ...EMPTY_TRASH,
+        recipes: [createRecipe({ deletedAt: daysAgo(3) })],
+        ingredients: [{ ...flour, deletedAt: daysAgo(1) }],
+      })
+
+      expect(items.map(({ collection, entity }) => `${collection}/${entity.id}`)).toEqual(['ingredients/i1', 'recipes/r1'])
+    })
+  })
+})
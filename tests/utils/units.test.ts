@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeUnit,
+  isKnownUnit,
+  getUnitDimension,
+  convertQuantity,
+  areUnitsCompatible,
+  toBaseUnit,
+  simplifyQuantity,
+  convertToPreference,
+  formatQuantity,
+} from '../../src/utils/units'
+
+describe('Units', () => {
+  describe('normalizeUnit', () => {
+    it('should recognise English and French spellings', () => {
+      expect(normalizeUnit('Tablespoons')).toBe('tbsp')
+      expect(normalizeUnit('c. à s.')).toBe('tbsp')
+      expect(normalizeUnit('cuillère à café')).toBe('tsp')
+      expect(normalizeUnit('tasses')).toBe('tasse')
+      expect(normalizeUnit('Livres')).toBe('livre')
+      expect(normalizeUnit('Gousses')).toBe('clove')
+      expect(normalizeUnit('pincée')).toBe('pinch')
+      expect(normalizeUnit('lbs.')).toBe('lb')
+      expect(normalizeUnit('fluid  ounces')).toBe('fl oz')
+    })
+
+    it('should tell T and t apart', () => {
+      expect(normalizeUnit('T')).toBe('tbsp')
+      expect(normalizeUnit('t')).toBe('tsp')
+    })
+
+    it('should keep unknown units comparable', () => {
+      expect(normalizeUnit(' Bunch ')).toBe('bunch')
+      expect(isKnownUnit('bunch')).toBe(false)
+      expect(getUnitDimension('dozen')).toBe('count')
+    })
+  })
+
+  describe('convertQuantity', () => {
+    it('should convert between metric and imperial units', () => {
+      expect(convertQuantity(1, 'lb', 'g')).toBeCloseTo(453.59)
+      expect(convertQuantity(1, 'cup', 'ml')).toBeCloseTo(236.59)
+      expect(convertQuantity(3, 'tsp', 'tbsp')).toBeCloseTo(1)
+      expect(convertQuantity(16, 'oz', 'lb')).toBeCloseTo(1)
+    })
+
+    it('should use French sizes for the livre and the tasse', () => {
+      expect(convertQuantity(1, 'livre', 'g')).toBe(500)
+      expect(convertQuantity(2, 'tasses', 'ml')).toBe(500)
+    })
+
+    it('should convert counts only within the same kind', () => {
+      expect(convertQuantity(2, 'dozen', 'piece')).toBe(24)
+      expect(convertQuantity(2, 'clove', 'piece')).toBeNull()
+      expect(convertQuantity(1, 'pinch', 'g')).toBeNull()
+    })
+
+    it('should convert between volume and mass with a density', () => {
+      expect(convertQuantity(1, 'cup', 'g')).toBeNull()
+      expect(convertQuantity(1, 'cup', 'g', 0.53)).toBeCloseTo(125.39)
+      expect(convertQuantity(100, 'g', 'ml', 0.5)).toBe(200)
+      expect(areUnitsCompatible('tbsp', 'oz', 0.9)).toBe(true)
+      expect(areUnitsCompatible('piece', 'g', 0.9)).toBe(false)
+    })
+  })
+
+  it('should express quantities in base units', () => {
+    expect(toBaseUnit(2, 'kg')).toEqual({ quantity: 2000, unit: 'g' })
+    expect(toBaseUnit(1, 'dozen')).toEqual({ quantity: 12, unit: 'piece' })
+    expect(toBaseUnit(100, 'ml', 1.03)).toEqual({ quantity: 103, unit: 'g' })
+    expect(toBaseUnit(3, 'Bunch')).toEqual({ quantity: 3, unit: 'bunch' })
+  })
+
+  describe('simplifyQuantity', () => {
+    it('should stay in the unit\'s own system by default', () => {
+      expect(simplifyQuantity(2000, 'ml')).toEqual({ quantity: 2, unit: 'l' })
+      expect(simplifyQuantity(0.5, 'g')).toEqual({ quantity: 500, unit: 'mg' })
+      expect(simplifyQuantity(24, 'oz')).toEqual({ quantity: 1.5, unit: 'lb' })
+    })
+
+    it('should convert to the requested system', () => {
+      const cups = simplifyQuantity(500, 'ml', 'imperial')
+      expect(cups.unit).toBe('cup')
+      expect(cups.quantity).toBeCloseTo(2.11)
+
+      expect(simplifyQuantity(2, 'lb', 'metric').unit).toBe('g')
+      expect(simplifyQuantity(1, 'tsp', 'imperial')).toEqual({ quantity: 1, unit: 'tsp' })
+    })
+
+    it('should leave counts alone', () => {
+      expect(simplifyQuantity(18, 'piece', 'imperial')).toEqual({ quantity: 18, unit: 'piece' })
+    })
+  })
+
+  it('should apply display preferences without touching spoons', () => {
+    expect(convertToPreference(2, 'cups', 'original')).toEqual({ quantity: 2, unit: 'cups' })
+    expect(convertToPreference(2, 'tbsp', 'metric')).toEqual({ quantity: 2, unit: 'tbsp' })
+    expect(convertToPreference(1, 'kg', 'imperial').unit).toBe('lb')
+    expect(formatQuantity(2, '')).toBe('2')
+  })
+
+  it('should format imperial amounts with fractions and metric ones with decimals', () => {
+    expect(formatQuantity(1 / 3, 'cup')).toBe('⅓ cup')
+    expect(formatQuantity(1.5, 'tbsp')).toBe('1½ tbsp')
+    expect(formatQuantity(0.4, 'cup')).toBe('0.4 cup')
+    expect(formatQuantity(1.5, 'kg')).toBe('1.5 kg')
+    expect(formatQuantity(2.004, 'g')).toBe('2 g')
+  })
+})
@@ -1,15 +1,32 @@
-import { defineConfig } from 'vite'
+import { copyFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
 
+const OUT_DIR = 'dist'
+
+// GitHub Pages answers unknown paths with 404.html; serving the app there
+// lets deep links such as /recettier/recipes/<id> load and be routed
+const spaFallback = (): Plugin => ({
+  name: 'spa-404-fallback',
+  apply: 'build',
+  closeBundle() {
+    copyFileSync(resolve(OUT_DIR, 'index.html'), resolve(OUT_DIR, '404.html'))
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    spaFallback(),
     VitePWA({
       registerType: 'autoUpdate',
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        // Background sync handler for the outbox (see src/services/sync)
+        importScripts: ['sw-sync.js'],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/apis\.google\.com\/.*/i,
@@ -82,7 +99,7 @@ export default defineConfig({
   ],
   base: '/recettier/',
   build: {
-    outDir: 'dist',
+    outDir: OUT_DIR,
     sourcemap: true,
   },
   server: {